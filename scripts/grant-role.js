@@ -0,0 +1,19 @@
+// Assigns a role to an existing account, e.g. to bootstrap the first superadmin.
+// Usage: node scripts/grant-role.js <email> <role>
+import { assignRole, RoleError, ROLES } from '../server/roles.js';
+
+const [email, role] = process.argv.slice(2);
+
+if (!email || !role) {
+  console.error(`Usage: node scripts/grant-role.js <email> <${ROLES.join('|')}>`);
+  process.exit(1);
+}
+
+try {
+  const assignment = await assignRole({ email, role, actor: { email: 'cli' } });
+  console.log(`${assignment.email} is now ${assignment.role}`);
+  process.exit(0);
+} catch (error) {
+  console.error(error instanceof RoleError ? error.message : `Role assignment failed: ${error.message}`);
+  process.exit(1);
+}
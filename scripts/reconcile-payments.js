@@ -0,0 +1,19 @@
+// Reconciles teams stuck at paymentStatus 'initiated' and prints the report.
+// Usage: node scripts/reconcile-payments.js [--dry-run]
+import { reconcilePayments } from '../server/reconcile.js';
+
+const dryRun = process.argv.includes('--dry-run');
+
+try {
+  const report = await reconcilePayments({ dryRun, actor: 'cli' });
+  console.log(JSON.stringify(report, null, 2));
+  console.log(
+    `\nChecked ${report.checked} teams: ${report.settled.length} settled, ${report.failed.length} failed, ` +
+    `${report.pending.length} pending, ${report.ambiguous.length} ambiguous, ${report.errors.length} errors` +
+    (dryRun ? ' (dry run, nothing written)' : '')
+  );
+  process.exit(report.errors.length > 0 ? 1 : 0);
+} catch (error) {
+  console.error('Reconciliation failed:', error.message);
+  process.exit(1);
+}
@@ -0,0 +1,40 @@
+// Posts a signed Instamojo-style webhook to a locally running server.
+// Usage: INSTAMOJO_PRIVATE_SALT=... node scripts/webhook-stub.js <payment_request_id> [Credit|Failed] [amount]
+import axios from 'axios';
+import crypto from 'crypto';
+import { computeWebhookMac } from '../server/gateways/instamojo.js';
+
+const [paymentRequestId, status = 'Credit', amount = '500.00'] = process.argv.slice(2);
+const salt = process.env.INSTAMOJO_PRIVATE_SALT;
+const target = process.env.WEBHOOK_URL || `http://localhost:${process.env.PORT || 5000}/api/webhook`;
+
+if (!paymentRequestId || !salt) {
+  console.error('Usage: INSTAMOJO_PRIVATE_SALT=... node scripts/webhook-stub.js <payment_request_id> [Credit|Failed] [amount]');
+  process.exit(1);
+}
+
+const payload = {
+  amount,
+  buyer: 'stub@example.com',
+  buyer_name: 'Webhook Stub',
+  buyer_phone: '+919999999999',
+  currency: 'INR',
+  fees: '0.00',
+  longurl: `https://test.instamojo.com/@stub/${paymentRequestId}`,
+  payment_id: process.env.PAYMENT_ID || `MOJO${crypto.randomBytes(6).toString('hex').toUpperCase()}`,
+  payment_request_id: paymentRequestId,
+  purpose: 'Startup Spark 2025 Registration',
+  shorturl: '',
+  status
+};
+payload.mac = computeWebhookMac(payload, salt);
+
+try {
+  const response = await axios.post(target, new URLSearchParams(payload).toString(), {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+  });
+  console.log(`${response.status} ${response.data} (payment_id ${payload.payment_id})`);
+} catch (error) {
+  console.error(`${error.response?.status || 'ERR'} ${error.response?.data || error.message}`);
+  process.exit(1);
+}
@@ -0,0 +1,370 @@
+import { db, FieldValue } from './firebaseAdmin.js';
+import { gateway } from './gateways/index.js';
+import { recordAudit } from './audit.js';
+import { amountsMatch, computeTeamFee } from './pricing.js';
+
+export const MANUAL_PAYMENT_METHODS = ['cash', 'upi', 'bank_transfer', 'other'];
+
+// Money was received for these; an underpayment is usually returned in full
+const REFUNDABLE_STATUSES = ['paid', 'amount_mismatch'];
+
+export class AdjustmentError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Adjustments are append-only: entries are added, never edited or deleted
+const ledger = () => db.collection('payment_adjustments');
+
+const actorFields = (actor) => ({
+  createdBy: actor.email || null,
+  createdByUid: actor.uid || null,
+  createdAt: new Date().toISOString()
+});
+
+const toAmount = (value) => {
+  const amount = Math.round(Number(value) * 100) / 100;
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new AdjustmentError('Enter an amount greater than zero.');
+  }
+  return amount;
+};
+
+// Refunds held against a payment, counting any still waiting on the gateway.
+// Payments refunded before the running total was kept fall back to the ledger.
+const refundedSoFar = async (tx, paymentRef, payment) => {
+  if (payment.refundedAmount !== undefined) {
+    return payment.refundedAmount;
+  }
+  const snap = await tx.get(ledger().where('paymentDocId', '==', paymentRef.id));
+  return snap.docs
+    .map((doc) => doc.data())
+    .filter((entry) => entry.type === 'refund')
+    .reduce((sum, entry) => sum + entry.amount, 0);
+};
+
+/**
+ * A team stays paid while any of the money it paid is still held: a manual
+ * registration payment or a paid gateway payment that is not fully refunded.
+ * Refunding a duplicate payment therefore leaves the team paid. The payment
+ * or manual entry named here is taken as refunded by `refundedTotal`, since
+ * the refund being written in `tx` is not in the ledger yet.
+ */
+const teamStillPaid = async (tx, teamId, { paymentDocId = null, adjustmentId = null, refundedTotal }) => {
+  const [paymentsSnap, ledgerSnap] = await Promise.all([
+    tx.get(db.collection('payments').where('teamId', '==', teamId)),
+    tx.get(ledger().where('teamId', '==', teamId))
+  ]);
+  const entries = ledgerSnap.docs.map((doc) => ({ id: doc.id, ...doc.data() }));
+  const refundsOf = (field, id) => entries
+    .filter((entry) => entry.type === 'refund' && entry[field] === id)
+    .reduce((sum, entry) => sum + entry.amount, 0);
+
+  // A roster fee is paid on top of the registration, so it does not count here
+  const manualHeld = entries.some((entry) => {
+    if (entry.type !== 'manual_payment' || entry.purpose === 'roster_fee') return false;
+    const refunded = entry.id === adjustmentId ? refundedTotal : refundsOf('adjustmentId', entry.id);
+    return refunded < entry.amount - 0.001;
+  });
+  if (manualHeld) {
+    return true;
+  }
+
+  return paymentsSnap.docs.some((doc) => {
+    const payment = doc.data();
+    if (payment.status !== 'paid') return false;
+    const refunded = doc.id === paymentDocId
+      ? refundedTotal
+      : Math.max(payment.refundedAmount || 0, refundsOf('paymentDocId', doc.id));
+    return refunded < Number(payment.amount) - 0.001;
+  });
+};
+
+/**
+ * Refunds all or part of a paid payment. Gateway payments are refunded through
+ * the gateway unless `offline` is set (money returned by hand). The amount is
+ * held on the payment before the gateway is called, so two refunds at once
+ * cannot both pass the limit, and released again if the gateway refuses.
+ * The team moves to 'refunded' once none of its payments are still held.
+ */
+export const issueRefund = async ({ paymentDocId, amount, reason, offline = false, actor }) => {
+  if (!reason?.trim()) {
+    throw new AdjustmentError('A reason is required for refunds.');
+  }
+  const refundAmount = toAmount(amount);
+  const paymentRef = db.collection('payments').doc(paymentDocId);
+
+  const { payment, refunded } = await db.runTransaction(async (tx) => {
+    const paymentSnap = await tx.get(paymentRef);
+    if (!paymentSnap.exists) {
+      throw new AdjustmentError('Payment record not found.', 404);
+    }
+
+    const payment = paymentSnap.data();
+    if (!REFUNDABLE_STATUSES.includes(payment.status)) {
+      throw new AdjustmentError('Only paid payments can be refunded.');
+    }
+
+    const refunded = await refundedSoFar(tx, paymentRef, payment);
+    const refundable = Number(payment.amount) - refunded;
+    if (refundAmount > refundable + 0.001) {
+      throw new AdjustmentError(`At most ₹${refundable.toFixed(2)} can still be refunded for this payment.`);
+    }
+    if (!offline && !payment.payment_id) {
+      throw new AdjustmentError('This payment has no gateway payment ID; record it as an offline refund.');
+    }
+
+    tx.update(paymentRef, { refundedAmount: refunded + refundAmount });
+    return { payment, refunded };
+  });
+
+  let gatewayRefund = null;
+  if (!offline) {
+    try {
+      gatewayRefund = await gateway.refund({
+        paymentId: payment.payment_id,
+        amount: refundAmount,
+        reason: reason.trim()
+      });
+    } catch (error) {
+      await paymentRef.update({ refundedAmount: FieldValue.increment(-refundAmount) });
+      throw error;
+    }
+  }
+
+  const entry = {
+    type: 'refund',
+    paymentDocId,
+    paymentId: payment.payment_id || null,
+    teamId: payment.teamId || null,
+    amount: refundAmount,
+    reason: reason.trim(),
+    method: offline ? 'offline' : gateway.name,
+    refundId: gatewayRefund?.refundId || null,
+    refundStatus: gatewayRefund?.status || null,
+    ...actorFields(actor)
+  };
+  const refundedTotal = refunded + refundAmount;
+  const fullyRefunded = refundedTotal >= Number(payment.amount) - 0.001;
+  const entryRef = ledger().doc();
+
+  const teamRefunded = await db.runTransaction(async (tx) => {
+    const teamRef = payment.teamId ? db.collection('teams').doc(payment.teamId) : null;
+    const teamSnap = teamRef ? await tx.get(teamRef) : null;
+    const refundTeam = Boolean(teamSnap?.exists)
+      && teamSnap.data().paymentStatus === 'paid'
+      && !(await teamStillPaid(tx, payment.teamId, { paymentDocId, refundedTotal }));
+
+    tx.create(entryRef, entry);
+    if (refundTeam) {
+      tx.update(teamRef, {
+        paymentStatus: 'refunded',
+        paymentRefundedAt: entry.createdAt
+      });
+    }
+    await recordAudit({
+      actor,
+      action: 'payment.refund',
+      target: `payments/${paymentDocId}`,
+      before: { refunded },
+      after: { refunded: refundedTotal, ...(refundTeam && { teamPaymentStatus: 'refunded' }) },
+      metadata: { adjustmentId: entryRef.id, teamId: entry.teamId, method: entry.method, reason: entry.reason }
+    }, tx);
+    return refundTeam;
+  });
+
+  return { id: entryRef.id, ...entry, fullyRefunded, teamRefunded };
+};
+
+/**
+ * Returns all or part of a manual payment by hand. The ledger stays
+ * append-only: the refund is a new entry pointing at the payment it returns.
+ * Refunding a registration payment moves the team to 'refunded' once none of
+ * its money is still held.
+ */
+export const refundManualPayment = async ({ adjustmentId, amount, reason, actor }) => {
+  if (!reason?.trim()) {
+    throw new AdjustmentError('A reason is required for refunds.');
+  }
+  const refundAmount = toAmount(amount);
+  const paymentEntryRef = ledger().doc(adjustmentId);
+
+  return db.runTransaction(async (tx) => {
+    const paymentEntrySnap = await tx.get(paymentEntryRef);
+    if (!paymentEntrySnap.exists || paymentEntrySnap.data().type !== 'manual_payment') {
+      throw new AdjustmentError('Manual payment not found.', 404);
+    }
+    const paymentEntry = paymentEntrySnap.data();
+
+    const refundsSnap = await tx.get(ledger().where('adjustmentId', '==', adjustmentId));
+    const refunded = refundsSnap.docs
+      .map((doc) => doc.data())
+      .filter((entry) => entry.type === 'refund')
+      .reduce((sum, entry) => sum + entry.amount, 0);
+    const refundable = paymentEntry.amount - refunded;
+    if (refundAmount > refundable + 0.001) {
+      throw new AdjustmentError(`At most ₹${refundable.toFixed(2)} can still be refunded for this payment.`);
+    }
+
+    const teamRef = db.collection('teams').doc(paymentEntry.teamId);
+    const teamSnap = await tx.get(teamRef);
+    const refundedTotal = refunded + refundAmount;
+    const refundTeam = paymentEntry.purpose !== 'roster_fee'
+      && teamSnap.exists
+      && teamSnap.data().paymentStatus === 'paid'
+      && !(await teamStillPaid(tx, paymentEntry.teamId, { adjustmentId, refundedTotal }));
+
+    const entry = {
+      type: 'refund',
+      adjustmentId,
+      paymentDocId: null,
+      paymentId: null,
+      teamId: paymentEntry.teamId,
+      amount: refundAmount,
+      reason: reason.trim(),
+      method: 'offline',
+      refundId: null,
+      refundStatus: null,
+      ...actorFields(actor)
+    };
+    const entryRef = ledger().doc();
+    tx.create(entryRef, entry);
+    if (refundTeam) {
+      tx.update(teamRef, {
+        paymentStatus: 'refunded',
+        paymentRefundedAt: entry.createdAt
+      });
+    }
+    await recordAudit({
+      actor,
+      action: 'payment.refund',
+      target: `payment_adjustments/${adjustmentId}`,
+      before: { refunded },
+      after: { refunded: refundedTotal, ...(refundTeam && { teamPaymentStatus: 'refunded' }) },
+      metadata: { adjustmentId: entryRef.id, teamId: entry.teamId, method: entry.method, reason: entry.reason }
+    }, tx);
+
+    return { id: entryRef.id, ...entry, fullyRefunded: refundedTotal >= paymentEntry.amount - 0.001, teamRefunded: refundTeam };
+  });
+};
+
+/**
+ * Records money collected outside the gateway (cash, UPI screenshot, ...).
+ * For an unpaid team this settles its registration, and the amount has to be
+ * the team's fee. For a paid team it collects the extra fee from an approved
+ * roster change (`rosterFeeDue`). The team is read and written in one
+ * transaction, so two people recording the same payment cannot both succeed.
+ */
+export const recordManualPayment = async ({ teamId, amount, method, reference, evidenceUrl, note, actor }) => {
+  if (!MANUAL_PAYMENT_METHODS.includes(method)) {
+    throw new AdjustmentError('Choose how the payment was collected.');
+  }
+  const paidAmount = toAmount(amount);
+  const teamRef = db.collection('teams').doc(teamId);
+
+  return db.runTransaction(async (tx) => {
+    const teamSnap = await tx.get(teamRef);
+    if (!teamSnap.exists) {
+      throw new AdjustmentError('Team not found.', 404);
+    }
+    const team = teamSnap.data();
+    const rosterFeeDue = Number(team.rosterFeeDue) || 0;
+    const rosterFee = team.paymentStatus === 'paid';
+    if (rosterFee && rosterFeeDue <= 0) {
+      throw new AdjustmentError('This team has already paid.', 409);
+    }
+    if (rosterFee && paidAmount > rosterFeeDue + 0.001) {
+      throw new AdjustmentError(`This team owes ₹${rosterFeeDue.toFixed(2)} for its roster change.`);
+    }
+    const fee = rosterFee ? null : await computeTeamFee(team);
+    if (fee && !amountsMatch(fee.total, paidAmount)) {
+      throw new AdjustmentError(`This team's registration fee is ₹${fee.total.toFixed(2)}.`);
+    }
+
+    const entry = {
+      type: 'manual_payment',
+      purpose: rosterFee ? 'roster_fee' : 'registration',
+      paymentDocId: null,
+      paymentId: null,
+      teamId,
+      amount: paidAmount,
+      method,
+      reference: reference?.trim() || null,
+      evidenceUrl: evidenceUrl?.trim() || null,
+      reason: note?.trim() || null,
+      ...actorFields(actor)
+    };
+
+    const entryRef = ledger().doc();
+    tx.create(entryRef, entry);
+    const teamUpdate = rosterFee
+      ? { rosterFeeDue: Math.round((rosterFeeDue - paidAmount) * 100) / 100 }
+      : {
+        paymentStatus: 'paid',
+        paymentMethod: 'manual',
+        amountDue: fee.total,
+        paymentCompletedAt: entry.createdAt
+      };
+    tx.update(teamRef, teamUpdate);
+    await recordAudit({
+      actor,
+      action: rosterFee ? 'payment.roster_fee' : 'payment.manual',
+      target: `teams/${teamId}`,
+      before: rosterFee
+        ? { rosterFeeDue }
+        : {
+          paymentStatus: team.paymentStatus || null,
+          paymentMethod: team.paymentMethod || null,
+          paymentCompletedAt: team.paymentCompletedAt || null
+        },
+      after: teamUpdate,
+      metadata: { adjustmentId: entryRef.id, amount: entry.amount, method, reference: entry.reference }
+    }, tx);
+
+    return { id: entryRef.id, ...entry };
+  });
+};
+
+// Flags a payment as a duplicate so it no longer counts toward revenue
+export const markDuplicatePayment = async ({ paymentDocId, note, actor }) => {
+  const paymentRef = db.collection('payments').doc(paymentDocId);
+
+  return db.runTransaction(async (tx) => {
+    const [paymentSnap, adjustmentsSnap] = await Promise.all([
+      tx.get(paymentRef),
+      tx.get(ledger().where('paymentDocId', '==', paymentDocId))
+    ]);
+    if (!paymentSnap.exists) {
+      throw new AdjustmentError('Payment record not found.', 404);
+    }
+    if (adjustmentsSnap.docs.some((doc) => doc.data().type === 'duplicate')) {
+      throw new AdjustmentError('This payment is already marked as a duplicate.', 409);
+    }
+
+    const payment = paymentSnap.data();
+    const entry = {
+      type: 'duplicate',
+      paymentDocId,
+      paymentId: payment.payment_id || null,
+      teamId: payment.teamId || null,
+      amount: Number(payment.amount) || 0,
+      reason: note?.trim() || null,
+      ...actorFields(actor)
+    };
+
+    const entryRef = ledger().doc();
+    tx.create(entryRef, entry);
+    await recordAudit({
+      actor,
+      action: 'payment.duplicate',
+      target: `payments/${paymentDocId}`,
+      before: { duplicate: false },
+      after: { duplicate: true },
+      metadata: { adjustmentId: entryRef.id, teamId: entry.teamId, reason: entry.reason }
+    }, tx);
+
+    return { id: entryRef.id, ...entry };
+  });
+};
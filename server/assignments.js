@@ -0,0 +1,130 @@
+import { db } from './firebaseAdmin.js';
+import { recordAudit } from './audit.js';
+import { writeInChunks } from './batch.js';
+import { judgeRef, getJudgeConflicts, isConflicted, normalizeCollege } from './conflicts.js';
+import { getJudgingSettings, JudgingError } from './judging.js';
+
+const loadJudges = async () => {
+  const snap = await db.collection('roles').where('role', '==', 'judge').get();
+  return Promise.all(snap.docs.map(async (doc) => ({
+    uid: doc.id,
+    email: doc.data().email || null,
+    conflicts: await getJudgeConflicts(doc.id)
+  })));
+};
+
+/**
+ * Tops up every submission to `judgesPerSubmission` judges (plus `extra` for the
+ * submissions listed in `extraFor`), always giving the next seat to the least
+ * loaded judge without a conflict. Existing assignments are kept unless the
+ * judge has since declared a conflict.
+ */
+export const assignJudges = async ({ actor, extraFor = [] }) => {
+  const [settings, judges, submissionsSnap] = await Promise.all([
+    getJudgingSettings(),
+    loadJudges(),
+    db.collection('phase1_submissions').get()
+  ]);
+  if (judges.length === 0) {
+    throw new JudgingError('There are no judges yet. Give accounts the judge role first.');
+  }
+
+  const judgesByUid = new Map(judges.map((judge) => [judge.uid, judge]));
+  const load = new Map(judges.map((judge) => [judge.uid, 0]));
+
+  const submissions = submissionsSnap.docs.map((doc) => {
+    const submission = { id: doc.id, ...doc.data() };
+    const before = submission.assignedJudges || [];
+    const kept = before.filter((uid) => {
+      const judge = judgesByUid.get(uid);
+      return judge && !isConflicted(judge.conflicts, submission);
+    });
+    kept.forEach((uid) => load.set(uid, load.get(uid) + 1));
+    return { submission, before, assigned: kept };
+  });
+
+  // Fill the emptiest submissions first so shortages are spread out
+  submissions.sort((a, b) => a.assigned.length - b.assigned.length || a.submission.id.localeCompare(b.submission.id));
+
+  const understaffed = [];
+  submissions.forEach((entry) => {
+    const target = settings.judgesPerSubmission + (extraFor.includes(entry.submission.id) ? 1 : 0);
+    while (entry.assigned.length < target) {
+      const candidate = judges
+        .filter((judge) => !entry.assigned.includes(judge.uid) && !isConflicted(judge.conflicts, entry.submission))
+        .sort((a, b) => load.get(a.uid) - load.get(b.uid) || a.uid.localeCompare(b.uid))[0];
+      if (!candidate) {
+        understaffed.push(entry.submission.id);
+        break;
+      }
+      entry.assigned.push(candidate.uid);
+      load.set(candidate.uid, load.get(candidate.uid) + 1);
+    }
+  });
+
+  const changed = submissions.filter((entry) =>
+    entry.assigned.length !== entry.before.length || entry.assigned.some((uid) => !entry.before.includes(uid))
+  );
+  await writeInChunks(changed, (batch, entry) => {
+    batch.update(db.collection('phase1_submissions').doc(entry.submission.id), {
+      assignedJudges: entry.assigned,
+      ...(extraFor.includes(entry.submission.id) && { reReviewRequestedAt: new Date().toISOString() })
+    });
+  });
+
+  const summary = {
+    judgesPerSubmission: settings.judgesPerSubmission,
+    submissions: submissions.length,
+    changed: changed.length,
+    understaffed,
+    load: Object.fromEntries(judges.map((judge) => [judge.email || judge.uid, load.get(judge.uid)]))
+  };
+  await recordAudit({
+    actor,
+    action: extraFor.length ? 'score.rereview' : 'score.assign',
+    target: extraFor.length === 1 ? `phase1_submissions/${extraFor[0]}` : 'phase1_submissions',
+    metadata: summary
+  });
+  return summary;
+};
+
+// Adds one more judge to a submission whose judges disagree
+export const requestReReview = async ({ submissionId, actor }) => {
+  const snap = await db.collection('phase1_submissions').doc(submissionId).get();
+  if (!snap.exists) {
+    throw new JudgingError('Submission not found.', 404);
+  }
+  return assignJudges({ actor, extraFor: [submissionId] });
+};
+
+/**
+ * Records the colleges and specific submissions a judge cannot score, then
+ * reassigns anything that now conflicts.
+ */
+export const declareConflicts = async ({ actor, colleges = [], submissionIds = [] }) => {
+  const before = await getJudgeConflicts(actor.uid);
+  const conflicts = {
+    email: actor.email || null,
+    conflictColleges: [...new Set(colleges.map((college) => String(college).trim()).filter(normalizeCollege))],
+    conflictSubmissionIds: [...new Set(submissionIds.map(String))],
+    updatedAt: new Date().toISOString()
+  };
+
+  const batch = db.batch();
+  batch.set(judgeRef(actor.uid), conflicts);
+  await recordAudit({
+    actor,
+    action: 'score.conflict',
+    target: `judges/${actor.uid}`,
+    before: { conflictColleges: before.colleges, conflictSubmissionIds: before.submissionIds },
+    after: { conflictColleges: conflicts.conflictColleges, conflictSubmissionIds: conflicts.conflictSubmissionIds }
+  }, batch);
+  await batch.commit();
+
+  // Only rebalance once assignments exist; before that there is nothing to move
+  const assigned = await db.collection('phase1_submissions').where('assignedJudges', 'array-contains', actor.uid).limit(1).get();
+  if (!assigned.empty) {
+    await assignJudges({ actor });
+  }
+  return conflicts;
+};
@@ -0,0 +1,365 @@
+import { jsPDF } from 'jspdf';
+import { db } from './firebaseAdmin.js';
+import { recordAudit } from './audit.js';
+import { writeInChunks } from './batch.js';
+
+/**
+ * attendance/{event}:{teamId}:{email} records one member at one event:
+ *   { event, teamId, teamName, registrationId, collegeName, memberIndex,
+ *     member: { name, email }, method, checkedInAt, checkedInBy, recordedAt }
+ *
+ * method is how attendance was taken:
+ *   qr      ticket scanned at the door (server/tickets.js)
+ *   manual  marked by an organizer
+ *   import  matched from a participant list, e.g. the online workshop's
+ */
+export const ATTENDANCE_EVENTS = ['workshop1', 'workshop2', 'finale'];
+
+export const ATTENDANCE_METHODS = ['qr', 'manual', 'import'];
+
+const EMAIL_PATTERN = /[^\s@,;<>"]+@[^\s@,;<>"]+\.[^\s@,;<>"]+/g;
+
+export class AttendanceError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const teamRef = (teamId) => db.collection('teams').doc(teamId);
+const rulesRef = () => db.collection('config').doc('certificates');
+
+const normalizeEmail = (email) => String(email || '').trim().toLowerCase();
+
+// Keyed by member email so taking attendance twice lands on the same document
+export const attendanceRef = (event, teamId, email) =>
+  db.collection('attendance').doc(`${event}:${teamId}:${encodeURIComponent(normalizeEmail(email))}`);
+
+/**
+ * Where the member with `email` sits on the team now, or -1. Removing someone
+ * shifts everyone after them down a place, so a stored index is only a hint.
+ */
+export const findMemberIndex = (team, memberIndex, email) => {
+  const members = team?.members || [];
+  const matches = (member) => Boolean(email) && normalizeEmail(member?.email) === normalizeEmail(email);
+  return matches(members[memberIndex]) ? memberIndex : members.findIndex(matches);
+};
+
+export const attendanceRecord = ({ event, team, memberIndex, member, method, checkedInAt, actor }) => ({
+  event,
+  teamId: team.id,
+  teamName: team.teamName || '',
+  registrationId: team.registrationId || '',
+  collegeName: team.collegeName || '',
+  memberIndex,
+  member: { name: member.name || '', email: normalizeEmail(member.email) },
+  method,
+  checkedInAt: checkedInAt || new Date().toISOString(),
+  checkedInBy: actor.email || null,
+  recordedAt: new Date().toISOString()
+});
+
+export const assertAttendanceEvent = (event) => {
+  if (!ATTENDANCE_EVENTS.includes(event)) {
+    throw new AttendanceError('Choose one of the workshops or the finale.');
+  }
+};
+
+// ---- Certificate eligibility ----------------------------------------------
+
+/**
+ * A member earns a certificate by attending every event in `requiredEvents`
+ * and at least `minEvents` events overall. Until organizers set rules, any
+ * one event is enough.
+ */
+const DEFAULT_RULES = { requiredEvents: [], minEvents: 1 };
+
+export const getEligibilityRules = async () => {
+  const snap = await rulesRef().get();
+  const data = snap.exists ? snap.data() : {};
+  return {
+    requiredEvents: (data.requiredEvents || DEFAULT_RULES.requiredEvents).filter((event) => ATTENDANCE_EVENTS.includes(event)),
+    minEvents: data.minEvents ?? DEFAULT_RULES.minEvents,
+    updatedBy: data.updatedBy || null,
+    updatedAt: data.updatedAt || null
+  };
+};
+
+export const saveEligibilityRules = async ({ requiredEvents, minEvents, actor }) => {
+  const required = [...new Set(Array.isArray(requiredEvents) ? requiredEvents : [])];
+  required.forEach(assertAttendanceEvent);
+  const min = Number(minEvents);
+  if (!Number.isInteger(min) || min < 1 || min > ATTENDANCE_EVENTS.length) {
+    throw new AttendanceError(`Members must attend between 1 and ${ATTENDANCE_EVENTS.length} events.`);
+  }
+  if (required.length > min) {
+    throw new AttendanceError('The minimum number of events cannot be lower than the number of required events.');
+  }
+
+  const before = await getEligibilityRules();
+  const rules = { requiredEvents: required, minEvents: min, updatedBy: actor.email || null, updatedAt: new Date().toISOString() };
+  const batch = db.batch();
+  batch.set(rulesRef(), rules);
+  await recordAudit({
+    actor,
+    action: 'attendance.rules',
+    target: 'config/certificates',
+    before: { requiredEvents: before.requiredEvents, minEvents: before.minEvents },
+    after: { requiredEvents: required, minEvents: min }
+  }, batch);
+  await batch.commit();
+  return rules;
+};
+
+export const isEligible = (attendedEvents, rules) =>
+  rules.requiredEvents.every((event) => attendedEvents.includes(event)) && attendedEvents.length >= rules.minEvents;
+
+// ---- Report -----------------------------------------------------------------
+
+const rate = (attended, total) => (total > 0 ? Math.round((attended / total) * 1000) / 10 : 0);
+
+const eventRates = (members) => Object.fromEntries(ATTENDANCE_EVENTS.map((event) => [
+  event,
+  rate(members.filter((member) => member.attended[event]).length, members.length)
+]));
+
+/**
+ * Attendance of every member of every paid team, with rates (percentages)
+ * per event for each team, each college and overall, and whether each
+ * member has earned a certificate under the current rules.
+ */
+export const buildAttendanceReport = async () => {
+  const [teamsSnap, attendanceSnap, rules] = await Promise.all([
+    db.collection('teams').where('paymentStatus', '==', 'paid').get(),
+    db.collection('attendance').get(),
+    getEligibilityRules()
+  ]);
+  const records = new Map(attendanceSnap.docs.map((doc) => [doc.id, doc.data()]));
+
+  const teams = teamsSnap.docs.map((doc) => {
+    const team = { id: doc.id, ...doc.data() };
+    const members = (team.members || [])
+      .map((member, memberIndex) => ({ member, memberIndex }))
+      .filter(({ member }) => member?.email?.trim())
+      .map(({ member, memberIndex }) => {
+        const attended = Object.fromEntries(ATTENDANCE_EVENTS
+          .map((event) => [event, records.get(attendanceRef(event, team.id, member.email).id)])
+          .filter(([, record]) => record)
+          .map(([event, record]) => [event, { checkedInAt: record.checkedInAt, method: record.method }]));
+        return {
+          memberIndex,
+          name: member.name || '',
+          email: normalizeEmail(member.email),
+          attended,
+          eligible: isEligible(Object.keys(attended), rules)
+        };
+      });
+    return {
+      teamId: team.id,
+      teamName: team.teamName || '',
+      registrationId: team.registrationId || '',
+      collegeName: (team.collegeName || '').trim(),
+      members,
+      rates: eventRates(members),
+      eligible: members.filter((member) => member.eligible).length
+    };
+  }).sort((a, b) => a.teamName.localeCompare(b.teamName));
+
+  const byCollege = new Map();
+  teams.forEach((team) => {
+    const key = team.collegeName.toLowerCase();
+    const college = byCollege.get(key) || { collegeName: team.collegeName || 'Unknown', teams: 0, members: [] };
+    college.teams += 1;
+    college.members.push(...team.members);
+    byCollege.set(key, college);
+  });
+  const colleges = [...byCollege.values()]
+    .map(({ collegeName, teams: teamCount, members }) => ({
+      collegeName,
+      teams: teamCount,
+      members: members.length,
+      rates: eventRates(members),
+      eligible: members.filter((member) => member.eligible).length
+    }))
+    .sort((a, b) => a.collegeName.localeCompare(b.collegeName));
+
+  const allMembers = teams.flatMap((team) => team.members);
+  return {
+    events: ATTENDANCE_EVENTS,
+    rules,
+    totals: { teams: teams.length, members: allMembers.length, rates: eventRates(allMembers), eligible: allMembers.filter((member) => member.eligible).length },
+    colleges,
+    teams
+  };
+};
+
+// ---- Taking attendance by hand ---------------------------------------------
+
+// Marks one member present or absent; a QR check-in can be undone this way too
+export const markAttendance = async ({ event, teamId, memberIndex: hint, email, present, actor }) => {
+  assertAttendanceEvent(event);
+  return db.runTransaction(async (tx) => {
+    const teamSnap = await tx.get(teamRef(String(teamId || 'missing')));
+    const team = teamSnap.exists ? { id: teamSnap.id, ...teamSnap.data() } : null;
+    const memberIndex = email ? findMemberIndex(team, hint, email) : hint;
+    const member = team?.members?.[memberIndex];
+    if (!member?.email?.trim()) {
+      throw new AttendanceError('Team member not found.', 404);
+    }
+
+    const ref = attendanceRef(event, team.id, member.email);
+    const existing = await tx.get(ref);
+    if (Boolean(present) === existing.exists) {
+      return existing.exists ? existing.data() : null;
+    }
+
+    const record = present
+      ? attendanceRecord({ event, team, memberIndex, member, method: 'manual', actor })
+      : null;
+    if (record) {
+      tx.set(ref, record);
+    } else {
+      tx.delete(ref);
+    }
+    await recordAudit({
+      actor,
+      action: present ? 'attendance.mark' : 'attendance.unmark',
+      target: `attendance/${ref.id}`,
+      before: existing.exists ? existing.data() : null,
+      after: record
+    }, tx);
+    return record;
+  });
+};
+
+/**
+ * Records attendance for every paid team member whose email appears in
+ * `text`, such as an attendee export from the online workshop. Emails that
+ * match no member, or members on more than one team, are returned instead of
+ * recorded so organizers can follow them up.
+ */
+export const importAttendance = async ({ event, text, actor }) => {
+  assertAttendanceEvent(event);
+  const emails = [...new Set((String(text || '').match(EMAIL_PATTERN) || []).map(normalizeEmail))];
+  if (emails.length === 0) {
+    throw new AttendanceError('No email addresses found in the list.');
+  }
+
+  const teamsSnap = await db.collection('teams').where('paymentStatus', '==', 'paid').get();
+  const members = new Map();
+  teamsSnap.docs.forEach((doc) => {
+    const team = { id: doc.id, ...doc.data() };
+    (team.members || []).forEach((member, memberIndex) => {
+      if (!member?.email?.trim()) return;
+      const email = normalizeEmail(member.email);
+      members.set(email, [...(members.get(email) || []), { team, member, memberIndex }]);
+    });
+  });
+
+  const teamCount = (email) => new Set(members.get(email).map(({ team }) => team.id)).size;
+  const unmatched = emails.filter((email) => !members.has(email));
+  const ambiguous = emails.filter((email) => members.has(email) && teamCount(email) > 1);
+  const matched = emails
+    .filter((email) => members.has(email) && teamCount(email) === 1)
+    .map((email) => members.get(email)[0]);
+  const existing = matched.length > 0
+    ? await db.getAll(...matched.map(({ team, member }) => attendanceRef(event, team.id, member.email)))
+    : [];
+  const present = new Set(existing.filter((snap) => snap.exists).map((snap) => snap.id));
+  const toRecord = matched.filter(({ team, member }) => !present.has(attendanceRef(event, team.id, member.email).id));
+
+  await writeInChunks(toRecord, (batch, { team, member, memberIndex }) => {
+    batch.set(
+      attendanceRef(event, team.id, member.email),
+      attendanceRecord({ event, team, memberIndex, member, method: 'import', actor })
+    );
+  });
+  await recordAudit({
+    actor,
+    action: 'attendance.import',
+    target: `attendance/${event}`,
+    before: null,
+    after: {
+      recorded: toRecord.length,
+      alreadyPresent: matched.length - toRecord.length,
+      unmatched: unmatched.length,
+      ambiguous: ambiguous.length
+    }
+  });
+
+  return { recorded: toRecord.length, alreadyPresent: matched.length - toRecord.length, unmatched, ambiguous };
+};
+
+// ---- Certificates -----------------------------------------------------------
+
+const EVENT_TITLES = {
+  workshop1: 'Workshop 1',
+  workshop2: 'Workshop 2',
+  finale: 'Grand Finale'
+};
+
+// The signed-in participant's own place on their team and the events they attended
+export const getMemberAttendance = async ({ teamId, uid, email }) => {
+  const teamSnap = teamId ? await teamRef(teamId).get() : null;
+  if (!teamSnap?.exists) {
+    throw new AttendanceError('You are not on a team.', 404);
+  }
+  const team = { id: teamSnap.id, ...teamSnap.data() };
+  const members = team.members || [];
+  // The lead signs in as teams/{uid} and is always the first member
+  const byUid = members.findIndex((member, index) => (member?.uid || (index === 0 ? team.id : null)) === uid);
+  const memberIndex = byUid >= 0 ? byUid : members.findIndex((member) => email && normalizeEmail(member?.email) === normalizeEmail(email));
+  const member = members[memberIndex];
+  if (!member?.email?.trim()) {
+    throw new AttendanceError('Your account is not listed on this team.', 404);
+  }
+
+  const [snaps, rules] = await Promise.all([
+    db.getAll(...ATTENDANCE_EVENTS.map((event) => attendanceRef(event, team.id, member.email))),
+    getEligibilityRules()
+  ]);
+  const attended = snaps.filter((snap) => snap.exists).map((snap) => snap.data().event);
+  return { team, memberIndex, member, attended, rules, eligible: isEligible(attended, rules) };
+};
+
+const describeRules = (rules) => {
+  const required = rules.requiredEvents.map((event) => EVENT_TITLES[event]);
+  const parts = [];
+  if (required.length > 0) parts.push(`attend ${required.join(' and ')}`);
+  if (rules.minEvents > required.length) {
+    parts.push(`attend at least ${rules.minEvents} event${rules.minEvents === 1 ? '' : 's'}`);
+  }
+  return parts.join(' and ');
+};
+
+export const generateCertificate = async ({ teamId, uid, email }) => {
+  const { team, member, attended, rules, eligible } = await getMemberAttendance({ teamId, uid, email });
+  if (!eligible) {
+    throw new AttendanceError(`Certificates are issued to participants who ${describeRules(rules)}.`, 403);
+  }
+
+  const doc = new jsPDF({ orientation: 'landscape' });
+  doc.setLineWidth(1.5);
+  doc.rect(10, 10, 277, 190);
+
+  doc.setFontSize(28);
+  doc.text('STARTUP SPARK 2025', 148.5, 40, { align: 'center' });
+  doc.setFontSize(18);
+  doc.text('Certificate of Participation', 148.5, 55, { align: 'center' });
+
+  doc.setFontSize(14);
+  doc.text('This is to certify that', 148.5, 80, { align: 'center' });
+  doc.setFontSize(24);
+  doc.text(member.name || member.email, 148.5, 97, { align: 'center' });
+  doc.setFontSize(14);
+  doc.text(`of team ${team.teamName} (${team.registrationId})`, 148.5, 112, { align: 'center' });
+  if (team.collegeName) {
+    doc.text(team.collegeName, 148.5, 122, { align: 'center' });
+  }
+  doc.text(`participated in ${attended.map((event) => EVENT_TITLES[event]).join(', ')}.`, 148.5, 140, { align: 'center' });
+
+  doc.setFontSize(10);
+  doc.text(`Issued ${new Date().toDateString()}`, 148.5, 185, { align: 'center' });
+
+  return Buffer.from(doc.output('arraybuffer'));
+};
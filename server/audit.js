@@ -0,0 +1,90 @@
+import { db } from './firebaseAdmin.js';
+
+// Entries are append-only: they are created here and never edited or deleted
+const auditLog = () => db.collection('audit_log');
+
+const normalize = (value) => (value === undefined ? null : value);
+
+const sameValue = (a, b) => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+// Top-level fields that differ between two snapshots of a document
+export const diffFields = (before, after) => {
+  const diff = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  keys.forEach((key) => {
+    const from = before?.[key];
+    const to = after?.[key];
+    if (!sameValue(from, to)) {
+      diff[key] = { before: normalize(from), after: normalize(to) };
+    }
+  });
+  return diff;
+};
+
+export const buildAuditEntry = ({ actor, action, target, before = null, after = null, metadata = null }) => ({
+  action,
+  target,
+  actorEmail: actor?.email || null,
+  actorUid: actor?.uid || null,
+  before: before || null,
+  after: after || null,
+  diff: diffFields(before, after),
+  metadata: metadata || null,
+  createdAt: new Date().toISOString()
+});
+
+/**
+ * Records an admin mutation. Pass the batch or transaction that performs the
+ * write so the entry is committed atomically with it; without one the entry is
+ * written on its own.
+ */
+export const recordAudit = async (entry, writer = null) => {
+  const ref = auditLog().doc();
+  const data = buildAuditEntry(entry);
+  if (writer) {
+    writer.create(ref, data);
+  } else {
+    await ref.create(data);
+  }
+  return { id: ref.id, ...data };
+};
+
+const toTime = (value) => (value ? new Date(value).toISOString() : null);
+
+const AUDIT_SCAN_PAGE = 500;
+
+// Newest first; filters are optional and combined with AND
+export const listAuditEntries = async ({ action, actor, target, from, to, limit = 200 } = {}) => {
+  let ref = auditLog().orderBy('createdAt', 'desc');
+  const fromTime = toTime(from);
+  const toTimeValue = toTime(to);
+  if (fromTime) ref = ref.where('createdAt', '>=', fromTime);
+  if (toTimeValue) ref = ref.where('createdAt', '<=', toTimeValue);
+
+  const wanted = Math.min(Number(limit) || 200, 1000);
+  const needle = (value) => (value ? String(value).toLowerCase() : null);
+  const actionFilter = needle(action);
+  const actorFilter = needle(actor);
+  const targetFilter = needle(target);
+  const matches = (entry) =>
+    (!actionFilter || entry.action.toLowerCase().startsWith(actionFilter)) &&
+    (!actorFilter || (entry.actorEmail || '').toLowerCase().includes(actorFilter)) &&
+    (!targetFilter || entry.target.toLowerCase().includes(targetFilter));
+
+  // Firestore cannot combine these substring filters with the range above,
+  // so they are applied page by page until enough entries match or the log
+  // runs out
+  const entries = [];
+  let last = null;
+  while (entries.length < wanted) {
+    const page = last ? ref.startAfter(last) : ref;
+    const snap = await page.limit(AUDIT_SCAN_PAGE).get();
+    snap.docs
+      .map((doc) => ({ id: doc.id, ...doc.data() }))
+      .filter(matches)
+      .forEach((entry) => entries.push(entry));
+    if (snap.size < AUDIT_SCAN_PAGE) break;
+    last = snap.docs[snap.docs.length - 1];
+  }
+  return entries.slice(0, wanted);
+};
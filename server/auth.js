@@ -0,0 +1,35 @@
+import { adminAuth } from './firebaseAdmin.js';
+import { getUserRole } from './roles.js';
+
+// Verifies the Firebase ID token sent as "Authorization: Bearer <token>"
+export const requireUser = async (req, res, next) => {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : null;
+
+  if (!token) {
+    return res.status(401).json({ success: false, error: 'Authentication required' });
+  }
+
+  try {
+    req.user = await adminAuth.verifyIdToken(token);
+    next();
+  } catch (error) {
+    console.error('Token verification error:', error.message);
+    res.status(401).json({ success: false, error: 'Invalid or expired session. Please sign in again.' });
+  }
+};
+
+// Must run after requireUser. Superadmins pass every role check.
+export const requireRole = (...roles) => async (req, res, next) => {
+  try {
+    req.role = req.role || await getUserRole(req.user.uid);
+  } catch (error) {
+    console.error('Role lookup error:', error.message);
+    return res.status(500).json({ success: false, error: 'Could not verify your access. Please try again later.' });
+  }
+
+  if (req.role !== 'superadmin' && !roles.includes(req.role)) {
+    return res.status(403).json({ success: false, error: 'You do not have access to this action.' });
+  }
+  next();
+};
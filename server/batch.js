@@ -0,0 +1,13 @@
+import { db } from './firebaseAdmin.js';
+
+// Firestore batches hold at most 500 writes
+const BATCH_LIMIT = 400;
+
+// Applies `write(batch, item)` for every item, committing a batch per chunk
+export const writeInChunks = async (items, write, size = BATCH_LIMIT) => {
+  for (let start = 0; start < items.length; start += size) {
+    const batch = db.batch();
+    items.slice(start, start + size).forEach((item) => write(batch, item));
+    await batch.commit();
+  }
+};
@@ -0,0 +1,22 @@
+import { db } from './firebaseAdmin.js';
+
+// "R.M.K. Engineering College" and "rmk engineering college" are the same college
+export const normalizeCollege = (name) => String(name || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const judgeRef = (uid) => db.collection('judges').doc(uid);
+
+export const getJudgeConflicts = async (uid) => {
+  const snap = await judgeRef(uid).get();
+  const data = snap.exists ? snap.data() : {};
+  return {
+    colleges: data.conflictColleges || [],
+    submissionIds: data.conflictSubmissionIds || []
+  };
+};
+
+// A judge may not score teams from a college they declared, or teams they flagged
+export const isConflicted = (conflicts, submission) =>
+  conflicts.submissionIds.includes(submission.id) ||
+  conflicts.colleges.some((college) =>
+    normalizeCollege(college) && normalizeCollege(college) === normalizeCollege(submission.collegeName)
+  );
@@ -0,0 +1,110 @@
+import { db } from './firebaseAdmin.js';
+import { recordAudit } from './audit.js';
+import { TeamError } from './teams.js';
+import { removeMemberInTransaction } from './roster.js';
+import { isResolvedFor, loadDuplicateResolutions, loadParticipantIndex, parseParticipantKey } from './participants.js';
+
+const teamRef = (teamId) => db.collection('teams').doc(teamId);
+// Document ids cannot contain '/', which roll numbers sometimes do
+const resolutionRef = (key) => db.collection('duplicate_resolutions').doc(encodeURIComponent(key));
+
+const teamIdsOf = (group) => [...new Set(group.entries.map((entry) => entry.teamId))].sort();
+
+/**
+ * Identity values shared by more than one team. A group an organizer marked
+ * as resolved stays resolved only while the same teams are involved; a new
+ * team turning up with the value reopens it.
+ */
+export const buildDuplicateReport = async () => {
+  const [index, resolutions] = await Promise.all([loadParticipantIndex(), loadDuplicateResolutions()]);
+
+  return [...index.values()]
+    .filter((group) => teamIdsOf(group).length > 1)
+    .map((group) => {
+      const resolution = resolutions.get(group.key);
+      return {
+        ...group,
+        resolution: isResolvedFor(resolution, teamIdsOf(group))
+          ? { note: resolution.note, resolvedBy: resolution.resolvedBy, resolvedAt: resolution.resolvedAt }
+          : null
+      };
+    })
+    .sort((a, b) => Number(Boolean(a.resolution)) - Number(Boolean(b.resolution)) || a.key.localeCompare(b.key));
+};
+
+const loadGroup = async (key) => {
+  if (!parseParticipantKey(key)) {
+    throw new TeamError('Unknown duplicate.');
+  }
+  const group = (await loadParticipantIndex()).get(key);
+  if (!group || teamIdsOf(group).length < 2) {
+    throw new TeamError('These registrations are no longer duplicated.', 409);
+  }
+  return group;
+};
+
+// Records that the shared value is expected, e.g. two siblings sharing a phone
+export const resolveDuplicate = async ({ key, note, actor }) => {
+  const group = await loadGroup(key);
+  const resolution = {
+    key,
+    field: group.field,
+    value: group.value,
+    teamIds: teamIdsOf(group),
+    note: String(note || '').trim() || null,
+    resolvedBy: actor.email || null,
+    resolvedAt: new Date().toISOString()
+  };
+
+  const batch = db.batch();
+  batch.set(resolutionRef(key), resolution);
+  await recordAudit({
+    actor,
+    action: 'duplicate.resolve',
+    target: `duplicate_resolutions/${encodeURIComponent(key)}`,
+    after: resolution
+  }, batch);
+  await batch.commit();
+  return resolution;
+};
+
+/**
+ * Keeps the participant on `keepTeamId` and takes them off every other team
+ * that lists them. Team leads cannot be removed this way: their team would
+ * lose its owner, so organizers have to sort those out with the teams.
+ */
+export const mergeDuplicate = async ({ key, keepTeamId, actor }) => {
+  const group = await loadGroup(key);
+  if (!group.entries.some((entry) => entry.teamId === keepTeamId)) {
+    throw new TeamError('Choose one of the teams that lists this participant.');
+  }
+  const leadEntry = group.entries.find((entry) => entry.teamId !== keepTeamId && entry.index === 0);
+  if (leadEntry) {
+    throw new TeamError(`${leadEntry.name || group.value} leads ${leadEntry.teamName}. Team leads cannot be merged away.`, 409);
+  }
+
+  const teamIds = teamIdsOf(group).filter((teamId) => teamId !== keepTeamId);
+  return db.runTransaction(async (tx) => {
+    const snaps = await Promise.all(teamIds.map((teamId) => tx.get(teamRef(teamId))));
+    const removed = snaps.map((snap) => {
+      const entry = group.entries.find((candidate) => candidate.teamId === snap.id);
+      if (!snap.exists) {
+        throw new TeamError('One of these teams no longer exists. Reload the report.', 409);
+      }
+      const member = snap.data().members?.[entry.index];
+      if (!member || (member.email || '') !== entry.email || (member.phone || '') !== entry.phone) {
+        throw new TeamError(`${entry.teamName} changed since the report was loaded. Reload it and try again.`, 409);
+      }
+      removeMemberInTransaction(tx, { teamId: snap.id, team: snap.data(), index: entry.index, actor });
+      return { teamId: snap.id, teamName: entry.teamName, index: entry.index, name: entry.name };
+    });
+
+    await recordAudit({
+      actor,
+      action: 'duplicate.merge',
+      target: `teams/${keepTeamId}`,
+      metadata: { key, keepTeamId, removed }
+    }, tx);
+    return { keepTeamId, removed };
+  });
+};
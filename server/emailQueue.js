@@ -0,0 +1,259 @@
+import { db, FieldValue, Timestamp } from './firebaseAdmin.js';
+import { recordAudit } from './audit.js';
+import { writeInChunks } from './batch.js';
+import { EmailError, sendEmail } from './mail.js';
+
+/**
+ * Outbound email is queued as one job per recipient in `email_jobs`, grouped
+ * under an `email_campaigns` document that keeps running counts. A worker in
+ * the API process sends due jobs at a limited rate and retries failures with
+ * exponential backoff, so closing the dashboard or one SMTP error never loses
+ * track of who was mailed.
+ *
+ * Job status: pending -> sending -> sent | failed | bounced. A job that is
+ * retried goes back to pending with a later `nextAttemptAt`.
+ */
+export const JOB_STATUSES = ['pending', 'sending', 'sent', 'failed', 'bounced'];
+
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 60 * 1000;
+// A job left in 'sending' this long (the server stopped mid-send) is retried
+const LEASE_MS = 5 * 60 * 1000;
+
+const campaignsRef = () => db.collection('email_campaigns');
+const jobsRef = () => db.collection('email_jobs');
+
+const EMPTY_COUNTS = { pending: 0, sent: 0, failed: 0, bounced: 0 };
+
+/**
+ * Queues one job per recipient. Each recipient is { team, member,
+ * memberIndex, payload }; the kind's renderer builds the message from the job
+ * when it is sent.
+ */
+export const enqueueCampaign = async ({ kind, title, recipients, metadata = null, actor, auditAction }) => {
+  if (recipients.length === 0) {
+    throw new EmailError('Nobody to email: the chosen teams have no members with an email address.');
+  }
+
+  const campaignRef = campaignsRef().doc();
+  const now = new Date().toISOString();
+  const campaign = {
+    kind,
+    title,
+    status: 'sending',
+    total: recipients.length,
+    counts: { ...EMPTY_COUNTS, pending: recipients.length },
+    metadata,
+    createdBy: actor.email || null,
+    createdAt: now,
+    completedAt: null
+  };
+
+  const batch = db.batch();
+  batch.set(campaignRef, campaign);
+  await recordAudit({
+    actor,
+    action: auditAction,
+    target: `email_campaigns/${campaignRef.id}`,
+    metadata: { ...metadata, recipients: recipients.length }
+  }, batch);
+  await batch.commit();
+
+  await writeInChunks(recipients, (chunk, { team, member, memberIndex, payload }) => {
+    chunk.set(jobsRef().doc(), {
+      campaignId: campaignRef.id,
+      kind,
+      teamId: team.id,
+      teamName: team.teamName || '',
+      registrationId: team.registrationId || '',
+      memberIndex,
+      member: { name: member.name || '', email: member.email.trim(), phone: member.phone || '' },
+      payload: payload || null,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Timestamp.now(),
+      lockedUntil: null,
+      lastError: null,
+      messageId: null,
+      sentAt: null,
+      createdAt: now,
+      updatedAt: now
+    });
+  });
+
+  return { id: campaignRef.id, ...campaign };
+};
+
+/**
+ * Puts every failed or bounced job of a campaign back in the queue with a
+ * fresh set of attempts.
+ */
+export const retryFailedJobs = async ({ campaignId, actor }) => {
+  const campaignRef = campaignsRef().doc(campaignId);
+  const [campaignSnap, failedSnap] = await Promise.all([
+    campaignRef.get(),
+    jobsRef().where('campaignId', '==', campaignId).where('status', 'in', ['failed', 'bounced']).get()
+  ]);
+  if (!campaignSnap.exists) {
+    throw new EmailError('Campaign not found.', 404);
+  }
+  if (failedSnap.empty) {
+    throw new EmailError('This campaign has no failed emails to retry.', 409);
+  }
+
+  const byStatus = { failed: 0, bounced: 0 };
+  failedSnap.docs.forEach((doc) => { byStatus[doc.data().status] += 1; });
+
+  await writeInChunks(failedSnap.docs, (batch, doc) => {
+    batch.update(doc.ref, {
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Timestamp.now(),
+      lockedUntil: null,
+      updatedAt: new Date().toISOString()
+    });
+  });
+
+  const batch = db.batch();
+  batch.update(campaignRef, {
+    status: 'sending',
+    completedAt: null,
+    'counts.pending': FieldValue.increment(failedSnap.size),
+    'counts.failed': FieldValue.increment(-byStatus.failed),
+    'counts.bounced': FieldValue.increment(-byStatus.bounced)
+  });
+  await recordAudit({
+    actor,
+    action: 'email.retry',
+    target: `email_campaigns/${campaignId}`,
+    metadata: { retried: failedSnap.size, ...byStatus }
+  }, batch);
+  await batch.commit();
+  return { retried: failedSnap.size };
+};
+
+// Mailbox-level rejections (550-554) will not succeed on a retry
+const isBounce = (error) => error.responseCode >= 550 && error.responseCode <= 554;
+
+const retryDelay = (attempts) => RETRY_BASE_MS * 2 ** (attempts - 1);
+
+const claimJob = (jobId) => db.runTransaction(async (tx) => {
+  const snap = await tx.get(jobsRef().doc(jobId));
+  if (!snap.exists || snap.data().status !== 'pending') return null;
+  const attempts = (snap.data().attempts || 0) + 1;
+  tx.update(snap.ref, {
+    status: 'sending',
+    attempts,
+    lockedUntil: Timestamp.fromMillis(Date.now() + LEASE_MS),
+    updatedAt: new Date().toISOString()
+  });
+  return { id: snap.id, ...snap.data(), attempts };
+});
+
+// Records the outcome on the job and, once it is final, on the campaign counts
+const finishJob = (job, outcome) => db.runTransaction(async (tx) => {
+  const campaignRef = campaignsRef().doc(job.campaignId);
+  const campaignSnap = await tx.get(campaignRef);
+  const now = new Date().toISOString();
+  const updates = {
+    status: outcome.status,
+    lockedUntil: null,
+    lastError: outcome.error || null,
+    updatedAt: now
+  };
+  if (outcome.status === 'sent') {
+    updates.messageId = outcome.messageId || null;
+    updates.sentAt = now;
+  }
+  if (outcome.status === 'pending') {
+    updates.nextAttemptAt = Timestamp.fromMillis(Date.now() + retryDelay(job.attempts));
+  }
+  tx.update(jobsRef().doc(job.id), updates);
+
+  if (outcome.status !== 'pending' && campaignSnap.exists) {
+    const remaining = (campaignSnap.data().counts?.pending || 0) - 1;
+    tx.update(campaignRef, {
+      'counts.pending': FieldValue.increment(-1),
+      [`counts.${outcome.status}`]: FieldValue.increment(1),
+      ...(remaining <= 0 ? { status: 'done', completedAt: now } : {})
+    });
+  }
+});
+
+const sendJob = async (job, renderers) => {
+  const render = renderers[job.kind];
+  if (!render) {
+    return { status: 'failed', error: `No email template for "${job.kind}"` };
+  }
+  try {
+    const info = await sendEmail({ to: job.member.email, ...(await render(job)) });
+    if (info.rejected.length > 0) {
+      return { status: 'bounced', error: 'The mail server rejected this address' };
+    }
+    return { status: 'sent', messageId: info.messageId };
+  } catch (error) {
+    if (isBounce(error)) {
+      return { status: 'bounced', error: error.message };
+    }
+    return { status: job.attempts >= MAX_ATTEMPTS ? 'failed' : 'pending', error: error.message };
+  }
+};
+
+// Jobs whose sender disappeared mid-send go back in the queue
+const releaseExpiredLeases = async () => {
+  const snap = await jobsRef()
+    .where('status', '==', 'sending')
+    .where('lockedUntil', '<=', Timestamp.now())
+    .get();
+  await writeInChunks(snap.docs, (batch, doc) => {
+    batch.update(doc.ref, { status: 'pending', lockedUntil: null, nextAttemptAt: Timestamp.now() });
+  });
+};
+
+const dueJobIds = async (limit) => {
+  const snap = await jobsRef()
+    .where('status', '==', 'pending')
+    .where('nextAttemptAt', '<=', Timestamp.now())
+    .orderBy('nextAttemptAt')
+    .limit(limit)
+    .get();
+  return snap.docs.map((doc) => doc.id);
+};
+
+/**
+ * Starts polling the queue. `renderers` maps a job kind to an async function
+ * returning { subject, html, attachments } for that job. The rate is spread
+ * over the polling interval: EMAIL_RATE_PER_MINUTE (default 30) and
+ * EMAIL_QUEUE_INTERVAL_MS (default 10s). Returns a function that stops it.
+ */
+export const startEmailWorker = (renderers, {
+  perMinute = Number(process.env.EMAIL_RATE_PER_MINUTE) || 30,
+  intervalMs = Number(process.env.EMAIL_QUEUE_INTERVAL_MS) || 10000
+} = {}) => {
+  const perTick = Math.max(1, Math.floor((perMinute * intervalMs) / 60000));
+  let timer = null;
+  let stopped = false;
+
+  const tick = async () => {
+    try {
+      await releaseExpiredLeases();
+      for (const jobId of await dueJobIds(perTick)) {
+        const job = await claimJob(jobId);
+        if (job) {
+          await finishJob(job, await sendJob(job, renderers));
+        }
+      }
+    } catch (error) {
+      console.error('Email queue error:', error.message);
+    }
+    if (!stopped) {
+      timer = setTimeout(tick, intervalMs);
+    }
+  };
+
+  tick();
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+};
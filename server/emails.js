@@ -0,0 +1,254 @@
+import QRCode from 'qrcode';
+import { jsPDF } from 'jspdf';
+import { db } from './firebaseAdmin.js';
+import { EmailError, sendEmail } from './mail.js';
+import { enqueueCampaign } from './emailQueue.js';
+import { getSelection } from './selection.js';
+import { getTemplate, renderTemplate, cleanTemplate, usesWorkshop } from './templates.js';
+import { signTicket } from './tickets.js';
+
+const teamRef = (teamId) => db.collection('teams').doc(teamId);
+
+const loadTeams = async (teamIds) => {
+  const unique = [...new Set((teamIds || []).filter((teamId) => typeof teamId === 'string' && teamId))];
+  if (unique.length === 0) return [];
+  const snaps = await db.getAll(...unique.map(teamRef));
+  return snaps.filter((snap) => snap.exists).map((snap) => ({ id: snap.id, ...snap.data() }));
+};
+
+const cleanWorkshop = (workshop) => {
+  const clean = {
+    title: String(workshop?.title || '').trim(),
+    date: String(workshop?.date || '').trim(),
+    venue: String(workshop?.venue || '').trim()
+  };
+  if (!clean.title || !clean.date || !clean.venue) {
+    throw new EmailError('Please fill in all workshop details');
+  }
+  return clean;
+};
+
+// `ticket` names the member's team and position, for the signed QR code
+export const generateETicket = async ({ teamName, registrationId, member, ticket, eventDetails }) => {
+  const doc = new jsPDF();
+
+  doc.setFontSize(24);
+  doc.text('STARTUP SPARK 2025', 105, 20, { align: 'center' });
+
+  const qrCode = await QRCode.toDataURL(signTicket({ ...ticket, member }));
+  doc.addImage(qrCode, 'PNG', 75, 30, 60, 60);
+
+  doc.setFontSize(14);
+  doc.text('E-Ticket', 20, 100);
+  doc.setFontSize(12);
+  doc.text(`Team: ${teamName}`, 20, 120);
+  doc.text(`Registration ID: ${registrationId}`, 20, 130);
+  doc.text(`Name: ${member.name}`, 20, 140);
+  doc.text(`Email: ${member.email}`, 20, 150);
+  doc.text(`Phone: ${member.phone}`, 20, 160);
+
+  doc.text('Event Details:', 20, 180);
+  doc.text(`Date: ${eventDetails.date}`, 20, 190);
+  doc.text(`Venue: ${eventDetails.venue}`, 20, 200);
+  if (eventDetails.workshopTitle) {
+    doc.text(`Workshop: ${eventDetails.workshopTitle}`, 20, 210);
+  }
+
+  return Buffer.from(doc.output('arraybuffer'));
+};
+
+// The ticket for one member of a team, for organizers to check before sending
+export const generateMemberTicket = async ({ teamId, memberIndex, workshop }) => {
+  const details = cleanWorkshop(workshop);
+  const [team] = await loadTeams([teamId]);
+  const index = Number(memberIndex) || 0;
+  const member = team?.members?.[index];
+  if (!member?.email) {
+    throw new EmailError('Team member not found.', 404);
+  }
+  return generateETicket({
+    teamName: team.teamName,
+    registrationId: team.registrationId,
+    member,
+    ticket: { teamId: team.id, memberIndex: index },
+    eventDetails: { date: details.date, venue: details.venue, workshopTitle: details.title }
+  });
+};
+
+const loadPhase1Points = async (teams) => {
+  if (teams.length === 0) return new Map();
+  const snaps = await db.getAll(...teams.map((team) => db.collection('phase1_submissions').doc(team.id)));
+  return new Map(snaps
+    .filter((snap) => snap.exists && typeof snap.data().points === 'number')
+    .map((snap) => [snap.id, Math.round(snap.data().points * 100) / 100]));
+};
+
+const teamContext = (team, points) => ({
+  team: {
+    teamName: team.teamName || '',
+    registrationId: team.registrationId || '',
+    collegeName: team.collegeName || ''
+  },
+  phase1: { points: points ?? null }
+});
+
+/**
+ * Who a campaign goes to:
+ *   paid             every paid team
+ *   phase2_selected  teams selected for Phase 2
+ *   not_submitted    paid teams without a Phase 1 submission
+ *   college          paid teams from `audience.college`
+ *   teams            the teams in `audience.teamIds`
+ */
+export const AUDIENCE_TYPES = ['paid', 'phase2_selected', 'not_submitted', 'college', 'teams'];
+
+const resolveAudience = async (audience) => {
+  if (!AUDIENCE_TYPES.includes(audience?.type)) {
+    throw new EmailError('Choose who should receive this email.');
+  }
+  if (audience.type === 'teams') {
+    return loadTeams(audience.teamIds);
+  }
+
+  const snap = await db.collection('teams').get();
+  const teams = snap.docs.map((doc) => ({ id: doc.id, ...doc.data() }));
+  const paid = teams.filter((team) => team.paymentStatus === 'paid');
+  if (audience.type === 'paid') return paid;
+  if (audience.type === 'phase2_selected') return teams.filter((team) => team.phase2Selected);
+  if (audience.type === 'college') {
+    const college = String(audience.college || '').trim().toLowerCase();
+    if (!college) throw new EmailError('Choose a college.');
+    return paid.filter((team) => (team.collegeName || '').trim().toLowerCase() === college);
+  }
+  const submitted = new Set((await db.collection('phase1_submissions').select().get()).docs.map((doc) => doc.id));
+  return paid.filter((team) => !submitted.has(team.id));
+};
+
+const ticketFor = async (member, ticket, context) => ({
+  filename: 'e-ticket.pdf',
+  content: await generateETicket({
+    teamName: context.team.teamName,
+    registrationId: context.team.registrationId,
+    member,
+    ticket,
+    eventDetails: { date: context.workshop.date, venue: context.workshop.venue, workshopTitle: context.workshop.title }
+  })
+});
+
+// Renders a template for one member, with their e-ticket when the template asks for it
+const renderForMember = async (template, member, ticket, context) => {
+  const fullContext = { ...context, member };
+  const message = renderTemplate(template, fullContext);
+  const attachments = template.attachTicket && context.workshop ? [await ticketFor(member, ticket, fullContext)] : [];
+  return { ...message, attachments };
+};
+
+/**
+ * Builds each queued job's message when the worker sends it. Jobs carry a
+ * copy of the template and of the team details taken when the campaign was
+ * queued, so later edits do not change a campaign half way through.
+ */
+export const emailRenderers = {
+  template: ({ teamId, memberIndex, member, payload }) =>
+    renderForMember(payload.template, member, { teamId, memberIndex }, payload.context)
+};
+
+export const queueTemplateCampaign = async ({ templateId, audience, workshop, actor, auditAction = 'email.campaign' }) => {
+  const template = await getTemplate(templateId);
+  const details = usesWorkshop(template) ? cleanWorkshop(workshop) : null;
+  const teams = await resolveAudience(audience);
+  if (teams.length === 0) {
+    throw new EmailError('No teams match this audience.');
+  }
+  const points = await loadPhase1Points(teams);
+  const snapshot = { subject: template.subject, html: template.html, attachTicket: Boolean(template.attachTicket) };
+
+  // One queue entry per member with an email address; open invite slots have none yet
+  const recipients = teams.flatMap((team) => (team.members || [])
+    .map((member, memberIndex) => ({
+      team,
+      member,
+      memberIndex,
+      payload: { template: snapshot, context: { ...teamContext(team, points.get(team.id)), workshop: details } }
+    }))
+    .filter(({ member }) => member?.email?.trim()));
+
+  return enqueueCampaign({
+    kind: 'template',
+    title: details ? `${template.name}: ${details.title}` : template.name,
+    recipients,
+    metadata: {
+      templateId: template.id,
+      audience: { type: audience.type, college: audience.college || null },
+      teamIds: teams.map((team) => team.id),
+      ...(details ? { workshop: details } : {})
+    },
+    actor,
+    auditAction
+  });
+};
+
+export const queueWorkshopInvites = ({ teamIds, workshop, actor }) => queueTemplateCampaign({
+  templateId: 'workshop_invite',
+  audience: { type: 'teams', teamIds },
+  workshop,
+  actor,
+  auditAction: 'email.workshop_invite'
+});
+
+// Only a committed (locked) selection is announced, and always in full
+export const queuePhase2SelectionEmails = async ({ actor }) => {
+  const selection = await getSelection();
+  if (!selection.locked) {
+    throw new EmailError('Commit the Phase 2 selection before sending selection emails', 409);
+  }
+  return queueTemplateCampaign({
+    templateId: 'phase2_selection',
+    audience: { type: 'teams', teamIds: selection.selectedTeamIds },
+    actor,
+    auditAction: 'email.phase2_selection'
+  });
+};
+
+const memberContext = async ({ teamId, memberIndex, workshop }) => {
+  const [team] = await loadTeams([teamId]);
+  if (!team) {
+    throw new EmailError('Choose a team to preview with.', 404);
+  }
+  const members = team.members || [];
+  const chosen = Number(memberIndex) || 0;
+  const index = members[chosen]?.email ? chosen : members.findIndex((candidate) => candidate?.email?.trim());
+  const points = await loadPhase1Points([team]);
+  return {
+    member: members[index] || { name: '', email: '', phone: '' },
+    ticket: { teamId: team.id, memberIndex: index },
+    context: {
+      ...teamContext(team, points.get(team.id)),
+      workshop: {
+        title: String(workshop?.title || ''),
+        date: String(workshop?.date || ''),
+        venue: String(workshop?.venue || '')
+      }
+    }
+  };
+};
+
+// Renders an unsaved template as one member of a real team would receive it
+export const previewTemplate = async ({ template, teamId, memberIndex, workshop }) => {
+  const clean = cleanTemplate(template);
+  const { member, context } = await memberContext({ teamId, memberIndex, workshop });
+  return renderTemplate(clean, { ...context, member });
+};
+
+// Sends the preview to the organizer's own address, straight away rather than through the queue
+export const sendTestEmail = async ({ template, teamId, memberIndex, workshop, actor }) => {
+  if (!actor.email) {
+    throw new EmailError('Your account has no email address to send a test to.');
+  }
+  const clean = cleanTemplate(template);
+  const { member, ticket, context } = await memberContext({ teamId, memberIndex, workshop });
+  const withTicket = clean.attachTicket && member.email && context.workshop.title && context.workshop.date && context.workshop.venue;
+  const message = await renderForMember({ ...clean, attachTicket: Boolean(withTicket) }, member, ticket, context);
+  await sendEmail({ to: actor.email, ...message, subject: `[Test] ${message.subject}` });
+  return { to: actor.email };
+};
@@ -0,0 +1,97 @@
+import { db, Timestamp } from './firebaseAdmin.js';
+import { recordAudit } from './audit.js';
+
+// Phases in timeline order. Times are stored as Firestore timestamps so that
+// firestore.rules and storage.rules can compare them with request.time.
+export const PHASE_IDS = ['registration', 'phase1', 'results', 'workshops', 'phase2', 'finale'];
+
+export class EventConfigError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const eventRef = () => db.collection('config').doc('event');
+
+const toTimestamp = (value, label) => {
+  if (value === null || value === undefined || value === '') return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new EventConfigError(`${label} is not a valid date.`);
+  }
+  return Timestamp.fromDate(date);
+};
+
+const toIso = (value) => (value ? value.toDate().toISOString() : null);
+
+export const getEventConfig = async () => {
+  const snap = await eventRef().get();
+  const phases = snap.exists ? snap.data().phases || {} : {};
+  return {
+    phases: Object.fromEntries(PHASE_IDS.filter((id) => phases[id]).map((id) => [id, {
+      ...phases[id],
+      opensAt: toIso(phases[id].opensAt),
+      closesAt: toIso(phases[id].closesAt)
+    }])),
+    updatedBy: snap.exists ? snap.data().updatedBy || null : null,
+    updatedAt: snap.exists ? snap.data().updatedAt || null : null
+  };
+};
+
+/**
+ * Replaces the event schedule. Every phase needs a title; open and close
+ * times are optional (a phase without dates shows as "TBA").
+ */
+export const saveEventConfig = async ({ phases, actor }) => {
+  if (!phases || typeof phases !== 'object') {
+    throw new EventConfigError('Send the phases to save.');
+  }
+
+  const clean = {};
+  PHASE_IDS.forEach((id) => {
+    const phase = phases[id];
+    if (!phase) {
+      throw new EventConfigError(`The "${id}" phase is missing.`);
+    }
+    const title = String(phase.title || '').trim();
+    if (!title) {
+      throw new EventConfigError(`Give the "${id}" phase a title.`);
+    }
+    const opensAt = toTimestamp(phase.opensAt, `${title} opening time`);
+    const closesAt = toTimestamp(phase.closesAt, `${title} closing time`);
+    if (opensAt && closesAt && closesAt.toMillis() <= opensAt.toMillis()) {
+      throw new EventConfigError(`${title} must close after it opens.`);
+    }
+    clean[id] = {
+      title,
+      description: String(phase.description || '').trim(),
+      opensAt,
+      closesAt
+    };
+  });
+
+  const before = await getEventConfig();
+  const config = {
+    phases: clean,
+    updatedBy: actor.email || null,
+    updatedAt: new Date().toISOString()
+  };
+
+  const batch = db.batch();
+  batch.set(eventRef(), config);
+  const summarize = (phaseMap, format) => Object.fromEntries(Object.entries(phaseMap).map(([id, phase]) => [
+    id,
+    `${format(phase.opensAt) || 'TBA'} – ${format(phase.closesAt) || 'TBA'}`
+  ]));
+  await recordAudit({
+    actor,
+    action: 'event.schedule',
+    target: 'config/event',
+    before: summarize(before.phases, (value) => value),
+    after: summarize(clean, toIso)
+  }, batch);
+  await batch.commit();
+
+  return getEventConfig();
+};
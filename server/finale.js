@@ -0,0 +1,229 @@
+import { db } from './firebaseAdmin.js';
+import { recordAudit } from './audit.js';
+import { rawPoints } from './normalization.js';
+import { getJudgeConflicts, isConflicted } from './conflicts.js';
+import { JudgingError, rubricStore, validateScores, scorePercentage } from './judging.js';
+import { finaleShortlist } from './phase2.js';
+
+/**
+ * setup   teams loaded, scoring closed
+ * live    judges score, the leaderboard follows every score
+ * frozen  judges still score, the leaderboard shows the standings at freeze time
+ * reveal  scoring closed, final places are revealed one at a time from the bottom
+ */
+export const FINALE_STATUSES = ['setup', 'live', 'frozen', 'reveal'];
+
+const TRANSITIONS = {
+  setup: ['live'],
+  live: ['frozen'],
+  frozen: ['live', 'reveal'],
+  reveal: []
+};
+
+export const DEFAULT_FINALE_RUBRIC = {
+  criteria: [
+    { id: 'pitch', label: 'Pitch Delivery', maxScore: 10, weight: 1 },
+    { id: 'innovation', label: 'Innovation', maxScore: 10, weight: 1 },
+    { id: 'viability', label: 'Business Viability', maxScore: 10, weight: 1 },
+    { id: 'qna', label: 'Q&A', maxScore: 10, weight: 1 }
+  ]
+};
+
+const finaleRubric = rubricStore({
+  docId: 'finaleRubric',
+  defaults: DEFAULT_FINALE_RUBRIC,
+  action: 'finale.rubric'
+});
+export const getFinaleRubric = finaleRubric.get;
+export const saveFinaleRubric = finaleRubric.save;
+
+// config/finale is public so the projector view can follow it without scores
+const finaleRef = () => db.collection('config').doc('finale');
+const teamsRef = () => db.collection('finale_teams');
+
+const EMPTY_FINALE = {
+  status: 'setup',
+  currentTeamId: null,
+  frozenStandings: null,
+  revealCount: 0,
+  updatedBy: null,
+  updatedAt: null
+};
+
+export const getFinale = async (reader = null) => {
+  const snap = reader ? await reader.get(finaleRef()) : await finaleRef().get();
+  return { ...EMPTY_FINALE, ...(snap.exists ? snap.data() : {}) };
+};
+
+const stamp = (actor) => ({ updatedBy: actor.email || null, updatedAt: new Date().toISOString() });
+
+// Copies the Phase 2 shortlist into finale_teams in pitch order
+export const loadFinaleTeams = async ({ actor }) => {
+  const [finale, shortlist, existing] = await Promise.all([getFinale(), finaleShortlist(), teamsRef().get()]);
+  if (finale.status !== 'setup') {
+    throw new JudgingError('Teams can only be loaded before the finale goes live.', 409);
+  }
+  if (shortlist.length === 0) {
+    throw new JudgingError('No teams are shortlisted for the finale yet.');
+  }
+
+  const keep = new Set(shortlist.map((team) => team.id));
+  const batch = db.batch();
+  existing.docs.filter((doc) => !keep.has(doc.id)).forEach((doc) => batch.delete(doc.ref));
+  shortlist.forEach((team, index) => {
+    batch.set(teamsRef().doc(team.id), {
+      teamName: team.teamName,
+      collegeName: team.collegeName,
+      registrationId: team.registrationId,
+      pitchOrder: index + 1,
+      points: null,
+      judgeCount: 0
+    });
+  });
+  batch.set(finaleRef(), { ...EMPTY_FINALE, ...stamp(actor) });
+  await recordAudit({
+    actor,
+    action: 'finale.teams',
+    target: 'finale_teams',
+    before: { teamIds: existing.docs.map((doc) => doc.id) },
+    after: { teamIds: shortlist.map((team) => team.id) }
+  }, batch);
+  await batch.commit();
+  return { teams: shortlist.length };
+};
+
+// The team currently on stage; judges' tablets jump to it
+export const setFinaleStage = async ({ teamId, actor }) => {
+  const before = await getFinale();
+  if (teamId) {
+    const team = await teamsRef().doc(teamId).get();
+    if (!team.exists) {
+      throw new JudgingError('That team is not in the finale.', 404);
+    }
+  }
+
+  const batch = db.batch();
+  batch.set(finaleRef(), { currentTeamId: teamId || null, ...stamp(actor) }, { merge: true });
+  await recordAudit({
+    actor,
+    action: 'finale.stage',
+    target: 'config/finale',
+    before: { currentTeamId: before.currentTeamId },
+    after: { currentTeamId: teamId || null }
+  }, batch);
+  await batch.commit();
+  return getFinale();
+};
+
+const standings = (teamsSnap) => teamsSnap.docs.map((doc) => ({ id: doc.id, points: doc.data().points ?? null }));
+
+export const setFinaleStatus = async ({ status, actor }) => {
+  if (!FINALE_STATUSES.includes(status)) {
+    throw new JudgingError(`Status must be one of: ${FINALE_STATUSES.join(', ')}.`);
+  }
+
+  return db.runTransaction(async (tx) => {
+    const [before, teamsSnap] = await Promise.all([getFinale(tx), tx.get(teamsRef())]);
+    if (!TRANSITIONS[before.status].includes(status)) {
+      throw new JudgingError(`The finale cannot go from ${before.status} to ${status}.`, 409);
+    }
+    if (teamsSnap.empty) {
+      throw new JudgingError('Load the finale teams first.');
+    }
+
+    const update = {
+      status,
+      frozenStandings: status === 'frozen' ? standings(teamsSnap) : null,
+      revealCount: 0,
+      ...stamp(actor)
+    };
+    tx.set(finaleRef(), update, { merge: true });
+    await recordAudit({
+      actor,
+      action: 'finale.status',
+      target: 'config/finale',
+      before: { status: before.status },
+      after: { status }
+    }, tx);
+    return { ...before, ...update };
+  });
+};
+
+// Reveals the next final place, starting from last
+export const revealNextPlace = async ({ actor }) => {
+  return db.runTransaction(async (tx) => {
+    const [before, teamsSnap] = await Promise.all([getFinale(tx), tx.get(teamsRef())]);
+    if (before.status !== 'reveal') {
+      throw new JudgingError('Start the reveal before revealing places.', 409);
+    }
+    if (before.revealCount >= teamsSnap.size) {
+      throw new JudgingError('Every place has already been revealed.', 409);
+    }
+
+    const revealCount = before.revealCount + 1;
+    tx.set(finaleRef(), { revealCount, ...stamp(actor) }, { merge: true });
+    await recordAudit({
+      actor,
+      action: 'finale.reveal',
+      target: 'config/finale',
+      before: { revealCount: before.revealCount },
+      after: { revealCount },
+      metadata: { place: teamsSnap.size - revealCount + 1 }
+    }, tx);
+    return { ...before, revealCount };
+  });
+};
+
+/**
+ * Stores one judge's marks under finale_teams/{id}/marks/{judgeUid} and
+ * updates the team's points, which the leaderboard follows live.
+ */
+export const submitFinaleScore = async ({ teamId, scores, comment, actor }) => {
+  const [rubric, conflicts] = await Promise.all([getFinaleRubric(), getJudgeConflicts(actor.uid)]);
+  const cleanScores = validateScores(scores, rubric);
+  const teamRef = teamsRef().doc(teamId);
+  const marksRef = teamRef.collection('marks');
+
+  return db.runTransaction(async (tx) => {
+    const [finale, teamSnap] = await Promise.all([getFinale(tx), tx.get(teamRef)]);
+    if (!['live', 'frozen'].includes(finale.status)) {
+      throw new JudgingError('Scoring is closed.', 409);
+    }
+    if (!teamSnap.exists) {
+      throw new JudgingError('That team is not in the finale.', 404);
+    }
+    if (isConflicted(conflicts, { id: teamId, ...teamSnap.data() })) {
+      throw new JudgingError('You have declared a conflict of interest with this team.', 403);
+    }
+
+    const existingSnap = await tx.get(marksRef);
+    const previous = existingSnap.docs.find((doc) => doc.id === actor.uid)?.data() || null;
+    const entry = {
+      judgeUid: actor.uid,
+      judgeEmail: actor.email || null,
+      scores: cleanScores,
+      percentage: scorePercentage(cleanScores, rubric),
+      comment: comment?.trim() || null,
+      rubric: rubric.criteria,
+      updatedAt: new Date().toISOString()
+    };
+    const marks = existingSnap.docs
+      .filter((doc) => doc.id !== actor.uid)
+      .map((doc) => doc.data())
+      .concat(entry);
+    const update = { points: rawPoints(marks), judgeCount: marks.length };
+
+    tx.set(marksRef.doc(actor.uid), entry);
+    tx.update(teamRef, update);
+    await recordAudit({
+      actor,
+      action: 'finale.score',
+      target: `finale_teams/${teamId}`,
+      before: { points: teamSnap.data().points ?? null, judgeScore: previous?.percentage ?? null },
+      after: { points: update.points, judgeScore: entry.percentage },
+      metadata: { scores: cleanScores, judgeCount: update.judgeCount }
+    }, tx);
+
+    return { ...entry, ...update };
+  });
+};
@@ -0,0 +1,13 @@
+import { initializeApp, applicationDefault, getApps } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore';
+
+// Uses GOOGLE_APPLICATION_CREDENTIALS (or the emulator env vars) for credentials
+const app = getApps()[0] || initializeApp({
+  credential: applicationDefault(),
+  projectId: process.env.FIREBASE_PROJECT_ID || 'edcrec-1b825'
+});
+
+export const adminAuth = getAuth(app);
+export const db = getFirestore(app);
+export { FieldValue, Timestamp };
@@ -0,0 +1,33 @@
+import { createInstamojoGateway } from './instamojo.js';
+import { createMockGateway } from './mock.js';
+
+/**
+ * Every gateway adapter exposes the same surface:
+ *
+ *   createPaymentRequest({ amount, purpose, buyerName, email, phone, redirectUrl, webhookUrl })
+ *     -> { id, longurl }
+ *   verifyCallback(body)
+ *     -> payment event, or null when the signature does not check out
+ *   fetchPaymentStatus(paymentRequestId)
+ *     -> { status: 'pending' | 'paid' | 'failed', payment }
+ *   refund({ paymentId, amount, reason })
+ *     -> { refundId, status }
+ *
+ * A payment event is { paymentId, paymentRequestId, status: 'paid' | 'failed',
+ * gatewayStatus, amount, fees, buyerName, email, phone }. Adapters may also
+ * expose an express `router` that is mounted at their `basePath`.
+ */
+const gateways = {
+  instamojo: createInstamojoGateway,
+  mock: createMockGateway
+};
+
+export const createGateway = (name = process.env.PAYMENT_GATEWAY || 'instamojo') => {
+  const factory = gateways[name];
+  if (!factory) {
+    throw new Error(`Unknown payment gateway "${name}"`);
+  }
+  return factory();
+};
+
+export const gateway = createGateway();
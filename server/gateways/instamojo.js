@@ -0,0 +1,121 @@
+import axios from 'axios';
+import crypto from 'crypto';
+
+const INSTAMOJO_API_ENDPOINT = process.env.INSTAMOJO_API_ENDPOINT || 'https://test.instamojo.com/api/1.1';
+
+// Instamojo signs webhooks with HMAC-SHA1 over the payload values, ordered by
+// case-insensitive key and joined with '|', using the account's private salt.
+export const computeWebhookMac = (payload, salt) => {
+  const message = Object.keys(payload)
+    .filter((key) => key !== 'mac')
+    .sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()))
+    .map((key) => payload[key])
+    .join('|');
+
+  return crypto.createHmac('sha1', salt).update(message).digest('hex');
+};
+
+export const verifyWebhookMac = (payload, salt) => {
+  if (!salt || typeof payload?.mac !== 'string') {
+    return false;
+  }
+
+  const expected = Buffer.from(computeWebhookMac(payload, salt), 'hex');
+  const received = Buffer.from(payload.mac, 'hex');
+
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};
+
+// Instamojo reports 'Credit' for a successful payment and 'Failed' otherwise
+const toPaymentStatus = (gatewayStatus) => (gatewayStatus === 'Credit' ? 'paid' : 'failed');
+
+const toPaymentEvent = (paymentRequestId, payment) => ({
+  paymentId: payment.payment_id,
+  paymentRequestId,
+  status: toPaymentStatus(payment.status),
+  gatewayStatus: payment.status,
+  amount: payment.amount,
+  fees: payment.fees || null,
+  buyerName: payment.buyer_name || '',
+  email: payment.buyer || payment.buyer_email || '',
+  phone: payment.buyer_phone || ''
+});
+
+export const createInstamojoGateway = ({
+  apiKey = process.env.VITE_INSTAMOJO_API_KEY,
+  authToken = process.env.VITE_INSTAMOJO_AUTH_TOKEN,
+  privateSalt = process.env.INSTAMOJO_PRIVATE_SALT
+} = {}) => {
+  const headers = {
+    'X-Api-Key': apiKey,
+    'X-Auth-Token': authToken,
+    'Content-Type': 'application/json'
+  };
+
+  return {
+    name: 'instamojo',
+
+    async createPaymentRequest({ amount, purpose, buyerName, email, phone, redirectUrl, webhookUrl }) {
+      const response = await axios.post(
+        `${INSTAMOJO_API_ENDPOINT}/payment-requests/`,
+        {
+          purpose,
+          amount: Number(amount).toFixed(2),
+          buyer_name: buyerName,
+          email,
+          phone,
+          redirect_url: redirectUrl,
+          webhook: webhookUrl,
+          allow_repeated_payments: false,
+          send_email: true,
+          send_sms: true
+        },
+        { headers }
+      );
+
+      const { id, longurl } = response.data.payment_request;
+      return { id, longurl };
+    },
+
+    verifyCallback(body) {
+      if (!verifyWebhookMac(body, privateSalt)) {
+        return null;
+      }
+      return toPaymentEvent(body.payment_request_id, body);
+    },
+
+    async fetchPaymentStatus(paymentRequestId) {
+      const response = await axios.get(
+        `${INSTAMOJO_API_ENDPOINT}/payment-requests/${paymentRequestId}/`,
+        { headers }
+      );
+
+      const payments = (response.data.payment_request.payments || [])
+        .map((payment) => toPaymentEvent(paymentRequestId, payment));
+      const paid = payments.find((payment) => payment.status === 'paid');
+
+      if (paid) {
+        return { status: 'paid', payment: paid };
+      }
+      if (payments.length > 0) {
+        return { status: 'failed', payment: payments[payments.length - 1] };
+      }
+      return { status: 'pending', payment: null };
+    },
+
+    async refund({ paymentId, amount, reason, type = 'QFL' }) {
+      const response = await axios.post(
+        `${INSTAMOJO_API_ENDPOINT}/refunds/`,
+        {
+          payment_id: paymentId,
+          type,
+          body: reason,
+          refund_amount: Number(amount).toFixed(2)
+        },
+        { headers }
+      );
+
+      return { refundId: response.data.refund.id, status: response.data.refund.status };
+    }
+  };
+};
@@ -0,0 +1,147 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import express from 'express';
+
+const sign = (event, secret) => {
+  const message = [event.paymentId, event.paymentRequestId, event.status, event.amount].join('|');
+  return crypto.createHmac('sha256', secret).update(message).digest('hex');
+};
+
+const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const checkoutPage = (request) => `<!doctype html>
+<html>
+  <head><meta name="viewport" content="width=device-width, initial-scale=1"><title>Mock Checkout</title></head>
+  <body style="font-family: Arial, sans-serif; max-width: 480px; margin: 40px auto; padding: 0 16px;">
+    <h1>Mock Checkout</h1>
+    <p>${escapeHtml(request.purpose)}</p>
+    <p><strong>Amount:</strong> &#8377;${escapeHtml(request.amount)}</p>
+    <p><strong>Buyer:</strong> ${escapeHtml(request.buyerName)} (${escapeHtml(request.email)})</p>
+    <form method="post">
+      <button name="outcome" value="paid">Pay</button>
+      <button name="outcome" value="failed">Fail</button>
+      <button name="outcome" value="cancelled">Cancel</button>
+    </form>
+  </body>
+</html>`;
+
+/**
+ * Local stand-in for a real gateway. IDs come from counters, so the same
+ * sequence of calls always yields the same IDs. State lives in memory and is
+ * lost when the server restarts.
+ */
+export const createMockGateway = ({
+  secret = process.env.MOCK_GATEWAY_SECRET || 'mock-gateway-secret',
+  basePath = '/api/mock-gateway'
+} = {}) => {
+  const requests = new Map();
+  const counters = { request: 0, payment: 0, refund: 0 };
+  const nextId = (kind, prefix) => `${prefix}${String(++counters[kind]).padStart(6, '0')}`;
+
+  // Mirrors a real gateway: notify our webhook, then send the buyer back
+  const completeCheckout = async (request, outcome) => {
+    const event = {
+      paymentId: nextId('payment', 'MOCKPAY'),
+      paymentRequestId: request.id,
+      status: outcome,
+      gatewayStatus: outcome === 'paid' ? 'Credit' : 'Failed',
+      amount: request.amount,
+      fees: '0.00',
+      buyerName: request.buyerName,
+      email: request.email,
+      phone: request.phone
+    };
+    request.payments.push(event);
+
+    await axios.post(request.webhookUrl, { ...event, signature: sign(event, secret) });
+    return event;
+  };
+
+  const router = express.Router();
+
+  router.get('/checkout/:id', (req, res) => {
+    const request = requests.get(req.params.id);
+    if (!request) {
+      return res.status(404).send('Unknown payment request');
+    }
+    res.send(checkoutPage(request));
+  });
+
+  router.post('/checkout/:id', async (req, res) => {
+    const request = requests.get(req.params.id);
+    if (!request) {
+      return res.status(404).send('Unknown payment request');
+    }
+
+    const redirect = new URL(request.redirectUrl);
+    if (req.body.outcome === 'cancelled') {
+      return res.redirect(redirect.toString());
+    }
+
+    try {
+      const outcome = req.body.outcome === 'paid' ? 'paid' : 'failed';
+      const event = await completeCheckout(request, outcome);
+      redirect.searchParams.set('payment_id', event.paymentId);
+      redirect.searchParams.set('payment_request_id', request.id);
+      redirect.searchParams.set('payment_status', event.gatewayStatus);
+      res.redirect(redirect.toString());
+    } catch (error) {
+      console.error('Mock checkout error:', error.response?.data || error.message);
+      res.status(502).send('Mock gateway could not deliver the webhook');
+    }
+  });
+
+  return {
+    name: 'mock',
+    router,
+    basePath,
+
+    async createPaymentRequest({ amount, purpose, buyerName, email, phone, redirectUrl, webhookUrl }) {
+      const id = nextId('request', 'MOCKREQ');
+      requests.set(id, {
+        id,
+        amount: Number(amount).toFixed(2),
+        purpose,
+        buyerName,
+        email,
+        phone,
+        redirectUrl,
+        webhookUrl,
+        payments: []
+      });
+
+      const origin = new URL(webhookUrl).origin;
+      return { id, longurl: `${origin}${basePath}/checkout/${id}` };
+    },
+
+    verifyCallback(body) {
+      const { signature, ...event } = body || {};
+      if (typeof signature !== 'string' || signature !== sign(event, secret)) {
+        return null;
+      }
+      return event;
+    },
+
+    async fetchPaymentStatus(paymentRequestId) {
+      const request = requests.get(paymentRequestId);
+      const payments = request ? request.payments : [];
+      const paid = payments.find((payment) => payment.status === 'paid');
+
+      if (paid) {
+        return { status: 'paid', payment: paid };
+      }
+      if (payments.length > 0) {
+        return { status: 'failed', payment: payments[payments.length - 1] };
+      }
+      return { status: 'pending', payment: null };
+    },
+
+    async refund() {
+      return { refundId: nextId('refund', 'MOCKREF'), status: 'Refunded' };
+    }
+  };
+};
@@ -0,0 +1,390 @@
+import { db } from './firebaseAdmin.js';
+import { recordAudit } from './audit.js';
+import { writeInChunks } from './batch.js';
+import { judgeStats, normalizedPoints, rawPoints, disagreement } from './normalization.js';
+import { getJudgeConflicts, isConflicted } from './conflicts.js';
+
+export const DEFAULT_RUBRIC = {
+  criteria: [
+    { id: 'innovation', label: 'Innovation', maxScore: 10, weight: 1 },
+    { id: 'feasibility', label: 'Feasibility', maxScore: 10, weight: 1 },
+    { id: 'market', label: 'Market Potential', maxScore: 10, weight: 1 },
+    { id: 'presentation', label: 'Presentation', maxScore: 10, weight: 1 }
+  ]
+};
+
+export const DEFAULT_JUDGING_SETTINGS = {
+  judgesPerSubmission: 2,
+  // 'raw' ranks by mean percentage; 'zscore' standardizes each judge first
+  normalization: 'raw',
+  // Judges further apart than this many percentage points are flagged
+  disagreementThreshold: 20
+};
+
+export class JudgingError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const settingsRef = () => db.collection('config').doc('judging');
+const submissionRef = (submissionId) => db.collection('phase1_submissions').doc(submissionId);
+
+// Written onto phase1_submissions by the judging and assignment APIs
+const SUBMISSION_JUDGING_FIELDS = [
+  'points', 'rawPoints', 'normalizedPoints', 'review', 'reviewedAt',
+  'judgeCount', 'assignedJudges', 'reReviewRequestedAt'
+];
+
+/**
+ * A team's own Phase 1 submission as the team sent it. Teams cannot read
+ * phase1_submissions directly; their scores reach them through the published
+ * scoreboard only.
+ */
+export const getTeamSubmission = async (teamId) => {
+  const snap = await submissionRef(teamId).get();
+  if (!snap.exists) return null;
+  const submission = snap.data();
+  SUBMISSION_JUDGING_FIELDS.forEach((field) => delete submission[field]);
+  return submission;
+};
+
+const validateCriteria = (criteria) => {
+  if (!Array.isArray(criteria) || criteria.length === 0) {
+    throw new JudgingError('The rubric needs at least one criterion.');
+  }
+
+  const ids = new Set();
+  return criteria.map((criterion) => {
+    const id = String(criterion.id || '').trim().toLowerCase().replace(/[^a-z0-9_]+/g, '_');
+    const maxScore = Number(criterion.maxScore);
+    const weight = Number(criterion.weight);
+    if (!id || ids.has(id)) {
+      throw new JudgingError('Every criterion needs a unique ID.');
+    }
+    if (!Number.isFinite(maxScore) || maxScore <= 0) {
+      throw new JudgingError(`Set a maximum score above zero for "${id}".`);
+    }
+    if (!Number.isFinite(weight) || weight <= 0) {
+      throw new JudgingError(`Set a weight above zero for "${id}".`);
+    }
+    ids.add(id);
+    return { id, label: String(criterion.label || id).trim(), maxScore, weight };
+  });
+};
+
+/**
+ * Each judged round keeps its own rubric in config/{docId}, falling back to
+ * `defaults` until an organizer saves one.
+ */
+export const rubricStore = ({ docId, defaults, action }) => {
+  const ref = () => db.collection('config').doc(docId);
+
+  const get = async () => {
+    const snap = await ref().get();
+    return snap.exists && snap.data().criteria?.length ? snap.data() : defaults;
+  };
+
+  const save = async ({ criteria, actor }) => {
+    const before = await get();
+    const rubric = {
+      criteria: validateCriteria(criteria),
+      updatedBy: actor.email || null,
+      updatedAt: new Date().toISOString()
+    };
+
+    const batch = db.batch();
+    batch.set(ref(), rubric);
+    await recordAudit({
+      actor,
+      action,
+      target: `config/${docId}`,
+      before: { criteria: before.criteria },
+      after: { criteria: rubric.criteria }
+    }, batch);
+    await batch.commit();
+    return rubric;
+  };
+
+  return { get, save };
+};
+
+const phase1Rubric = rubricStore({ docId: 'rubric', defaults: DEFAULT_RUBRIC, action: 'score.rubric' });
+export const getRubric = phase1Rubric.get;
+export const saveRubric = phase1Rubric.save;
+
+export const getJudgingSettings = async () => {
+  const snap = await settingsRef().get();
+  return { ...DEFAULT_JUDGING_SETTINGS, ...(snap.exists ? snap.data() : {}) };
+};
+
+export const saveJudgingSettings = async ({ judgesPerSubmission, normalization, disagreementThreshold, actor }) => {
+  const before = await getJudgingSettings();
+  const perSubmission = Number(judgesPerSubmission);
+  const threshold = Number(disagreementThreshold);
+  if (!Number.isInteger(perSubmission) || perSubmission < 1 || perSubmission > 10) {
+    throw new JudgingError('Judges per submission must be a whole number from 1 to 10.');
+  }
+  if (!['raw', 'zscore'].includes(normalization)) {
+    throw new JudgingError('Normalization must be "raw" or "zscore".');
+  }
+  if (!Number.isFinite(threshold) || threshold <= 0) {
+    throw new JudgingError('The disagreement threshold must be above zero.');
+  }
+
+  const settings = {
+    judgesPerSubmission: perSubmission,
+    normalization,
+    disagreementThreshold: threshold,
+    updatedBy: actor.email || null,
+    updatedAt: new Date().toISOString()
+  };
+  const batch = db.batch();
+  batch.set(settingsRef(), settings);
+  await recordAudit({
+    actor,
+    action: 'score.settings',
+    target: 'config/judging',
+    before: {
+      judgesPerSubmission: before.judgesPerSubmission,
+      normalization: before.normalization,
+      disagreementThreshold: before.disagreementThreshold
+    },
+    after: { judgesPerSubmission: perSubmission, normalization, disagreementThreshold: threshold }
+  }, batch);
+  await batch.commit();
+
+  if (before.normalization !== normalization) {
+    await recomputeRankings({ actor });
+  }
+  return settings;
+};
+
+// Weighted rubric total as a percentage of the maximum possible total
+export const scorePercentage = (scores, rubric) => {
+  let total = 0;
+  let max = 0;
+  rubric.criteria.forEach((criterion) => {
+    total += (scores[criterion.id] || 0) * criterion.weight;
+    max += criterion.maxScore * criterion.weight;
+  });
+  return max > 0 ? Math.round((total / max) * 10000) / 100 : 0;
+};
+
+export const validateScores = (scores, rubric) => {
+  const clean = {};
+  rubric.criteria.forEach((criterion) => {
+    const value = Number(scores?.[criterion.id]);
+    if (!Number.isFinite(value) || value < 0 || value > criterion.maxScore) {
+      throw new JudgingError(`${criterion.label} must be between 0 and ${criterion.maxScore}.`);
+    }
+    clean[criterion.id] = value;
+  });
+  return clean;
+};
+
+// Raw points are the mean of every judge's percentage; comments become the review
+export const aggregateScores = (judgeScores) => {
+  const review = judgeScores
+    .map((entry) => entry.comment)
+    .filter(Boolean)
+    .join('\n\n');
+  return {
+    rawPoints: rawPoints(judgeScores),
+    review: review || null,
+    judgeCount: judgeScores.length
+  };
+};
+
+export const loadAllScores = async () => {
+  const snap = await db.collectionGroup('scores').get();
+  const bySubmission = new Map();
+  snap.docs
+    .filter((doc) => doc.ref.parent.parent?.parent.id === 'phase1_submissions')
+    .forEach((doc) => {
+      const submissionId = doc.ref.parent.parent.id;
+      bySubmission.set(submissionId, [...(bySubmission.get(submissionId) || []), doc.data()]);
+    });
+  return bySubmission;
+};
+
+/**
+ * Rewrites `points` on every scored submission for the current normalization
+ * mode. Z-scores depend on every score a judge has given, so any new score can
+ * move other submissions too.
+ */
+export const recomputeRankings = async ({ actor = null } = {}) => {
+  const settings = await getJudgingSettings();
+  const bySubmission = await loadAllScores();
+  const stats = judgeStats([...bySubmission.values()].flat());
+
+  const updates = [...bySubmission.entries()].map(([submissionId, scores]) => {
+    const raw = rawPoints(scores);
+    const normalized = normalizedPoints(scores, stats);
+    return {
+      submissionId,
+      fields: {
+        rawPoints: raw,
+        normalizedPoints: normalized,
+        points: settings.normalization === 'zscore' ? normalized : raw
+      }
+    };
+  });
+
+  await writeInChunks(updates, (batch, update) => {
+    batch.update(submissionRef(update.submissionId), update.fields);
+  });
+
+  const result = { normalization: settings.normalization, updated: updates.length };
+  if (actor) {
+    await recordAudit({ actor, action: 'score.recompute', target: 'phase1_submissions', metadata: result });
+  }
+  return result;
+};
+
+/**
+ * Stores one judge's rubric scores for a submission under
+ * phase1_submissions/{id}/scores/{judgeUid} and recomputes the submission's
+ * `points` and `review` from all judges in the same transaction.
+ */
+export const submitScore = async ({ submissionId, scores, comment, actor, assignedOnly }) => {
+  const [rubric, settings, conflicts] = await Promise.all([
+    getRubric(),
+    getJudgingSettings(),
+    getJudgeConflicts(actor.uid)
+  ]);
+  const cleanScores = validateScores(scores, rubric);
+  const scoresRef = submissionRef(submissionId).collection('scores');
+
+  const result = await db.runTransaction(async (tx) => {
+    const submissionSnap = await tx.get(submissionRef(submissionId));
+    if (!submissionSnap.exists) {
+      throw new JudgingError('Submission not found.', 404);
+    }
+    const submission = submissionSnap.data();
+    if (assignedOnly && !(submission.assignedJudges || []).includes(actor.uid)) {
+      throw new JudgingError('This submission is not assigned to you.', 403);
+    }
+    if (isConflicted(conflicts, { id: submissionId, ...submission })) {
+      throw new JudgingError('You have declared a conflict of interest with this team.', 403);
+    }
+
+    const existingSnap = await tx.get(scoresRef);
+    const previous = existingSnap.docs.find((doc) => doc.id === actor.uid)?.data() || null;
+    const entry = {
+      judgeUid: actor.uid,
+      judgeEmail: actor.email || null,
+      scores: cleanScores,
+      percentage: scorePercentage(cleanScores, rubric),
+      comment: comment?.trim() || null,
+      rubric: rubric.criteria,
+      updatedAt: new Date().toISOString()
+    };
+
+    const judgeScores = existingSnap.docs
+      .filter((doc) => doc.id !== actor.uid)
+      .map((doc) => doc.data())
+      .concat(entry);
+    const { rawPoints: raw, review, judgeCount } = aggregateScores(judgeScores);
+    // Normalized points are filled in by recomputeRankings below
+    const points = settings.normalization === 'raw' ? raw : submission.points ?? null;
+
+    tx.set(scoresRef.doc(actor.uid), entry);
+    tx.update(submissionRef(submissionId), {
+      points,
+      rawPoints: raw,
+      review,
+      judgeCount,
+      reviewedAt: entry.updatedAt
+    });
+    await recordAudit({
+      actor,
+      action: 'score.submit',
+      target: `phase1_submissions/${submissionId}`,
+      before: { points: submission.points ?? null, judgeScore: previous?.percentage ?? null },
+      after: { points, judgeScore: entry.percentage },
+      metadata: { scores: cleanScores, judgeCount }
+    }, tx);
+
+    return { ...entry, points, judgeCount };
+  });
+
+  if (settings.normalization === 'zscore') {
+    await recomputeRankings();
+    const updated = await submissionRef(submissionId).get();
+    result.points = updated.data().points;
+  }
+  return result;
+};
+
+// Submissions with the requesting judge's own score attached. Judges only see
+// what is assigned to them; organizers see everything.
+export const listSubmissionsForJudge = async (judgeUid, { assignedOnly }) => {
+  const [snap, conflicts] = await Promise.all([
+    db.collection('phase1_submissions').get(),
+    getJudgeConflicts(judgeUid)
+  ]);
+  const docs = snap.docs.filter((doc) =>
+    !assignedOnly || (doc.data().assignedJudges || []).includes(judgeUid)
+  );
+
+  return Promise.all(docs.map(async (doc) => {
+    const data = doc.data();
+    const myScore = await doc.ref.collection('scores').doc(judgeUid).get();
+    return {
+      id: doc.id,
+      teamName: data.teamName || '',
+      registrationId: data.registrationId || '',
+      collegeName: data.collegeName || '',
+      productDescription: data.productDescription || '',
+      solution: data.solution || '',
+      fileUrl: data.fileUrl || null,
+      youtubeLink: data.youtubeLink || null,
+      submittedAt: data.submittedAt || null,
+      points: data.points ?? null,
+      judgeCount: data.judgeCount || 0,
+      conflicted: isConflicted(conflicts, { id: doc.id, ...data }),
+      myScore: myScore.exists ? myScore.data() : null
+    };
+  }));
+};
+
+// Every scored submission with each judge's score, for spotting disagreement
+export const judgingOverview = async () => {
+  const [settings, submissionsSnap, bySubmission, judgesSnap] = await Promise.all([
+    getJudgingSettings(),
+    db.collection('phase1_submissions').get(),
+    loadAllScores(),
+    db.collection('roles').where('role', '==', 'judge').get()
+  ]);
+  const judgeEmails = new Map(judgesSnap.docs.map((doc) => [doc.id, doc.data().email]));
+
+  return {
+    settings,
+    submissions: submissionsSnap.docs.map((doc) => {
+      const data = doc.data();
+      const scores = bySubmission.get(doc.id) || [];
+      const { spread, std } = disagreement(scores);
+      return {
+        id: doc.id,
+        teamName: data.teamName || '',
+        registrationId: data.registrationId || '',
+        collegeName: data.collegeName || '',
+        assignedJudges: (data.assignedJudges || []).map((uid) => ({ uid, email: judgeEmails.get(uid) || null })),
+        scores: scores.map((score) => ({
+          judgeUid: score.judgeUid,
+          judgeEmail: score.judgeEmail,
+          percentage: score.percentage
+        })),
+        rawPoints: data.rawPoints ?? null,
+        normalizedPoints: data.normalizedPoints ?? null,
+        points: data.points ?? null,
+        spread,
+        std,
+        flagged: spread >= settings.disagreementThreshold,
+        reReviewRequestedAt: data.reReviewRequestedAt || null
+      };
+    })
+  };
+};
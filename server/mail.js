@@ -0,0 +1,45 @@
+import nodemailer from 'nodemailer';
+
+export class EmailError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * SMTP settings come from the server environment only:
+ *
+ *   SMTP_HOST, SMTP_PORT   defaults to Gmail (smtp.gmail.com:465)
+ *   SMTP_SECURE            "true"/"false"; defaults to true on port 465
+ *   SMTP_USER, SMTP_PASSWORD
+ *   MAIL_FROM              defaults to SMTP_USER
+ *
+ * Leave SMTP_USER unset to talk to a local catcher such as Mailpit
+ * (SMTP_HOST=localhost SMTP_PORT=1025) without authentication.
+ */
+export const createMailTransport = (env = process.env) => {
+  const port = Number(env.SMTP_PORT) || 465;
+  return nodemailer.createTransport({
+    host: env.SMTP_HOST || 'smtp.gmail.com',
+    port,
+    secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASSWORD } : undefined
+  });
+};
+
+let transport = null;
+
+const getTransport = () => {
+  transport = transport || createMailTransport();
+  return transport;
+};
+
+export const mailFrom = () => process.env.MAIL_FROM || process.env.SMTP_USER || 'Startup Spark <no-reply@localhost>';
+
+// Throws when the SMTP server refuses the message; `rejected` lists
+// recipients it refused while accepting the rest
+export const sendEmail = async ({ to, subject, html, attachments = [] }) => {
+  const info = await getTransport().sendMail({ from: mailFrom(), to, subject, html, attachments });
+  return { messageId: info.messageId, rejected: info.rejected || [] };
+};
@@ -0,0 +1,53 @@
+// Pure helpers for turning per-judge rubric percentages into a fair ranking
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+const mean = (values) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Population standard deviation; 0 for fewer than two values
+const stdDev = (values) => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map((value) => (value - avg) ** 2)));
+};
+
+// judgeUid -> { mean, std, count } over every percentage that judge has given
+export const judgeStats = (scores) => {
+  const byJudge = new Map();
+  scores.forEach(({ judgeUid, percentage }) => {
+    byJudge.set(judgeUid, [...(byJudge.get(judgeUid) || []), percentage]);
+  });
+
+  const stats = new Map();
+  byJudge.forEach((values, judgeUid) => {
+    stats.set(judgeUid, { mean: mean(values), std: stdDev(values), count: values.length });
+  });
+  return stats;
+};
+
+// A judge who gives everyone the same score carries no ranking signal
+export const zScore = (percentage, stats) =>
+  stats && stats.std > 0 ? (percentage - stats.mean) / stats.std : 0;
+
+/**
+ * Mean z-score of a submission's judges, reported on a 50 ± 10 scale so it
+ * still reads like points (50 = an average submission for its judges).
+ */
+export const normalizedPoints = (submissionScores, stats) => {
+  if (submissionScores.length === 0) return null;
+  const z = mean(submissionScores.map((score) => zScore(score.percentage, stats.get(score.judgeUid))));
+  return round2(50 + 10 * z);
+};
+
+export const rawPoints = (submissionScores) =>
+  submissionScores.length === 0 ? null : round2(mean(submissionScores.map((score) => score.percentage)));
+
+// How far apart a submission's judges are, in percentage points
+export const disagreement = (submissionScores) => {
+  const values = submissionScores.map((score) => score.percentage);
+  if (values.length < 2) return { spread: 0, std: 0 };
+  return {
+    spread: round2(Math.max(...values) - Math.min(...values)),
+    std: round2(stdDev(values))
+  };
+};
@@ -0,0 +1,133 @@
+import { db } from './firebaseAdmin.js';
+
+/**
+ * A participant is identified by their email, phone number and, for REC
+ * students, the roll number saved in rec_students. The same value on two
+ * teams means one person registered twice.
+ */
+export const PARTICIPANT_FIELDS = ['email', 'phone', 'rollNumber'];
+
+const FIELD_LABELS = {
+  email: 'email',
+  phone: 'phone number',
+  rollNumber: 'roll number'
+};
+
+const normalizers = {
+  email: (value) => String(value || '').trim().toLowerCase(),
+  // Compare the last ten digits so +91, spaces and dashes do not matter
+  phone: (value) => {
+    const digits = String(value || '').replace(/\D/g, '');
+    return digits.length >= 7 ? digits.slice(-10) : '';
+  },
+  rollNumber: (value) => String(value || '').replace(/\s+/g, '').toUpperCase()
+};
+
+export const participantKey = (field, value) => `${field}:${value}`;
+
+export const parseParticipantKey = (key) => {
+  const separator = String(key || '').indexOf(':');
+  const field = String(key).slice(0, separator);
+  return PARTICIPANT_FIELDS.includes(field) ? { field, value: String(key).slice(separator + 1) } : null;
+};
+
+// Accounts sign in as the team lead (teams/{uid}) or join by invite (member.uid)
+const memberUid = (teamId, member, index) => member?.uid || (index === 0 ? teamId : null);
+
+// Normalized identity values for one member, skipping the ones left empty
+export const memberKeys = (member, recRollNumber = '') => {
+  const keys = [];
+  PARTICIPANT_FIELDS.forEach((field) => {
+    const raw = field === 'rollNumber' ? member?.rollNumber || recRollNumber : member?.[field];
+    const value = normalizers[field](raw);
+    if (value) keys.push({ field, value, key: participantKey(field, value) });
+  });
+  return keys;
+};
+
+const loadRecRollNumbers = async (uids) => {
+  const unique = [...new Set(uids.filter(Boolean))];
+  if (unique.length === 0) return new Map();
+  const snaps = await db.getAll(...unique.map((uid) => db.collection('rec_students').doc(uid)));
+  return new Map(snaps.filter((snap) => snap.exists).map((snap) => [snap.id, snap.data().rollNumber || '']));
+};
+
+/**
+ * Every registered participant grouped by identity key. Teams are read in
+ * full; the event has a few hundred at most.
+ */
+export const loadParticipantIndex = async () => {
+  const teamsSnap = await db.collection('teams').get();
+  const uids = [];
+  teamsSnap.docs.forEach((doc) => {
+    (doc.data().members || []).forEach((member, index) => uids.push(memberUid(doc.id, member, index)));
+  });
+  const rollNumbers = await loadRecRollNumbers(uids);
+
+  const index = new Map();
+  teamsSnap.docs.forEach((doc) => {
+    const team = doc.data();
+    (team.members || []).forEach((member, memberIndex) => {
+      const uid = memberUid(doc.id, member, memberIndex);
+      memberKeys(member, rollNumbers.get(uid)).forEach(({ field, value, key }) => {
+        if (!index.has(key)) index.set(key, { key, field, value, entries: [] });
+        index.get(key).entries.push({
+          teamId: doc.id,
+          teamName: team.teamName || '',
+          registrationId: team.registrationId || '',
+          paymentStatus: team.paymentStatus || 'pending',
+          index: memberIndex,
+          name: member.name || '',
+          email: member.email || '',
+          phone: member.phone || '',
+          uid
+        });
+      });
+    });
+  });
+  return index;
+};
+
+// Organizer decisions that a shared value is expected, by identity key
+export const loadDuplicateResolutions = async () => {
+  const snap = await db.collection('duplicate_resolutions').get();
+  return new Map(snap.docs.map((doc) => [doc.data().key, doc.data()]));
+};
+
+/**
+ * A resolution covers a group only while exactly the same teams share the
+ * value; a new team turning up with it reopens the group.
+ */
+export const isResolvedFor = (resolution, teamIds) =>
+  Boolean(resolution) && resolution.teamIds.join(',') === [...new Set(teamIds)].sort().join(',');
+
+/**
+ * Values among `members` that already belong to someone on a team other than
+ * `teamId`, unless an organizer resolved that group of teams as legitimate.
+ * Members may carry a uid so their rec_students roll number counts.
+ */
+export const findParticipantConflicts = async ({ teamId, members }) => {
+  const [index, resolutions, rollNumbers] = await Promise.all([
+    loadParticipantIndex(),
+    loadDuplicateResolutions(),
+    loadRecRollNumbers((members || []).map((member) => member?.uid))
+  ]);
+
+  const conflicts = [];
+  (members || []).forEach((member, memberIndex) => {
+    memberKeys(member, rollNumbers.get(member?.uid)).forEach(({ field, value, key }) => {
+      const teamIds = (index.get(key)?.entries || []).map((entry) => entry.teamId);
+      const taken = teamIds.some((id) => id !== teamId)
+        && !isResolvedFor(resolutions.get(key), [...teamIds, teamId]);
+      if (taken) {
+        conflicts.push({
+          field,
+          value,
+          index: memberIndex,
+          message: `The ${FIELD_LABELS[field]} ${value} is already registered with another team.`
+        });
+      }
+    });
+  });
+  return conflicts;
+};
@@ -0,0 +1,168 @@
+import { db } from './firebaseAdmin.js';
+import { amountsMatch, computeTeamFee } from './pricing.js';
+
+/**
+ * Stores the pending payment record for a freshly created payment request and
+ * links it to the team, so settlement can join on payment_request_id.
+ */
+export const recordPaymentRequest = async ({
+  gatewayName,
+  paymentRequestId,
+  teamId,
+  registrationId,
+  quote,
+  purpose,
+  buyerName,
+  email,
+  phone
+}) => {
+  const now = new Date().toISOString();
+  const batch = db.batch();
+
+  batch.set(db.collection('payments').doc(paymentRequestId), {
+    payment_request_id: paymentRequestId,
+    payment_id: null,
+    status: 'pending',
+    gateway: gatewayName,
+    teamId,
+    userId: teamId,
+    registrationId,
+    amount: quote.total.toFixed(2),
+    expectedAmount: quote.total,
+    pricing: quote,
+    purpose,
+    buyerName,
+    email,
+    phone,
+    createdAt: now,
+    updatedAt: now
+  });
+
+  batch.update(db.collection('teams').doc(teamId), {
+    paymentRequestId,
+    paymentStatus: 'initiated',
+    paymentInitiatedAt: now,
+    amountDue: quote.total
+  });
+
+  await batch.commit();
+};
+
+// Settles a team whose computed fee is zero (e.g. a full-discount coupon)
+export const waivePayment = async ({ teamId, quote }) => {
+  const now = new Date().toISOString();
+  await db.collection('teams').doc(teamId).update({
+    paymentStatus: 'paid',
+    paymentMethod: 'waiver',
+    amountDue: 0,
+    couponCode: quote.couponCode,
+    paymentCompletedAt: now
+  });
+};
+
+/**
+ * Persists a verified gateway payment event and settles the owning team.
+ * Events are keyed by payment ID, so a redelivered webhook is a no-op.
+ */
+export const settlePaymentEvent = async (event, gatewayName) => {
+  const { paymentId, paymentRequestId, status } = event;
+
+  const paymentRef = db.collection('payments').doc(paymentRequestId);
+  const eventRef = paymentRef.collection('events').doc(paymentId);
+
+  return db.runTransaction(async (tx) => {
+    const [eventSnap, paymentSnap] = await Promise.all([
+      tx.get(eventRef),
+      tx.get(paymentRef)
+    ]);
+
+    if (eventSnap.exists) {
+      return { duplicate: true, status: eventSnap.data().status };
+    }
+
+    const payment = paymentSnap.exists ? paymentSnap.data() : null;
+    const teamId = payment?.teamId || null;
+    const teamRef = teamId ? db.collection('teams').doc(teamId) : null;
+    const teamSnap = teamRef ? await tx.get(teamRef) : null;
+
+    const now = new Date().toISOString();
+    const alreadyPaid = payment?.status === 'paid';
+    // The team may have changed its size or coupon since the request was
+    // made, so the fee is worked out again from the team as it is now. Prices
+    // and coupons are taken as they stood when the request was made.
+    const currentFee = status === 'paid' && teamSnap?.exists
+      ? await computeTeamFee(teamSnap.data(), new Date(payment.createdAt || now))
+      : null;
+    // Only a payment for the fee we computed settles the team
+    const amountMismatch = status === 'paid' && (
+      (payment?.expectedAmount !== undefined && !amountsMatch(payment.expectedAmount, event.amount))
+      || (currentFee !== null && !amountsMatch(currentFee.total, event.amount))
+    );
+
+    tx.create(eventRef, {
+      ...event,
+      gateway: gatewayName,
+      receivedAt: now
+    });
+
+    // A late failure for another attempt must not undo a successful payment.
+    // Money that arrived for the wrong amount is kept apart from 'paid' so
+    // nothing reading the payment mistakes it for a settled registration.
+    if (!alreadyPaid) {
+      tx.set(paymentRef, {
+        payment_id: paymentId,
+        payment_request_id: paymentRequestId,
+        status: amountMismatch ? 'amount_mismatch' : status,
+        gateway: gatewayName,
+        amount: event.amount,
+        fees: event.fees || null,
+        buyerName: event.buyerName || payment?.buyerName || '',
+        email: event.email || payment?.email || '',
+        phone: event.phone || payment?.phone || '',
+        teamId,
+        amountMismatch,
+        createdAt: payment?.createdAt || now,
+        updatedAt: now
+      }, { merge: true });
+    }
+
+    if (teamSnap?.exists && teamSnap.data().paymentStatus !== 'paid') {
+      if (amountMismatch) {
+        tx.update(teamRef, { paymentAmountMismatchAt: now });
+      } else if (status === 'paid') {
+        tx.update(teamRef, {
+          paymentStatus: 'paid',
+          paymentId,
+          paymentCompletedAt: now
+        });
+      } else {
+        tx.update(teamRef, { paymentFailedAt: now });
+      }
+    }
+
+    return { duplicate: false, status, teamId, amountMismatch };
+  });
+};
+
+/**
+ * Links a paid payment that predates payment request tracking to a team and
+ * settles it. Used by reconciliation once the payer email points at exactly
+ * one team.
+ */
+export const settleLegacyPayment = async ({ teamId, paymentDocId, paymentId }) => {
+  const now = new Date().toISOString();
+  const batch = db.batch();
+
+  batch.update(db.collection('payments').doc(paymentDocId), {
+    teamId,
+    updatedAt: now
+  });
+  batch.update(db.collection('teams').doc(teamId), {
+    paymentStatus: 'paid',
+    paymentId: paymentId || paymentDocId,
+    paymentCompletedAt: now,
+    paymentReconciledAt: now
+  });
+
+  await batch.commit();
+};
@@ -0,0 +1,175 @@
+import { db } from './firebaseAdmin.js';
+import { recordAudit } from './audit.js';
+import { rawPoints } from './normalization.js';
+import { getJudgeConflicts, isConflicted } from './conflicts.js';
+import { JudgingError, rubricStore, validateScores, scorePercentage } from './judging.js';
+
+// pending → under_review (first review saved) → shortlisted | rejected
+export const PHASE2_STATUSES = ['pending', 'under_review', 'shortlisted', 'rejected'];
+
+export const DEFAULT_PHASE2_RUBRIC = {
+  criteria: [
+    { id: 'business_model', label: 'Business Model', maxScore: 10, weight: 1 },
+    { id: 'financials', label: 'Financial Viability', maxScore: 10, weight: 1 },
+    { id: 'product', label: 'Product Demo', maxScore: 10, weight: 1 },
+    { id: 'scalability', label: 'Scalability', maxScore: 10, weight: 1 }
+  ]
+};
+
+const submissionRef = (submissionId) => db.collection('phase2_submissions').doc(submissionId);
+
+const phase2Rubric = rubricStore({
+  docId: 'phase2Rubric',
+  defaults: DEFAULT_PHASE2_RUBRIC,
+  action: 'phase2.rubric'
+});
+export const getPhase2Rubric = phase2Rubric.get;
+export const savePhase2Rubric = phase2Rubric.save;
+
+// Team details live on teams/{uid}; Phase 2 submissions share the same ID
+const loadTeams = async () => {
+  const snap = await db.collection('teams').get();
+  return new Map(snap.docs.map((doc) => [doc.id, doc.data()]));
+};
+
+const describe = (id, data, team = {}) => ({
+  id,
+  teamName: team.teamName || '',
+  registrationId: team.registrationId || '',
+  collegeName: team.collegeName || '',
+  proposalUrl: data.proposalUrl || null,
+  youtubeVideoUrl: data.youtubeVideoUrl || null,
+  submittedAt: data.submittedAt || null,
+  status: data.status || 'pending',
+  statusNote: data.statusNote || null,
+  points: data.points ?? null,
+  judgeCount: data.judgeCount || 0
+});
+
+/**
+ * Stores one judge's review under phase2_submissions/{id}/reviews/{judgeUid}
+ * and recomputes the submission's points from every review. The first review
+ * moves a pending submission to under_review.
+ */
+export const submitPhase2Review = async ({ submissionId, scores, comment, actor }) => {
+  const [rubric, conflicts] = await Promise.all([getPhase2Rubric(), getJudgeConflicts(actor.uid)]);
+  const cleanScores = validateScores(scores, rubric);
+  const reviewsRef = submissionRef(submissionId).collection('reviews');
+
+  return db.runTransaction(async (tx) => {
+    const submissionSnap = await tx.get(submissionRef(submissionId));
+    if (!submissionSnap.exists) {
+      throw new JudgingError('Submission not found.', 404);
+    }
+    const teamSnap = await tx.get(db.collection('teams').doc(submissionId));
+    if (isConflicted(conflicts, { id: submissionId, collegeName: teamSnap.data()?.collegeName })) {
+      throw new JudgingError('You have declared a conflict of interest with this team.', 403);
+    }
+    const submission = submissionSnap.data();
+    if (['shortlisted', 'rejected'].includes(submission.status)) {
+      throw new JudgingError('A decision has already been made on this submission.', 409);
+    }
+
+    const existingSnap = await tx.get(reviewsRef);
+    const previous = existingSnap.docs.find((doc) => doc.id === actor.uid)?.data() || null;
+    const entry = {
+      judgeUid: actor.uid,
+      judgeEmail: actor.email || null,
+      scores: cleanScores,
+      percentage: scorePercentage(cleanScores, rubric),
+      comment: comment?.trim() || null,
+      rubric: rubric.criteria,
+      updatedAt: new Date().toISOString()
+    };
+    const reviews = existingSnap.docs
+      .filter((doc) => doc.id !== actor.uid)
+      .map((doc) => doc.data())
+      .concat(entry);
+    const update = {
+      points: rawPoints(reviews),
+      judgeCount: reviews.length,
+      reviewedAt: entry.updatedAt,
+      status: 'under_review'
+    };
+
+    tx.set(reviewsRef.doc(actor.uid), entry);
+    tx.update(submissionRef(submissionId), update);
+    await recordAudit({
+      actor,
+      action: 'phase2.review',
+      target: `phase2_submissions/${submissionId}`,
+      before: { points: submission.points ?? null, status: submission.status, judgeScore: previous?.percentage ?? null },
+      after: { points: update.points, status: update.status, judgeScore: entry.percentage },
+      metadata: { scores: cleanScores, judgeCount: update.judgeCount }
+    }, tx);
+
+    return { ...entry, points: update.points, judgeCount: update.judgeCount, status: update.status };
+  });
+};
+
+// Organizers decide; the note is shown to the team on their dashboard
+export const setPhase2Status = async ({ submissionId, status, note, actor }) => {
+  if (!PHASE2_STATUSES.includes(status)) {
+    throw new JudgingError(`Status must be one of: ${PHASE2_STATUSES.join(', ')}.`);
+  }
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(submissionRef(submissionId));
+    if (!snap.exists) {
+      throw new JudgingError('Submission not found.', 404);
+    }
+    const before = snap.data();
+    const update = {
+      status,
+      statusNote: note?.trim() || null,
+      statusUpdatedAt: new Date().toISOString()
+    };
+    tx.update(submissionRef(submissionId), update);
+    await recordAudit({
+      actor,
+      action: 'phase2.status',
+      target: `phase2_submissions/${submissionId}`,
+      before: { status: before.status || 'pending', statusNote: before.statusNote || null },
+      after: { status: update.status, statusNote: update.statusNote }
+    }, tx);
+    return update;
+  });
+};
+
+// Every Phase 2 submission with the requesting judge's own review attached
+export const listPhase2Submissions = async (judgeUid) => {
+  const [snap, teams, conflicts] = await Promise.all([
+    db.collection('phase2_submissions').get(),
+    loadTeams(),
+    getJudgeConflicts(judgeUid)
+  ]);
+
+  return Promise.all(snap.docs.map(async (doc) => {
+    const submission = describe(doc.id, doc.data(), teams.get(doc.id));
+    const myReview = await doc.ref.collection('reviews').doc(judgeUid).get();
+    return {
+      ...submission,
+      conflicted: isConflicted(conflicts, submission),
+      myReview: myReview.exists ? myReview.data() : null
+    };
+  }));
+};
+
+// Shortlisted teams ordered by Phase 2 points, with contacts for the finale
+export const finaleShortlist = async () => {
+  const [snap, teams] = await Promise.all([
+    db.collection('phase2_submissions').where('status', '==', 'shortlisted').get(),
+    loadTeams()
+  ]);
+
+  return snap.docs
+    .map((doc) => {
+      const team = teams.get(doc.id) || {};
+      return {
+        ...describe(doc.id, doc.data(), team),
+        teamSize: team.teamSize || (team.members || []).length,
+        members: (team.members || []).map(({ name, email, phone }) => ({ name, email, phone }))
+      };
+    })
+    .sort((a, b) => (b.points ?? -Infinity) - (a.points ?? -Infinity) || a.teamName.localeCompare(b.teamName));
+};
@@ -0,0 +1,69 @@
+import { db } from './firebaseAdmin.js';
+
+const DEFAULT_PRICING = {
+  costPerMember: 250,
+  // { endsAt: ISO date, costPerMember: number }
+  earlyBird: null
+};
+
+export const getPricingConfig = async () => {
+  const snap = await db.collection('config').doc('pricing').get();
+  return { ...DEFAULT_PRICING, ...(snap.exists ? snap.data() : {}) };
+};
+
+const findCoupon = async (code, now) => {
+  if (!code) {
+    return null;
+  }
+
+  const snap = await db.collection('coupons').doc(code.trim().toUpperCase()).get();
+  if (!snap.exists) {
+    return null;
+  }
+
+  const coupon = { code: snap.id, ...snap.data() };
+  if (coupon.active === false || (coupon.expiresAt && new Date(coupon.expiresAt) < now)) {
+    return null;
+  }
+  return coupon;
+};
+
+/**
+ * Computes the registration fee from the stored team document, never from
+ * anything the client sends. Team size is the larger of the declared size and
+ * the members actually on the team.
+ */
+export const computeTeamFee = async (team, now = new Date()) => {
+  const pricing = await getPricingConfig();
+  const teamSize = Math.max(Number(team.teamSize) || 0, team.members?.length || 0);
+
+  const isEarlyBird = Boolean(
+    pricing.earlyBird?.endsAt && now < new Date(pricing.earlyBird.endsAt)
+  );
+  const costPerMember = isEarlyBird ? pricing.earlyBird.costPerMember : pricing.costPerMember;
+  const subtotal = costPerMember * teamSize;
+
+  const coupon = await findCoupon(team.couponCode, now);
+  let discount = 0;
+  if (coupon?.percentOff) {
+    discount = Math.round((subtotal * coupon.percentOff) / 100);
+  } else if (coupon?.amountOff) {
+    discount = coupon.amountOff;
+  }
+  discount = Math.min(discount, subtotal);
+
+  return {
+    teamSize,
+    tier: isEarlyBird ? 'early_bird' : 'standard',
+    costPerMember,
+    subtotal,
+    couponCode: coupon ? coupon.code : null,
+    invalidCoupon: Boolean(team.couponCode) && !coupon,
+    discount,
+    total: subtotal - discount
+  };
+};
+
+// Gateways report amounts as decimal strings such as "500.00"
+export const amountsMatch = (expected, actual) =>
+  Math.round(Number(expected) * 100) === Math.round(Number(actual) * 100);
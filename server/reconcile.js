@@ -0,0 +1,196 @@
+import { db } from './firebaseAdmin.js';
+import { gateway } from './gateways/index.js';
+import { settlePaymentEvent, settleLegacyPayment } from './payments.js';
+import { recordAudit } from './audit.js';
+import { amountsMatch, computeTeamFee } from './pricing.js';
+
+const normalizeEmail = (email) => (email || '').trim().toLowerCase();
+
+const teamSummary = (doc) => ({
+  teamId: doc.id,
+  teamName: doc.data().teamName || '',
+  registrationId: doc.data().registrationId || ''
+});
+
+// payer email -> IDs of every team that lists it on a member
+const buildEmailIndex = (teamDocs) => {
+  const index = new Map();
+  teamDocs.forEach((doc) => {
+    (doc.data().members || []).forEach((member) => {
+      const email = normalizeEmail(member.email);
+      if (!email) return;
+      const teamIds = index.get(email) || new Set();
+      teamIds.add(doc.id);
+      index.set(email, teamIds);
+    });
+  });
+  return index;
+};
+
+// A team that retried checkout has one payment request per attempt, and the
+// payer may have completed any of them, so every open request is checked
+const reconcileLinkedTeam = async (doc, paymentRequestIds, report, dryRun) => {
+  const stillPending = [];
+  let settled = false;
+
+  for (const paymentRequestId of paymentRequestIds) {
+    const { status, payment } = await gateway.fetchPaymentStatus(paymentRequestId);
+    const entry = { ...teamSummary(doc), paymentRequestId };
+
+    if (status === 'pending') {
+      stillPending.push({ ...entry, reason: 'no_payment_at_gateway' });
+      continue;
+    }
+
+    if (dryRun) {
+      (status === 'paid' ? report.settled : report.failed).push({ ...entry, paymentId: payment.paymentId });
+      settled = settled || status === 'paid';
+      continue;
+    }
+
+    const result = await settlePaymentEvent(payment, gateway.name);
+    if (result.duplicate && status === 'paid') {
+      // The event was recorded before but the team never flipped; needs a human
+      report.ambiguous.push({ ...entry, paymentId: payment.paymentId, reason: 'event_recorded_but_team_unsettled' });
+    } else if (result.amountMismatch) {
+      report.ambiguous.push({ ...entry, paymentId: payment.paymentId, reason: 'amount_mismatch' });
+    } else {
+      (status === 'paid' ? report.settled : report.failed).push({ ...entry, paymentId: payment.paymentId });
+      settled = settled || status === 'paid';
+    }
+  }
+
+  // Abandoned attempts are not worth reporting once another one has settled
+  if (!settled) {
+    report.pending.push(...stillPending);
+  }
+};
+
+// team ID -> IDs of its payment requests that have not been settled or failed
+const buildOpenRequestIndex = (pendingPaymentDocs) => {
+  const index = new Map();
+  pendingPaymentDocs.forEach((doc) => {
+    const { teamId } = doc.data();
+    if (!teamId) return;
+    index.set(teamId, [...(index.get(teamId) || []), doc.id]);
+  });
+  return index;
+};
+
+// Teams from before payment requests were linked can only be matched by email
+const reconcileLegacyTeam = async (doc, legacyPayments, emailIndex, report, dryRun) => {
+  const entry = teamSummary(doc);
+  const memberEmails = new Set((doc.data().members || []).map((member) => normalizeEmail(member.email)));
+  const matches = legacyPayments.filter((payment) => memberEmails.has(normalizeEmail(payment.data().email)));
+
+  if (matches.length === 0) {
+    report.pending.push({ ...entry, reason: 'no_payment_request' });
+    return;
+  }
+
+  for (const payment of matches) {
+    const email = normalizeEmail(payment.data().email);
+    const claimants = [...(emailIndex.get(email) || [])];
+    if (claimants.length > 1) {
+      report.ambiguous.push({
+        ...entry,
+        paymentDocId: payment.id,
+        email,
+        reason: 'shared_payer_email',
+        claimingTeamIds: claimants
+      });
+      return;
+    }
+  }
+
+  // Like a webhook, only a payment for the team's fee settles it. Prices and
+  // coupons are taken as they stood when the payment was made.
+  const [payment] = matches;
+  const { amount, createdAt } = payment.data();
+  const fee = await computeTeamFee(doc.data(), createdAt ? new Date(createdAt) : new Date());
+  if (!amountsMatch(fee.total, amount)) {
+    report.ambiguous.push({
+      ...entry,
+      paymentDocId: payment.id,
+      paymentId: payment.data().payment_id || payment.id,
+      reason: 'amount_mismatch',
+      expectedAmount: fee.total,
+      amount: Number(amount)
+    });
+    return;
+  }
+
+  if (!dryRun) {
+    await settleLegacyPayment({
+      teamId: doc.id,
+      paymentDocId: payment.id,
+      paymentId: payment.data().payment_id
+    });
+  }
+  report.settled.push({ ...entry, paymentDocId: payment.id, method: 'legacy_email_match' });
+};
+
+/**
+ * Settles teams stuck at 'initiated' whose webhook never arrived. Teams with
+ * linked payment requests have each open request checked against the
+ * gateway, along with the latest one; legacy teams are
+ * matched to unlinked paid records by payer email. An email claimed by more
+ * than one team, or a payment that does not match the team's fee, is reported
+ * as ambiguous instead of being settled.
+ */
+export const reconcilePayments = async ({ dryRun = false, actor = 'system' } = {}) => {
+  const [initiatedSnap, allTeamsSnap, paidSnap, pendingSnap] = await Promise.all([
+    db.collection('teams').where('paymentStatus', '==', 'initiated').get(),
+    db.collection('teams').get(),
+    db.collection('payments').where('status', '==', 'paid').get(),
+    db.collection('payments').where('status', '==', 'pending').get()
+  ]);
+
+  const emailIndex = buildEmailIndex(allTeamsSnap.docs);
+  const openRequests = buildOpenRequestIndex(pendingSnap.docs);
+  const legacyPayments = paidSnap.docs.filter((doc) => !doc.data().teamId);
+
+  const report = {
+    runAt: new Date().toISOString(),
+    actor,
+    dryRun,
+    gateway: gateway.name,
+    checked: initiatedSnap.size,
+    settled: [],
+    failed: [],
+    pending: [],
+    ambiguous: [],
+    errors: []
+  };
+
+  for (const doc of initiatedSnap.docs) {
+    try {
+      const paymentRequestIds = [...new Set([doc.data().paymentRequestId, ...(openRequests.get(doc.id) || [])])]
+        .filter(Boolean);
+      if (paymentRequestIds.length > 0) {
+        await reconcileLinkedTeam(doc, paymentRequestIds, report, dryRun);
+      } else {
+        await reconcileLegacyTeam(doc, legacyPayments, emailIndex, report, dryRun);
+      }
+    } catch (error) {
+      console.error(`Reconciliation error for team ${doc.id}:`, error.response?.data || error.message);
+      report.errors.push({ ...teamSummary(doc), error: error.message });
+    }
+  }
+
+  if (!dryRun) {
+    const runRef = await db.collection('reconciliation_runs').add(report);
+    await recordAudit({
+      actor: { email: actor },
+      action: 'payment.reconcile',
+      target: `reconciliation_runs/${runRef.id}`,
+      metadata: {
+        checked: report.checked,
+        settled: report.settled.map((entry) => entry.teamId),
+        failed: report.failed.map((entry) => entry.teamId)
+      }
+    });
+  }
+
+  return report;
+};
@@ -0,0 +1,74 @@
+import { adminAuth, db } from './firebaseAdmin.js';
+import { recordAudit } from './audit.js';
+
+// Users without a roles/{uid} document are participants
+export const ROLES = ['participant', 'volunteer', 'judge', 'finance', 'organizer', 'superadmin'];
+
+export class RoleError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const roleRef = (uid) => db.collection('roles').doc(uid);
+
+export const getUserRole = async (uid) => {
+  const snap = await roleRef(uid).get();
+  const role = snap.exists ? snap.data().role : null;
+  return ROLES.includes(role) ? role : 'participant';
+};
+
+export const listRoleAssignments = async () => {
+  const snap = await db.collection('roles').get();
+  return snap.docs
+    .map((doc) => ({ uid: doc.id, ...doc.data() }))
+    .sort((a, b) => (a.email || '').localeCompare(b.email || ''));
+};
+
+/**
+ * Gives the account with `email` a role. Assigning 'participant' removes the
+ * roles document. Superadmins cannot change their own role, so the last one
+ * cannot lock everybody out.
+ */
+export const assignRole = async ({ email, role, actor }) => {
+  if (!ROLES.includes(role)) {
+    throw new RoleError(`Unknown role "${role}".`);
+  }
+
+  let user;
+  try {
+    user = await adminAuth.getUserByEmail(String(email || '').trim());
+  } catch {
+    throw new RoleError('No account is registered with that email.', 404);
+  }
+  if (actor.uid && actor.uid === user.uid) {
+    throw new RoleError('You cannot change your own role.', 403);
+  }
+
+  const previous = await getUserRole(user.uid);
+  const assignment = {
+    role,
+    email: user.email,
+    updatedBy: actor.email || null,
+    updatedAt: new Date().toISOString()
+  };
+
+  const batch = db.batch();
+  if (role === 'participant') {
+    batch.delete(roleRef(user.uid));
+  } else {
+    batch.set(roleRef(user.uid), assignment);
+  }
+  await recordAudit({
+    actor,
+    action: 'role.assign',
+    target: `roles/${user.uid}`,
+    before: { role: previous },
+    after: { role },
+    metadata: { email: user.email }
+  }, batch);
+  await batch.commit();
+
+  return { uid: user.uid, ...assignment };
+};
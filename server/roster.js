@@ -0,0 +1,320 @@
+import { db, FieldValue, Timestamp } from './firebaseAdmin.js';
+import { recordAudit } from './audit.js';
+import { computeTeamFee } from './pricing.js';
+import { TeamError } from './teams.js';
+import { findParticipantConflicts } from './participants.js';
+
+/**
+ * add      fills an open slot, or grows the team by one
+ * remove   drops a member; the team shrinks unless it is already at the minimum
+ * replace  swaps a member for someone else
+ * update   corrects a member's own details (never their email)
+ */
+export const ROSTER_CHANGE_TYPES = ['add', 'remove', 'replace', 'update'];
+
+const MIN_TEAM_SIZE = 2;
+export const MAX_TEAM_SIZE = 5;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const teamRef = (teamId) => db.collection('teams').doc(teamId);
+const settingsRef = () => db.collection('config').doc('roster');
+const requestsRef = () => db.collection('roster_requests');
+const historyRef = (teamId) => teamRef(teamId).collection('roster_history');
+
+const isOpenSlot = (member) => !member?.uid && !member?.name?.trim() && !member?.email?.trim();
+
+export const getRosterSettings = async () => {
+  const snap = await settingsRef().get();
+  const lockAt = snap.exists ? snap.data().lockAt : null;
+  return {
+    lockAt: lockAt ? lockAt.toDate().toISOString() : null,
+    updatedBy: snap.exists ? snap.data().updatedBy || null : null,
+    updatedAt: snap.exists ? snap.data().updatedAt || null : null
+  };
+};
+
+export const saveRosterSettings = async ({ lockAt, actor }) => {
+  const date = lockAt ? new Date(lockAt) : null;
+  if (date && Number.isNaN(date.getTime())) {
+    throw new TeamError('The roster lock date is not a valid date.');
+  }
+
+  const before = await getRosterSettings();
+  const batch = db.batch();
+  batch.set(settingsRef(), {
+    // A timestamp so firestore.rules can compare it with request.time
+    lockAt: date ? Timestamp.fromDate(date) : null,
+    updatedBy: actor.email || null,
+    updatedAt: new Date().toISOString()
+  });
+  await recordAudit({
+    actor,
+    action: 'roster.settings',
+    target: 'config/roster',
+    before: { lockAt: before.lockAt },
+    after: { lockAt: date ? date.toISOString() : null }
+  }, batch);
+  await batch.commit();
+  return getRosterSettings();
+};
+
+const assertUnlocked = async () => {
+  const { lockAt } = await getRosterSettings();
+  if (lockAt && new Date() >= new Date(lockAt)) {
+    throw new TeamError(`Team changes closed on ${new Date(lockAt).toDateString()}.`, 403);
+  }
+};
+
+const cleanMember = (member, { requireEmail = true } = {}) => {
+  const clean = {
+    name: String(member?.name || '').trim(),
+    email: String(member?.email || '').trim().toLowerCase(),
+    phone: String(member?.phone || '').trim()
+  };
+  if (!clean.name || !clean.phone || (requireEmail && !clean.email)) {
+    throw new TeamError('Enter the member\'s name, email and phone number.');
+  }
+  if (clean.email && !EMAIL_PATTERN.test(clean.email)) {
+    throw new TeamError('Enter a valid email address.');
+  }
+  ['rollNumber', 'department', 'year'].forEach((field) => {
+    if (member?.[field]) clean[field] = String(member[field]).trim();
+  });
+  return clean;
+};
+
+// Validates a change sent by the leader and keeps only the fields it needs
+const cleanChange = (change) => {
+  if (!ROSTER_CHANGE_TYPES.includes(change?.type)) {
+    throw new TeamError('Unknown team change.');
+  }
+  const clean = { type: change.type };
+  if (change.type !== 'add') {
+    clean.index = Number(change.index);
+    if (!Number.isInteger(clean.index) || clean.index < 0) {
+      throw new TeamError('Choose a team member to change.');
+    }
+  }
+  if (change.type !== 'remove') {
+    clean.member = cleanMember(change.member, { requireEmail: change.type !== 'update' });
+  }
+  return clean;
+};
+
+/**
+ * Applies a change to a copy of the team's members. Returns the new member
+ * list and size, the member the change affected and, when someone who joined
+ * by invite leaves, their uid so the link can be removed.
+ */
+const applyChange = (team, change) => {
+  const members = [...(team.members || [])];
+  let teamSize = Number(team.teamSize) || members.length;
+  const target = change.type === 'add' ? null : members[change.index];
+  if (change.type !== 'add' && (!target || isOpenSlot(target))) {
+    throw new TeamError('That team member no longer exists.', 409);
+  }
+  if (change.index === 0 && change.type !== 'update') {
+    throw new TeamError('The team lead cannot be removed or replaced.');
+  }
+
+  const duplicate = change.member?.email && members.some((member, index) =>
+    index !== change.index && member?.email?.trim().toLowerCase() === change.member.email
+  );
+  if (duplicate) {
+    throw new TeamError('That email is already on your team.', 409);
+  }
+
+  let removedUid = null;
+  let after = null;
+  if (change.type === 'add') {
+    const open = members.findIndex((member, index) => index > 0 && isOpenSlot(member));
+    after = change.member;
+    if (open !== -1) {
+      members[open] = change.member;
+    } else if (members.length >= MAX_TEAM_SIZE) {
+      throw new TeamError(`Teams can have at most ${MAX_TEAM_SIZE} members.`);
+    } else {
+      members.push(change.member);
+      teamSize = members.length;
+    }
+  } else if (change.type === 'remove') {
+    removedUid = target.uid || null;
+    if (teamSize > MIN_TEAM_SIZE) {
+      members.splice(change.index, 1);
+      teamSize -= 1;
+    } else {
+      members[change.index] = { name: '', phone: '', email: '' };
+    }
+  } else if (change.type === 'replace') {
+    removedUid = target.uid || null;
+    members[change.index] = change.member;
+    after = change.member;
+  } else {
+    // Email identifies the person, so it stays as it is
+    after = { ...target, ...change.member, email: target.email };
+    members[change.index] = after;
+  }
+
+  return { members, teamSize, before: target, after, removedUid };
+};
+
+// What the team owes on top of what it paid when the change makes it bigger
+const computeFeeDelta = async (team, next) => {
+  if (next.teamSize <= (Number(team.teamSize) || 0)) return 0;
+  const now = new Date();
+  const [current, grown] = await Promise.all([
+    computeTeamFee(team, now),
+    computeTeamFee({ ...team, teamSize: next.teamSize, members: next.members }, now)
+  ]);
+  return Math.max(grown.total - current.total, 0);
+};
+
+const writeRosterChange = (tx, { teamId, team, change, next, feeDelta, actor, requestId = null }) => {
+  const updates = { members: next.members, teamSize: next.teamSize };
+  if (next.removedUid) {
+    updates.memberUids = FieldValue.arrayRemove(next.removedUid);
+    tx.set(db.collection('users').doc(next.removedUid), { teamId: FieldValue.delete() }, { merge: true });
+  }
+  if (feeDelta > 0) {
+    updates.rosterFeeDue = FieldValue.increment(feeDelta);
+  }
+  tx.update(teamRef(teamId), updates);
+  tx.set(historyRef(teamId).doc(), {
+    type: change.type,
+    index: change.index ?? null,
+    before: next.before || null,
+    after: next.after || null,
+    teamSizeBefore: Number(team.teamSize) || team.members?.length || 0,
+    teamSizeAfter: next.teamSize,
+    feeDelta,
+    requestId,
+    actorEmail: actor.email || null,
+    actorUid: actor.uid || null,
+    createdAt: new Date().toISOString()
+  });
+};
+
+/**
+ * A change requested by the team lead. Before payment it applies at once.
+ * Once the team has paid, every change, including corrections to a member's
+ * details, waits for an organizer, with any extra fee for a bigger team worked
+ * out up front.
+ */
+export const requestRosterChange = async ({ actor, change }) => {
+  await assertUnlocked();
+  const clean = cleanChange(change);
+  const teamId = actor.uid;
+  if (clean.member) {
+    const [conflict] = await findParticipantConflicts({ teamId, members: [clean.member] });
+    if (conflict) {
+      throw new TeamError(conflict.message, 409);
+    }
+  }
+
+  return db.runTransaction(async (tx) => {
+    const teamSnap = await tx.get(teamRef(teamId));
+    if (!teamSnap.exists) {
+      throw new TeamError('Only the team lead can change the team.', 403);
+    }
+    const team = teamSnap.data();
+    const next = applyChange(team, clean);
+    const feeDelta = await computeFeeDelta(team, next);
+
+    if (team.paymentStatus === 'paid') {
+      const pending = await tx.get(requestsRef().where('teamId', '==', teamId).where('status', '==', 'pending'));
+      if (!pending.empty) {
+        throw new TeamError('Your team already has a change waiting for approval.', 409);
+      }
+      const requestRef = requestsRef().doc();
+      tx.set(requestRef, {
+        teamId,
+        teamName: team.teamName || '',
+        registrationId: team.registrationId || '',
+        change: clean,
+        before: next.before || null,
+        teamSizeBefore: Number(team.teamSize) || 0,
+        teamSizeAfter: next.teamSize,
+        feeDelta,
+        status: 'pending',
+        requestedBy: actor.email || null,
+        requestedAt: new Date().toISOString(),
+        decidedBy: null,
+        decidedAt: null,
+        note: null
+      });
+      return { status: 'pending', requestId: requestRef.id, feeDelta };
+    }
+
+    // An unpaid team is charged for its new size at checkout
+    writeRosterChange(tx, { teamId, team, change: clean, next, feeDelta: 0, actor });
+    return { status: 'applied', feeDelta: 0 };
+  });
+};
+
+/**
+ * Takes a member off a team the caller already read in `tx`, the same way a
+ * leader's removal would. Used when organizers merge duplicate registrations.
+ */
+export const removeMemberInTransaction = (tx, { teamId, team, index, actor }) => {
+  const change = { type: 'remove', index };
+  const next = applyChange(team, change);
+  writeRosterChange(tx, { teamId, team, change, next, feeDelta: 0, actor });
+  return next.before;
+};
+
+export const listRosterRequests = async ({ status = 'pending' } = {}) => {
+  let query = requestsRef();
+  if (status) {
+    query = query.where('status', '==', status);
+  }
+  const snap = await query.get();
+  return snap.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() }))
+    .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+};
+
+/**
+ * Approving re-applies the change to the team as it is now, so a request made
+ * against an older roster still fails cleanly instead of overwriting it.
+ */
+export const decideRosterRequest = async ({ requestId, approve, note, actor }) => db.runTransaction(async (tx) => {
+  const requestRef = requestsRef().doc(requestId);
+  const requestSnap = await tx.get(requestRef);
+  if (!requestSnap.exists) {
+    throw new TeamError('Team change request not found.', 404);
+  }
+  const request = requestSnap.data();
+  if (request.status !== 'pending') {
+    throw new TeamError('This request has already been decided.', 409);
+  }
+
+  const decision = {
+    status: approve ? 'approved' : 'rejected',
+    decidedBy: actor.email || null,
+    decidedAt: new Date().toISOString(),
+    note: note?.trim() || null
+  };
+
+  if (approve) {
+    const teamSnap = await tx.get(teamRef(request.teamId));
+    if (!teamSnap.exists) {
+      throw new TeamError('The team no longer exists.', 404);
+    }
+    const team = teamSnap.data();
+    const next = applyChange(team, request.change);
+    const feeDelta = await computeFeeDelta(team, next);
+    writeRosterChange(tx, { teamId: request.teamId, team, change: request.change, next, feeDelta, actor, requestId });
+    decision.feeDelta = feeDelta;
+  }
+
+  tx.update(requestRef, decision);
+  await recordAudit({
+    actor,
+    action: approve ? 'roster.approve' : 'roster.reject',
+    target: `teams/${request.teamId}`,
+    before: { teamSize: request.teamSizeBefore },
+    after: approve ? { teamSize: request.teamSizeAfter } : null,
+    metadata: { requestId, change: request.change.type, feeDelta: decision.feeDelta ?? request.feeDelta, note: decision.note }
+  }, tx);
+  return { id: requestId, ...request, ...decision };
+});
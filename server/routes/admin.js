@@ -0,0 +1,231 @@
+import express from 'express';
+import { requireUser, requireRole } from '../auth.js';
+import { reconcilePayments } from '../reconcile.js';
+import {
+  issueRefund,
+  refundManualPayment,
+  recordManualPayment,
+  markDuplicatePayment,
+  AdjustmentError
+} from '../adjustments.js';
+import { listAuditEntries } from '../audit.js';
+import { ROLES, RoleError, listRoleAssignments, assignRole } from '../roles.js';
+import { EventConfigError, saveEventConfig } from '../event.js';
+import { TeamError } from '../teams.js';
+import { saveRosterSettings, listRosterRequests, decideRosterRequest } from '../roster.js';
+import { buildDuplicateReport, resolveDuplicate, mergeDuplicate } from '../duplicates.js';
+
+const router = express.Router();
+
+router.use(requireUser);
+
+const requireFinance = requireRole('finance');
+const requireStaff = requireRole('finance', 'organizer');
+const requireOrganizer = requireRole('organizer');
+const requireSuperadmin = requireRole();
+
+// Settle teams whose payment webhook was missed
+router.post('/reconcile-payments', requireFinance, async (req, res) => {
+  try {
+    const report = await reconcilePayments({
+      dryRun: Boolean(req.body?.dryRun),
+      actor: req.user.email
+    });
+    res.json({ success: true, report });
+  } catch (error) {
+    console.error('Reconciliation error:', error.message);
+    res.status(500).json({ success: false, error: 'Payment reconciliation failed. Please try again later.' });
+  }
+});
+
+const sendAdjustmentError = (res, error, fallback) => {
+  if (error instanceof AdjustmentError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${fallback}:`, error.response?.data || error.message);
+  res.status(500).json({ success: false, error: `${fallback}. Please try again later.` });
+};
+
+router.post('/payments/:paymentDocId/refund', requireFinance, async (req, res) => {
+  try {
+    const { amount, reason, offline } = req.body;
+    const adjustment = await issueRefund({
+      paymentDocId: req.params.paymentDocId,
+      amount,
+      reason,
+      offline: Boolean(offline),
+      actor: req.user
+    });
+    res.json({ success: true, adjustment });
+  } catch (error) {
+    sendAdjustmentError(res, error, 'Refund failed');
+  }
+});
+
+// Manual payments have no gateway record, so they are refunded by hand
+router.post('/adjustments/:adjustmentId/refund', requireFinance, async (req, res) => {
+  try {
+    const adjustment = await refundManualPayment({
+      adjustmentId: req.params.adjustmentId,
+      amount: req.body.amount,
+      reason: req.body.reason,
+      actor: req.user
+    });
+    res.json({ success: true, adjustment });
+  } catch (error) {
+    sendAdjustmentError(res, error, 'Refund failed');
+  }
+});
+
+router.post('/payments/:paymentDocId/duplicate', requireFinance, async (req, res) => {
+  try {
+    const adjustment = await markDuplicatePayment({
+      paymentDocId: req.params.paymentDocId,
+      note: req.body.note,
+      actor: req.user
+    });
+    res.json({ success: true, adjustment });
+  } catch (error) {
+    sendAdjustmentError(res, error, 'Could not mark the payment as a duplicate');
+  }
+});
+
+router.post('/teams/:teamId/manual-payment', requireFinance, async (req, res) => {
+  try {
+    const { amount, method, reference, evidenceUrl, note } = req.body;
+    const adjustment = await recordManualPayment({
+      teamId: req.params.teamId,
+      amount,
+      method,
+      reference,
+      evidenceUrl,
+      note,
+      actor: req.user
+    });
+    res.json({ success: true, adjustment });
+  } catch (error) {
+    sendAdjustmentError(res, error, 'Could not record the manual payment');
+  }
+});
+
+router.get('/audit-log', requireStaff, async (req, res) => {
+  try {
+    const entries = await listAuditEntries(req.query);
+    res.json({ success: true, entries });
+  } catch (error) {
+    console.error('Audit log error:', error.message);
+    res.status(500).json({ success: false, error: 'Could not load the audit log. Please try again later.' });
+  }
+});
+
+router.get('/roles', requireSuperadmin, async (req, res) => {
+  try {
+    const assignments = await listRoleAssignments();
+    res.json({ success: true, roles: ROLES, assignments });
+  } catch (error) {
+    console.error('Role listing error:', error.message);
+    res.status(500).json({ success: false, error: 'Could not load roles. Please try again later.' });
+  }
+});
+
+router.post('/roles', requireSuperadmin, async (req, res) => {
+  try {
+    const assignment = await assignRole({
+      email: req.body.email,
+      role: req.body.role,
+      actor: req.user
+    });
+    res.json({ success: true, assignment });
+  } catch (error) {
+    if (error instanceof RoleError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('Role assignment error:', error.message);
+    res.status(500).json({ success: false, error: 'Could not update the role. Please try again later.' });
+  }
+});
+
+// Phase dates drive every deadline in the app and in the security rules,
+// so changes take effect without a redeploy.
+router.put('/event', requireOrganizer, async (req, res) => {
+  try {
+    const event = await saveEventConfig({ phases: req.body.phases, actor: req.user });
+    res.json({ success: true, event });
+  } catch (error) {
+    if (error instanceof EventConfigError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('Event schedule error:', error.message);
+    res.status(500).json({ success: false, error: 'Could not save the event schedule. Please try again later.' });
+  }
+});
+
+const sendTeamError = (res, error, fallback) => {
+  if (error instanceof TeamError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${fallback}:`, error.message);
+  res.status(500).json({ success: false, error: `${fallback}. Please try again later.` });
+};
+
+// After the lock date teams can no longer change their members
+router.put('/roster', requireOrganizer, async (req, res) => {
+  try {
+    const settings = await saveRosterSettings({ lockAt: req.body.lockAt, actor: req.user });
+    res.json({ success: true, settings });
+  } catch (error) {
+    sendTeamError(res, error, 'Could not save the roster settings');
+  }
+});
+
+router.get('/roster-requests', requireOrganizer, async (req, res) => {
+  try {
+    const status = ['pending', 'approved', 'rejected'].includes(req.query.status) ? req.query.status : null;
+    res.json({ success: true, requests: await listRosterRequests({ status }) });
+  } catch (error) {
+    sendTeamError(res, error, 'Could not load team change requests');
+  }
+});
+
+router.post('/roster-requests/:requestId/decision', requireOrganizer, async (req, res) => {
+  try {
+    const request = await decideRosterRequest({
+      requestId: req.params.requestId,
+      approve: Boolean(req.body.approve),
+      note: req.body.note,
+      actor: req.user
+    });
+    res.json({ success: true, request });
+  } catch (error) {
+    sendTeamError(res, error, 'Could not decide the team change request');
+  }
+});
+
+// The same email, phone or roll number registered on more than one team
+router.get('/duplicates', requireOrganizer, async (req, res) => {
+  try {
+    res.json({ success: true, duplicates: await buildDuplicateReport() });
+  } catch (error) {
+    sendTeamError(res, error, 'Could not load duplicate registrations');
+  }
+});
+
+router.post('/duplicates/resolve', requireOrganizer, async (req, res) => {
+  try {
+    const resolution = await resolveDuplicate({ key: req.body.key, note: req.body.note, actor: req.user });
+    res.json({ success: true, resolution });
+  } catch (error) {
+    sendTeamError(res, error, 'Could not resolve the duplicate');
+  }
+});
+
+router.post('/duplicates/merge', requireOrganizer, async (req, res) => {
+  try {
+    const result = await mergeDuplicate({ key: req.body.key, keepTeamId: req.body.keepTeamId, actor: req.user });
+    res.json({ success: true, ...result });
+  } catch (error) {
+    sendTeamError(res, error, 'Could not merge the duplicate');
+  }
+});
+
+export default router;
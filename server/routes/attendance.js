@@ -0,0 +1,91 @@
+import express from 'express';
+import { requireUser, requireRole } from '../auth.js';
+import { findTeamIdForUser } from '../teams.js';
+import {
+  AttendanceError,
+  buildAttendanceReport,
+  saveEligibilityRules,
+  markAttendance,
+  importAttendance,
+  getMemberAttendance,
+  generateCertificate
+} from '../attendance.js';
+
+const router = express.Router();
+
+router.use(requireUser);
+
+const requireOrganizer = requireRole('organizer');
+
+const sendAttendanceError = (res, error, fallback) => {
+  if (error instanceof AttendanceError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${fallback}:`, error.message);
+  res.status(500).json({ success: false, error: `${fallback}. Please try again later.` });
+};
+
+router.get('/report', requireOrganizer, async (req, res) => {
+  try {
+    res.json({ success: true, report: await buildAttendanceReport() });
+  } catch (error) {
+    sendAttendanceError(res, error, 'Could not load the attendance report');
+  }
+});
+
+router.put('/rules', requireOrganizer, async (req, res) => {
+  try {
+    const rules = await saveEligibilityRules({
+      requiredEvents: req.body.requiredEvents,
+      minEvents: req.body.minEvents,
+      actor: req.user
+    });
+    res.json({ success: true, rules });
+  } catch (error) {
+    sendAttendanceError(res, error, 'Could not save the certificate rules');
+  }
+});
+
+router.post('/mark', requireOrganizer, async (req, res) => {
+  try {
+    const { event, teamId, memberIndex, email, present } = req.body;
+    res.json({ success: true, attendance: await markAttendance({ event, teamId, memberIndex, email, present, actor: req.user }) });
+  } catch (error) {
+    sendAttendanceError(res, error, 'Could not update attendance');
+  }
+});
+
+// Attendee emails pasted from another system, such as the online workshop
+router.post('/import', requireOrganizer, async (req, res) => {
+  try {
+    res.json({ success: true, ...(await importAttendance({ event: req.body.event, text: req.body.text, actor: req.user })) });
+  } catch (error) {
+    sendAttendanceError(res, error, 'Could not import attendance');
+  }
+});
+
+// The signed-in participant's own attendance and certificate
+const memberLookup = async (req) => ({
+  teamId: await findTeamIdForUser(req.user.uid),
+  uid: req.user.uid,
+  email: req.user.email
+});
+
+router.get('/me', async (req, res) => {
+  try {
+    const { attended, rules, eligible } = await getMemberAttendance(await memberLookup(req));
+    res.json({ success: true, attended, rules: { requiredEvents: rules.requiredEvents, minEvents: rules.minEvents }, eligible });
+  } catch (error) {
+    sendAttendanceError(res, error, 'Could not load your attendance');
+  }
+});
+
+router.get('/certificate', async (req, res) => {
+  try {
+    res.type('application/pdf').send(await generateCertificate(await memberLookup(req)));
+  } catch (error) {
+    sendAttendanceError(res, error, 'Could not generate your certificate');
+  }
+});
+
+export default router;
@@ -0,0 +1,40 @@
+import express from 'express';
+import { requireUser, requireRole } from '../auth.js';
+import { TicketError, buildCheckInManifest, checkInTicket } from '../tickets.js';
+
+const router = express.Router();
+
+router.use(requireUser, requireRole('volunteer', 'organizer'));
+
+const sendTicketError = (res, error, fallback) => {
+  if (error instanceof TicketError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${fallback}:`, error.message);
+  res.status(500).json({ success: false, error: `${fallback}. Please try again later.` });
+};
+
+// Valid tickets for one event, cached by the scanner for offline use
+router.get('/manifest', async (req, res) => {
+  try {
+    res.json({ success: true, manifest: await buildCheckInManifest(req.query.event) });
+  } catch (error) {
+    sendTicketError(res, error, 'Could not load the ticket list');
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const result = await checkInTicket({
+      token: req.body.token,
+      event: req.body.event,
+      scannedAt: req.body.scannedAt,
+      actor: req.user
+    });
+    res.json({ success: true, ...result });
+  } catch (error) {
+    sendTicketError(res, error, 'Could not check this ticket in');
+  }
+});
+
+export default router;
@@ -0,0 +1,126 @@
+import express from 'express';
+import { requireUser, requireRole } from '../auth.js';
+import { EmailError } from '../mail.js';
+import {
+  generateMemberTicket,
+  queueWorkshopInvites,
+  queuePhase2SelectionEmails,
+  queueTemplateCampaign,
+  previewTemplate,
+  sendTestEmail
+} from '../emails.js';
+import { retryFailedJobs } from '../emailQueue.js';
+import { MERGE_FIELDS, listTemplates, saveTemplate } from '../templates.js';
+
+const router = express.Router();
+
+router.use(requireUser, requireRole('organizer'));
+
+const sendEmailError = (res, error, fallback) => {
+  if (error instanceof EmailError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${fallback}:`, error.message);
+  res.status(500).json({ success: false, error: `${fallback}. Please try again later.` });
+};
+
+// Both campaigns are queued; the email worker sends them in the background
+router.post('/workshop-invites', async (req, res) => {
+  try {
+    const campaign = await queueWorkshopInvites({
+      teamIds: req.body.teamIds,
+      workshop: req.body.workshop,
+      actor: req.user
+    });
+    res.json({ success: true, campaign });
+  } catch (error) {
+    sendEmailError(res, error, 'Failed to queue invites');
+  }
+});
+
+router.post('/phase2-selection', async (req, res) => {
+  try {
+    res.json({ success: true, campaign: await queuePhase2SelectionEmails({ actor: req.user }) });
+  } catch (error) {
+    sendEmailError(res, error, 'Failed to queue selection emails');
+  }
+});
+
+// A template sent to an audience of teams, queued like the campaigns above
+router.post('/campaigns', async (req, res) => {
+  try {
+    const campaign = await queueTemplateCampaign({
+      templateId: req.body.templateId,
+      audience: req.body.audience,
+      workshop: req.body.workshop,
+      actor: req.user
+    });
+    res.json({ success: true, campaign });
+  } catch (error) {
+    sendEmailError(res, error, 'Failed to queue the campaign');
+  }
+});
+
+router.post('/campaigns/:campaignId/retry', async (req, res) => {
+  try {
+    res.json({ success: true, ...(await retryFailedJobs({ campaignId: req.params.campaignId, actor: req.user })) });
+  } catch (error) {
+    sendEmailError(res, error, 'Could not retry the failed emails');
+  }
+});
+
+// The workshop e-ticket one member would receive, as a PDF
+router.post('/e-ticket', async (req, res) => {
+  try {
+    const pdf = await generateMemberTicket({
+      teamId: req.body.teamId,
+      memberIndex: req.body.memberIndex,
+      workshop: req.body.workshop
+    });
+    res.type('application/pdf').send(pdf);
+  } catch (error) {
+    sendEmailError(res, error, 'Could not generate the e-ticket');
+  }
+});
+
+router.get('/templates', async (req, res) => {
+  try {
+    res.json({ success: true, templates: await listTemplates(), mergeFields: MERGE_FIELDS });
+  } catch (error) {
+    sendEmailError(res, error, 'Could not load email templates');
+  }
+});
+
+// Without a templateId a new template is created
+router.put('/templates/:templateId?', async (req, res) => {
+  try {
+    const template = await saveTemplate({
+      templateId: req.params.templateId,
+      template: req.body.template,
+      actor: req.user
+    });
+    res.json({ success: true, template });
+  } catch (error) {
+    sendEmailError(res, error, 'Could not save the email template');
+  }
+});
+
+router.post('/templates/preview', async (req, res) => {
+  try {
+    const { template, teamId, memberIndex, workshop } = req.body;
+    res.json({ success: true, preview: await previewTemplate({ template, teamId, memberIndex, workshop }) });
+  } catch (error) {
+    sendEmailError(res, error, 'Could not render the preview');
+  }
+});
+
+router.post('/templates/test', async (req, res) => {
+  try {
+    const { template, teamId, memberIndex, workshop } = req.body;
+    res.json({ success: true, ...(await sendTestEmail({ template, teamId, memberIndex, workshop, actor: req.user })) });
+  } catch (error) {
+    sendEmailError(res, error, 'Could not send the test email');
+  }
+});
+
+export default router;
@@ -0,0 +1,92 @@
+import express from 'express';
+import { requireUser, requireRole } from '../auth.js';
+import { JudgingError } from '../judging.js';
+import {
+  getFinaleRubric,
+  saveFinaleRubric,
+  loadFinaleTeams,
+  setFinaleStage,
+  setFinaleStatus,
+  revealNextPlace,
+  submitFinaleScore
+} from '../finale.js';
+
+const router = express.Router();
+
+router.use(requireUser);
+
+const requireJudge = requireRole('judge', 'organizer');
+const requireOrganizer = requireRole('organizer');
+
+const sendFinaleError = (res, error, fallback) => {
+  if (error instanceof JudgingError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${fallback}:`, error.message);
+  res.status(500).json({ success: false, error: `${fallback}. Please try again later.` });
+};
+
+router.get('/rubric', requireJudge, async (req, res) => {
+  try {
+    res.json({ success: true, rubric: await getFinaleRubric() });
+  } catch (error) {
+    sendFinaleError(res, error, 'Could not load the finale rubric');
+  }
+});
+
+router.put('/rubric', requireOrganizer, async (req, res) => {
+  try {
+    const rubric = await saveFinaleRubric({ criteria: req.body.criteria, actor: req.user });
+    res.json({ success: true, rubric });
+  } catch (error) {
+    sendFinaleError(res, error, 'Could not save the finale rubric');
+  }
+});
+
+router.post('/teams/:teamId/score', requireJudge, async (req, res) => {
+  try {
+    const score = await submitFinaleScore({
+      teamId: req.params.teamId,
+      scores: req.body.scores,
+      comment: req.body.comment,
+      actor: req.user
+    });
+    res.json({ success: true, score });
+  } catch (error) {
+    sendFinaleError(res, error, 'Could not save the score');
+  }
+});
+
+router.post('/teams/load', requireOrganizer, async (req, res) => {
+  try {
+    res.json({ success: true, ...(await loadFinaleTeams({ actor: req.user })) });
+  } catch (error) {
+    sendFinaleError(res, error, 'Could not load the finale teams');
+  }
+});
+
+router.put('/stage', requireOrganizer, async (req, res) => {
+  try {
+    res.json({ success: true, finale: await setFinaleStage({ teamId: req.body.teamId, actor: req.user }) });
+  } catch (error) {
+    sendFinaleError(res, error, 'Could not change the team on stage');
+  }
+});
+
+router.put('/status', requireOrganizer, async (req, res) => {
+  try {
+    res.json({ success: true, finale: await setFinaleStatus({ status: req.body.status, actor: req.user }) });
+  } catch (error) {
+    sendFinaleError(res, error, 'Could not change the finale status');
+  }
+});
+
+router.post('/reveal', requireOrganizer, async (req, res) => {
+  try {
+    res.json({ success: true, finale: await revealNextPlace({ actor: req.user }) });
+  } catch (error) {
+    sendFinaleError(res, error, 'Could not reveal the next place');
+  }
+});
+
+export default router;
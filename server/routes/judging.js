@@ -0,0 +1,269 @@
+import express from 'express';
+import { requireUser, requireRole } from '../auth.js';
+import {
+  getRubric,
+  saveRubric,
+  getJudgingSettings,
+  saveJudgingSettings,
+  submitScore,
+  listSubmissionsForJudge,
+  judgingOverview,
+  recomputeRankings,
+  JudgingError
+} from '../judging.js';
+import { assignJudges, requestReReview, declareConflicts } from '../assignments.js';
+import { getJudgeConflicts } from '../conflicts.js';
+import {
+  getPhase2Rubric,
+  savePhase2Rubric,
+  listPhase2Submissions,
+  submitPhase2Review,
+  setPhase2Status,
+  finaleShortlist
+} from '../phase2.js';
+import { selectionOverview, previewSelection, commitSelection, unlockSelection } from '../selection.js';
+import { saveResultsSettings, refreshScoreboard } from '../scoreboard.js';
+
+const router = express.Router();
+
+router.use(requireUser);
+
+const requireJudge = requireRole('judge', 'organizer');
+const requireOrganizer = requireRole('organizer');
+
+const sendJudgingError = (res, error, fallback) => {
+  if (error instanceof JudgingError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${fallback}:`, error.message);
+  res.status(500).json({ success: false, error: `${fallback}. Please try again later.` });
+};
+
+// A saved score should not fail because the public scoreboard lagged behind
+const refreshPublishedScoreboard = () =>
+  refreshScoreboard().catch((error) => console.error('Could not refresh the scoreboard:', error.message));
+
+router.get('/rubric', requireJudge, async (req, res) => {
+  try {
+    res.json({ success: true, rubric: await getRubric() });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not load the rubric');
+  }
+});
+
+router.put('/rubric', requireOrganizer, async (req, res) => {
+  try {
+    const rubric = await saveRubric({ criteria: req.body.criteria, actor: req.user });
+    res.json({ success: true, rubric });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not save the rubric');
+  }
+});
+
+router.get('/submissions', requireJudge, async (req, res) => {
+  try {
+    const submissions = await listSubmissionsForJudge(req.user.uid, { assignedOnly: req.role === 'judge' });
+    res.json({ success: true, submissions });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not load submissions');
+  }
+});
+
+router.post('/submissions/:submissionId/score', requireJudge, async (req, res) => {
+  try {
+    const score = await submitScore({
+      submissionId: req.params.submissionId,
+      scores: req.body.scores,
+      comment: req.body.comment,
+      actor: req.user,
+      assignedOnly: req.role === 'judge'
+    });
+    await refreshPublishedScoreboard();
+    res.json({ success: true, score });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not save the score');
+  }
+});
+
+router.get('/conflicts', requireJudge, async (req, res) => {
+  try {
+    res.json({ success: true, conflicts: await getJudgeConflicts(req.user.uid) });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not load your conflicts');
+  }
+});
+
+router.put('/conflicts', requireJudge, async (req, res) => {
+  try {
+    const conflicts = await declareConflicts({
+      actor: req.user,
+      colleges: Array.isArray(req.body.colleges) ? req.body.colleges : [],
+      submissionIds: Array.isArray(req.body.submissionIds) ? req.body.submissionIds : []
+    });
+    res.json({ success: true, conflicts });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not save your conflicts');
+  }
+});
+
+router.get('/settings', requireJudge, async (req, res) => {
+  try {
+    res.json({ success: true, settings: await getJudgingSettings() });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not load judging settings');
+  }
+});
+
+router.put('/settings', requireOrganizer, async (req, res) => {
+  try {
+    const settings = await saveJudgingSettings({ ...req.body, actor: req.user });
+    await refreshPublishedScoreboard();
+    res.json({ success: true, settings });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not save judging settings');
+  }
+});
+
+router.post('/assign', requireOrganizer, async (req, res) => {
+  try {
+    res.json({ success: true, summary: await assignJudges({ actor: req.user }) });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not assign judges');
+  }
+});
+
+router.get('/overview', requireOrganizer, async (req, res) => {
+  try {
+    res.json({ success: true, ...(await judgingOverview()) });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not load the judging overview');
+  }
+});
+
+router.post('/submissions/:submissionId/re-review', requireOrganizer, async (req, res) => {
+  try {
+    const summary = await requestReReview({ submissionId: req.params.submissionId, actor: req.user });
+    res.json({ success: true, summary });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not request a re-review');
+  }
+});
+
+router.post('/recompute', requireOrganizer, async (req, res) => {
+  try {
+    const result = await recomputeRankings({ actor: req.user });
+    await refreshPublishedScoreboard();
+    res.json({ success: true, result });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not recompute rankings');
+  }
+});
+
+router.put('/results', requireOrganizer, async (req, res) => {
+  try {
+    const results = await saveResultsSettings({
+      published: req.body.published,
+      privacy: req.body.privacy,
+      actor: req.user
+    });
+    res.json({ success: true, results });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not save the results settings');
+  }
+});
+
+router.get('/selection', requireOrganizer, async (req, res) => {
+  try {
+    res.json({ success: true, ...(await selectionOverview()) });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not load the Phase 2 selection');
+  }
+});
+
+router.post('/selection/preview', requireOrganizer, async (req, res) => {
+  try {
+    res.json({ success: true, ...(await previewSelection(req.body)) });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not preview the Phase 2 selection');
+  }
+});
+
+router.post('/selection/commit', requireOrganizer, async (req, res) => {
+  try {
+    res.json({ success: true, ...(await commitSelection({ ...req.body, actor: req.user })) });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not commit the Phase 2 selection');
+  }
+});
+
+router.post('/selection/unlock', requireOrganizer, async (req, res) => {
+  try {
+    const selection = await unlockSelection({ reason: req.body.reason, actor: req.user });
+    res.json({ success: true, selection });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not unlock the Phase 2 selection');
+  }
+});
+
+router.get('/phase2/rubric', requireJudge, async (req, res) => {
+  try {
+    res.json({ success: true, rubric: await getPhase2Rubric() });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not load the Phase 2 rubric');
+  }
+});
+
+router.put('/phase2/rubric', requireOrganizer, async (req, res) => {
+  try {
+    const rubric = await savePhase2Rubric({ criteria: req.body.criteria, actor: req.user });
+    res.json({ success: true, rubric });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not save the Phase 2 rubric');
+  }
+});
+
+router.get('/phase2/submissions', requireJudge, async (req, res) => {
+  try {
+    res.json({ success: true, submissions: await listPhase2Submissions(req.user.uid) });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not load Phase 2 submissions');
+  }
+});
+
+router.post('/phase2/submissions/:submissionId/review', requireJudge, async (req, res) => {
+  try {
+    const review = await submitPhase2Review({
+      submissionId: req.params.submissionId,
+      scores: req.body.scores,
+      comment: req.body.comment,
+      actor: req.user
+    });
+    res.json({ success: true, review });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not save the review');
+  }
+});
+
+router.post('/phase2/submissions/:submissionId/status', requireOrganizer, async (req, res) => {
+  try {
+    const update = await setPhase2Status({
+      submissionId: req.params.submissionId,
+      status: req.body.status,
+      note: req.body.note,
+      actor: req.user
+    });
+    res.json({ success: true, update });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not update the status');
+  }
+});
+
+router.get('/phase2/shortlist', requireOrganizer, async (req, res) => {
+  try {
+    res.json({ success: true, teams: await finaleShortlist() });
+  } catch (error) {
+    sendJudgingError(res, error, 'Could not load the finale shortlist');
+  }
+});
+
+export default router;
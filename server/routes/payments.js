@@ -0,0 +1,161 @@
+import express from 'express';
+import { db } from '../firebaseAdmin.js';
+import { requireUser } from '../auth.js';
+import { gateway } from '../gateways/index.js';
+import { settlePaymentEvent, recordPaymentRequest, waivePayment } from '../payments.js';
+import { computeTeamFee, amountsMatch } from '../pricing.js';
+import { findParticipantConflicts } from '../participants.js';
+
+const router = express.Router();
+
+// Where the gateway sends payers back and posts webhooks. This comes from the
+// server environment (PUBLIC_BASE_URL, the site's public origin) and never
+// from request headers, which the caller controls.
+const publicBaseUrl = () => {
+  if (!process.env.PUBLIC_BASE_URL) {
+    throw new Error('PUBLIC_BASE_URL is not configured');
+  }
+  return process.env.PUBLIC_BASE_URL.replace(/\/+$/, '');
+};
+
+// Registration fee for the signed-in user's team, as the server will charge it
+router.get('/payment-quote', requireUser, async (req, res) => {
+  try {
+    const teamSnap = await db.collection('teams').doc(req.user.uid).get();
+    if (!teamSnap.exists) {
+      return res.status(404).json({
+        success: false,
+        error: 'Register your team before making a payment.'
+      });
+    }
+
+    res.json({ success: true, quote: await computeTeamFee(teamSnap.data()) });
+  } catch (error) {
+    console.error('Payment quote error:', error.message);
+    res.status(500).json({
+      success: false,
+      error: 'Could not calculate the registration fee. Please try again later.'
+    });
+  }
+});
+
+// Create payment request for the signed-in user's team
+router.post('/create-payment', requireUser, async (req, res) => {
+  try {
+    const { amount, buyerName, email, phone } = req.body;
+    const teamId = req.user.uid;
+
+    const teamSnap = await db.collection('teams').doc(teamId).get();
+    if (!teamSnap.exists) {
+      return res.status(404).json({
+        success: false,
+        error: 'Register your team before making a payment.'
+      });
+    }
+
+    const team = teamSnap.data();
+    if (team.paymentStatus === 'paid') {
+      return res.status(409).json({
+        success: false,
+        error: 'Payment for this team has already been completed.'
+      });
+    }
+
+    // The registration form checks this too, but the team doc can be written
+    // directly, so nobody already on another team gets paid for twice
+    const [conflict] = await findParticipantConflicts({ teamId, members: team.members });
+    if (conflict) {
+      return res.status(409).json({ success: false, error: conflict.message });
+    }
+
+    const quote = await computeTeamFee(team);
+    if (amount !== undefined && !amountsMatch(quote.total, amount)) {
+      console.warn(`Rejected payment for team ${teamId}: sent ${amount}, expected ${quote.total}`);
+      return res.status(400).json({
+        success: false,
+        error: 'The payment amount does not match your registration fee. Please refresh and try again.',
+        quote
+      });
+    }
+
+    if (quote.total === 0) {
+      await waivePayment({ teamId, quote });
+      return res.json({ success: true, waived: true, quote });
+    }
+
+    // The registration ID travels in the purpose so it shows up on the gateway side too
+    const purpose = `Startup Spark 2025 - ${team.registrationId}`;
+    const paymentRequest = await gateway.createPaymentRequest({
+      amount: quote.total,
+      purpose,
+      buyerName,
+      email,
+      phone,
+      redirectUrl: `${publicBaseUrl()}/payment/success`,
+      webhookUrl: `${publicBaseUrl()}/api/webhook`
+    });
+
+    await recordPaymentRequest({
+      gatewayName: gateway.name,
+      paymentRequestId: paymentRequest.id,
+      teamId,
+      registrationId: team.registrationId,
+      quote,
+      purpose,
+      buyerName,
+      email,
+      phone
+    });
+
+    res.json({
+      success: true,
+      quote,
+      payment_request: {
+        id: paymentRequest.id,
+        longurl: paymentRequest.longurl
+      }
+    });
+  } catch (error) {
+    console.error('Payment creation error:', error.response?.data || error.message);
+    res.status(500).json({
+      success: false,
+      error: 'Payment creation failed. Please try again later.'
+    });
+  }
+});
+
+// Payment webhook
+router.post('/webhook', async (req, res) => {
+  const event = gateway.verifyCallback(req.body);
+  if (!event) {
+    console.warn(`Rejected ${gateway.name} webhook with an invalid signature`);
+    return res.status(400).send('Invalid signature');
+  }
+
+  const { paymentId, paymentRequestId } = event;
+  if (!paymentId || !paymentRequestId) {
+    return res.status(400).send('Missing payment identifiers');
+  }
+
+  try {
+    const result = await settlePaymentEvent(event, gateway.name);
+
+    if (result.duplicate) {
+      console.log(`Duplicate webhook for payment ${paymentId} ignored`);
+    } else if (!result.teamId) {
+      console.warn(`Payment ${paymentId} for request ${paymentRequestId} has no matching team`);
+    } else if (result.amountMismatch) {
+      console.warn(`Payment ${paymentId} for team ${result.teamId} does not match the expected amount`);
+    } else {
+      console.log(`Payment ${paymentId} for team ${result.teamId} is ${result.status}`);
+    }
+
+    res.status(200).send('Webhook received');
+  } catch (error) {
+    console.error('Webhook processing error:', error.message);
+    // A non-2xx response makes the gateway retry the delivery
+    res.status(500).send('Webhook processing failed');
+  }
+});
+
+export default router;
@@ -0,0 +1,96 @@
+import express from 'express';
+import { requireUser } from '../auth.js';
+import {
+  TeamError,
+  findTeamIdForUser,
+  getTeamInvite,
+  rotateTeamInvite,
+  previewInvite,
+  acceptInvite
+} from '../teams.js';
+import { requestRosterChange } from '../roster.js';
+import { getTeamSubmission } from '../judging.js';
+import { findParticipantConflicts } from '../participants.js';
+
+const router = express.Router();
+
+router.use(requireUser);
+
+const sendTeamError = (res, error, fallback) => {
+  if (error instanceof TeamError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${fallback}:`, error.message);
+  res.status(500).json({ success: false, error: `${fallback}. Please try again later.` });
+};
+
+// Invite code for the signed-in leader's team
+router.get('/invite', async (req, res) => {
+  try {
+    res.json({ success: true, code: await getTeamInvite(req.user.uid) });
+  } catch (error) {
+    sendTeamError(res, error, 'Could not load your invite code');
+  }
+});
+
+router.post('/invite/rotate', async (req, res) => {
+  try {
+    res.json({ success: true, code: await rotateTeamInvite(req.user.uid) });
+  } catch (error) {
+    sendTeamError(res, error, 'Could not create a new invite code');
+  }
+});
+
+router.get('/invite/:code', async (req, res) => {
+  try {
+    res.json({ success: true, invite: await previewInvite(req.params.code) });
+  } catch (error) {
+    sendTeamError(res, error, 'Could not load this invite');
+  }
+});
+
+router.post('/invite/:code/accept', async (req, res) => {
+  try {
+    res.json({ success: true, ...(await acceptInvite({ code: req.params.code, actor: req.user })) });
+  } catch (error) {
+    sendTeamError(res, error, 'Could not join the team');
+  }
+});
+
+// Add, remove, replace or update a member of the signed-in leader's team
+router.post('/roster', async (req, res) => {
+  try {
+    res.json({ success: true, ...(await requestRosterChange({ actor: req.user, change: req.body })) });
+  } catch (error) {
+    sendTeamError(res, error, 'Could not change your team');
+  }
+});
+
+// The Phase 1 submission of the team the signed-in account leads or joined
+router.get('/phase1-submission', async (req, res) => {
+  try {
+    const teamId = await findTeamIdForUser(req.user.uid);
+    res.json({ success: true, submission: teamId ? await getTeamSubmission(teamId) : null });
+  } catch (error) {
+    sendTeamError(res, error, 'Could not load your Phase 1 submission');
+  }
+});
+
+// Details already registered with another team, checked before a team is saved
+router.post('/participants/check', async (req, res) => {
+  try {
+    const members = (Array.isArray(req.body.members) ? req.body.members : []).slice(0, 5).map((member) => ({
+      email: member?.email,
+      phone: member?.phone,
+      rollNumber: member?.rollNumber,
+      // Only the caller's own rec_students roll number is looked up
+      uid: member?.uid === req.user.uid ? req.user.uid : undefined
+    }));
+    const teamId = (await findTeamIdForUser(req.user.uid)) || req.user.uid;
+    res.json({ success: true, conflicts: await findParticipantConflicts({ teamId, members }) });
+  } catch (error) {
+    sendTeamError(res, error, 'Could not check your team details');
+  }
+});
+
+export default router;
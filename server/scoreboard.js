@@ -0,0 +1,153 @@
+import { db } from './firebaseAdmin.js';
+import { recordAudit } from './audit.js';
+import { writeInChunks } from './batch.js';
+import { getRubric, getJudgingSettings, loadAllScores, JudgingError } from './judging.js';
+
+const resultsRef = () => db.collection('config').doc('phase1Results');
+const scoreboard = () => db.collection('phase1_scoreboard');
+
+const DEFAULT_RESULTS = {
+  published: false,
+  // With privacy on, teams ranked below the cutoff show their rank only
+  privacy: { enabled: false, cutoffRank: 20 }
+};
+
+export const getResultsSettings = async () => {
+  const snap = await resultsRef().get();
+  const data = snap.exists ? snap.data() : {};
+  return {
+    ...DEFAULT_RESULTS,
+    ...data,
+    privacy: { ...DEFAULT_RESULTS.privacy, ...(data.privacy || {}) }
+  };
+};
+
+const validatePrivacy = (privacy) => {
+  const cutoffRank = Number(privacy?.cutoffRank);
+  if (!Number.isInteger(cutoffRank) || cutoffRank < 1) {
+    throw new JudgingError('The privacy cutoff must be a rank of 1 or more.');
+  }
+  return { enabled: Boolean(privacy?.enabled), cutoffRank };
+};
+
+// Mean score per rubric criterion across every judge of a submission
+const criterionBreakdown = (judgeScores, rubric) => rubric.criteria.map((criterion) => {
+  const values = judgeScores
+    .map((entry) => entry.scores?.[criterion.id])
+    .filter((value) => Number.isFinite(value));
+  const average = values.length
+    ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100
+    : null;
+  return { id: criterion.id, label: criterion.label, maxScore: criterion.maxScore, average };
+});
+
+/**
+ * Public scoreboard rows for every scored submission, ranked 1, 2, 2, 4 by
+ * points. Participants read these instead of phase1_submissions, so hidden
+ * scores never leave the server.
+ */
+const buildEntries = async (privacy) => {
+  const [rubric, submissionsSnap, bySubmission] = await Promise.all([
+    getRubric(),
+    db.collection('phase1_submissions').get(),
+    loadAllScores()
+  ]);
+  const scored = submissionsSnap.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() }))
+    .filter((submission) => Number.isFinite(submission.points));
+  scored.sort((a, b) => b.points - a.points || (a.teamName || '').localeCompare(b.teamName || ''));
+
+  let rank = null;
+  return scored.map((submission, index) => {
+    if (index === 0 || submission.points !== scored[index - 1].points) rank = index + 1;
+    const hidden = privacy.enabled && rank > privacy.cutoffRank;
+    return {
+      id: submission.id,
+      rank,
+      teamName: submission.teamName || '',
+      registrationId: submission.registrationId || '',
+      collegeName: (submission.collegeName || '').trim(),
+      domain: submission.domain || null,
+      points: hidden ? null : submission.points,
+      breakdown: hidden ? null : criterionBreakdown(bySubmission.get(submission.id) || [], rubric),
+      review: hidden ? null : submission.review || null,
+      judgeCount: submission.judgeCount || 0,
+      scoresHidden: hidden
+    };
+  });
+};
+
+// Rewrites phase1_scoreboard and returns the filter options it contains,
+// along with the normalization its points were worked out with
+const writeScoreboard = async (privacy) => {
+  const [entries, existing, judging] = await Promise.all([
+    buildEntries(privacy),
+    scoreboard().get(),
+    getJudgingSettings()
+  ]);
+  const current = new Set(entries.map((entry) => entry.id));
+  const stale = existing.docs.filter((doc) => !current.has(doc.id));
+
+  await writeInChunks(entries, (batch, entry) => {
+    const { id, ...row } = entry;
+    batch.set(scoreboard().doc(id), row);
+  });
+  await writeInChunks(stale, (batch, doc) => batch.delete(doc.ref));
+
+  const distinct = (values) => [...new Set(values.filter(Boolean))].sort((a, b) => a.localeCompare(b));
+  return {
+    normalization: judging.normalization,
+    teamCount: entries.length,
+    colleges: distinct(entries.map((entry) => entry.collegeName)),
+    domains: distinct(entries.map((entry) => entry.domain))
+  };
+};
+
+/**
+ * Publishes or withdraws the Phase 1 results. Publishing rebuilds the public
+ * scoreboard with the given privacy settings; withdrawing only flips the flag,
+ * which the security rules use to close the scoreboard to participants.
+ */
+export const saveResultsSettings = async ({ published, privacy, actor }) => {
+  const before = await getResultsSettings();
+  const cleanPrivacy = validatePrivacy(privacy ?? before.privacy);
+  const isPublished = Boolean(published);
+
+  const facets = isPublished
+    ? await writeScoreboard(cleanPrivacy)
+    : {
+      normalization: before.normalization || 'raw',
+      teamCount: before.teamCount ?? 0,
+      colleges: before.colleges || [],
+      domains: before.domains || []
+    };
+  const settings = {
+    published: isPublished,
+    privacy: cleanPrivacy,
+    ...facets,
+    updatedBy: actor.email || null,
+    updatedAt: new Date().toISOString()
+  };
+
+  const batch = db.batch();
+  batch.set(resultsRef(), settings);
+  await recordAudit({
+    actor,
+    action: isPublished ? 'results.publish' : 'results.withdraw',
+    target: 'config/phase1Results',
+    before: { published: before.published, privacy: before.privacy },
+    after: { published: isPublished, privacy: cleanPrivacy },
+    metadata: { teamCount: facets.teamCount }
+  }, batch);
+  await batch.commit();
+  return settings;
+};
+
+// Keeps a published scoreboard in step with new scores; a no-op until results
+// are published
+export const refreshScoreboard = async () => {
+  const settings = await getResultsSettings();
+  if (!settings.published) return;
+  const facets = await writeScoreboard(settings.privacy);
+  await resultsRef().set(facets, { merge: true });
+};
@@ -0,0 +1,185 @@
+import { db } from './firebaseAdmin.js';
+import { recordAudit } from './audit.js';
+import { JudgingError } from './judging.js';
+
+// Firestore rejects a batch or transaction with more than 500 writes; the
+// lock document and its audit entry take two of them
+const MAX_TEAM_CHANGES = 498;
+
+const selectionRef = () => db.collection('config').doc('phase2Selection');
+
+const EMPTY_SELECTION = {
+  locked: false,
+  cutoff: { mode: 'top', value: 20 },
+  include: [],
+  exclude: [],
+  selectedTeamIds: [],
+  committedBy: null,
+  committedAt: null
+};
+
+export const getSelection = async (reader = null) => {
+  const snap = reader ? await reader.get(selectionRef()) : await selectionRef().get();
+  return { ...EMPTY_SELECTION, ...(snap.exists ? snap.data() : {}) };
+};
+
+/**
+ * Every registered team ordered by Phase 1 points, with competition ranking
+ * (1, 2, 2, 4). Teams without scored submissions come last and have no rank.
+ */
+const loadRanking = async (reader = null) => {
+  const get = (ref) => (reader ? reader.get(ref) : ref.get());
+  const [teamsSnap, submissionsSnap] = await Promise.all([
+    get(db.collection('teams')),
+    get(db.collection('phase1_submissions'))
+  ]);
+  const points = new Map(submissionsSnap.docs.map((doc) => [doc.id, doc.data().points ?? null]));
+
+  const teams = teamsSnap.docs.map((doc) => {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      teamName: data.teamName || '',
+      registrationId: data.registrationId || '',
+      collegeName: data.collegeName || '',
+      paid: data.paymentStatus === 'paid',
+      submitted: points.has(doc.id),
+      points: points.get(doc.id) ?? null,
+      phase2Selected: Boolean(data.phase2Selected)
+    };
+  });
+  teams.sort((a, b) =>
+    (b.points ?? -Infinity) - (a.points ?? -Infinity) || a.teamName.localeCompare(b.teamName)
+  );
+
+  let rank = null;
+  return teams.map((team, index) => {
+    if (team.points === null) return { ...team, rank: null };
+    if (index === 0 || team.points !== teams[index - 1].points) rank = index + 1;
+    return { ...team, rank };
+  });
+};
+
+const validateDraft = ({ cutoff, include = [], exclude = [] }) => {
+  const mode = cutoff?.mode;
+  const value = Number(cutoff?.value);
+  if (mode === 'top') {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new JudgingError('The number of teams to select must be a whole number.');
+    }
+  } else if (mode === 'threshold') {
+    if (!Number.isFinite(value)) {
+      throw new JudgingError('Set a minimum score for the cutoff.');
+    }
+  } else {
+    throw new JudgingError('The cutoff must be "top" or "threshold".');
+  }
+  if (!Array.isArray(include) || !Array.isArray(exclude)) {
+    throw new JudgingError('Overrides must be lists of team IDs.');
+  }
+  const excluded = new Set(exclude.map(String));
+  if (include.some((id) => excluded.has(String(id)))) {
+    throw new JudgingError('A team cannot be both included and excluded.');
+  }
+  return { cutoff: { mode, value }, include: [...new Set(include.map(String))], exclude: [...excluded] };
+};
+
+// Top N keeps every team tied at the boundary, so it can select more than N
+const applyCutoff = (ranking, { cutoff, include, exclude }) => {
+  const included = new Set(include);
+  const excluded = new Set(exclude);
+  const inCutoff = (team) => team.rank !== null && (
+    cutoff.mode === 'top' ? team.rank <= cutoff.value : team.points >= cutoff.value
+  );
+
+  return ranking.map((team) => {
+    if (excluded.has(team.id)) return { ...team, selected: false, reason: 'excluded' };
+    if (included.has(team.id)) return { ...team, selected: true, reason: 'included' };
+    return inCutoff(team) ? { ...team, selected: true, reason: 'cutoff' } : { ...team, selected: false, reason: null };
+  });
+};
+
+const summarize = (teams) => ({
+  teams,
+  selectedCount: teams.filter((team) => team.selected).length,
+  unpaidSelected: teams.filter((team) => team.selected && !team.paid).map((team) => team.id)
+});
+
+// The saved selection with the ranking it applies to; used to open the screen
+export const selectionOverview = async () => {
+  const [selection, ranking] = await Promise.all([getSelection(), loadRanking()]);
+  return { selection, ...summarize(applyCutoff(ranking, selection)) };
+};
+
+export const previewSelection = async (draft) => {
+  const clean = validateDraft(draft);
+  return summarize(applyCutoff(await loadRanking(), clean));
+};
+
+/**
+ * Writes `phase2Selected` on every team whose flag changes and locks the
+ * selection, all in one transaction. The locked `selectedTeamIds` is the list
+ * the Phase 2 selection emails go to.
+ */
+export const commitSelection = async ({ actor, ...draft }) => {
+  const clean = validateDraft(draft);
+
+  return db.runTransaction(async (tx) => {
+    const [before, ranking] = await Promise.all([getSelection(tx), loadRanking(tx)]);
+    if (before.locked) {
+      throw new JudgingError('The Phase 2 selection is locked. Unlock it before changing it.', 409);
+    }
+
+    const teams = applyCutoff(ranking, clean);
+    const changed = teams.filter((team) => team.selected !== team.phase2Selected);
+    if (changed.length > MAX_TEAM_CHANGES) {
+      throw new JudgingError(`At most ${MAX_TEAM_CHANGES} teams can change in one commit.`);
+    }
+
+    const selection = {
+      ...clean,
+      locked: true,
+      selectedTeamIds: teams.filter((team) => team.selected).map((team) => team.id),
+      committedBy: actor.email || null,
+      committedAt: new Date().toISOString()
+    };
+    changed.forEach((team) => {
+      tx.update(db.collection('teams').doc(team.id), { phase2Selected: team.selected });
+    });
+    tx.set(selectionRef(), selection);
+    await recordAudit({
+      actor,
+      action: 'selection.commit',
+      target: 'config/phase2Selection',
+      before: { selectedTeamIds: before.selectedTeamIds },
+      after: { selectedTeamIds: selection.selectedTeamIds },
+      metadata: { ...clean, selected: selection.selectedTeamIds.length, changed: changed.length }
+    }, tx);
+
+    return { selection, ...summarize(teams) };
+  });
+};
+
+// Team flags stay as committed until the next commit
+export const unlockSelection = async ({ reason, actor }) => {
+  if (!reason?.trim()) {
+    throw new JudgingError('Give a reason for unlocking the selection.');
+  }
+
+  return db.runTransaction(async (tx) => {
+    const before = await getSelection(tx);
+    if (!before.locked) {
+      throw new JudgingError('The Phase 2 selection is not locked.', 409);
+    }
+    tx.set(selectionRef(), { locked: false }, { merge: true });
+    await recordAudit({
+      actor,
+      action: 'selection.unlock',
+      target: 'config/phase2Selection',
+      before: { locked: true },
+      after: { locked: false },
+      metadata: { reason: reason.trim() }
+    }, tx);
+    return { ...before, locked: false };
+  });
+};
@@ -0,0 +1,170 @@
+import { randomInt } from 'node:crypto';
+import { db, FieldValue } from './firebaseAdmin.js';
+import { findParticipantConflicts } from './participants.js';
+
+export class TeamError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// No 0/O or 1/I so codes survive being read out loud
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+const teamRef = (teamId) => db.collection('teams').doc(teamId);
+const inviteRef = (code) => db.collection('team_invites').doc(code);
+const userRef = (uid) => db.collection('users').doc(uid);
+
+const generateInviteCode = () =>
+  Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+
+export const normalizeInviteCode = (code) => String(code || '').trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const sameEmail = (a, b) => Boolean(a) && Boolean(b) && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// A member slot is open until someone has accepted it or the leader filled it in
+const isOpenSlot = (member) => !member?.uid && !member?.name?.trim() && !member?.email?.trim();
+
+/**
+ * Finds the team an account belongs to: the team it registered as leader, or
+ * the one it joined through an invite.
+ */
+export const findTeamIdForUser = async (uid, reader = null) => {
+  const get = (ref) => (reader ? reader.get(ref) : ref.get());
+  const [teamSnap, userSnap] = await Promise.all([get(teamRef(uid)), get(userRef(uid))]);
+  if (teamSnap.exists) return uid;
+  return userSnap.exists ? userSnap.data().teamId || null : null;
+};
+
+const issueInvite = async (leaderUid, { replace }) => {
+  const code = generateInviteCode();
+  return db.runTransaction(async (tx) => {
+    const teamSnap = await tx.get(teamRef(leaderUid));
+    if (!teamSnap.exists) {
+      throw new TeamError('Register your team before inviting members.', 404);
+    }
+    const team = teamSnap.data();
+    if (team.inviteCode && !replace) {
+      return team.inviteCode;
+    }
+    if ((await tx.get(inviteRef(code))).exists) {
+      throw new TeamError('Could not create an invite code. Please try again.', 409);
+    }
+
+    if (team.inviteCode) {
+      tx.delete(inviteRef(team.inviteCode));
+    }
+    tx.set(inviteRef(code), { teamId: leaderUid, createdAt: new Date().toISOString() });
+    tx.update(teamRef(leaderUid), {
+      inviteCode: code,
+      memberUids: FieldValue.arrayUnion(leaderUid)
+    });
+    return code;
+  });
+};
+
+// The team's invite code, created the first time the leader asks for it
+export const getTeamInvite = (leaderUid) => issueInvite(leaderUid, { replace: false });
+
+// Replaces the invite code so a leaked link stops working
+export const rotateTeamInvite = (leaderUid) => issueInvite(leaderUid, { replace: true });
+
+const loadInvite = async (code, reader = null) => {
+  const clean = normalizeInviteCode(code);
+  const get = (ref) => (reader ? reader.get(ref) : ref.get());
+  const inviteSnap = clean ? await get(inviteRef(clean)) : null;
+  if (!inviteSnap?.exists) {
+    throw new TeamError('This invite code is not valid. Ask your team lead for a new link.', 404);
+  }
+  const teamId = inviteSnap.data().teamId;
+  const teamSnap = await get(teamRef(teamId));
+  if (!teamSnap.exists || teamSnap.data().inviteCode !== clean) {
+    throw new TeamError('This invite code is not valid. Ask your team lead for a new link.', 404);
+  }
+  return { teamId, team: teamSnap.data() };
+};
+
+// What someone sees before accepting an invite
+export const previewInvite = async (code) => {
+  const { team } = await loadInvite(code);
+  const members = team.members || [];
+  return {
+    teamName: team.teamName || '',
+    collegeName: team.collegeName || '',
+    leaderName: members[0]?.name || '',
+    teamSize: team.teamSize || members.length,
+    openSlots: members.filter(isOpenSlot).length
+  };
+};
+
+/**
+ * Links the signed-in account to the team behind an invite code. A slot the
+ * leader already filled with this account's email is claimed first; otherwise
+ * the first open slot is used. The team size (and so the fee) never changes.
+ */
+const joinTeam = ({ code, actor }) => db.runTransaction(async (tx) => {
+  const { teamId, team } = await loadInvite(code, tx);
+  const existingTeamId = await findTeamIdForUser(actor.uid, tx);
+  if (existingTeamId === teamId) {
+    return { teamId, alreadyMember: true };
+  }
+  if (existingTeamId) {
+    throw new TeamError('You are already part of another team.', 409);
+  }
+
+  const userSnap = await tx.get(userRef(actor.uid));
+  const profile = userSnap.exists ? userSnap.data() : {};
+  const members = [...(team.members || [])];
+  let slot = members.findIndex((member, index) => index > 0 && !member?.uid && sameEmail(member?.email, actor.email));
+  if (slot === -1) {
+    slot = members.findIndex((member, index) => index > 0 && isOpenSlot(member));
+  }
+  if (slot === -1) {
+    throw new TeamError('This team is already full.', 409);
+  }
+
+  members[slot] = {
+    ...members[slot],
+    uid: actor.uid,
+    name: profile.name || members[slot]?.name || '',
+    email: actor.email || profile.email || '',
+    phone: profile.phone || members[slot]?.phone || '',
+    joinedAt: new Date().toISOString()
+  };
+  tx.update(teamRef(teamId), {
+    members,
+    memberUids: FieldValue.arrayUnion(teamId, actor.uid)
+  });
+  tx.set(userRef(actor.uid), { teamId }, { merge: true });
+  // Same shape as the entries server/roster.js writes
+  tx.set(teamRef(teamId).collection('roster_history').doc(), {
+    type: 'join',
+    index: slot,
+    before: team.members?.[slot] || null,
+    after: members[slot],
+    teamSizeBefore: team.teamSize || members.length,
+    teamSizeAfter: team.teamSize || members.length,
+    feeDelta: 0,
+    requestId: null,
+    actorEmail: actor.email || null,
+    actorUid: actor.uid,
+    createdAt: members[slot].joinedAt
+  });
+  return { teamId, alreadyMember: false };
+});
+
+// Someone already registered on another team has to be sorted out by organizers first
+export const acceptInvite = async ({ code, actor }) => {
+  const { teamId } = await loadInvite(code);
+  const profileSnap = await userRef(actor.uid).get();
+  const [conflict] = await findParticipantConflicts({
+    teamId,
+    members: [{ email: actor.email, phone: profileSnap.exists ? profileSnap.data().phone : '', uid: actor.uid }]
+  });
+  if (conflict) {
+    throw new TeamError(conflict.message, 409);
+  }
+  return joinTeam({ code, actor });
+};
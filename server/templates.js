@@ -0,0 +1,154 @@
+import { db } from './firebaseAdmin.js';
+import { recordAudit } from './audit.js';
+import { EmailError } from './mail.js';
+
+/**
+ * Email templates are HTML with {{merge.fields}}. Values are HTML-escaped
+ * when they go into the body and inserted as plain text into the subject; a
+ * field the recipient has no value for renders as an empty string.
+ */
+export const MERGE_FIELDS = [
+  'member.name',
+  'member.email',
+  'member.phone',
+  'team.teamName',
+  'team.registrationId',
+  'team.collegeName',
+  'phase1.points',
+  'workshop.title',
+  'workshop.date',
+  'workshop.venue'
+];
+
+const MERGE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+const templateRef = (templateId) => db.collection('email_templates').doc(templateId);
+
+// The built-in templates organizers start from; saving one stores an edited copy
+export const DEFAULT_TEMPLATES = {
+  workshop_invite: {
+    name: 'Workshop Invitation',
+    subject: 'Workshop Invitation: {{workshop.title}}',
+    attachTicket: true,
+    html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <h1 style="color: #6366f1;">Workshop Invitation</h1>
+  <p>Dear {{member.name}},</p>
+  <p>You are invited to attend the following workshop as part of Startup Spark 2025:</p>
+  <div style="background: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+    <h2 style="color: #4f46e5;">{{workshop.title}}</h2>
+    <p><strong>Date:</strong> {{workshop.date}}</p>
+    <p><strong>Venue:</strong> {{workshop.venue}}</p>
+  </div>
+  <p>Your e-ticket is attached to this email. Please bring a printed copy or show the digital version at the venue.</p>
+  <p>Best regards,<br>Team Startup Spark</p>
+</div>`
+  },
+  phase2_selection: {
+    name: 'Phase 2 Selection',
+    subject: 'Congratulations! Selected for Phase 2 - Startup Spark 2025',
+    attachTicket: false,
+    html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <h1 style="color: #6366f1;">Congratulations! You're Selected for Phase 2</h1>
+  <p>Dear {{member.name}},</p>
+  <p>We are pleased to inform you that your team has been selected for Phase 2 of Startup Spark 2025!</p>
+  <div style="background: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+    <h2 style="color: #4f46e5;">Team Details</h2>
+    <p><strong>Team Name:</strong> {{team.teamName}}</p>
+    <p><strong>Registration ID:</strong> {{team.registrationId}}</p>
+    <p><strong>Phase 1 Score:</strong> {{phase1.points}}</p>
+  </div>
+  <p>Please prepare for Phase 2 by following the guidelines that will be shared soon.</p>
+  <p>Best regards,<br>Team Startup Spark</p>
+</div>`
+  }
+};
+
+export const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const lookup = (context, path) => {
+  const value = path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), context);
+  return value == null ? '' : value;
+};
+
+export const renderTemplate = (template, context) => ({
+  // Subjects are plain text, so only line breaks need to go
+  subject: template.subject.replace(MERGE_PATTERN, (match, path) => String(lookup(context, path))).replace(/\s*\n\s*/g, ' '),
+  html: template.html.replace(MERGE_PATTERN, (match, path) => escapeHtml(lookup(context, path)))
+});
+
+// Fields a template uses that are not merge fields, so typos show up before sending
+export const unknownMergeFields = (template) => {
+  const used = [...`${template.subject}\n${template.html}`.matchAll(MERGE_PATTERN)].map((match) => match[1]);
+  return [...new Set(used.filter((field) => !MERGE_FIELDS.includes(field)))];
+};
+
+export const usesWorkshop = (template) =>
+  template.attachTicket || /\{\{\s*workshop\./.test(`${template.subject}\n${template.html}`);
+
+export const cleanTemplate = (template) => {
+  const clean = {
+    name: String(template?.name || '').trim(),
+    subject: String(template?.subject || '').trim(),
+    html: String(template?.html || ''),
+    attachTicket: Boolean(template?.attachTicket)
+  };
+  if (!clean.name || !clean.subject || !clean.html.trim()) {
+    throw new EmailError('A template needs a name, a subject and a body.');
+  }
+  const unknown = unknownMergeFields(clean);
+  if (unknown.length > 0) {
+    throw new EmailError(`Unknown merge fields: ${unknown.map((field) => `{{${field}}}`).join(', ')}`);
+  }
+  return clean;
+};
+
+export const listTemplates = async () => {
+  const snap = await db.collection('email_templates').get();
+  const saved = new Map(snap.docs.map((doc) => [doc.id, doc.data()]));
+  const builtIn = Object.entries(DEFAULT_TEMPLATES).map(([id, template]) => ({
+    id,
+    builtIn: true,
+    ...template,
+    ...(saved.get(id) || {})
+  }));
+  const custom = snap.docs
+    .filter((doc) => !DEFAULT_TEMPLATES[doc.id])
+    .map((doc) => ({ id: doc.id, builtIn: false, ...doc.data() }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return [...builtIn, ...custom];
+};
+
+export const getTemplate = async (templateId) => {
+  const snap = await templateRef(String(templateId || 'missing')).get();
+  if (snap.exists) return { id: snap.id, builtIn: Boolean(DEFAULT_TEMPLATES[snap.id]), ...snap.data() };
+  if (DEFAULT_TEMPLATES[templateId]) return { id: templateId, builtIn: true, ...DEFAULT_TEMPLATES[templateId] };
+  throw new EmailError('Email template not found.', 404);
+};
+
+// Saves a template; without a `templateId` a new custom template is created
+export const saveTemplate = async ({ templateId, template, actor }) => {
+  const clean = cleanTemplate(template);
+  const ref = templateId ? templateRef(templateId) : db.collection('email_templates').doc();
+  const beforeSnap = await ref.get();
+  if (templateId && !beforeSnap.exists && !DEFAULT_TEMPLATES[templateId]) {
+    throw new EmailError('Email template not found.', 404);
+  }
+
+  const saved = { ...clean, updatedBy: actor.email || null, updatedAt: new Date().toISOString() };
+  const batch = db.batch();
+  batch.set(ref, saved);
+  await recordAudit({
+    actor,
+    action: 'email.template',
+    target: `email_templates/${ref.id}`,
+    before: beforeSnap.exists ? beforeSnap.data() : DEFAULT_TEMPLATES[ref.id] || null,
+    after: saved
+  }, batch);
+  await batch.commit();
+  return { id: ref.id, builtIn: Boolean(DEFAULT_TEMPLATES[ref.id]), ...saved };
+};
@@ -0,0 +1,167 @@
+import { createHmac, createHash, timingSafeEqual } from 'node:crypto';
+import { db } from './firebaseAdmin.js';
+import { ATTENDANCE_EVENTS, attendanceRef, attendanceRecord, findMemberIndex } from './attendance.js';
+import { MAX_TEAM_SIZE } from './roster.js';
+
+/**
+ * E-ticket QR codes hold a token signed with TICKET_SECRET, which only the
+ * server knows:
+ *
+ *   SS1.<base64url payload>.<base64url HMAC-SHA256 of "SS1.<payload>">
+ *
+ * The payload names one member of one team by email, with their place on the
+ * team when the ticket was made. A token is the same every time it is
+ * generated for that member, so resending a ticket does not invalidate the old
+ * one, while a replaced member's ticket stops matching the team. Places shift
+ * when someone ahead of the holder leaves, so the place is only a hint.
+ * One ticket admits its holder to every event; volunteers pick the event.
+ */
+const TOKEN_PREFIX = 'SS1';
+
+export class TicketError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const teamRef = (teamId) => db.collection('teams').doc(teamId);
+
+const ticketSecret = () => {
+  if (!process.env.TICKET_SECRET) {
+    throw new Error('TICKET_SECRET is not configured');
+  }
+  return process.env.TICKET_SECRET;
+};
+
+const sign = (body) => createHmac('sha256', ticketSecret()).update(body).digest('base64url');
+
+export const signTicket = ({ teamId, memberIndex, member }) => {
+  const payload = Buffer.from(JSON.stringify({
+    t: teamId,
+    m: memberIndex,
+    e: String(member.email || '').trim().toLowerCase()
+  })).toString('base64url');
+  const body = `${TOKEN_PREFIX}.${payload}`;
+  return `${body}.${sign(body)}`;
+};
+
+// The check-in scanner looks tickets up by this hash when it is offline
+export const ticketHash = (token) => createHash('sha256').update(token).digest('hex');
+
+export const verifyTicket = (token) => {
+  const [prefix, payload, signature] = String(token || '').trim().split('.');
+  if (prefix !== TOKEN_PREFIX || !payload || !signature) {
+    throw new TicketError('This is not a Startup Spark ticket.');
+  }
+  const expected = Buffer.from(sign(`${prefix}.${payload}`));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new TicketError('This ticket is not genuine.');
+  }
+  try {
+    const { t: teamId, m: memberIndex, e: email } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    return { teamId, memberIndex, email };
+  } catch {
+    throw new TicketError('This ticket is damaged. Please ask for a new one.');
+  }
+};
+
+const assertEvent = (event) => {
+  if (!ATTENDANCE_EVENTS.includes(event)) {
+    throw new TicketError('Choose the event you are checking people into.');
+  }
+};
+
+const memberSummary = (team, memberIndex, member) => ({
+  teamId: team.id,
+  teamName: team.teamName || '',
+  registrationId: team.registrationId || '',
+  collegeName: team.collegeName || '',
+  memberIndex,
+  name: member.name || '',
+  email: member.email
+});
+
+/**
+ * Every ticket that is valid right now, for volunteers to check scans against
+ * while offline. Only hashes of the tokens leave the server, so the manifest
+ * cannot be used to make tickets.
+ */
+export const buildCheckInManifest = async (event) => {
+  assertEvent(event);
+  const [teamsSnap, attendanceSnap] = await Promise.all([
+    db.collection('teams').get(),
+    db.collection('attendance').where('event', '==', event).get()
+  ]);
+  const checkedIn = new Map(attendanceSnap.docs.map((doc) => [doc.id, doc.data().checkedInAt]));
+
+  const tickets = teamsSnap.docs.flatMap((doc) => {
+    const team = { id: doc.id, ...doc.data() };
+    return (team.members || [])
+      .map((member, memberIndex) => ({ member, memberIndex }))
+      .filter(({ member }) => member?.email?.trim())
+      .map(({ member, memberIndex }) => ({
+        // A ticket made before earlier members left names a later place
+        hashes: Array.from({ length: Math.max(MAX_TEAM_SIZE - memberIndex, 1) }, (_, shift) =>
+          ticketHash(signTicket({ teamId: team.id, memberIndex: memberIndex + shift, member }))),
+        ...memberSummary(team, memberIndex, member),
+        paid: team.paymentStatus === 'paid',
+        checkedInAt: checkedIn.get(attendanceRef(event, team.id, member.email).id) || null
+      }));
+  });
+
+  return { event, generatedAt: new Date().toISOString(), tickets };
+};
+
+// Scans queued while offline carry their own time, within reason
+const checkInTime = (scannedAt) => {
+  const now = Date.now();
+  const time = scannedAt ? new Date(scannedAt).getTime() : now;
+  return Number.isNaN(time) || time > now || now - time > 24 * 60 * 60 * 1000 ? now : time;
+};
+
+/**
+ * Checks the holder of `token` into `event`. The result's status says what
+ * the volunteer should do:
+ *   checked_in  let them in
+ *   duplicate   already checked in (when and by whom is included)
+ *   unpaid      the team has not paid; nothing is recorded
+ */
+export const checkInTicket = async ({ token, event, scannedAt, actor }) => {
+  assertEvent(event);
+  const { teamId, memberIndex: hint, email } = verifyTicket(token);
+
+  return db.runTransaction(async (tx) => {
+    const teamSnap = await tx.get(teamRef(String(teamId)));
+    const team = teamSnap.exists ? { id: teamSnap.id, ...teamSnap.data() } : null;
+    const memberIndex = findMemberIndex(team, hint, email);
+    const member = team?.members?.[memberIndex];
+    if (!team || !member) {
+      throw new TicketError('This ticket belongs to someone who is no longer on the team.', 409);
+    }
+
+    const holder = memberSummary(team, memberIndex, member);
+    if (team.paymentStatus !== 'paid') {
+      return { status: 'unpaid', holder };
+    }
+
+    const ref = attendanceRef(event, team.id, email);
+    const existing = await tx.get(ref);
+    if (existing.exists) {
+      return { status: 'duplicate', holder, attendance: existing.data() };
+    }
+
+    const attendance = attendanceRecord({
+      event,
+      team,
+      memberIndex,
+      member,
+      method: 'qr',
+      checkedInAt: new Date(checkInTime(scannedAt)).toISOString(),
+      actor
+    });
+    tx.set(ref, attendance);
+    return { status: 'checked_in', holder, attendance };
+  });
+};
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { onAuthStateChanged } from 'firebase/auth';
-import { doc, getDoc, collection, query, where, getDocs } from 'firebase/firestore';
+import { doc, getDoc } from 'firebase/firestore';
 import { auth, db } from './lib/firebase';
+import { isTeamPaymentSettled } from './lib/payments';
+import { capturePendingInvite, clearPendingInvite, findTeamId } from './lib/teams';
+import { fetchUserRole, isStaff, Role } from './lib/roles';
 import Navbar from './components/Navbar';
 import Hero from './components/Hero';
 import About from './components/About';
@@ -19,25 +22,24 @@ import ClickRipple from './components/animations/ClickRipple';
 import Background from './components/Background';
 import AuthPage from './components/auth/AuthPage';
 import TeamRegistration from './components/auth/TeamRegistration';
+import JoinTeam from './components/auth/JoinTeam';
 import UserDashboard from './components/dashboard/UserDashboard';
 import AdminDashboard from './components/admin/AdminDashboard';
-import FinanceDashboard from './components/admin/FinanceDashboard';
+import PaymentReturn from './components/payment/PaymentReturn';
+import FinaleLeaderboard from './components/FinaleLeaderboard';
+import { FINALE_BOARD_PATH } from './lib/finale';
 
-// Admin credentials
-const ADMIN_CREDENTIALS = {
-  email: 'admin@edcrec.com'
-};
-
-const ADMIN_2_CREDENTIALS = {
-  email: 'finance@edcrec.com'
-};
+// The payment gateway redirects here after checkout
+const PAYMENT_RETURN_PATH = '/payment/success';
 
 function App() {
-  const [showAuth, setShowAuth] = useState(false);
+  const [pendingInvite, setPendingInvite] = useState(capturePendingInvite);
+  // Opening an invite link while signed out goes straight to sign up / sign in
+  const [showAuth, setShowAuth] = useState(Boolean(pendingInvite));
   const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [isAdmin, setIsAdmin] = useState(false);
-  const [isFinanceAdmin, setIsFinanceAdmin] = useState(false);
+  const [role, setRole] = useState<Role>('participant');
   const [currentUser, setCurrentUser] = useState<any>(null);
+  const [teamId, setTeamId] = useState<string | null>(null);
   const [paymentStatus, setPaymentStatus] = useState<'pending' | 'paid'>('pending');
   const [loading, setLoading] = useState(true);
 
@@ -45,24 +47,19 @@ function App() {
     const unsubscribe = onAuthStateChanged(auth, async (user) => {
       setLoading(true);
       if (user) {
-        // Check if admin
-        if (user.email === ADMIN_CREDENTIALS.email) {
-          setIsAdmin(true);
-          setIsFinanceAdmin(false);
-          setIsAuthenticated(true);
-          setCurrentUser(null);
-          setLoading(false);
-          return;
-        }
-
-        // Check if finance admin
-        if (user.email === ADMIN_2_CREDENTIALS.email) {
-          setIsAdmin(false);
-          setIsFinanceAdmin(true);
-          setIsAuthenticated(true);
-          setCurrentUser(null);
-          setLoading(false);
-          return;
+        // Staff accounts are identified by their roles/{uid} document
+        try {
+          const userRole = await fetchUserRole(user.uid);
+          setRole(userRole);
+          if (isStaff(userRole)) {
+            setIsAuthenticated(true);
+            setCurrentUser(null);
+            setLoading(false);
+            return;
+          }
+        } catch (error) {
+          console.error('Error fetching user role:', error);
+          setRole('participant');
         }
 
         // Regular user
@@ -74,36 +71,19 @@ function App() {
             setCurrentUser({ id: user.uid, name: user.displayName || 'User' });
           }
           
-          // Check payment status
-          const teamDoc = await getDoc(doc(db, 'teams', user.uid));
-          if (teamDoc.exists()) {
-            const teamData = teamDoc.data();
-            if (teamData.paymentStatus === 'paid') {
-              setPaymentStatus('paid');
-            } else {
-              const userEmail = userDoc.exists() ? userDoc.data().email : user.email;
-              
-              if (userEmail) {
-                const paymentsQuery = query(
-                  collection(db, 'payments'),
-                  where('email', '==', userEmail),
-                  where('status', '==', 'paid')
-                );
-                
-                const querySnapshot = await getDocs(paymentsQuery);
-                
-                if (!querySnapshot.empty) {
-                  setPaymentStatus('paid');
-                } else {
-                  setPaymentStatus('pending');
-                }
-              }
-            }
+          // Check payment status of the team this account leads or joined
+          const userTeamId = await findTeamId(user.uid);
+          setTeamId(userTeamId);
+          if (userTeamId) {
+            // Already on a team, so an invite opened earlier no longer applies
+            clearPendingInvite();
+          }
+          const teamDoc = userTeamId ? await getDoc(doc(db, 'teams', userTeamId)) : null;
+          if (teamDoc?.exists()) {
+            setPaymentStatus(isTeamPaymentSettled(teamDoc.data()) ? 'paid' : 'pending');
           }
           
           setIsAuthenticated(true);
-          setIsAdmin(false);
-          setIsFinanceAdmin(false);
         } catch (error) {
           console.error('Error fetching user data:', error);
           setCurrentUser({ id: user.uid, name: user.displayName || 'User' });
@@ -111,9 +91,9 @@ function App() {
         }
       } else {
         setIsAuthenticated(false);
-        setIsAdmin(false);
-        setIsFinanceAdmin(false);
+        setRole('participant');
         setCurrentUser(null);
+        setTeamId(null);
       }
       setLoading(false);
     });
@@ -122,12 +102,11 @@ function App() {
   }, []);
 
   const renderAuthenticatedContent = () => {
-    if (isAdmin) {
-      return <AdminDashboard isFinanceAdmin={false} />;
-    }
-    
-    if (isFinanceAdmin) {
-      return <FinanceDashboard />;
+    if (isStaff(role)) {
+      if (window.location.pathname === FINALE_BOARD_PATH) {
+        return <FinaleLeaderboard />;
+      }
+      return <AdminDashboard role={role} />;
     }
     
     if (!currentUser) {
@@ -138,8 +117,23 @@ function App() {
       );
     }
     
-    if (paymentStatus === 'paid') {
-      return <UserDashboard userId={currentUser.id} userName={currentUser.name} />;
+    if (window.location.pathname === PAYMENT_RETURN_PATH) {
+      return <PaymentReturn userId={currentUser.id} />;
+    }
+    
+    if (!teamId && pendingInvite) {
+      return (
+        <JoinTeam
+          code={pendingInvite}
+          onJoined={() => window.location.assign('/')}
+          onCancel={() => setPendingInvite(null)}
+        />
+      );
+    }
+
+    // Members who joined through an invite see their team's dashboard
+    if (paymentStatus === 'paid' || (teamId && teamId !== currentUser.id)) {
+      return <UserDashboard teamId={teamId || currentUser.id} userId={currentUser.id} userName={currentUser.name} />;
     }
     
     return <TeamRegistration userId={currentUser.id} userName={currentUser.name} />;
@@ -162,7 +156,7 @@ function App() {
       ) : (
         <>
           {showAuth && !isAuthenticated ? (
-            <AuthPage onClose={() => setShowAuth(false)} />
+            <AuthPage onClose={() => setShowAuth(false)} joiningTeam={Boolean(pendingInvite)} />
           ) : isAuthenticated ? (
             renderAuthenticatedContent()
           ) : (
@@ -1,13 +1,15 @@
 import React, { useState, useEffect } from "react";
 import { motion } from "framer-motion";
+import { useEventSchedule } from "../lib/event";
 
 const CountdownTimer = () => {
-  const targetDate = new Date("2025-03-20T23:00:00").getTime();
-  const [timeLeft, setTimeLeft] = useState(() => calculateTimeLeft());
+  const { registration } = useEventSchedule();
+  const targetDate = registration.closesAt?.getTime() ?? null;
+  const [timeLeft, setTimeLeft] = useState(() => calculateTimeLeft(targetDate));
 
-  function calculateTimeLeft() {
+  function calculateTimeLeft(target: number | null) {
     const now = new Date().getTime();
-    const difference = targetDate - now;
+    const difference = target === null ? 0 : target - now;
 
     if (difference <= 0) {
       return { days: 0, hours: 0, minutes: 0, seconds: 0 };
@@ -22,12 +24,13 @@ const CountdownTimer = () => {
   }
 
   useEffect(() => {
+    setTimeLeft(calculateTimeLeft(targetDate));
     const timer = setInterval(() => {
-      setTimeLeft(calculateTimeLeft());
+      setTimeLeft(calculateTimeLeft(targetDate));
     }, 1000);
 
     return () => clearInterval(timer);
-  }, []);
+  }, [targetDate]);
 
   const timeUnits = [
     { label: "Days", value: timeLeft.days },
@@ -0,0 +1,124 @@
+import { motion, AnimatePresence } from 'framer-motion';
+import { Trophy, Medal, Award, Snowflake, Mic } from 'lucide-react';
+import { useFinale, FinaleTeam } from '../lib/finale';
+import { rankByScore, Ranked } from '../lib/ranking';
+
+// Projector view for the grand finale; open it full screen on the venue display
+const FinaleLeaderboard = () => {
+  const { finale, teams, error } = useFinale();
+
+  const onStage = teams.find((team) => team.id === finale.currentTeamId);
+
+  const standings: Ranked<FinaleTeam>[] = finale.status === 'frozen' && finale.frozenStandings
+    ? rankByScore(
+      finale.frozenStandings
+        .map(({ id, points }) => {
+          const team = teams.find((entry) => entry.id === id);
+          return team ? { ...team, points } : null;
+        })
+        .filter((team): team is FinaleTeam => team !== null),
+      (team) => team.points
+    )
+    : rankByScore(teams, (team) => team.points);
+  const awaiting = teams.filter((team) => !standings.some((entry) => entry.id === team.id));
+
+  // During the reveal, places are uncovered from last to first
+  const hidden = (index: number) =>
+    finale.status === 'reveal' && index < standings.length - finale.revealCount;
+
+  const getRankIcon = (rank: number) => {
+    switch (rank) {
+      case 1:
+        return <Trophy className="w-10 h-10 text-yellow-400" />;
+      case 2:
+        return <Medal className="w-10 h-10 text-gray-400" />;
+      case 3:
+        return <Award className="w-10 h-10 text-amber-600" />;
+      default:
+        return <span className="text-gray-400 font-mono text-3xl">{rank}</span>;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black overflow-y-auto">
+      <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,rgba(120,80,255,0.15),transparent_70%)]" />
+
+      <div className="relative max-w-6xl mx-auto px-8 py-10">
+        <h1 className="text-5xl font-bold text-center gradient-text mb-4">Grand Finale</h1>
+
+        {error && <p className="text-center text-red-400 mb-4">{error}</p>}
+
+        <div className="flex justify-center gap-6 mb-10 text-xl">
+          {finale.status === 'frozen' && (
+            <span className="flex items-center text-blue-300">
+              <Snowflake className="w-6 h-6 mr-2" />
+              Scoreboard frozen
+            </span>
+          )}
+          {onStage && finale.status !== 'reveal' && (
+            <span className="flex items-center text-purple-300">
+              <Mic className="w-6 h-6 mr-2" />
+              Now pitching: <span className="text-white font-semibold ml-2">{onStage.teamName}</span>
+            </span>
+          )}
+        </div>
+
+        {finale.status === 'setup' ? (
+          <div className="space-y-4">
+            <p className="text-center text-2xl text-gray-300 mb-8">Pitch order</p>
+            {teams.map((team) => (
+              <div key={team.id} className="flex items-center gap-6 bg-white/5 rounded-xl px-8 py-5">
+                <span className="text-gray-400 font-mono text-3xl w-12">{team.pitchOrder}</span>
+                <div>
+                  <div className="text-3xl text-white font-semibold">{team.teamName}</div>
+                  <div className="text-lg text-gray-400">{team.collegeName}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <AnimatePresence initial={false}>
+              {standings.map((team, index) => (
+                <motion.div
+                  key={team.id}
+                  layout
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className={`flex items-center gap-6 rounded-xl px-8 py-5 ${
+                    team.id === finale.currentTeamId && finale.status !== 'reveal'
+                      ? 'bg-purple-600/30 border border-purple-500/50'
+                      : 'bg-white/5'
+                  }`}
+                >
+                  {hidden(index) ? (
+                    <span className="text-3xl text-gray-600 w-full text-center">?</span>
+                  ) : (
+                    <>
+                      <div className="w-16 flex justify-center">{getRankIcon(team.rank)}</div>
+                      <div className="flex-grow">
+                        <div className="text-3xl text-white font-semibold">{team.teamName}</div>
+                        <div className="text-lg text-gray-400">{team.collegeName}</div>
+                      </div>
+                      <span className="text-4xl font-bold text-purple-300 font-mono">{team.points}</span>
+                    </>
+                  )}
+                </motion.div>
+              ))}
+            </AnimatePresence>
+
+            {finale.status !== 'reveal' && awaiting.map((team) => (
+              <div key={team.id} className="flex items-center gap-6 bg-white/5 rounded-xl px-8 py-5 opacity-50">
+                <div className="w-16" />
+                <div className="flex-grow text-3xl text-white">{team.teamName}</div>
+                <span className="text-lg text-gray-400">Awaiting scores</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FinaleLeaderboard;
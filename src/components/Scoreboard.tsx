@@ -1,82 +1,88 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { collection, getDocs, query, orderBy } from 'firebase/firestore';
+import {
+  collection,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  startAfter,
+  where,
+} from 'firebase/firestore';
 import { db } from '../lib/firebase';
-import { Trophy, Medal, Award, Search } from 'lucide-react';
-
-interface TeamScore {
-  id: string;
-  teamName: string;
-  registrationId: string;
-  score: number;
-  rank: number;
-  collegeName: string;
-  review: string;
-}
+import {
+  SCOREBOARD_PAGE_SIZE,
+  ScoreboardEntry,
+  useResultsSettings,
+  formatPoints,
+  POINTS_SCALE_NOTE,
+} from '../lib/scoreboard';
+import { Trophy, Medal, Award, Search, ChevronLeft, ChevronRight, Lock, X } from 'lucide-react';
 
 const Scoreboard = () => {
-  const [scores, setScores] = useState<TeamScore[]>([]);
+  const { results, loading: loadingSettings } = useResultsSettings();
+  const [entries, setEntries] = useState<ScoreboardEntry[]>([]);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
-  const [resultsPublished, setResultsPublished] = useState(false);
+  const [college, setCollege] = useState('');
+  const [domain, setDomain] = useState('');
+  // cursors[i] is the last row of page i; the current page starts after the last cursor
+  const [cursors, setCursors] = useState<QueryDocumentSnapshot[]>([]);
+  const [lastRow, setLastRow] = useState<QueryDocumentSnapshot | null>(null);
+  const [hasNextPage, setHasNextPage] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const cursor = cursors[cursors.length - 1];
 
   useEffect(() => {
-    const fetchScores = async () => {
-      try {
-        setLoading(true);
-        
-        // Check if results are published
-        const configDoc = await getDocs(collection(db, 'config'));
-        const resultsConfig = configDoc.docs.find(doc => doc.id === 'phase1Results');
-        
-        if (resultsConfig?.data()?.published) {
-          setResultsPublished(true);
-          
-          // Fetch all submissions and sort by score
-          const submissionsQuery = query(
-            collection(db, 'phase1_submissions'),
-            orderBy('points', 'desc')
-          );
-          
-          const snapshot = await getDocs(submissionsQuery);
-          let rank = 1;
-          const scoresData = snapshot.docs
-            .filter(doc => doc.data().points !== undefined)
-            .map(doc => ({
-              id: doc.id,
-              ...doc.data(),
-              rank,
-              score: doc.data().points
-            })) as TeamScore[];
-          
-          // Assign ranks (handling ties)
-          for (let i = 1; i < scoresData.length; i++) {
-            if (scoresData[i].score === scoresData[i-1].score) {
-              scoresData[i].rank = scoresData[i-1].rank;
-            } else {
-              scoresData[i].rank = i + 1;
-            }
-          }
-          
-          setScores(scoresData);
-        }
-      } catch (error) {
-        console.error('Error fetching scores:', error);
-      } finally {
+    if (!results.published) return;
+
+    const constraints: QueryConstraint[] = [];
+    if (college) constraints.push(where('collegeName', '==', college));
+    if (domain) constraints.push(where('domain', '==', domain));
+    constraints.push(orderBy('rank'));
+    if (cursor) constraints.push(startAfter(cursor));
+    // One extra row tells us whether there is a next page
+    constraints.push(limit(SCOREBOARD_PAGE_SIZE + 1));
+
+    setLoading(true);
+    const unsubscribe = onSnapshot(
+      query(collection(db, 'phase1_scoreboard'), ...constraints),
+      (snapshot) => {
+        const page = snapshot.docs.slice(0, SCOREBOARD_PAGE_SIZE);
+        setEntries(page.map((row) => ({ id: row.id, ...row.data() }) as ScoreboardEntry));
+        setLastRow(page[page.length - 1] ?? null);
+        setHasNextPage(snapshot.docs.length > SCOREBOARD_PAGE_SIZE);
+        setError('');
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error fetching scores:', err);
+        setError('Could not load the scoreboard. Please refresh the page.');
         setLoading(false);
       }
-    };
+    );
+    return unsubscribe;
+  }, [results.published, college, domain, cursor]);
 
-    fetchScores();
-  }, []);
+  const changeFilter = (update: () => void) => {
+    update();
+    setCursors([]);
+    setSelectedId(null);
+  };
 
   const filteredScores = searchTerm
-    ? scores.filter(team => 
+    ? entries.filter(team =>
         team.teamName.toLowerCase().includes(searchTerm.toLowerCase()) ||
         team.registrationId.toLowerCase().includes(searchTerm.toLowerCase()) ||
         team.collegeName.toLowerCase().includes(searchTerm.toLowerCase())
       )
-    : scores;
+    : entries;
+  const selected = entries.find((team) => team.id === selectedId) || null;
+  const inputClass = 'w-full px-4 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white';
 
   const getRankIcon = (rank: number) => {
     switch (rank) {
@@ -91,20 +97,20 @@ const Scoreboard = () => {
     }
   };
 
-  if (!resultsPublished) {
+  if (loadingSettings) {
     return (
-      <div className="min-h-[400px] flex items-center justify-center">
-        <p className="text-gray-400 text-center">
-          Results have not been published yet. Please check back later.
-        </p>
+      <div className="flex justify-center items-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-purple-500"></div>
       </div>
     );
   }
 
-  if (loading) {
+  if (!results.published) {
     return (
-      <div className="flex justify-center items-center min-h-[400px]">
-        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-purple-500"></div>
+      <div className="min-h-[400px] flex items-center justify-center">
+        <p className="text-gray-400 text-center">
+          Results have not been published yet. Please check back later.
+        </p>
       </div>
     );
   }
@@ -112,76 +118,219 @@ const Scoreboard = () => {
   return (
     <section className="py-20 bg-black relative overflow-hidden">
       <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,rgba(120,80,255,0.1),transparent_70%)]" />
-      
+
       <div className="relative z-10 max-w-7xl mx-auto px-4">
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6 border border-purple-500/20"
         >
-          <h2 className="text-3xl font-bold text-center gradient-text mb-8">Phase 1 Scoreboard</h2>
-          
-          {/* Search Bar */}
-          <div className="mb-8">
-            <div className="relative max-w-md mx-auto">
+          <h2 className="text-3xl font-bold text-center gradient-text mb-2">Phase 1 Scoreboard</h2>
+          <p className="text-center text-gray-400 text-sm mb-8">
+            {results.teamCount} ranked teams · updates live · {POINTS_SCALE_NOTE[results.normalization]}
+          </p>
+
+          {results.privacy.enabled && (
+            <div className="mb-6 p-4 bg-purple-500/10 text-purple-300 rounded-lg flex items-center text-sm">
+              <Lock className="w-4 h-4 mr-2 flex-shrink-0" />
+              Scores are shown for the top {results.privacy.cutoffRank} teams. Other teams are listed by rank only.
+            </div>
+          )}
+
+          {/* Filters */}
+          <div className="mb-8 grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="relative">
               <input
                 type="text"
-                placeholder="Search by team name, ID, or college..."
+                placeholder="Search this page by team, ID, or college..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
-                className="w-full px-4 py-2 bg-white/5 rounded-lg pl-10 focus:ring-2 focus:ring-purple-500 outline-none text-white"
+                className={`${inputClass} pl-10`}
               />
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
             </div>
+            <select
+              value={college}
+              onChange={(e) => changeFilter(() => setCollege(e.target.value))}
+              className={inputClass}
+            >
+              <option value="">All colleges</option>
+              {results.colleges.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <select
+              value={domain}
+              onChange={(e) => changeFilter(() => setDomain(e.target.value))}
+              className={inputClass}
+            >
+              <option value="">All domains</option>
+              {results.domains.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
           </div>
-          
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead>
-                <tr className="border-b border-purple-500/20">
-                  <th className="py-4 px-6 text-left text-gray-300">Rank</th>
-                  <th className="py-4 px-6 text-left text-gray-300">Team</th>
-                  <th className="py-4 px-6 text-left text-gray-300">College</th>
-                  <th className="py-4 px-6 text-left text-gray-300">Registration ID</th>
-                  <th className="py-4 px-6 text-right text-gray-300">Score</th>
-                </tr>
-              </thead>
-              <tbody>
-                {filteredScores.length === 0 ? (
-                  <tr>
-                    <td colSpan={5} className="text-center py-8 text-gray-400">
-                      {searchTerm ? 'No teams match your search criteria.' : 'No scores available yet.'}
-                    </td>
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-500/10 text-red-400 rounded-lg">{error}</div>
+          )}
+
+          <div className={`grid grid-cols-1 gap-6 ${selected ? 'lg:grid-cols-3' : ''}`}>
+            <div className={`overflow-x-auto ${selected ? 'lg:col-span-2' : ''}`}>
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-purple-500/20">
+                    <th className="py-4 px-6 text-left text-gray-300">Rank</th>
+                    <th className="py-4 px-6 text-left text-gray-300">Team</th>
+                    <th className="py-4 px-6 text-left text-gray-300">College</th>
+                    <th className="py-4 px-6 text-left text-gray-300">Registration ID</th>
+                    <th className="py-4 px-6 text-right text-gray-300">Score</th>
                   </tr>
-                ) : (
-                  filteredScores.map((team, index) => (
-                    <motion.tr
-                      key={team.id}
-                      initial={{ opacity: 0, y: 10 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      transition={{ delay: index * 0.1 }}
-                      className={`border-b border-purple-500/10 ${
-                        index % 2 === 0 ? 'bg-purple-900/10' : ''
-                      }`}
-                    >
-                      <td className="py-4 px-6">
-                        <div className="flex items-center">
-                          {getRankIcon(team.rank)}
+                </thead>
+                <tbody>
+                  {loading ? (
+                    <tr>
+                      <td colSpan={5} className="py-8">
+                        <div className="flex justify-center">
+                          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-purple-500"></div>
                         </div>
                       </td>
-                      <td className="py-4 px-6 text-white font-semibold">{team.teamName}</td>
-                      <td className="py-4 px-6 text-gray-300">{team.collegeName}</td>
-                      <td className="py-4 px-6 text-gray-300 font-mono">{team.registrationId}</td>
-                      <td className="py-4 px-6 text-right">
-                        <span className="bg-purple-500/20 text-purple-300 px-3 py-1 rounded-full">
-                          {team.score} pts
-                        </span>
+                    </tr>
+                  ) : filteredScores.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="text-center py-8 text-gray-400">
+                        {searchTerm || college || domain ? 'No teams match your search criteria.' : 'No scores available yet.'}
                       </td>
-                    </motion.tr>
-                  ))
+                    </tr>
+                  ) : (
+                    filteredScores.map((team, index) => (
+                      <motion.tr
+                        key={team.id}
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ delay: index * 0.05 }}
+                        onClick={() => setSelectedId(team.id === selectedId ? null : team.id)}
+                        className={`border-b border-purple-500/10 cursor-pointer hover:bg-purple-500/10 ${
+                          team.id === selectedId ? 'bg-purple-500/20' : index % 2 === 0 ? 'bg-purple-900/10' : ''
+                        }`}
+                      >
+                        <td className="py-4 px-6">
+                          <div className="flex items-center">
+                            {getRankIcon(team.rank)}
+                          </div>
+                        </td>
+                        <td className="py-4 px-6 text-white font-semibold">{team.teamName}</td>
+                        <td className="py-4 px-6 text-gray-300">{team.collegeName}</td>
+                        <td className="py-4 px-6 text-gray-300 font-mono">{team.registrationId}</td>
+                        <td className="py-4 px-6 text-right">
+                          {team.scoresHidden ? (
+                            <span className="text-gray-500 inline-flex items-center">
+                              <Lock className="w-4 h-4 mr-1" />
+                              Hidden
+                            </span>
+                          ) : (
+                            <span className="bg-purple-500/20 text-purple-300 px-3 py-1 rounded-full">
+                              {team.points} pts
+                            </span>
+                          )}
+                        </td>
+                      </motion.tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+
+              {/* Pagination */}
+              <div className="flex items-center justify-between mt-6">
+                <button
+                  onClick={() => setCursors(cursors.slice(0, -1))}
+                  disabled={cursors.length === 0 || loading}
+                  className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center disabled:opacity-40"
+                >
+                  <ChevronLeft className="w-4 h-4 mr-1" />
+                  Previous
+                </button>
+                <span className="text-gray-400 text-sm">Page {cursors.length + 1}</span>
+                <button
+                  onClick={() => lastRow && setCursors([...cursors, lastRow])}
+                  disabled={!hasNextPage || loading}
+                  className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center disabled:opacity-40"
+                >
+                  Next
+                  <ChevronRight className="w-4 h-4 ml-1" />
+                </button>
+              </div>
+            </div>
+
+            {/* Team details */}
+            {selected && (
+              <motion.div
+                initial={{ opacity: 0, x: 20 }}
+                animate={{ opacity: 1, x: 0 }}
+                className="bg-black/30 rounded-xl p-6 h-fit"
+              >
+                <div className="flex items-start justify-between mb-4">
+                  <div>
+                    <h3 className="text-xl font-bold text-white">{selected.teamName}</h3>
+                    <p className="text-gray-400 text-sm">
+                      {selected.collegeName} · <span className="font-mono">{selected.registrationId}</span>
+                    </p>
+                    {selected.domain && (
+                      <p className="text-purple-300 text-sm mt-1">{selected.domain}</p>
+                    )}
+                  </div>
+                  <button onClick={() => setSelectedId(null)} className="text-gray-400 hover:text-white">
+                    <X className="w-5 h-5" />
+                  </button>
+                </div>
+
+                <div className="flex items-center justify-between bg-purple-900/30 p-4 rounded-lg mb-4">
+                  <span className="text-gray-300">Rank {selected.rank}</span>
+                  <span className="text-2xl font-bold gradient-text">
+                    {selected.scoresHidden || selected.points === null ? '—' : formatPoints(selected.points, results.normalization)}
+                  </span>
+                </div>
+
+                {selected.scoresHidden ? (
+                  <p className="text-gray-400 text-sm">
+                    Scores for teams outside the top {results.privacy.cutoffRank} are private.
+                  </p>
+                ) : (
+                  <>
+                    {selected.breakdown && selected.breakdown.length > 0 && (
+                      <div className="space-y-3 mb-4">
+                        <h4 className="text-white font-semibold">Rubric breakdown</h4>
+                        {selected.breakdown.map((criterion) => (
+                          <div key={criterion.id}>
+                            <div className="flex justify-between text-sm mb-1">
+                              <span className="text-gray-300">{criterion.label}</span>
+                              <span className="text-gray-400">
+                                {criterion.average ?? '—'} / {criterion.maxScore}
+                              </span>
+                            </div>
+                            <div className="h-2 bg-white/5 rounded-full overflow-hidden">
+                              <div
+                                className="h-full bg-gradient-to-r from-purple-500 to-blue-500"
+                                style={{ width: `${((criterion.average ?? 0) / criterion.maxScore) * 100}%` }}
+                              />
+                            </div>
+                          </div>
+                        ))}
+                        <p className="text-gray-500 text-xs">
+                          Average of {selected.judgeCount} judge{selected.judgeCount === 1 ? '' : 's'}
+                        </p>
+                      </div>
+                    )}
+                    {selected.review && (
+                      <div className="bg-blue-900/30 p-4 rounded-lg">
+                        <h4 className="text-white font-semibold mb-2">Review</h4>
+                        <p className="text-gray-300 text-sm whitespace-pre-line">{selected.review}</p>
+                      </div>
+                    )}
+                  </>
                 )}
-              </tbody>
-            </table>
+              </motion.div>
+            )}
           </div>
         </motion.div>
       </div>
@@ -189,4 +338,4 @@ const Scoreboard = () => {
   );
 };
 
-export default Scoreboard;
\ No newline at end of file
+export default Scoreboard;
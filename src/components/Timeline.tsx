@@ -1,6 +1,7 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { useInView } from 'react-intersection-observer';
+import { PHASE_IDS, useEventSchedule, formatPhaseDates } from '../lib/event';
 
 const Timeline = () => {
   const [ref, inView] = useInView({
@@ -8,44 +9,12 @@ const Timeline = () => {
     threshold: 0.1,
   });
 
-  const timelineEvents = [
-    {
-      date: '4 March 2025 Onwards',
-      title: 'Phase - 1',
-      description: 'Pitching video and ppt submission',
-    },
-    {
-      date: 'TBH',
-      title: 'Result of Phase 1',
-      description: 'ticket to entry for phase 2',
-    },
-    {
-      date: 'TBH',
-      title: 'Workshop 1',
-      description: 'Online',
-    },
-    {
-      date: 'TBA',
-      title: 'Workshop 2',
-      description: 'Offline',
-    },
-    {
-      date: '20 March 2025 Onwards',
-      title: 'Phase 2',
-      description: 'Proposal and final product vedio submission',
-    },
-    {
-      date: 'TBA',
-      title: 'Results of Phase 2',
-      description: 'Ticket to Entry Finale',
-    },
-
-    {
-      date: '4 April 2025',
-      title: 'Grand finale',
-      description: 'Offline',
-    },
-  ];
+  const schedule = useEventSchedule();
+  const timelineEvents = PHASE_IDS.map((id) => ({
+    date: formatPhaseDates(schedule[id]),
+    title: schedule[id].title,
+    description: schedule[id].description,
+  }));
 
   return (
     <section id="timeline" className="py-20 bg-black">
@@ -71,7 +40,7 @@ const Timeline = () => {
           <div className="space-y-8">
             {timelineEvents.map((event, index) => (
               <motion.div
-                key={index}
+                key={PHASE_IDS[index]}
                 initial={{ opacity: 0, y: 50 }}
                 animate={
                   inView
@@ -1,91 +1,137 @@
-import React, { useState, useEffect } from "react";
-import { motion } from "framer-motion";
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { IndianRupee, Mail, History, ShieldCheck, Gavel, CalendarClock, ListChecks, FileCheck, Mic, Users, Copy, ScanLine, ClipboardCheck } from 'lucide-react';
+import FinanceDashboard from './FinanceDashboard';
+import EmailDashboard from './EmailDashboard';
+import AuditLogViewer from './AuditLogViewer';
+import RoleManager from './RoleManager';
+import JudgingConsole from './JudgingConsole';
+import EventSettings from './EventSettings';
+import Phase2Selection from './Phase2Selection';
+import Phase2Review from './Phase2Review';
+import FinaleConsole from './FinaleConsole';
+import RosterRequests from './RosterRequests';
+import DuplicateReport from './DuplicateReport';
+import CheckInScanner from './CheckInScanner';
+import AttendanceReport from './AttendanceReport';
+import { AdminArea, Role, canAccess, hasRole } from '../../lib/roles';
 
-const CountdownTimer = () => {
-  const targetDate = new Date("2025-03-20T23:00:00").getTime();
-  const [timeLeft, setTimeLeft] = useState(() => calculateTimeLeft());
+interface AdminDashboardProps {
+  role: Role;
+}
 
-  function calculateTimeLeft() {
-    const now = new Date().getTime();
-    const difference = targetDate - now;
+const TABS: { id: AdminArea; label: string; icon: typeof Mail }[] = [
+  { id: 'judging', label: 'Judging', icon: Gavel },
+  { id: 'selection', label: 'Phase 2 Selection', icon: ListChecks },
+  { id: 'phase2', label: 'Phase 2 Review', icon: FileCheck },
+  { id: 'finale', label: 'Finale', icon: Mic },
+  { id: 'event', label: 'Schedule', icon: CalendarClock },
+  { id: 'roster', label: 'Team Changes', icon: Users },
+  { id: 'duplicates', label: 'Duplicates', icon: Copy },
+  { id: 'checkin', label: 'Check-in', icon: ScanLine },
+  { id: 'attendance', label: 'Attendance', icon: ClipboardCheck },
+  { id: 'finance', label: 'Finance', icon: IndianRupee },
+  { id: 'emails', label: 'Emails', icon: Mail },
+  { id: 'audit', label: 'Audit Log', icon: History },
+  { id: 'roles', label: 'Roles', icon: ShieldCheck },
+];
 
-    if (difference <= 0) {
-      return { days: 0, hours: 0, minutes: 0, seconds: 0 };
-    }
+const AdminDashboard: React.FC<AdminDashboardProps> = ({ role }) => {
+  const tabs = TABS.filter((tab) => canAccess(role, tab.id));
+  const [activeTab, setActiveTab] = useState<AdminArea | undefined>(tabs[0]?.id);
 
-    return {
-      days: Math.floor(difference / (1000 * 60 * 60 * 24)),
-      hours: Math.floor((difference % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60)),
-      minutes: Math.floor((difference % (1000 * 60 * 60)) / (1000 * 60)),
-      seconds: Math.floor((difference % (1000 * 60)) / 1000),
-    };
+  if (!activeTab) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <p className="text-gray-300">No admin tools are assigned to your role yet.</p>
+      </div>
+    );
   }
 
-  useEffect(() => {
-    const timer = setInterval(() => {
-      setTimeLeft(calculateTimeLeft());
-    }, 1000);
-
-    return () => clearInterval(timer);
-  }, []);
-
-  const timeUnits = [
-    { label: "Days", value: timeLeft.days },
-    { label: "Hours", value: timeLeft.hours },
-    { label: "Minutes", value: timeLeft.minutes },
-    { label: "Seconds", value: timeLeft.seconds },
-  ];
-
-  const isCountdownOver =
-    timeLeft.days === 0 &&
-    timeLeft.hours === 0 &&
-    timeLeft.minutes === 0 &&
-    timeLeft.seconds === 0;
-
   return (
-    <div className="mb-12 text-center">
-      {isCountdownOver ? (
-        <motion.div
-          initial={{ opacity: 0, scale: 0.8 }}
-          animate={{ opacity: 1, scale: 1 }}
-          transition={{ duration: 0.8 }}
-          className="flex flex-col items-center"
-        >
-          <h3 className="text-2xl font-bold text-red-500 mb-4">
-            OH OH! REGISTRATION CLOSED
-          </h3>
-          <p className="text-lg text-gray-300">See you in 2026!</p>
-          <img
-            src="https://media.tenor.com/Kjs1TtCLkVoAAAAM/open-closed.gif"
-            alt="Registration Closed"
-            className="w-64 h-64 mt-4 rounded-lg shadow-lg"
-          />
-        </motion.div>
-      ) : (
-        <>
-          <h3 className="text-xl text-purple-300 mb-6">Registration Ends In:</h3>
-          <div className="flex flex-wrap justify-center gap-4">
-            {timeUnits.map((unit, index) => (
-              <motion.div
-                key={unit.label}
-                initial={{ scale: 0.5, opacity: 0 }}
-                animate={{ scale: 1, opacity: 1 }}
-                transition={{ delay: index * 0.1 }}
-                className="flex flex-col items-center"
-              >
-                <div className="bg-white/10 backdrop-blur-lg rounded-lg p-4 w-20 sm:w-24 hover:bg-white/20 transition-colors duration-300">
-                  <div className="text-2xl sm:text-3xl font-bold text-white">
-                    {String(unit.value).padStart(2, "0")}
-                  </div>
-                  <div className="text-sm text-purple-300">{unit.label}</div>
-                </div>
-              </motion.div>
-            ))}
-          </div>
-        </>
+    <div className="min-h-screen w-full pt-24 bg-black">
+      <div className="max-w-7xl mx-auto px-4">
+        <div className="flex gap-2 border-b border-purple-500/20 overflow-x-auto">
+          {tabs.map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`relative px-4 py-3 flex items-center text-sm whitespace-nowrap ${
+                activeTab === tab.id ? 'text-white' : 'text-gray-400 hover:text-gray-200'
+              }`}
+            >
+              <tab.icon className="w-4 h-4 mr-2" />
+              {tab.label}
+              {activeTab === tab.id && (
+                <motion.div
+                  layoutId="admin-tab-indicator"
+                  className="absolute left-0 right-0 -bottom-px h-0.5 bg-gradient-to-r from-purple-600 to-blue-600"
+                />
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {activeTab === 'judging' && (
+        <div className="px-4 py-10">
+          <JudgingConsole canManage={hasRole(role, ['organizer'])} />
+        </div>
+      )}
+      {activeTab === 'selection' && (
+        <div className="px-4 py-10">
+          <Phase2Selection />
+        </div>
+      )}
+      {activeTab === 'phase2' && (
+        <div className="px-4 py-10">
+          <Phase2Review canManage={hasRole(role, ['organizer'])} />
+        </div>
+      )}
+      {activeTab === 'finale' && (
+        <div className="px-4 py-10">
+          <FinaleConsole canManage={hasRole(role, ['organizer'])} />
+        </div>
+      )}
+      {activeTab === 'event' && (
+        <div className="px-4 py-10">
+          <EventSettings />
+        </div>
+      )}
+      {activeTab === 'roster' && (
+        <div className="px-4 py-10">
+          <RosterRequests />
+        </div>
+      )}
+      {activeTab === 'duplicates' && (
+        <div className="px-4 py-10">
+          <DuplicateReport />
+        </div>
+      )}
+      {activeTab === 'checkin' && (
+        <div className="px-4 py-10">
+          <CheckInScanner />
+        </div>
+      )}
+      {activeTab === 'attendance' && (
+        <div className="px-4 py-10">
+          <AttendanceReport />
+        </div>
+      )}
+      {activeTab === 'finance' && <FinanceDashboard />}
+      {activeTab === 'emails' && <EmailDashboard />}
+      {activeTab === 'audit' && (
+        <div className="px-4 py-10">
+          <AuditLogViewer />
+        </div>
+      )}
+      {activeTab === 'roles' && (
+        <div className="px-4 py-10">
+          <RoleManager />
+        </div>
       )}
     </div>
   );
 };
 
-export default CountdownTimer;
+export default AdminDashboard;
@@ -0,0 +1,411 @@
+import React, { useState, useEffect } from 'react';
+import { AlertCircle, CheckCircle, Download, RefreshCw, Upload, Award } from 'lucide-react';
+import { CheckInEvent, CHECK_IN_EVENT_LABELS } from '../../lib/checkin';
+import {
+  AttendanceReport as Report,
+  AttendanceRates,
+  EligibilityRules,
+  ATTENDANCE_METHOD_LABELS,
+  fetchAttendanceReport,
+  saveEligibilityRules,
+  markAttendance,
+  importAttendance,
+} from '../../lib/attendance';
+
+const EVENTS = Object.keys(CHECK_IN_EVENT_LABELS) as CheckInEvent[];
+
+const rateClass = (rate: number) =>
+  rate >= 75 ? 'text-green-400' : rate >= 40 ? 'text-yellow-400' : 'text-red-400';
+
+const RateCells: React.FC<{ rates: AttendanceRates }> = ({ rates }) => (
+  <>
+    {EVENTS.map((event) => (
+      <td key={event} className={`py-2 px-3 ${rateClass(rates[event])}`}>{rates[event]}%</td>
+    ))}
+  </>
+);
+
+const AttendanceReport: React.FC = () => {
+  const [report, setReport] = useState<Report | null>(null);
+  const [rules, setRules] = useState<EligibilityRules>({ requiredEvents: [], minEvents: 1 });
+  const [view, setView] = useState<'colleges' | 'teams'>('colleges');
+  const [search, setSearch] = useState('');
+  const [importEvent, setImportEvent] = useState<CheckInEvent>('workshop1');
+  const [importText, setImportText] = useState('');
+  const [unmatched, setUnmatched] = useState<string[]>([]);
+  const [ambiguous, setAmbiguous] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const loadReport = async () => {
+      setLoading(true);
+      try {
+        const loaded = await fetchAttendanceReport();
+        setReport(loaded);
+        setRules(loaded.rules);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [refreshKey]);
+
+  const runAction = async (key: string, action: () => Promise<string>) => {
+    setWorking(key);
+    setError('');
+    setSuccess('');
+    try {
+      setSuccess(await action());
+      setRefreshKey((current) => current + 1);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const toggleRequired = (event: CheckInEvent) => {
+    const requiredEvents = rules.requiredEvents.includes(event)
+      ? rules.requiredEvents.filter((required) => required !== event)
+      : [...rules.requiredEvents, event];
+    setRules({ ...rules, requiredEvents, minEvents: Math.max(rules.minEvents, requiredEvents.length) });
+  };
+
+  const handleSaveRules = () => runAction('rules', async () => {
+    await saveEligibilityRules({ requiredEvents: rules.requiredEvents, minEvents: rules.minEvents });
+    return 'Certificate rules saved';
+  });
+
+  const handleImport = () => runAction('import', async () => {
+    const result = await importAttendance(importEvent, importText);
+    setUnmatched(result.unmatched);
+    setAmbiguous(result.ambiguous);
+    setImportText('');
+    return `Recorded ${result.recorded} attendees for ${CHECK_IN_EVENT_LABELS[importEvent]}` +
+      ` (${result.alreadyPresent} already present, ${result.unmatched.length} not matched,` +
+      ` ${result.ambiguous.length} on more than one team)`;
+  });
+
+  const handleToggle = (teamId: string, memberIndex: number, email: string, event: CheckInEvent, present: boolean, name: string) => {
+    if (!present && !window.confirm(`Remove ${name}'s attendance at ${CHECK_IN_EVENT_LABELS[event]}?`)) return;
+    runAction(`${teamId}-${memberIndex}-${event}`, async () => {
+      await markAttendance(event, teamId, memberIndex, email, present);
+      return `${name} marked ${present ? 'present' : 'absent'} for ${CHECK_IN_EVENT_LABELS[event]}`;
+    });
+  };
+
+  const exportToCSV = () => {
+    if (!report) return;
+    const escape = (value: unknown) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+    const headers = ['Team', 'Registration ID', 'College', 'Member', 'Email', ...EVENTS.map((event) => CHECK_IN_EVENT_LABELS[event]), 'Certificate'];
+    const rows = report.teams.flatMap((team) => team.members.map((member) => [
+      team.teamName,
+      team.registrationId,
+      team.collegeName,
+      member.name,
+      member.email,
+      ...EVENTS.map((event) => member.attended[event]?.checkedInAt || ''),
+      member.eligible ? 'Eligible' : 'Not eligible',
+    ].map(escape).join(',')));
+
+    const blob = new Blob([[headers.join(','), ...rows].join('\n')], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `attendance_${new Date().toISOString().split('T')[0]}.csv`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const needle = search.trim().toLowerCase();
+  const teams = (report?.teams || []).filter((team) => !needle
+    || [team.teamName, team.registrationId, team.collegeName, ...team.members.map((member) => member.name)]
+      .some((value) => value.toLowerCase().includes(needle)));
+  const inputClass = 'px-3 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm';
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold gradient-text mb-2">Attendance</h2>
+          <p className="text-gray-300 text-sm">
+            Who attended each workshop and the finale, from QR check-ins, imported attendee lists and organizer
+            corrections. Certificates are only issued to members who meet the rules below.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={exportToCSV}
+            disabled={!report}
+            className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center disabled:opacity-50"
+          >
+            <Download className="w-4 h-4 mr-1" />
+            Export CSV
+          </button>
+          <button
+            onClick={() => setRefreshKey((key) => key + 1)}
+            disabled={loading}
+            className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center disabled:opacity-50"
+          >
+            <RefreshCw className="w-4 h-4 mr-1" />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-500/10 text-red-400 rounded-lg flex items-center">
+          <AlertCircle className="w-5 h-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 p-4 bg-green-500/10 text-green-400 rounded-lg flex items-center">
+          <CheckCircle className="w-5 h-5 mr-2" />
+          {success}
+        </div>
+      )}
+
+      {loading && !report ? (
+        <p className="text-gray-400 text-sm">Loading attendance...</p>
+      ) : report && (
+        <div className="space-y-8">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div className="bg-black/30 rounded-lg p-4">
+              <div className="text-gray-400 text-sm">Members</div>
+              <div className="text-2xl font-bold text-white">{report.totals.members}</div>
+              <div className="text-gray-500 text-xs">{report.totals.teams} paid teams</div>
+            </div>
+            {EVENTS.map((event) => (
+              <div key={event} className="bg-black/30 rounded-lg p-4">
+                <div className="text-gray-400 text-sm">{CHECK_IN_EVENT_LABELS[event]}</div>
+                <div className={`text-2xl font-bold ${rateClass(report.totals.rates[event])}`}>{report.totals.rates[event]}%</div>
+              </div>
+            ))}
+            <div className="bg-black/30 rounded-lg p-4">
+              <div className="text-gray-400 text-sm">Certificates</div>
+              <div className="text-2xl font-bold text-white">{report.totals.eligible}</div>
+              <div className="text-gray-500 text-xs">members eligible</div>
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <div className="bg-black/30 rounded-lg p-4 space-y-3">
+              <h3 className="text-white font-semibold flex items-center">
+                <Award className="w-4 h-4 mr-2" />
+                Certificate Rules
+              </h3>
+              <div className="flex flex-wrap gap-4 text-sm">
+                {EVENTS.map((event) => (
+                  <label key={event} className="text-gray-300 flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={rules.requiredEvents.includes(event)}
+                      onChange={() => toggleRequired(event)}
+                    />
+                    Must attend {CHECK_IN_EVENT_LABELS[event]}
+                  </label>
+                ))}
+              </div>
+              <label className="text-gray-300 text-sm flex items-center gap-2">
+                Attend at least
+                <input
+                  type="number"
+                  min={Math.max(1, rules.requiredEvents.length)}
+                  max={EVENTS.length}
+                  value={rules.minEvents}
+                  onChange={(e) => setRules({ ...rules, minEvents: Number(e.target.value) })}
+                  className={`${inputClass} w-20`}
+                />
+                of {EVENTS.length} events
+              </label>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-500 text-xs">
+                  {report.rules.updatedBy && `Last changed by ${report.rules.updatedBy}`}
+                </span>
+                <button
+                  onClick={handleSaveRules}
+                  disabled={working === 'rules'}
+                  className="px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white text-sm disabled:opacity-50"
+                >
+                  Save Rules
+                </button>
+              </div>
+            </div>
+
+            <div className="bg-black/30 rounded-lg p-4 space-y-3">
+              <h3 className="text-white font-semibold flex items-center">
+                <Upload className="w-4 h-4 mr-2" />
+                Import Attendees
+              </h3>
+              <p className="text-gray-400 text-xs">
+                Paste a list with attendee emails, such as the online workshop's participant export. Emails are
+                matched to members of paid teams.
+              </p>
+              <select
+                value={importEvent}
+                onChange={(e) => setImportEvent(e.target.value as CheckInEvent)}
+                className={`${inputClass} w-full`}
+              >
+                {EVENTS.map((event) => (
+                  <option key={event} value={event}>{CHECK_IN_EVENT_LABELS[event]}</option>
+                ))}
+              </select>
+              <textarea
+                value={importText}
+                onChange={(e) => setImportText(e.target.value)}
+                rows={4}
+                className={`${inputClass} w-full font-mono text-xs`}
+              />
+              <button
+                onClick={handleImport}
+                disabled={working === 'import' || !importText.trim()}
+                className="px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white text-sm disabled:opacity-50"
+              >
+                Import
+              </button>
+              {unmatched.length > 0 && (
+                <div className="text-yellow-400 text-xs">
+                  Not on any paid team: {unmatched.join(', ')}
+                </div>
+              )}
+              {ambiguous.length > 0 && (
+                <div className="text-red-400 text-xs">
+                  On more than one team, not recorded: {ambiguous.join(', ')}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <div className="flex gap-2">
+                {(['colleges', 'teams'] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setView(option)}
+                    className={`px-3 py-1 rounded-lg text-sm ${
+                      view === option ? 'bg-purple-600/30 text-white' : 'bg-white/5 text-gray-400 hover:text-gray-200'
+                    }`}
+                  >
+                    {option === 'colleges' ? 'By College' : 'By Team'}
+                  </button>
+                ))}
+              </div>
+              {view === 'teams' && (
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search teams, colleges or members"
+                  className={`${inputClass} w-72`}
+                />
+              )}
+            </div>
+
+            <div className="overflow-x-auto">
+              {view === 'colleges' ? (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-purple-500/20">
+                      <th className="text-left py-2 px-3 text-gray-300">College</th>
+                      <th className="text-left py-2 px-3 text-gray-300">Teams</th>
+                      <th className="text-left py-2 px-3 text-gray-300">Members</th>
+                      {EVENTS.map((event) => (
+                        <th key={event} className="text-left py-2 px-3 text-gray-300">{CHECK_IN_EVENT_LABELS[event]}</th>
+                      ))}
+                      <th className="text-left py-2 px-3 text-gray-300">Certificates</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.colleges.map((college) => (
+                      <tr key={college.collegeName} className="border-b border-purple-500/10">
+                        <td className="py-2 px-3 text-white">{college.collegeName}</td>
+                        <td className="py-2 px-3 text-gray-300">{college.teams}</td>
+                        <td className="py-2 px-3 text-gray-300">{college.members}</td>
+                        <RateCells rates={college.rates} />
+                        <td className="py-2 px-3 text-gray-300">{college.eligible}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-purple-500/20">
+                      <th className="text-left py-2 px-3 text-gray-300">Team / Member</th>
+                      {EVENTS.map((event) => (
+                        <th key={event} className="text-left py-2 px-3 text-gray-300">{CHECK_IN_EVENT_LABELS[event]}</th>
+                      ))}
+                      <th className="text-left py-2 px-3 text-gray-300">Certificate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {teams.map((team) => (
+                      <React.Fragment key={team.teamId}>
+                        <tr className="border-b border-purple-500/10 bg-white/5">
+                          <td className="py-2 px-3 text-white">
+                            {team.teamName}
+                            <div className="text-gray-500 text-xs">
+                              <span className="font-mono">{team.registrationId}</span> · {team.collegeName}
+                            </div>
+                          </td>
+                          <RateCells rates={team.rates} />
+                          <td className="py-2 px-3 text-gray-300">{team.eligible} of {team.members.length}</td>
+                        </tr>
+                        {team.members.map((member) => (
+                          <tr key={member.memberIndex} className="border-b border-purple-500/10">
+                            <td className="py-2 px-3 pl-8 text-gray-300">
+                              {member.name}
+                              <div className="text-gray-500 text-xs">{member.email}</div>
+                            </td>
+                            {EVENTS.map((event) => {
+                              const attended = member.attended[event];
+                              return (
+                                <td key={event} className="py-2 px-3">
+                                  <label
+                                    className="flex items-center gap-2 text-xs text-gray-400"
+                                    title={attended
+                                      ? `${ATTENDANCE_METHOD_LABELS[attended.method]} · ${new Date(attended.checkedInAt).toLocaleString()}`
+                                      : 'Not attended'}
+                                  >
+                                    <input
+                                      type="checkbox"
+                                      checked={Boolean(attended)}
+                                      disabled={working === `${team.teamId}-${member.memberIndex}-${event}`}
+                                      onChange={(e) => handleToggle(team.teamId, member.memberIndex, member.email, event, e.target.checked, member.name)}
+                                    />
+                                    {attended && ATTENDANCE_METHOD_LABELS[attended.method]}
+                                  </label>
+                                </td>
+                              );
+                            })}
+                            <td className={`py-2 px-3 text-xs ${member.eligible ? 'text-green-400' : 'text-gray-500'}`}>
+                              {member.eligible ? 'Eligible' : 'Not eligible'}
+                            </td>
+                          </tr>
+                        ))}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttendanceReport;
@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Download, Search, RefreshCw, ChevronDown, ChevronRight } from 'lucide-react';
+import { fetchAuditLog, AuditEntry, AuditFilters } from '../../lib/audit';
+
+const ACTION_GROUPS = [
+  { value: '', label: 'All actions' },
+  { value: 'payment.', label: 'Payments' },
+  { value: 'score.', label: 'Scores' },
+  { value: 'selection.', label: 'Selections' },
+  { value: 'results.', label: 'Results' },
+  { value: 'roster.', label: 'Team changes' },
+  { value: 'duplicate.', label: 'Duplicates' },
+  { value: 'email.', label: 'Emails' },
+  { value: 'attendance.', label: 'Attendance' },
+];
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const AuditLogViewer: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>({ action: '', actor: '', target: '', from: '', to: '' });
+  // Text filters apply on submit; the dropdown and dates apply immediately
+  const [applied, setApplied] = useState<AuditFilters>(filters);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadEntries = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const active = Object.fromEntries(Object.entries(applied).filter(([, value]) => value));
+        // Date inputs give a day; make "to" inclusive of the whole day
+        if (active.to) active.to = `${active.to}T23:59:59`;
+        setEntries(await fetchAuditLog(active));
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadEntries();
+  }, [applied]);
+
+  const updateFilter = (field: keyof AuditFilters, value: string, applyNow: boolean) => {
+    const next = { ...filters, [field]: value };
+    setFilters(next);
+    if (applyNow) setApplied(next);
+  };
+
+  const exportToCSV = () => {
+    const escape = (value: unknown) => `"${formatValue(value).replace(/"/g, '""')}"`;
+    const headers = ['Date', 'Action', 'Actor', 'Target', 'Changes', 'Details'];
+    const rows = entries.map((entry) => [
+      new Date(entry.createdAt).toISOString(),
+      entry.action,
+      entry.actorEmail,
+      entry.target,
+      Object.entries(entry.diff)
+        .map(([field, change]) => `${field}: ${formatValue(change.before)} -> ${formatValue(change.after)}`)
+        .join('; '),
+      entry.metadata,
+    ].map(escape).join(','));
+
+    const blob = new Blob([[headers.join(','), ...rows].join('\n')], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `audit_log_${new Date().toISOString().split('T')[0]}.csv`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const inputClass = 'px-4 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm';
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold gradient-text mb-2">Audit Log</h2>
+        <p className="text-gray-300 text-sm">Every admin change, who made it and what it changed</p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-500/10 text-red-400 rounded-lg">{error}</div>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setApplied({ ...filters });
+        }}
+        className="flex flex-col lg:flex-row gap-3 mb-6"
+      >
+        <select
+          value={filters.action}
+          onChange={(e) => updateFilter('action', e.target.value, true)}
+          className={inputClass}
+        >
+          {ACTION_GROUPS.map((group) => (
+            <option key={group.value} value={group.value}>{group.label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          placeholder="Actor email"
+          value={filters.actor}
+          onChange={(e) => updateFilter('actor', e.target.value, false)}
+          className={inputClass}
+        />
+        <input
+          type="text"
+          placeholder="Target (e.g. teams/abc123)"
+          value={filters.target}
+          onChange={(e) => updateFilter('target', e.target.value, false)}
+          className={`${inputClass} flex-grow`}
+        />
+        <input
+          type="date"
+          value={filters.from}
+          onChange={(e) => updateFilter('from', e.target.value, true)}
+          className={inputClass}
+        />
+        <input
+          type="date"
+          value={filters.to}
+          onChange={(e) => updateFilter('to', e.target.value, true)}
+          className={inputClass}
+        />
+        <button type="submit" className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center justify-center">
+          <Search className="w-4 h-4 mr-2" />
+          Search
+        </button>
+        <motion.button
+          type="button"
+          onClick={exportToCSV}
+          disabled={entries.length === 0}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          className="px-4 py-2 bg-blue-600 rounded-lg text-white text-sm flex items-center justify-center"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </motion.button>
+      </form>
+
+      <div className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <RefreshCw className="w-8 h-8 text-purple-400 animate-spin" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-purple-500/20">
+                  <th className="w-6"></th>
+                  <th className="text-left py-3 px-4 text-gray-300">Date</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Action</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Actor</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Target</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Changes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="text-center py-8 text-gray-400">
+                      No audit entries match these filters.
+                    </td>
+                  </tr>
+                ) : (
+                  entries.map((entry, index) => {
+                    const changes = Object.entries(entry.diff);
+                    const isExpanded = expanded === entry.id;
+                    return (
+                      <React.Fragment key={entry.id}>
+                        <tr
+                          onClick={() => setExpanded(isExpanded ? null : entry.id)}
+                          className={`border-b border-purple-500/10 cursor-pointer ${index % 2 === 0 ? 'bg-purple-900/10' : ''}`}
+                        >
+                          <td className="pl-2 text-gray-400">
+                            {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                          </td>
+                          <td className="py-3 px-4 text-gray-300 text-sm whitespace-nowrap">
+                            {new Date(entry.createdAt).toLocaleString()}
+                          </td>
+                          <td className="py-3 px-4 text-white font-mono text-xs">{entry.action}</td>
+                          <td className="py-3 px-4 text-gray-300 text-sm">{entry.actorEmail || 'system'}</td>
+                          <td className="py-3 px-4 text-gray-300 font-mono text-xs">{entry.target}</td>
+                          <td className="py-3 px-4 text-gray-300 text-xs">
+                            {changes.length === 0
+                              ? '—'
+                              : changes.map(([field, change]) => (
+                                <div key={field}>
+                                  <span className="text-gray-400">{field}:</span>{' '}
+                                  <span className="text-red-400">{formatValue(change.before)}</span>
+                                  {' → '}
+                                  <span className="text-green-400">{formatValue(change.after)}</span>
+                                </div>
+                              ))}
+                          </td>
+                        </tr>
+                        {isExpanded && (
+                          <tr className="border-b border-purple-500/10">
+                            <td colSpan={6} className="px-4 py-3">
+                              <pre className="text-xs text-gray-300 bg-black/30 rounded-lg p-3 overflow-x-auto">
+                                {JSON.stringify({ before: entry.before, after: entry.after, metadata: entry.metadata }, null, 2)}
+                              </pre>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogViewer;
@@ -0,0 +1,388 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import jsQR from 'jsqr';
+import { Camera, CameraOff, ScanLine, Wifi, WifiOff, RefreshCw } from 'lucide-react';
+import {
+  CheckInEvent,
+  CheckInManifest,
+  CheckInResult,
+  CHECK_IN_EVENT_LABELS,
+  QueuedScan,
+  fetchCheckInManifest,
+  checkInTicket,
+  hashTicket,
+  isNetworkError,
+  loadCachedManifest,
+  cacheManifest,
+  loadQueuedScans,
+  saveQueuedScans,
+} from '../../lib/checkin';
+
+interface ScanOutcome {
+  tone: 'success' | 'warning' | 'error' | 'offline';
+  title: string;
+  detail: string;
+  holder?: { name: string; teamName: string; registrationId: string };
+}
+
+const OUTCOME_STYLES: Record<ScanOutcome['tone'], string> = {
+  success: 'bg-green-500/20 border-green-500 text-green-300',
+  warning: 'bg-yellow-500/20 border-yellow-500 text-yellow-300',
+  error: 'bg-red-500/20 border-red-500 text-red-300',
+  offline: 'bg-blue-500/20 border-blue-500 text-blue-300',
+};
+
+// The same QR stays in view for a while; ignore it until this much time has passed
+const RESCAN_DELAY_MS = 3000;
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const outcomeFor = (result: CheckInResult, event: CheckInEvent): ScanOutcome => {
+  const holder = result.holder;
+  if (result.status === 'unpaid') {
+    return { tone: 'error', title: 'Team has not paid', detail: 'Send them to the registration desk.', holder };
+  }
+  if (result.status === 'duplicate') {
+    const by = result.attendance?.checkedInBy ? ` by ${result.attendance.checkedInBy}` : '';
+    return {
+      tone: 'warning',
+      title: 'Already checked in',
+      detail: `At ${formatTime(result.attendance!.checkedInAt)}${by}`,
+      holder,
+    };
+  }
+  return { tone: 'success', title: 'Checked in', detail: CHECK_IN_EVENT_LABELS[event], holder };
+};
+
+// Mobile check-in page for volunteers. Scans are verified by the API; without
+// a connection they are checked against the cached ticket list and queued.
+const CheckInScanner: React.FC = () => {
+  const [event, setEvent] = useState<CheckInEvent>('workshop1');
+  const [manifest, setManifest] = useState<CheckInManifest | null>(null);
+  const [online, setOnline] = useState(navigator.onLine);
+  const [queue, setQueue] = useState<QueuedScan[]>(loadQueuedScans);
+  const [outcome, setOutcome] = useState<ScanOutcome | null>(null);
+  const [recent, setRecent] = useState<ScanOutcome[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [manualToken, setManualToken] = useState('');
+  const [syncing, setSyncing] = useState(false);
+  const [syncProblems, setSyncProblems] = useState<string[]>([]);
+  const [error, setError] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const frameRef = useRef<number>(0);
+  const lastScanRef = useRef({ token: '', at: 0 });
+  const busyRef = useRef(false);
+
+  // Cached list first so scanning can start offline, then a fresh one when possible
+  useEffect(() => {
+    setManifest(loadCachedManifest(event));
+    if (!navigator.onLine) return;
+    fetchCheckInManifest(event)
+      .then((fresh) => {
+        cacheManifest(fresh);
+        setManifest(fresh);
+        setError('');
+      })
+      .catch((err) => {
+        if (!isNetworkError(err)) setError((err as Error).message);
+      });
+  }, [event, refreshKey]);
+
+  const syncQueue = async () => {
+    const remaining = loadQueuedScans();
+    if (remaining.length === 0 || busyRef.current) return;
+    setSyncing(true);
+    const problems: string[] = [];
+    while (remaining.length > 0) {
+      const scan = remaining[0];
+      try {
+        const result = await checkInTicket(scan.token, scan.event, scan.scannedAt);
+        if (result.status === 'unpaid') {
+          problems.push(`${result.holder.name} (${result.holder.teamName}) was let in but the team has not paid`);
+        }
+      } catch (err) {
+        if (isNetworkError(err)) break;
+        problems.push(`Scan at ${formatTime(scan.scannedAt)}: ${(err as Error).message}`);
+      }
+      remaining.shift();
+      saveQueuedScans(remaining);
+      setQueue([...remaining]);
+    }
+    setSyncProblems((current) => [...problems, ...current]);
+    setSyncing(false);
+  };
+
+  const syncRef = useRef(syncQueue);
+  useEffect(() => {
+    syncRef.current = syncQueue;
+  });
+
+  useEffect(() => {
+    const goOnline = () => {
+      setOnline(true);
+      syncRef.current();
+    };
+    const goOffline = () => setOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    if (navigator.onLine) syncRef.current();
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  const markCheckedIn = (hash: string, checkedInAt: string) => {
+    if (!manifest) return;
+    const updated = {
+      ...manifest,
+      tickets: manifest.tickets.map((ticket) => (ticket.hashes.includes(hash) ? { ...ticket, checkedInAt } : ticket)),
+    };
+    cacheManifest(updated);
+    setManifest(updated);
+  };
+
+  const checkOffline = (token: string, hash: string): ScanOutcome => {
+    if (!manifest) {
+      return {
+        tone: 'error',
+        title: 'No ticket list on this device',
+        detail: 'Connect to the internet once to download it, then scan again.',
+      };
+    }
+    const ticket = manifest.tickets.find((candidate) => candidate.hashes.includes(hash));
+    if (!ticket) {
+      return {
+        tone: 'error',
+        title: 'Not a valid ticket',
+        detail: `It is not on the ticket list from ${formatTime(manifest.generatedAt)}.`,
+      };
+    }
+    if (!ticket.paid) {
+      return { tone: 'error', title: 'Team has not paid', detail: 'Send them to the registration desk.', holder: ticket };
+    }
+    if (ticket.checkedInAt) {
+      return { tone: 'warning', title: 'Already checked in', detail: `At ${formatTime(ticket.checkedInAt)}`, holder: ticket };
+    }
+
+    const scannedAt = new Date().toISOString();
+    const next = [...loadQueuedScans(), { token, hash, event, scannedAt }];
+    saveQueuedScans(next);
+    setQueue(next);
+    markCheckedIn(hash, scannedAt);
+    return { tone: 'offline', title: 'Checked in (offline)', detail: 'Will be confirmed when the connection is back.', holder: ticket };
+  };
+
+  const handleScan = async (token: string) => {
+    if (busyRef.current) return;
+    busyRef.current = true;
+    let result: ScanOutcome | null = null;
+    try {
+      const hash = await hashTicket(token);
+      if (navigator.onLine) {
+        try {
+          const checkIn = await checkInTicket(token, event);
+          if (checkIn.attendance) markCheckedIn(hash, checkIn.attendance.checkedInAt);
+          result = outcomeFor(checkIn, event);
+        } catch (err) {
+          if (!isNetworkError(err)) {
+            result = { tone: 'error', title: 'Not admitted', detail: (err as Error).message };
+          }
+        }
+      }
+      result = result || checkOffline(token, hash);
+    } finally {
+      busyRef.current = false;
+    }
+    setOutcome(result);
+    setRecent((current) => [result, ...current].slice(0, 10));
+  };
+
+  const scanRef = useRef(handleScan);
+  useEffect(() => {
+    scanRef.current = handleScan;
+  });
+
+  const stopCamera = () => {
+    cancelAnimationFrame(frameRef.current);
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setScanning(false);
+  };
+
+  useEffect(() => stopCamera, []);
+
+  const scanFrame = () => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (video && canvas && video.readyState === video.HAVE_ENOUGH_DATA) {
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const context = canvas.getContext('2d', { willReadFrequently: true });
+      context?.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const image = context?.getImageData(0, 0, canvas.width, canvas.height);
+      const code = image && jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+      const last = lastScanRef.current;
+      if (code?.data && (code.data !== last.token || Date.now() - last.at > RESCAN_DELAY_MS)) {
+        lastScanRef.current = { token: code.data, at: Date.now() };
+        scanRef.current(code.data);
+      }
+    }
+    frameRef.current = requestAnimationFrame(scanFrame);
+  };
+
+  const startCamera = async () => {
+    setError('');
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      setScanning(true);
+      frameRef.current = requestAnimationFrame(scanFrame);
+    } catch (err) {
+      console.error('Camera error:', err);
+      setError('Could not open the camera. Allow camera access, or type the ticket code below.');
+    }
+  };
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!manualToken.trim()) return;
+    handleScan(manualToken.trim());
+    setManualToken('');
+  };
+
+  const checkedInCount = manifest?.tickets.filter((ticket) => ticket.checkedInAt).length ?? 0;
+
+  return (
+    <div className="max-w-md mx-auto space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-white flex items-center">
+          <ScanLine className="w-6 h-6 mr-2" />
+          Check-in
+        </h2>
+        <span className={`flex items-center text-sm ${online ? 'text-green-400' : 'text-yellow-400'}`}>
+          {online ? <Wifi className="w-4 h-4 mr-1" /> : <WifiOff className="w-4 h-4 mr-1" />}
+          {online ? 'Online' : 'Offline'}
+        </span>
+      </div>
+
+      <select
+        value={event}
+        onChange={(e) => setEvent(e.target.value as CheckInEvent)}
+        className="w-full px-4 py-3 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white"
+      >
+        {(Object.keys(CHECK_IN_EVENT_LABELS) as CheckInEvent[]).map((option) => (
+          <option key={option} value={option}>{CHECK_IN_EVENT_LABELS[option]}</option>
+        ))}
+      </select>
+
+      <div className="text-gray-400 text-sm flex items-center justify-between">
+        <span>
+          {manifest
+            ? `${checkedInCount} of ${manifest.tickets.length} checked in · list from ${formatTime(manifest.generatedAt)}`
+            : 'No ticket list downloaded yet'}
+        </span>
+        <button
+          onClick={() => setRefreshKey((key) => key + 1)}
+          disabled={!online}
+          className="text-purple-400 hover:text-purple-300 disabled:opacity-40"
+          title="Refresh ticket list"
+        >
+          <RefreshCw className="w-4 h-4" />
+        </button>
+      </div>
+
+      {error && <div className="p-3 bg-red-500/10 text-red-400 rounded-lg text-sm">{error}</div>}
+
+      <div className="relative bg-black rounded-xl overflow-hidden aspect-square border border-purple-500/20">
+        <video ref={videoRef} playsInline muted className={`w-full h-full object-cover ${scanning ? '' : 'hidden'}`} />
+        <canvas ref={canvasRef} className="hidden" />
+        {!scanning && (
+          <div className="absolute inset-0 flex items-center justify-center text-gray-500">
+            <Camera className="w-16 h-16" />
+          </div>
+        )}
+      </div>
+
+      <motion.button
+        whileTap={{ scale: 0.97 }}
+        onClick={scanning ? stopCamera : startCamera}
+        className="w-full py-4 bg-gradient-to-r from-purple-600 to-blue-600 rounded-xl text-white text-lg font-semibold flex items-center justify-center"
+      >
+        {scanning ? <CameraOff className="w-5 h-5 mr-2" /> : <Camera className="w-5 h-5 mr-2" />}
+        {scanning ? 'Stop Camera' : 'Start Scanning'}
+      </motion.button>
+
+      {outcome && (
+        <div className={`p-4 rounded-xl border-2 ${OUTCOME_STYLES[outcome.tone]}`}>
+          <div className="text-xl font-bold">{outcome.title}</div>
+          {outcome.holder && (
+            <div className="text-white mt-1">
+              {outcome.holder.name}
+              <div className="text-gray-300 text-sm">
+                {outcome.holder.teamName} · <span className="font-mono">{outcome.holder.registrationId}</span>
+              </div>
+            </div>
+          )}
+          <div className="text-sm mt-1">{outcome.detail}</div>
+        </div>
+      )}
+
+      {/* Also works with handheld scanners that type the code and press Enter */}
+      <form onSubmit={handleManualSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={manualToken}
+          onChange={(e) => setManualToken(e.target.value)}
+          placeholder="Ticket code"
+          className="flex-1 px-3 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm font-mono"
+        />
+        <button type="submit" className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm">
+          Check
+        </button>
+      </form>
+
+      {(queue.length > 0 || syncProblems.length > 0) && (
+        <div className="p-3 bg-white/5 rounded-lg text-sm space-y-2">
+          {queue.length > 0 && (
+            <div className="flex items-center justify-between text-blue-300">
+              <span>{queue.length} offline check-ins waiting to sync</span>
+              <button
+                onClick={syncQueue}
+                disabled={!online || syncing}
+                className="text-purple-400 hover:text-purple-300 disabled:opacity-40"
+              >
+                {syncing ? 'Syncing...' : 'Sync now'}
+              </button>
+            </div>
+          )}
+          {syncProblems.map((problem, index) => (
+            <div key={index} className="text-red-400">{problem}</div>
+          ))}
+        </div>
+      )}
+
+      {recent.length > 1 && (
+        <div className="space-y-1">
+          <h3 className="text-gray-400 text-sm">Recent scans</h3>
+          {recent.slice(1).map((scan, index) => (
+            <div key={index} className="flex justify-between text-sm bg-black/30 rounded-lg px-3 py-2">
+              <span className="text-gray-300">{scan.holder?.name || 'Unknown ticket'}</span>
+              <span className={OUTCOME_STYLES[scan.tone].split(' ').pop()}>{scan.title}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CheckInScanner;
@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from 'react';
+import { AlertCircle, CheckCircle, GitMerge, RefreshCw } from 'lucide-react';
+import {
+  DuplicateGroup,
+  PARTICIPANT_FIELD_LABELS,
+  fetchDuplicateReport,
+  resolveDuplicate,
+  mergeDuplicate,
+} from '../../lib/duplicates';
+
+const DuplicateReport: React.FC = () => {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [keepTeams, setKeepTeams] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [showResolved, setShowResolved] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const loadReport = async () => {
+      setLoading(true);
+      try {
+        setGroups(await fetchDuplicateReport());
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [refreshKey]);
+
+  const runAction = async (group: DuplicateGroup, action: () => Promise<void>, message: string) => {
+    setWorking(group.key);
+    setError('');
+    setSuccess('');
+    try {
+      await action();
+      setSuccess(message);
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleMerge = (group: DuplicateGroup) => {
+    const keepTeamId = keepTeams[group.key];
+    const kept = group.entries.find((entry) => entry.teamId === keepTeamId);
+    if (!kept) {
+      setError('Choose the team this participant should stay on.');
+      return;
+    }
+    const others = group.entries.filter((entry) => entry.teamId !== keepTeamId).map((entry) => entry.teamName);
+    if (!window.confirm(`Keep ${group.value} on ${kept.teamName} and remove them from ${others.join(', ')}?`)) return;
+    runAction(group, () => mergeDuplicate(group.key, keepTeamId), `Kept ${group.value} on ${kept.teamName}.`);
+  };
+
+  const visible = groups.filter((group) => showResolved || !group.resolution);
+  const openCount = groups.filter((group) => !group.resolution).length;
+  const inputClass = 'px-3 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm';
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold gradient-text mb-2">Duplicate Participants</h2>
+          <p className="text-gray-300 text-sm">
+            The same email, phone number or roll number on more than one team. Merge to keep the person on one
+            team, or mark the group resolved when the shared value is expected. Merging never refunds a fee.
+          </p>
+        </div>
+        <button
+          onClick={() => setRefreshKey((key) => key + 1)}
+          disabled={loading}
+          className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center disabled:opacity-50"
+        >
+          <RefreshCw className="w-4 h-4 mr-1" />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-500/10 text-red-400 rounded-lg flex items-center">
+          <AlertCircle className="w-5 h-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 p-4 bg-green-500/10 text-green-400 rounded-lg flex items-center">
+          <CheckCircle className="w-5 h-5 mr-2" />
+          {success}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mb-4 text-sm">
+        <span className="text-gray-400">{openCount} open · {groups.length - openCount} resolved</span>
+        <label className="text-gray-400 flex items-center gap-2">
+          <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />
+          Show resolved
+        </label>
+      </div>
+
+      {loading ? (
+        <p className="text-gray-400 text-sm">Checking registrations...</p>
+      ) : visible.length === 0 ? (
+        <p className="text-gray-400 text-sm">No duplicate participants.</p>
+      ) : (
+        <div className="space-y-4">
+          {visible.map((group) => (
+            <div key={group.key} className="bg-black/30 rounded-lg p-4 space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <span className="text-purple-300 text-xs uppercase tracking-wide mr-2">
+                    {PARTICIPANT_FIELD_LABELS[group.field]}
+                  </span>
+                  <span className="text-white font-semibold">{group.value}</span>
+                </div>
+                {group.resolution && (
+                  <span className="text-green-400 text-xs">
+                    Resolved by {group.resolution.resolvedBy} · {new Date(group.resolution.resolvedAt).toLocaleString()}
+                    {group.resolution.note && ` · ${group.resolution.note}`}
+                  </span>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                {group.entries.map((entry) => (
+                  <label
+                    key={`${entry.teamId}-${entry.index}`}
+                    className="flex flex-wrap items-center gap-3 bg-white/5 rounded-lg px-3 py-2 text-sm"
+                  >
+                    {!group.resolution && (
+                      <input
+                        type="radio"
+                        name={`keep-${group.key}`}
+                        checked={keepTeams[group.key] === entry.teamId}
+                        onChange={() => setKeepTeams({ ...keepTeams, [group.key]: entry.teamId })}
+                      />
+                    )}
+                    <span className="text-white">{entry.teamName}</span>
+                    <span className="text-gray-500 text-xs">{entry.registrationId}</span>
+                    <span className={entry.paymentStatus === 'paid' ? 'text-green-400 text-xs' : 'text-yellow-400 text-xs'}>
+                      {entry.paymentStatus}
+                    </span>
+                    <span className="text-gray-300">
+                      {entry.index === 0 ? 'Team lead' : `Member ${entry.index + 1}`} · {entry.name} · {entry.email} · {entry.phone}
+                    </span>
+                  </label>
+                ))}
+              </div>
+
+              {!group.resolution && (
+                <div className="flex flex-wrap gap-2">
+                  <input
+                    type="text"
+                    value={notes[group.key] || ''}
+                    onChange={(e) => setNotes({ ...notes, [group.key]: e.target.value })}
+                    placeholder="Why this is not a duplicate (optional)"
+                    className={`${inputClass} flex-grow`}
+                  />
+                  <button
+                    onClick={() => runAction(group, () => resolveDuplicate(group.key, notes[group.key] || ''), `Marked ${group.value} as resolved.`)}
+                    disabled={working === group.key}
+                    className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center disabled:opacity-50"
+                  >
+                    <CheckCircle className="w-4 h-4 mr-1" />
+                    Mark Resolved
+                  </button>
+                  <button
+                    onClick={() => handleMerge(group)}
+                    disabled={working === group.key || !keepTeams[group.key]}
+                    className="px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white text-sm flex items-center disabled:opacity-50"
+                  >
+                    <GitMerge className="w-4 h-4 mr-1" />
+                    Keep on Selected Team
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuplicateReport;
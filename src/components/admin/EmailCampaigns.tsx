@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Inbox, RotateCcw } from 'lucide-react';
+import {
+  EmailCampaign,
+  EMAIL_JOB_STATUS_COLORS,
+  useEmailCampaigns,
+  useCampaignJobs,
+  retryFailedEmails,
+} from '../../lib/emails';
+
+const progressLabel = (campaign: EmailCampaign) =>
+  `${campaign.counts.sent} sent · ${campaign.counts.pending} pending · ${campaign.counts.failed + campaign.counts.bounced} failed`;
+
+// Per-member delivery status of queued emails; the queue keeps sending with the tab closed
+const EmailCampaigns: React.FC = () => {
+  const { campaigns, loading } = useEmailCampaigns();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [retrying, setRetrying] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const selected = campaigns.find((campaign) => campaign.id === selectedId) || campaigns[0] || null;
+  const jobs = useCampaignJobs(selected?.id ?? null);
+  const failedCount = selected ? selected.counts.failed + selected.counts.bounced : 0;
+
+  const handleRetry = async () => {
+    if (!selected) return;
+    setRetrying(true);
+    setError('');
+    setMessage('');
+    try {
+      const retried = await retryFailedEmails(selected.id);
+      setMessage(`Queued ${retried} failed emails again`);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6 mb-8"
+    >
+      <h3 className="text-xl font-semibold text-white mb-4 flex items-center">
+        <Inbox className="w-5 h-5 mr-2" />
+        Campaigns
+      </h3>
+
+      {loading ? (
+        <p className="text-gray-400 text-sm">Loading campaigns...</p>
+      ) : campaigns.length === 0 ? (
+        <p className="text-gray-400 text-sm">No emails have been queued yet.</p>
+      ) : (
+        <div className="grid md:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            {campaigns.map((campaign) => (
+              <button
+                key={campaign.id}
+                onClick={() => setSelectedId(campaign.id)}
+                className={`w-full text-left rounded-lg p-3 text-sm ${
+                  selected?.id === campaign.id ? 'bg-purple-600/30' : 'bg-black/30 hover:bg-black/40'
+                }`}
+              >
+                <div className="text-white">{campaign.title}</div>
+                <div className="text-gray-400 text-xs">
+                  {new Date(campaign.createdAt).toLocaleString()} · {campaign.createdBy}
+                </div>
+                <div className={`text-xs ${campaign.status === 'done' ? 'text-green-400' : 'text-yellow-400'}`}>
+                  {progressLabel(campaign)}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <div className="md:col-span-2">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                <div>
+                  <div className="text-white font-semibold">{selected.title}</div>
+                  <div className="text-gray-400 text-sm">
+                    {selected.total} recipients · {progressLabel(selected)}
+                  </div>
+                </div>
+                <button
+                  onClick={handleRetry}
+                  disabled={retrying || failedCount === 0}
+                  className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center disabled:opacity-40"
+                >
+                  <RotateCcw className="w-4 h-4 mr-1" />
+                  {retrying ? 'Retrying...' : `Retry Failed (${failedCount})`}
+                </button>
+              </div>
+
+              {error && <div className="mb-3 p-3 bg-red-500/10 text-red-400 rounded-lg text-sm">{error}</div>}
+              {message && <div className="mb-3 p-3 bg-green-500/10 text-green-400 rounded-lg text-sm">{message}</div>}
+
+              <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-purple-500/20">
+                      <th className="text-left py-2 px-3 text-gray-300">Team</th>
+                      <th className="text-left py-2 px-3 text-gray-300">Member</th>
+                      <th className="text-left py-2 px-3 text-gray-300">Status</th>
+                      <th className="text-left py-2 px-3 text-gray-300">Attempts</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {jobs.map((job) => (
+                      <tr key={job.id} className="border-b border-purple-500/10 align-top">
+                        <td className="py-2 px-3 text-white">
+                          {job.teamName}
+                          <div className="text-gray-500 text-xs font-mono">{job.registrationId}</div>
+                        </td>
+                        <td className="py-2 px-3 text-gray-300">
+                          {job.member.name}
+                          <div className="text-gray-500 text-xs">{job.member.email}</div>
+                        </td>
+                        <td className="py-2 px-3">
+                          <span className={`capitalize ${EMAIL_JOB_STATUS_COLORS[job.status]}`}>{job.status}</span>
+                          {job.sentAt && (
+                            <div className="text-gray-500 text-xs">{new Date(job.sentAt).toLocaleString()}</div>
+                          )}
+                          {job.lastError && job.status !== 'sent' && (
+                            <div className="text-red-400/80 text-xs">{job.lastError}</div>
+                          )}
+                        </td>
+                        <td className="py-2 px-3 text-gray-300">{job.attempts}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default EmailCampaigns;
@@ -11,10 +11,13 @@ import {
   AlertCircle,
   Search,
   Filter,
+  Ticket,
 } from 'lucide-react';
-import { collection, getDocs, query, where } from 'firebase/firestore';
+import { collection, getDocs, query } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
-import { sendWorkshopInvite, sendPhase2Selection } from '../../lib/emailService';
+import { queueWorkshopInvites, queuePhase2SelectionEmails, fetchETicket } from '../../lib/emails';
+import EmailCampaigns from './EmailCampaigns';
+import EmailTemplates from './EmailTemplates';
 
 const EmailDashboard = () => {
   const [teams, setTeams] = useState<any[]>([]);
@@ -67,56 +70,56 @@ const EmailDashboard = () => {
     }
   };
 
+  const workshopReady = Boolean(workshopDetails.title && workshopDetails.date && workshopDetails.venue);
+
   const handleSendWorkshopInvites = async () => {
-    if (!workshopDetails.title || !workshopDetails.date || !workshopDetails.venue) {
+    if (!workshopReady) {
       setError('Please fill in all workshop details');
       return;
     }
 
     try {
       setSending(true);
-      let successCount = 0;
-      let failCount = 0;
-
-      for (const team of teams) {
-        const success = await sendWorkshopInvite(team, workshopDetails);
-        if (success) {
-          successCount++;
-        } else {
-          failCount++;
-        }
-      }
-
-      setSuccess(`Successfully sent ${successCount} invites${failCount > 0 ? `, ${failCount} failed` : ''}`);
+      setError('');
+      setSuccess('');
+      const campaign = await queueWorkshopInvites(teams.map(team => team.id), workshopDetails);
+      setSuccess(`Queued ${campaign.total} invites. Progress is shown under Campaigns.`);
     } catch (error) {
       console.error('Error sending invites:', error);
-      setError('Failed to send invites');
+      setError((error as Error).message);
     } finally {
       setSending(false);
     }
   };
 
+  // Opens the ticket the first listed team's lead would receive
+  const handlePreviewTicket = async () => {
+    if (!workshopReady || teams.length === 0) {
+      setError('Fill in the workshop details and list at least one team to preview a ticket');
+      return;
+    }
+
+    try {
+      setError('');
+      const pdf = await fetchETicket(teams[0].id, 0, workshopDetails);
+      window.open(URL.createObjectURL(pdf), '_blank');
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
   const handleSendPhase2Selections = async () => {
     try {
       setSending(true);
-      let successCount = 0;
-      let failCount = 0;
-
-      const selectedTeams = teams.filter(team => team.phase2Selected);
-      
-      for (const team of selectedTeams) {
-        const success = await sendPhase2Selection(team);
-        if (success) {
-          successCount++;
-        } else {
-          failCount++;
-        }
-      }
-
-      setSuccess(`Successfully sent ${successCount} selection emails${failCount > 0 ? `, ${failCount} failed` : ''}`);
+      setError('');
+      setSuccess('');
+      // The server announces the committed selection in full, regardless of
+      // the search and filter applied to the list below
+      const campaign = await queuePhase2SelectionEmails();
+      setSuccess(`Queued ${campaign.total} selection emails. Progress is shown under Campaigns.`);
     } catch (error) {
       console.error('Error sending selection emails:', error);
-      setError('Failed to send selection emails');
+      setError((error as Error).message);
     } finally {
       setSending(false);
     }
@@ -192,25 +195,35 @@ const EmailDashboard = () => {
             </div>
           </div>
 
-          <motion.button
-            onClick={handleSendWorkshopInvites}
-            disabled={sending}
-            whileHover={{ scale: 1.02 }}
-            whileTap={{ scale: 0.98 }}
-            className="px-6 py-2 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white flex items-center justify-center"
-          >
-            {sending ? (
-              <>
-                <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-white mr-2" />
-                Sending...
-              </>
-            ) : (
-              <>
-                <Send className="w-5 h-5 mr-2" />
-                Send Workshop Invites
-              </>
-            )}
-          </motion.button>
+          <div className="flex flex-wrap gap-3">
+            <motion.button
+              onClick={handleSendWorkshopInvites}
+              disabled={sending}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              className="px-6 py-2 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white flex items-center justify-center"
+            >
+              {sending ? (
+                <>
+                  <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-white mr-2" />
+                  Queueing...
+                </>
+              ) : (
+                <>
+                  <Send className="w-5 h-5 mr-2" />
+                  Send Workshop Invites
+                </>
+              )}
+            </motion.button>
+            <button
+              onClick={handlePreviewTicket}
+              disabled={sending}
+              className="px-6 py-2 bg-white/5 rounded-lg text-gray-300 flex items-center justify-center"
+            >
+              <Ticket className="w-5 h-5 mr-2" />
+              Preview E-Ticket
+            </button>
+          </div>
         </motion.div>
 
         {/* Phase 2 Selection Section */}
@@ -234,7 +247,7 @@ const EmailDashboard = () => {
             {sending ? (
               <>
                 <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-white mr-2" />
-                Sending...
+                Queueing...
               </>
             ) : (
               <>
@@ -245,6 +258,10 @@ const EmailDashboard = () => {
           </motion.button>
         </motion.div>
 
+        <EmailTemplates teams={teams} workshop={workshopDetails} />
+
+        <EmailCampaigns />
+
         {/* Teams List */}
         <div className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6">
           <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
@@ -0,0 +1,319 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { FileText, Save, Send, FlaskConical, Plus } from 'lucide-react';
+import {
+  AudienceType,
+  AUDIENCE_LABELS,
+  EmailPreview,
+  EmailTemplate,
+  EmailTemplateDraft,
+  WorkshopDetails,
+  fetchEmailTemplates,
+  saveEmailTemplate,
+  previewEmailTemplate,
+  sendTestEmail,
+  queueTemplateCampaign,
+} from '../../lib/emails';
+
+interface TemplateTeam {
+  id: string;
+  teamName: string;
+  registrationId: string;
+  collegeName?: string;
+}
+
+interface EmailTemplatesProps {
+  // Teams currently listed on the dashboard: preview candidates and the 'teams' audience
+  teams: TemplateTeam[];
+  workshop: WorkshopDetails;
+}
+
+const EMPTY_DRAFT: EmailTemplateDraft = { name: '', subject: '', html: '', attachTicket: false };
+
+const PREVIEW_DELAY_MS = 500;
+
+const toDraft = (template: EmailTemplate): EmailTemplateDraft => ({
+  name: template.name,
+  subject: template.subject,
+  html: template.html,
+  attachTicket: Boolean(template.attachTicket),
+});
+
+const EmailTemplates: React.FC<EmailTemplatesProps> = ({ teams, workshop }) => {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [mergeFields, setMergeFields] = useState<string[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<EmailTemplateDraft>(EMPTY_DRAFT);
+  const [dirty, setDirty] = useState(false);
+  const [previewTeamId, setPreviewTeamId] = useState('');
+  const [preview, setPreview] = useState<EmailPreview | null>(null);
+  const [previewError, setPreviewError] = useState('');
+  const [audience, setAudience] = useState<AudienceType>('paid');
+  const [college, setCollege] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    fetchEmailTemplates()
+      .then((result) => {
+        setTemplates(result.templates);
+        setMergeFields(result.mergeFields);
+        if (result.templates[0]) {
+          setSelectedId(result.templates[0].id);
+          setDraft(toDraft(result.templates[0]));
+        }
+      })
+      .catch((err) => setError((err as Error).message));
+  }, []);
+
+  // Preview against a real team, waiting for a pause in typing
+  const teamId = previewTeamId || teams[0]?.id || '';
+  useEffect(() => {
+    if (!teamId || !draft.subject.trim() || !draft.html.trim()) {
+      setPreview(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      previewEmailTemplate({ ...draft, name: draft.name || 'Preview' }, teamId, workshop)
+        .then((result) => {
+          setPreview(result);
+          setPreviewError('');
+        })
+        .catch((err) => setPreviewError((err as Error).message));
+    }, PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draft, teamId, workshop]);
+
+  const colleges = [...new Set(teams.map((team) => (team.collegeName || '').trim()).filter(Boolean))].sort();
+
+  const selectTemplate = (id: string | null) => {
+    if (dirty && !window.confirm('Discard your unsaved changes to this template?')) return;
+    const template = templates.find((candidate) => candidate.id === id);
+    setSelectedId(id);
+    setDraft(template ? toDraft(template) : EMPTY_DRAFT);
+    setDirty(false);
+    setSuccess('');
+    setError('');
+  };
+
+  const updateDraft = (changes: Partial<EmailTemplateDraft>) => {
+    setDraft({ ...draft, ...changes });
+    setDirty(true);
+  };
+
+  // Inserts the merge field where the cursor is in the body
+  const insertField = (field: string) => {
+    const tag = `{{${field}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? draft.html.length;
+    const end = textarea?.selectionEnd ?? draft.html.length;
+    updateDraft({ html: draft.html.slice(0, start) + tag + draft.html.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + tag.length, start + tag.length);
+    });
+  };
+
+  const runAction = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setError('');
+    setSuccess('');
+    try {
+      setSuccess(await action());
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () => runAction(async () => {
+    const saved = await saveEmailTemplate(selectedId, draft);
+    setTemplates((current) => current.some((template) => template.id === saved.id)
+      ? current.map((template) => (template.id === saved.id ? saved : template))
+      : [...current, saved]);
+    setSelectedId(saved.id);
+    setDirty(false);
+    return 'Template saved';
+  });
+
+  const handleTest = () => runAction(async () => {
+    const to = await sendTestEmail(draft, teamId, workshop);
+    return `Test email sent to ${to}`;
+  });
+
+  const handleQueue = () => {
+    if (!selectedId) return;
+    const target = audience === 'college' ? `${AUDIENCE_LABELS[audience]} (${college})` : AUDIENCE_LABELS[audience];
+    if (!window.confirm(`Send "${draft.name}" to: ${target}?`)) return;
+    runAction(async () => {
+      const campaign = await queueTemplateCampaign(
+        selectedId,
+        { type: audience, college, teamIds: audience === 'teams' ? teams.map((team) => team.id) : undefined },
+        workshop
+      );
+      return `Queued ${campaign.total} emails. Progress is shown under Campaigns.`;
+    });
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6 mb-8"
+    >
+      <h3 className="text-xl font-semibold text-white mb-4 flex items-center">
+        <FileText className="w-5 h-5 mr-2" />
+        Templates
+      </h3>
+
+      {error && <div className="mb-4 p-3 bg-red-500/10 text-red-400 rounded-lg text-sm">{error}</div>}
+      {success && <div className="mb-4 p-3 bg-green-500/10 text-green-400 rounded-lg text-sm">{success}</div>}
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {templates.map((template) => (
+          <button
+            key={template.id}
+            onClick={() => selectTemplate(template.id)}
+            className={`px-3 py-1 rounded-lg text-sm ${
+              selectedId === template.id ? 'bg-purple-600/30 text-white' : 'bg-white/5 text-gray-400 hover:text-gray-200'
+            }`}
+          >
+            {template.name}
+          </button>
+        ))}
+        <button
+          onClick={() => selectTemplate(null)}
+          className={`px-3 py-1 rounded-lg text-sm flex items-center ${
+            selectedId === null ? 'bg-purple-600/30 text-white' : 'bg-white/5 text-gray-400 hover:text-gray-200'
+          }`}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          New
+        </button>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => updateDraft({ name: e.target.value })}
+            placeholder="Template name"
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={draft.subject}
+            onChange={(e) => updateDraft({ subject: e.target.value })}
+            placeholder="Subject"
+            className={inputClass}
+          />
+          <div className="flex flex-wrap gap-1">
+            {mergeFields.map((field) => (
+              <button
+                key={field}
+                type="button"
+                onClick={() => insertField(field)}
+                className="px-2 py-0.5 bg-white/5 hover:bg-white/10 rounded text-xs text-purple-300 font-mono"
+              >
+                {`{{${field}}}`}
+              </button>
+            ))}
+          </div>
+          <textarea
+            ref={bodyRef}
+            value={draft.html}
+            onChange={(e) => updateDraft({ html: e.target.value })}
+            rows={16}
+            placeholder="HTML body"
+            className={`${inputClass} font-mono text-xs`}
+          />
+          <label className="text-gray-300 text-sm flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={draft.attachTicket}
+              onChange={(e) => updateDraft({ attachTicket: e.target.checked })}
+            />
+            Attach the workshop e-ticket (uses the workshop details above)
+          </label>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleSave}
+              disabled={busy || !dirty}
+              className="px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white text-sm flex items-center disabled:opacity-50"
+            >
+              <Save className="w-4 h-4 mr-1" />
+              Save Template
+            </button>
+            <button
+              onClick={handleTest}
+              disabled={busy || !teamId}
+              className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center disabled:opacity-50"
+            >
+              <FlaskConical className="w-4 h-4 mr-1" />
+              Send Test to Me
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <select value={teamId} onChange={(e) => setPreviewTeamId(e.target.value)} className={inputClass}>
+            {teams.map((team) => (
+              <option key={team.id} value={team.id}>
+                Preview as {team.teamName} ({team.registrationId})
+              </option>
+            ))}
+          </select>
+          {previewError && <p className="text-red-400 text-sm">{previewError}</p>}
+          {preview ? (
+            <div className="bg-white rounded-lg overflow-hidden">
+              <div className="px-4 py-2 bg-gray-100 text-gray-800 text-sm border-b">{preview.subject}</div>
+              {/* Rendered in a sandbox so template markup cannot run script in the dashboard */}
+              <iframe title="Email preview" sandbox="" srcDoc={preview.html} className="w-full h-96" />
+            </div>
+          ) : (
+            <p className="text-gray-400 text-sm">
+              {teams.length === 0 ? 'No teams to preview with.' : 'Write a subject and body to see a preview.'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-6 pt-4 border-t border-purple-500/20 flex flex-wrap items-center gap-3">
+        <select
+          value={audience}
+          onChange={(e) => setAudience(e.target.value as AudienceType)}
+          className={`${inputClass} w-auto`}
+        >
+          {(Object.keys(AUDIENCE_LABELS) as AudienceType[]).map((type) => (
+            <option key={type} value={type}>{AUDIENCE_LABELS[type]}</option>
+          ))}
+        </select>
+        {audience === 'college' && (
+          <select value={college} onChange={(e) => setCollege(e.target.value)} className={`${inputClass} w-auto`}>
+            <option value="">Choose a college</option>
+            {colleges.map((name) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={handleQueue}
+          disabled={busy || !selectedId || dirty || (audience === 'college' && !college)}
+          className="px-4 py-2 bg-gradient-to-r from-green-600 to-emerald-600 rounded-lg text-white text-sm flex items-center disabled:opacity-50"
+        >
+          <Send className="w-4 h-4 mr-1" />
+          Send Campaign
+        </button>
+        {dirty && <span className="text-gray-400 text-xs">Save the template before sending it.</span>}
+      </div>
+    </motion.div>
+  );
+};
+
+export default EmailTemplates;
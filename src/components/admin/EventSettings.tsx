@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Save, AlertCircle, CheckCircle } from 'lucide-react';
+import {
+  EventPhase,
+  EventSchedule,
+  PHASE_IDS,
+  PhaseId,
+  useEventSchedule,
+  saveEventSchedule,
+  formatPhaseDates,
+} from '../../lib/event';
+
+const toInputValue = (date: Date | null) => (date ? format(date, "yyyy-MM-dd'T'HH:mm") : '');
+
+const fromInputValue = (value: string) => (value ? new Date(value) : null);
+
+const EventSettings: React.FC = () => {
+  const schedule = useEventSchedule();
+  const [draft, setDraft] = useState<EventSchedule>(schedule);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Follow the live schedule until the organizer starts editing
+  useEffect(() => {
+    if (!dirty) setDraft(schedule);
+  }, [schedule, dirty]);
+
+  const updatePhase = (id: PhaseId, changes: Partial<EventPhase>) => {
+    setDraft({ ...draft, [id]: { ...draft[id], ...changes } });
+    setDirty(true);
+    setSuccess('');
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      await saveEventSchedule(draft);
+      setDirty(false);
+      setSuccess('Schedule saved. Deadlines and countdowns update for everyone right away.');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'px-3 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm';
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold gradient-text mb-2">Event Schedule</h2>
+        <p className="text-gray-300 text-sm">
+          Phase times drive registration, submission deadlines, countdowns and the public timeline.
+          Leave a time empty to show it as TBA; a phase without a closing time stays open.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-500/10 text-red-400 rounded-lg flex items-center">
+          <AlertCircle className="w-5 h-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 p-4 bg-green-500/10 text-green-400 rounded-lg flex items-center">
+          <CheckCircle className="w-5 h-5 mr-2" />
+          {success}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {PHASE_IDS.map((id) => (
+          <div key={id} className="bg-black/30 rounded-lg p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="text-purple-300 text-xs uppercase tracking-wide">{id}</span>
+              <span className="text-blue-400 text-sm">{formatPhaseDates(draft[id])}</span>
+            </div>
+            <div className="grid md:grid-cols-2 gap-3">
+              <input
+                type="text"
+                value={draft[id].title}
+                onChange={(e) => updatePhase(id, { title: e.target.value })}
+                placeholder="Title"
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={draft[id].description}
+                onChange={(e) => updatePhase(id, { description: e.target.value })}
+                placeholder="Description"
+                className={inputClass}
+              />
+              <label className="text-gray-400 text-xs flex flex-col gap-1">
+                Opens
+                <input
+                  type="datetime-local"
+                  value={toInputValue(draft[id].opensAt)}
+                  onChange={(e) => updatePhase(id, { opensAt: fromInputValue(e.target.value) })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="text-gray-400 text-xs flex flex-col gap-1">
+                Closes
+                <input
+                  type="datetime-local"
+                  value={toInputValue(draft[id].closesAt)}
+                  onChange={(e) => updatePhase(id, { closesAt: fromInputValue(e.target.value) })}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-6 flex gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving || !dirty}
+          className="px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white text-sm flex items-center disabled:opacity-50"
+        >
+          <Save className="w-4 h-4 mr-1" />
+          {saving ? 'Saving...' : 'Save Schedule'}
+        </button>
+        {dirty && (
+          <button
+            type="button"
+            onClick={() => setDirty(false)}
+            className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm"
+          >
+            Discard Changes
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EventSettings;
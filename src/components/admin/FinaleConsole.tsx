@@ -0,0 +1,331 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { doc, getDoc } from 'firebase/firestore';
+import {
+  CheckCircle,
+  AlertCircle,
+  RefreshCw,
+  Settings,
+  Mic,
+  Play,
+  Snowflake,
+  Eye,
+  Monitor,
+  Download,
+} from 'lucide-react';
+import { auth, db } from '../../lib/firebase';
+import { JudgeScore, Rubric } from '../../lib/judging';
+import {
+  useFinale,
+  fetchFinaleRubric,
+  saveFinaleRubric,
+  submitFinaleScore,
+  loadFinaleTeams,
+  setFinaleStage,
+  setFinaleStatus,
+  revealNextPlace,
+  FinaleStatus,
+  FINALE_BOARD_PATH,
+} from '../../lib/finale';
+import RubricEditor from './RubricEditor';
+
+interface FinaleConsoleProps {
+  canManage: boolean;
+}
+
+const STATUS_LABELS: Record<FinaleStatus, string> = {
+  setup: 'Setting up',
+  live: 'Live',
+  frozen: 'Frozen',
+  reveal: 'Revealing winners',
+};
+
+const FinaleConsole: React.FC<FinaleConsoleProps> = ({ canManage }) => {
+  const { finale, teams, error: liveError } = useFinale();
+  const [rubric, setRubric] = useState<Rubric | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [myMarks, setMyMarks] = useState<JudgeScore | null>(null);
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [comment, setComment] = useState('');
+  const [showRubricEditor, setShowRubricEditor] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    fetchFinaleRubric().then(setRubric).catch((err: Error) => setError(err.message));
+  }, []);
+
+  // Tablets follow the team on stage
+  useEffect(() => {
+    if (finale.currentTeamId) setSelectedId(finale.currentTeamId);
+  }, [finale.currentTeamId]);
+
+  useEffect(() => {
+    const loadMarks = async () => {
+      const uid = auth.currentUser?.uid;
+      if (!selectedId || !uid) return;
+      try {
+        const marksDoc = await getDoc(doc(db, 'finale_teams', selectedId, 'marks', uid));
+        const marks = marksDoc.exists() ? (marksDoc.data() as JudgeScore) : null;
+        setMyMarks(marks);
+        setScores(marks?.scores || {});
+        setComment(marks?.comment || '');
+      } catch (err) {
+        setError((err as Error).message);
+      }
+    };
+
+    loadMarks();
+  }, [selectedId]);
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setError('');
+    setSuccess('');
+    try {
+      setSuccess(await action());
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selected = teams.find((team) => team.id === selectedId) || null;
+  const scoringOpen = finale.status === 'live' || finale.status === 'frozen';
+
+  const handleSubmitScore = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    run(async () => {
+      const saved = await submitFinaleScore(selected.id, scores, comment);
+      setMyMarks(saved);
+      return `Score saved for ${selected.teamName} (${saved.percentage}%)`;
+    });
+  };
+
+  const handleLoadTeams = () => run(async () => `Loaded ${await loadFinaleTeams()} shortlisted teams`);
+
+  const handleStatus = (status: FinaleStatus) => run(async () => {
+    await setFinaleStatus(status);
+    return `The finale is now ${STATUS_LABELS[status].toLowerCase()}`;
+  });
+
+  const handleReveal = () => run(async () => {
+    await revealNextPlace();
+    return `Revealed place ${teams.length - finale.revealCount}`;
+  });
+
+  const handleStage = (teamId: string) => run(async () => {
+    await setFinaleStage(teamId || null);
+    return teamId ? `${teams.find((team) => team.id === teamId)?.teamName} is on stage` : 'Stage cleared';
+  });
+
+  const controlClass = 'px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center disabled:opacity-50';
+
+  if (!rubric) {
+    return (
+      <div className="flex justify-center py-12">
+        <RefreshCw className="w-8 h-8 text-purple-400 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-8">
+        <div>
+          <h2 className="text-2xl font-bold gradient-text mb-2">Grand Finale</h2>
+          <p className="text-gray-300 text-sm">
+            {STATUS_LABELS[finale.status]} · {teams.length} teams
+          </p>
+        </div>
+        {canManage && (
+          <div className="flex gap-2">
+            <a href={FINALE_BOARD_PATH} target="_blank" rel="noopener noreferrer" className={controlClass}>
+              <Monitor className="w-4 h-4 mr-2" />
+              Open Leaderboard
+            </a>
+            <button onClick={() => setShowRubricEditor(!showRubricEditor)} className={controlClass}>
+              <Settings className="w-4 h-4 mr-2" />
+              Edit Rubric
+            </button>
+          </div>
+        )}
+      </div>
+
+      {showRubricEditor && (
+        <div className="mb-8">
+          <RubricEditor
+            rubric={rubric}
+            save={saveFinaleRubric}
+            onSaved={(saved) => {
+              setRubric(saved);
+              setShowRubricEditor(false);
+              setSuccess('Finale rubric updated');
+            }}
+          />
+        </div>
+      )}
+
+      {(error || liveError) && (
+        <div className="mb-6 p-4 bg-red-500/10 text-red-400 rounded-lg flex items-center">
+          <AlertCircle className="w-5 h-5 mr-2" />
+          {error || liveError}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 p-4 bg-green-500/10 text-green-400 rounded-lg flex items-center">
+          <CheckCircle className="w-5 h-5 mr-2" />
+          {success}
+        </div>
+      )}
+
+      {canManage && (
+        <div className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6 mb-6 flex flex-wrap gap-3 items-center">
+          {finale.status === 'setup' && (
+            <>
+              <button onClick={handleLoadTeams} disabled={busy} className={controlClass}>
+                <Download className="w-4 h-4 mr-2" />
+                Load Shortlisted Teams
+              </button>
+              <button onClick={() => handleStatus('live')} disabled={busy || teams.length === 0} className={controlClass}>
+                <Play className="w-4 h-4 mr-2" />
+                Go Live
+              </button>
+            </>
+          )}
+          {finale.status === 'live' && (
+            <button onClick={() => handleStatus('frozen')} disabled={busy} className={controlClass}>
+              <Snowflake className="w-4 h-4 mr-2" />
+              Freeze Leaderboard
+            </button>
+          )}
+          {finale.status === 'frozen' && (
+            <>
+              <button onClick={() => handleStatus('live')} disabled={busy} className={controlClass}>
+                <Play className="w-4 h-4 mr-2" />
+                Unfreeze
+              </button>
+              <button onClick={() => handleStatus('reveal')} disabled={busy} className={controlClass}>
+                <Eye className="w-4 h-4 mr-2" />
+                Close Scoring &amp; Start Reveal
+              </button>
+            </>
+          )}
+          {finale.status === 'reveal' && (
+            <motion.button
+              onClick={handleReveal}
+              disabled={busy || finale.revealCount >= teams.length}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white text-sm flex items-center disabled:opacity-50"
+            >
+              <Eye className="w-4 h-4 mr-2" />
+              {finale.revealCount >= teams.length
+                ? 'All places revealed'
+                : `Reveal Place ${teams.length - finale.revealCount}`}
+            </motion.button>
+          )}
+          <div className="flex-grow" />
+          {finale.status !== 'reveal' && (
+            <label className="text-gray-300 text-sm flex items-center gap-2">
+              <Mic className="w-4 h-4" />
+              On stage
+              <select
+                value={finale.currentTeamId || ''}
+                onChange={(e) => handleStage(e.target.value)}
+                disabled={busy}
+                className="px-3 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm"
+              >
+                <option value="">Nobody</option>
+                {teams.map((team) => (
+                  <option key={team.id} value={team.id}>{team.pitchOrder}. {team.teamName}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Pitch order */}
+        <div className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-4 space-y-2">
+          {teams.length === 0 ? (
+            <p className="text-gray-400 text-sm text-center py-6">No finale teams yet.</p>
+          ) : (
+            teams.map((team) => (
+              <button
+                key={team.id}
+                onClick={() => setSelectedId(team.id)}
+                className={`w-full text-left p-4 rounded-lg ${
+                  team.id === selectedId ? 'bg-purple-600/30' : 'bg-black/30 hover:bg-white/5'
+                }`}
+              >
+                <div className="flex justify-between items-center">
+                  <span className="text-white">{team.pitchOrder}. {team.teamName}</span>
+                  {team.id === finale.currentTeamId && <Mic className="w-4 h-4 text-purple-300" />}
+                </div>
+                <div className="text-gray-400 text-xs">{team.collegeName}</div>
+              </button>
+            ))
+          )}
+        </div>
+
+        {/* Tablet scoring */}
+        <div className="lg:col-span-2 bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6">
+          {!selected ? (
+            <p className="text-gray-400 text-center py-12">Select a team to score its pitch.</p>
+          ) : !scoringOpen ? (
+            <p className="text-gray-400 text-center py-12">Scoring is closed.</p>
+          ) : (
+            <form onSubmit={handleSubmitScore} className="space-y-6">
+              <div>
+                <h3 className="text-2xl font-semibold text-white">{selected.teamName}</h3>
+                <p className="text-gray-400 text-sm">{selected.collegeName}</p>
+              </div>
+              {rubric.criteria.map((criterion) => (
+                <div key={criterion.id}>
+                  <div className="flex justify-between text-gray-300 mb-2">
+                    <span>{criterion.label}</span>
+                    <span className="text-white font-mono text-xl">
+                      {scores[criterion.id] ?? '–'} / {criterion.maxScore}
+                    </span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max={criterion.maxScore}
+                    step="0.5"
+                    value={scores[criterion.id] ?? 0}
+                    onChange={(e) => setScores({ ...scores, [criterion.id]: Number(e.target.value) })}
+                    className="w-full h-3 accent-purple-500"
+                  />
+                </div>
+              ))}
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                rows={2}
+                placeholder="Notes (optional)"
+                className="w-full px-4 py-3 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white"
+              />
+              <motion.button
+                type="submit"
+                disabled={busy || rubric.criteria.some((criterion) => scores[criterion.id] === undefined)}
+                whileTap={{ scale: 0.98 }}
+                className="w-full py-4 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white text-lg font-semibold disabled:opacity-50"
+              >
+                {busy ? 'Saving...' : myMarks ? 'Update Score' : 'Submit Score'}
+              </motion.button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FinaleConsole;
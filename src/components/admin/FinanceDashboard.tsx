@@ -18,10 +18,15 @@ import {
   Phone,
   User,
   School,
-  Trash2,
+  RefreshCw,
+  RotateCcw,
+  Copy,
+  PlusCircle,
 } from 'lucide-react';
-import { collection, getDocs, query, where, orderBy, doc, updateDoc, deleteDoc } from 'firebase/firestore';
+import { collection, getDocs, query, where, orderBy, updateDoc, DocumentData } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
+import { reconcilePayments, ReconciliationReport, PaymentAdjustment } from '../../lib/payments';
+import PaymentAdjustmentDialog, { AdjustmentTarget } from './PaymentAdjustmentDialog';
 
 const FinanceDashboard: React.FC = () => {
   const [payments, setPayments] = useState<any[]>([]);
@@ -38,7 +43,10 @@ const FinanceDashboard: React.FC = () => {
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [exporting, setExporting] = useState(false);
-  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [adjustments, setAdjustments] = useState<PaymentAdjustment[]>([]);
+  const [adjustmentTarget, setAdjustmentTarget] = useState<AdjustmentTarget | null>(null);
+  const [reconciling, setReconciling] = useState(false);
+  const [reconciliation, setReconciliation] = useState<ReconciliationReport | null>(null);
 
   useEffect(() => {
     fetchData();
@@ -54,64 +62,99 @@ const FinanceDashboard: React.FC = () => {
       setUsers(usersData);
       setTotalRegistrations(usersData.length);
 
-      // First, get all teams to build a map of team emails
+      // First, get all teams. The email map only serves legacy payments that
+      // predate linking payment requests to a team. An email listed on more
+      // than one team maps to null so the payment is not credited to a guess;
+      // the Duplicates tab shows those registrations.
       const teamsSnapshot = await getDocs(collection(db, 'teams'));
-      const teamEmailMap = new Map();
+      const teamEmailMap = new Map<string, string | null>();
       const teamsData: any[] = [];
       teamsSnapshot.forEach((doc) => {
-        const teamData = { id: doc.id, ...doc.data() };
+        const teamData: DocumentData = { id: doc.id, ...doc.data() };
         teamsData.push(teamData);
         if (teamData.members) {
           teamData.members.forEach((member: any) => {
             if (member.email) {
-              teamEmailMap.set(member.email.toLowerCase(), doc.id);
+              const email = member.email.toLowerCase();
+              const known = teamEmailMap.get(email);
+              teamEmailMap.set(email, known === undefined || known === doc.id ? doc.id : null);
             }
           });
         }
       });
       setTeams(teamsData);
 
+      // Refunds, manual payments and duplicate flags live in an append-only
+      // ledger; payment records themselves are never edited or deleted.
+      const adjustmentsSnapshot = await getDocs(collection(db, 'payment_adjustments'));
+      const adjustmentsData = adjustmentsSnapshot.docs
+        .map(doc => ({ id: doc.id, ...doc.data() }) as PaymentAdjustment)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      setAdjustments(adjustmentsData);
+
+      const refundedByPayment = new Map<string, number>();
+      const duplicatePayments = new Set<string>();
+      let manualTotal = 0;
+      adjustmentsData.forEach((entry) => {
+        if (entry.type === 'refund') {
+          if (entry.paymentDocId) {
+            refundedByPayment.set(entry.paymentDocId, (refundedByPayment.get(entry.paymentDocId) || 0) + entry.amount);
+          }
+        } else if (entry.type === 'duplicate' && entry.paymentDocId) {
+          duplicatePayments.add(entry.paymentDocId);
+        } else if (entry.type === 'manual_payment') {
+          manualTotal += entry.amount;
+        }
+      });
+
+      // Duplicates are left out of revenue already, so refunding one must not
+      // take the money off a second time
+      const refundTotal = adjustmentsData
+        .filter((entry) => entry.type === 'refund' && !duplicatePayments.has(entry.paymentDocId || ''))
+        .reduce((sum, entry) => sum + entry.amount, 0);
+
       // Fetch all payments
       const paymentsQuery = query(collection(db, 'payments'));
       const paymentsSnapshot = await getDocs(paymentsQuery);
       let paymentsData: any[] = [];
       let total = 0;
-      const paidEmailSet = new Set();
+      const paidTeamIds = new Set<string>();
       
       paymentsSnapshot.forEach((doc) => {
-        const paymentData = { id: doc.id, ...doc.data() };
+        const paymentData: DocumentData = { id: doc.id, ...doc.data() };
+        const teamId = paymentData.teamId
+          || (paymentData.email ? teamEmailMap.get(paymentData.email.toLowerCase()) : undefined);
+        paymentData.team = teamsData.find((team) => team.id === teamId) || null;
+        paymentData.refunded = refundedByPayment.get(doc.id) || 0;
+        paymentData.duplicate = duplicatePayments.has(doc.id);
         paymentsData.push(paymentData);
         
-        if (paymentData.status === 'paid') {
-          if (paymentData.email) {
-            paidEmailSet.add(paymentData.email.toLowerCase());
+        if (paymentData.status === 'paid' && !paymentData.duplicate) {
+          if (teamId) {
+            paidTeamIds.add(teamId);
           }
           
           if (paymentData.amount) {
             total += parseFloat(paymentData.amount);
           }
         }
-      });
-
-      // Count paid teams based on email matches
-      let paidTeamsCount = 0;
-      let pendingTeamsCount = 0;
-      const processedTeams = new Set();
 
-      paidEmailSet.forEach((email: string) => {
-        const teamId = teamEmailMap.get(email);
-        if (teamId && !processedTeams.has(teamId)) {
-          paidTeamsCount++;
-          processedTeams.add(teamId);
+        // Money was received, but the team is not paid until finance sorts it out
+        if (paymentData.status === 'amount_mismatch' && paymentData.amount) {
+          total += parseFloat(paymentData.amount);
         }
       });
 
-      // Count remaining teams as pending
-      teamEmailMap.forEach((teamId) => {
-        if (!processedTeams.has(teamId)) {
-          pendingTeamsCount++;
+      total += manualTotal - refundTotal;
+
+      teamsData.forEach((team) => {
+        if (team.paymentStatus === 'paid') {
+          paidTeamIds.add(team.id);
         }
       });
+
+      const paidTeamsCount = paidTeamIds.size;
+      const pendingTeamsCount = teamsData.length - paidTeamsCount;
       
       // Apply date filter if active
       if (dateFilter !== 'all') {
@@ -138,7 +181,8 @@ const FinanceDashboard: React.FC = () => {
         paymentsData = paymentsData.filter(payment => 
           payment.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
           payment.buyerName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          payment.payment_id?.toLowerCase().includes(searchTerm.toLowerCase())
+          payment.payment_id?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          payment.team?.registrationId?.toLowerCase().includes(searchTerm.toLowerCase())
         );
       }
       
@@ -156,18 +200,34 @@ const FinanceDashboard: React.FC = () => {
     }
   };
 
-  const handleDeletePayment = async (paymentId: string) => {
+  // What is left of a manual payment after the refunds recorded against it
+  const manualRefundable = (payment: PaymentAdjustment) => payment.amount - adjustments
+    .filter((entry) => entry.type === 'refund' && entry.adjustmentId === payment.id)
+    .reduce((sum, entry) => sum + entry.amount, 0);
+
+  const handleAdjustmentDone = (message: string) => {
+    setAdjustmentTarget(null);
+    setError('');
+    setSuccess(message);
+    fetchData(); // Refresh data
+  };
+
+  const handleReconcile = async (dryRun: boolean) => {
     try {
-      setLoading(true);
-      await deleteDoc(doc(db, 'payments', paymentId));
-      setSuccess('Payment record deleted successfully');
-      fetchData(); // Refresh data
+      setReconciling(true);
+      setError('');
+      setSuccess('');
+      const report = await reconcilePayments(dryRun);
+      setReconciliation(report);
+      if (!dryRun) {
+        setSuccess(`Reconciliation settled ${report.settled.length} of ${report.checked} initiated teams`);
+        fetchData(); // Refresh data
+      }
     } catch (error) {
-      console.error('Error deleting payment:', error);
-      setError('Failed to delete payment record');
+      console.error('Error reconciling payments:', error);
+      setError((error as Error).message);
     } finally {
-      setLoading(false);
-      setDeleteConfirm(null);
+      setReconciling(false);
     }
   };
 
@@ -200,7 +260,7 @@ const FinanceDashboard: React.FC = () => {
         throw new Error('No payment records to export');
       }
 
-      const headers = ['Date', 'Name', 'Email', 'Amount', 'Status', 'Payment ID'];
+      const headers = ['Date', 'Name', 'Email', 'Team', 'Registration ID', 'Amount', 'Refunded', 'Status', 'Duplicate', 'Payment ID', 'Payment Request ID'];
       const csvRows = [headers.join(',')];
       
       payments.forEach(payment => {
@@ -208,9 +268,14 @@ const FinanceDashboard: React.FC = () => {
           payment.createdAt ? new Date(payment.createdAt).toLocaleDateString() : 'N/A',
           sanitizeCSVField(payment.buyerName),
           sanitizeCSVField(payment.email),
+          sanitizeCSVField(payment.team?.teamName),
+          sanitizeCSVField(payment.team?.registrationId || payment.registrationId),
           sanitizeCSVField(payment.amount),
+          sanitizeCSVField(payment.refunded),
           sanitizeCSVField(payment.status),
-          sanitizeCSVField(payment.payment_id)
+          payment.duplicate ? 'yes' : 'no',
+          sanitizeCSVField(payment.payment_id),
+          sanitizeCSVField(payment.payment_request_id)
         ];
         
         csvRows.push(row.join(','));
@@ -271,8 +336,47 @@ const FinanceDashboard: React.FC = () => {
     }
   };
 
+  const exportAdjustmentsToCSV = () => {
+    if (!adjustments.length) {
+      setError('No adjustments to export');
+      return;
+    }
+
+    const headers = ['Date', 'Type', 'Team', 'Amount', 'Method', 'Reference', 'Payment ID', 'Refund ID', 'Reason', 'Recorded By'];
+    const csvRows = [headers.join(',')];
+
+    adjustments.forEach(entry => {
+      const team = teams.find((t) => t.id === entry.teamId);
+      const row = [
+        new Date(entry.createdAt).toLocaleString(),
+        sanitizeCSVField(entry.type),
+        sanitizeCSVField(team?.registrationId || entry.teamId),
+        sanitizeCSVField(entry.amount),
+        sanitizeCSVField(entry.method),
+        sanitizeCSVField(entry.reference),
+        sanitizeCSVField(entry.paymentId),
+        sanitizeCSVField(entry.refundId),
+        sanitizeCSVField(entry.reason),
+        sanitizeCSVField(entry.createdBy)
+      ];
+
+      csvRows.push(row.join(','));
+    });
+
+    const timestamp = new Date().toISOString().split('T')[0];
+    downloadCSV(csvRows.join('\n'), `payment_adjustments_${timestamp}.csv`);
+  };
+
   return (
-    <div className="min-h-screen w-full py-20 px-4 bg-black">
+    <div className="w-full py-10 px-4 bg-black">
+      {adjustmentTarget && (
+        <PaymentAdjustmentDialog
+          target={adjustmentTarget}
+          onClose={() => setAdjustmentTarget(null)}
+          onDone={handleAdjustmentDone}
+        />
+      )}
+
       <div className="max-w-7xl mx-auto">
         <div className="mb-8">
           <h1 className="text-3xl md:text-4xl font-bold gradient-text mb-4">
@@ -390,6 +494,98 @@ const FinanceDashboard: React.FC = () => {
           </motion.div>
         </div>
 
+        {/* Payment Reconciliation */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6 mb-8"
+        >
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-4">
+            <div>
+              <h3 className="text-xl font-semibold text-white">Payment Reconciliation</h3>
+              <p className="text-gray-400 text-sm">
+                Checks teams stuck at "initiated" against the payment gateway
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleReconcile(true)}
+                disabled={reconciling}
+                className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm"
+              >
+                Preview
+              </button>
+              <motion.button
+                onClick={() => handleReconcile(false)}
+                disabled={reconciling}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                className="px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white text-sm flex items-center"
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${reconciling ? 'animate-spin' : ''}`} />
+                Reconcile Now
+              </motion.button>
+            </div>
+          </div>
+
+          {reconciliation && (
+            <div className="space-y-4">
+              <p className="text-gray-400 text-xs">
+                {reconciliation.dryRun ? 'Preview' : 'Run'} at {new Date(reconciliation.runAt).toLocaleString()} via {reconciliation.gateway} · {reconciliation.checked} teams checked
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-center">
+                {[
+                  { label: reconciliation.dryRun ? 'Would settle' : 'Settled', count: reconciliation.settled.length, color: 'text-green-400' },
+                  { label: 'Failed', count: reconciliation.failed.length, color: 'text-red-400' },
+                  { label: 'Still pending', count: reconciliation.pending.length, color: 'text-yellow-400' },
+                  { label: 'Ambiguous', count: reconciliation.ambiguous.length, color: 'text-orange-400' },
+                  { label: 'Errors', count: reconciliation.errors.length, color: 'text-red-400' },
+                ].map((item) => (
+                  <div key={item.label} className="bg-black/30 rounded-lg p-3">
+                    <div className={`text-2xl font-bold ${item.color}`}>{item.count}</div>
+                    <div className="text-gray-400 text-xs">{item.label}</div>
+                  </div>
+                ))}
+              </div>
+
+              {reconciliation.ambiguous.length > 0 && (
+                <div>
+                  <h4 className="text-orange-400 font-semibold mb-2 flex items-center">
+                    <AlertCircle className="w-4 h-4 mr-2" />
+                    Needs manual review
+                  </h4>
+                  <div className="space-y-2">
+                    {reconciliation.ambiguous.map((entry, idx) => (
+                      <div key={`${entry.teamId}-${idx}`} className="bg-black/30 rounded-lg p-3 text-sm text-gray-300">
+                        <span className="text-white">{entry.teamName}</span>{' '}
+                        <span className="font-mono text-xs">{entry.registrationId}</span>
+                        <div className="text-xs text-gray-400 mt-1">
+                          {entry.reason === 'shared_payer_email'
+                            ? `Payer email ${entry.email} is listed on ${entry.claimingTeamIds?.length} teams`
+                            : entry.reason === 'amount_mismatch'
+                              ? `Payment ${entry.paymentId} does not match the expected amount` +
+                                (entry.expectedAmount !== undefined ? ` (paid ₹${entry.amount}, fee ₹${entry.expectedAmount})` : '')
+                              : `Payment ${entry.paymentId} was recorded but the team was not settled`}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {reconciliation.errors.length > 0 && (
+                <div className="text-red-400 text-sm space-y-1">
+                  {reconciliation.errors.map((entry) => (
+                    <div key={entry.teamId}>
+                      {entry.teamName}: {entry.error}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </motion.div>
+
         {/* Search and Filter Bar */}
         <div className="flex flex-col md:flex-row gap-4 mb-8">
           <div className="relative flex-grow">
@@ -525,22 +721,37 @@ const FinanceDashboard: React.FC = () => {
                           <span className={`px-2 py-1 rounded-full text-xs font-semibold ${
                             team.paymentStatus === 'paid' 
                               ? 'bg-green-500/20 text-green-400' 
-                              : 'bg-yellow-500/20 text-yellow-400'
+                              : team.paymentStatus === 'refunded'
+                                ? 'bg-red-500/20 text-red-400'
+                                : 'bg-yellow-500/20 text-yellow-400'
                           }`}>
                             {team.paymentStatus || 'pending'}
                           </span>
+                          {team.paymentMethod === 'manual' && (
+                            <span className="ml-2 text-xs text-gray-400">offline</span>
+                          )}
                         </td>
                         <td className="py-3 px-4">
                           {team.paymentStatus !== 'paid' && (
                             <motion.button
-                              onClick={() => handleDeletePayment(team.id)}
+                              onClick={() => setAdjustmentTarget({ kind: 'manual', team, amountDue: team.amountDue || 0 })}
                               whileHover={{ scale: 1.05 }}
                               whileTap={{ scale: 0.95 }}
-                              className="px-3 py-1 bg-red-600/20 text-red-400 rounded-lg text-sm flex items-center hover:bg-red-600/30"
-                              disabled={loading}
+                              className="px-3 py-1 bg-green-600/20 text-green-400 rounded-lg text-sm flex items-center hover:bg-green-600/30"
                             >
-                              <Trash2 className="w-4 h-4 mr-1" />
-                              Delete
+                              <PlusCircle className="w-4 h-4 mr-1" />
+                              Record Payment
+                            </motion.button>
+                          )}
+                          {team.paymentStatus === 'paid' && (team.rosterFeeDue || 0) > 0 && (
+                            <motion.button
+                              onClick={() => setAdjustmentTarget({ kind: 'manual', team, amountDue: team.rosterFeeDue })}
+                              whileHover={{ scale: 1.05 }}
+                              whileTap={{ scale: 0.95 }}
+                              className="px-3 py-1 bg-yellow-600/20 text-yellow-400 rounded-lg text-sm flex items-center hover:bg-yellow-600/30"
+                            >
+                              <PlusCircle className="w-4 h-4 mr-1" />
+                              Collect Roster Fee (₹{team.rosterFeeDue})
                             </motion.button>
                           )}
                         </td>
@@ -573,6 +784,7 @@ const FinanceDashboard: React.FC = () => {
                     <th className="text-left py-3 px-4 text-gray-300">Date</th>
                     <th className="text-left py-3 px-4 text-gray-300">Name</th>
                     <th className="text-left py-3 px-4 text-gray-300">Email</th>
+                    <th className="text-left py-3 px-4 text-gray-300">Team</th>
                     <th className="text-left py-3 px-4 text-gray-300">Amount</th>
                     <th className="text-left py-3 px-4 text-gray-300">Status</th>
                     <th className="text-left py-3 px-4 text-gray-300">Payment ID</th>
@@ -582,7 +794,7 @@ const FinanceDashboard: React.FC = () => {
                 <tbody>
                   {payments.length === 0 ? (
                     <tr>
-                      <td colSpan={7} className="text-center py-8 text-gray-400">
+                      <td colSpan={8} className="text-center py-8 text-gray-400">
                         {searchTerm || dateFilter !== 'all' ? 'No payments match your search criteria.' : 'No payment records found.'}
                       </td>
                     </tr>
@@ -597,45 +809,71 @@ const FinanceDashboard: React.FC = () => {
                         </td>
                         <td className="py-3 px-4 text-white">{payment.buyerName || 'N/A'}</td>
                         <td className="py-3 px-4 text-gray-300">{payment.email || 'N/A'}</td>
-                        <td className="py-3 px-4 text-green-400">₹{payment.amount || '0'}</td>
+                        <td className="py-3 px-4 text-gray-300">
+                          {payment.team ? (
+                            <>
+                              <div className="text-white">{payment.team.teamName}</div>
+                              <div className="font-mono text-xs">{payment.team.registrationId}</div>
+                            </>
+                          ) : (
+                            <span className="text-yellow-400 text-xs">Unlinked</span>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-green-400">
+                          ₹{payment.amount || '0'}
+                          {payment.refunded > 0 && (
+                            <div className="text-red-400 text-xs">−₹{payment.refunded} refunded</div>
+                          )}
+                        </td>
                         <td className="py-3 px-4">
                           <span className={`px-2 py-1 rounded-full text-xs font-semibold ${
                             payment.status === 'paid' 
                               ? 'bg-green-500/20 text-green-400' 
-                              : 'bg-yellow-500/20 text-yellow-400'
+                              : payment.status === 'amount_mismatch'
+                                ? 'bg-orange-500/20 text-orange-400'
+                                : 'bg-yellow-500/20 text-yellow-400'
                           }`}>
                             {payment.status || 'pending'}
                           </span>
+                          {payment.duplicate && (
+                            <span className="ml-2 px-2 py-1 rounded-full text-xs font-semibold bg-orange-500/20 text-orange-400">
+                              duplicate
+                            </span>
+                          )}
                         </td>
                         <td className="py-3 px-4 text-gray-300 font-mono text-xs">
                           {payment.payment_id || 'N/A'}
                         </td>
                         <td className="py-3 px-4">
-                          {deleteConfirm === payment.id ? (
+                          {(payment.status === 'paid' || payment.status === 'amount_mismatch') && (
                             <div className="flex items-center space-x-2">
-                              <button
-                                onClick={() => handleDeletePayment(payment.id)}
-                                className="px-2 py-1 bg-red-600 text-white rounded-lg text-xs"
-                              >
-                                Confirm
-                              </button>
-                              <button
-                                onClick={() => setDeleteConfirm(null)}
-                                className="px-2 py-1 bg-gray-600 text-white rounded-lg text-xs"
-                              >
-                                Cancel
-                              </button>
+                              {payment.refunded < Number(payment.amount) && (
+                                <motion.button
+                                  onClick={() => setAdjustmentTarget({
+                                    kind: 'refund',
+                                    payment,
+                                    refundable: Number(payment.amount) - payment.refunded,
+                                  })}
+                                  whileHover={{ scale: 1.05 }}
+                                  whileTap={{ scale: 0.95 }}
+                                  className="px-2 py-1 bg-red-600/20 text-red-400 rounded-lg text-xs flex items-center hover:bg-red-600/30"
+                                >
+                                  <RotateCcw className="w-3 h-3 mr-1" />
+                                  Refund
+                                </motion.button>
+                              )}
+                              {payment.status === 'paid' && !payment.duplicate && (
+                                <motion.button
+                                  onClick={() => setAdjustmentTarget({ kind: 'duplicate', payment })}
+                                  whileHover={{ scale: 1.05 }}
+                                  whileTap={{ scale: 0.95 }}
+                                  className="px-2 py-1 bg-orange-600/20 text-orange-400 rounded-lg text-xs flex items-center hover:bg-orange-600/30"
+                                >
+                                  <Copy className="w-3 h-3 mr-1" />
+                                  Duplicate
+                                </motion.button>
+                              )}
                             </div>
-                          ) : (
-                            <motion.button
-                              onClick={() => setDeleteConfirm(payment.id)}
-                              whileHover={{ scale: 1.05 }}
-                              whileTap={{ scale: 0.95 }}
-                              className="px-2 py-1 bg-red-600/20 text-red-400 rounded-lg text-xs flex items-center hover:bg-red-600/30"
-                            >
-                              <Trash2 className="w-3 h-3 mr-1" />
-                              Delete
-                            </motion.button>
                           )}
                         </td>
                       </tr>
@@ -646,6 +884,102 @@ const FinanceDashboard: React.FC = () => {
             </div>
           )}
         </motion.div>
+
+        {/* Adjustments Ledger */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6 mt-8"
+        >
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-xl font-semibold text-white">Adjustments</h3>
+            <motion.button
+              onClick={exportAdjustmentsToCSV}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="px-4 py-2 bg-blue-600 rounded-lg text-white text-sm flex items-center"
+              disabled={adjustments.length === 0}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export Ledger
+            </motion.button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-purple-500/20">
+                  <th className="text-left py-3 px-4 text-gray-300">Date</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Type</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Team</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Amount</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Details</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Recorded By</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {adjustments.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="text-center py-8 text-gray-400">
+                      No refunds or manual payments recorded.
+                    </td>
+                  </tr>
+                ) : (
+                  adjustments.map((entry, index) => (
+                    <tr
+                      key={entry.id}
+                      className={`border-b border-purple-500/10 ${index % 2 === 0 ? 'bg-purple-900/10' : ''}`}
+                    >
+                      <td className="py-3 px-4 text-gray-300 text-sm">
+                        {new Date(entry.createdAt).toLocaleString()}
+                      </td>
+                      <td className="py-3 px-4 text-white text-sm">{entry.type.replace('_', ' ')}</td>
+                      <td className="py-3 px-4 text-gray-300 font-mono text-xs">
+                        {teams.find((t) => t.id === entry.teamId)?.registrationId || entry.teamId || 'N/A'}
+                      </td>
+                      <td className={`py-3 px-4 ${entry.type === 'refund' ? 'text-red-400' : 'text-green-400'}`}>
+                        {entry.type === 'duplicate' ? '—' : `${entry.type === 'refund' ? '−' : ''}₹${entry.amount}`}
+                      </td>
+                      <td className="py-3 px-4 text-gray-300 text-xs">
+                        {[entry.method, entry.reference, entry.refundId, entry.reason].filter(Boolean).join(' · ') || 'N/A'}
+                        {entry.evidenceUrl && (
+                          <a
+                            href={entry.evidenceUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="ml-2 text-purple-400 hover:underline"
+                          >
+                            evidence
+                          </a>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-gray-300 text-xs">{entry.createdBy || 'N/A'}</td>
+                      <td className="py-3 px-4">
+                        {entry.type === 'manual_payment' && manualRefundable(entry) > 0 && (
+                          <motion.button
+                            onClick={() => setAdjustmentTarget({
+                              kind: 'manual_refund',
+                              entry,
+                              teamName: teams.find((t) => t.id === entry.teamId)?.teamName || entry.teamId || '',
+                              refundable: manualRefundable(entry),
+                            })}
+                            whileHover={{ scale: 1.05 }}
+                            whileTap={{ scale: 0.95 }}
+                            className="px-2 py-1 bg-red-600/20 text-red-400 rounded-lg text-xs flex items-center hover:bg-red-600/30"
+                          >
+                            <RotateCcw className="w-3 h-3 mr-1" />
+                            Refund
+                          </motion.button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </motion.div>
       </div>
     </div>
   );
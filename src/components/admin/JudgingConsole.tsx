@@ -0,0 +1,405 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import {
+  FileText,
+  Youtube,
+  CheckCircle,
+  AlertCircle,
+  RefreshCw,
+  Search,
+  Settings,
+  Ban,
+} from 'lucide-react';
+import {
+  fetchRubric,
+  fetchJudgingSubmissions,
+  fetchConflicts,
+  saveConflicts,
+  submitScore,
+  Rubric,
+  JudgingSubmission,
+  JudgeConflicts,
+} from '../../lib/judging';
+import RubricEditor from './RubricEditor';
+import JudgingOverview from './JudgingOverview';
+
+interface JudgingConsoleProps {
+  canManage: boolean;
+}
+
+type ScoreFilter = 'all' | 'todo' | 'done';
+
+const JudgingConsole: React.FC<JudgingConsoleProps> = ({ canManage }) => {
+  const [view, setView] = useState<'score' | 'overview'>('score');
+  const [conflicts, setConflicts] = useState<JudgeConflicts>({ colleges: [], submissionIds: [] });
+  const [collegeInput, setCollegeInput] = useState('');
+  const [rubric, setRubric] = useState<Rubric | null>(null);
+  const [submissions, setSubmissions] = useState<JudgingSubmission[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [comment, setComment] = useState('');
+  const [filter, setFilter] = useState<ScoreFilter>('todo');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showRubricEditor, setShowRubricEditor] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const loadConsole = async () => {
+      try {
+        const [rubricData, submissionData, conflictData] = await Promise.all([
+          fetchRubric(),
+          fetchJudgingSubmissions(),
+          fetchConflicts(),
+        ]);
+        setRubric(rubricData);
+        setSubmissions(submissionData);
+        setConflicts(conflictData);
+        setCollegeInput(conflictData.colleges.join(', '));
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadConsole();
+  }, [refreshKey]);
+
+  // Saving conflicts can move assignments, so the list is reloaded afterwards
+  const updateConflicts = async (next: JudgeConflicts, message: string) => {
+    setSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      await saveConflicts(next);
+      setSuccess(message);
+      setSelectedId(null);
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveColleges = (e: React.FormEvent) => {
+    e.preventDefault();
+    const colleges = collegeInput.split(',').map((college) => college.trim()).filter(Boolean);
+    updateConflicts({ ...conflicts, colleges }, 'Conflicts of interest saved');
+  };
+
+  const handleDeclareConflict = (submission: JudgingSubmission) => {
+    updateConflicts(
+      { ...conflicts, submissionIds: [...conflicts.submissionIds, submission.id] },
+      `Conflict declared for ${submission.teamName}; it will be reassigned`
+    );
+  };
+
+  const selected = submissions.find((submission) => submission.id === selectedId) || null;
+
+  const selectSubmission = (submission: JudgingSubmission) => {
+    setSelectedId(submission.id);
+    setScores(submission.myScore?.scores || {});
+    setComment(submission.myScore?.comment || '');
+    setSuccess('');
+    setError('');
+  };
+
+  const handleSubmitScore = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !rubric) return;
+
+    setSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      const saved = await submitScore(selected.id, scores, comment);
+      setSubmissions(submissions.map((submission) =>
+        submission.id === selected.id
+          ? { ...submission, myScore: saved, points: saved.points, judgeCount: saved.judgeCount }
+          : submission
+      ));
+      setSuccess(`Score saved for ${selected.teamName} (${saved.percentage}%)`);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const visibleSubmissions = submissions
+    .filter((submission) =>
+      filter === 'all' || (filter === 'done' ? submission.myScore : !submission.myScore)
+    )
+    .filter((submission) =>
+      !searchTerm ||
+      submission.teamName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      submission.registrationId.toLowerCase().includes(searchTerm.toLowerCase())
+    );
+
+  const scoredCount = submissions.filter((submission) => submission.myScore).length;
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <RefreshCw className="w-8 h-8 text-purple-400 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-8">
+        <div>
+          <h2 className="text-2xl font-bold gradient-text mb-2">Phase 1 Judging</h2>
+          <p className="text-gray-300 text-sm">
+            You have scored {scoredCount} of {submissions.length} submissions
+          </p>
+        </div>
+        {canManage && rubric && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => setView(view === 'score' ? 'overview' : 'score')}
+              className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm"
+            >
+              {view === 'score' ? 'Assignments & Ranking' : 'Back to Scoring'}
+            </button>
+            <button
+              onClick={() => setShowRubricEditor(!showRubricEditor)}
+              className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center"
+            >
+              <Settings className="w-4 h-4 mr-2" />
+              Edit Rubric
+            </button>
+          </div>
+        )}
+      </div>
+
+      {showRubricEditor && rubric && (
+        <div className="mb-8">
+          <RubricEditor
+            rubric={rubric}
+            onSaved={(saved) => {
+              setRubric(saved);
+              setShowRubricEditor(false);
+              setSuccess('Rubric updated');
+            }}
+          />
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-500/10 text-red-400 rounded-lg flex items-center">
+          <AlertCircle className="w-5 h-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 p-4 bg-green-500/10 text-green-400 rounded-lg flex items-center">
+          <CheckCircle className="w-5 h-5 mr-2" />
+          {success}
+        </div>
+      )}
+
+      {view === 'overview' ? (
+        <JudgingOverview onMessage={setSuccess} onError={setError} />
+      ) : (
+        <>
+          <form
+            onSubmit={handleSaveColleges}
+            className="flex flex-col md:flex-row gap-3 items-start md:items-center mb-6 bg-black/30 rounded-lg p-4"
+          >
+            <label className="text-gray-300 text-sm whitespace-nowrap">I cannot judge teams from:</label>
+            <input
+              type="text"
+              value={collegeInput}
+              onChange={(e) => setCollegeInput(e.target.value)}
+              placeholder="Your college(s), comma separated"
+              className="flex-grow w-full px-4 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm"
+            />
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm whitespace-nowrap"
+            >
+              Save Conflicts
+            </button>
+          </form>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Submission list */}
+            <div className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-4">
+              <div className="relative mb-3">
+                <input
+                  type="text"
+                  placeholder="Search team or registration ID"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="w-full px-4 py-2 bg-white/5 rounded-lg pl-10 focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm"
+                />
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              </div>
+              <div className="flex gap-2 mb-4">
+                {([['todo', 'To score'], ['done', 'Scored'], ['all', 'All']] as [ScoreFilter, string][]).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => setFilter(value)}
+                    className={`px-3 py-1 rounded-lg text-xs ${
+                      filter === value
+                        ? 'bg-gradient-to-r from-purple-600 to-blue-600 text-white'
+                        : 'bg-white/5 text-gray-300'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+                {visibleSubmissions.length === 0 ? (
+                  <p className="text-gray-400 text-sm text-center py-6">Nothing here.</p>
+                ) : (
+                  visibleSubmissions.map((submission) => (
+                    <button
+                      key={submission.id}
+                      onClick={() => selectSubmission(submission)}
+                      className={`w-full text-left p-3 rounded-lg ${
+                        submission.id === selectedId ? 'bg-purple-600/30' : 'bg-black/30 hover:bg-white/5'
+                      }`}
+                    >
+                      <div className="flex justify-between items-center">
+                        <span className="text-white text-sm">{submission.teamName || 'Untitled team'}</span>
+                        {submission.conflicted ? (
+                          <span className="text-orange-400 text-xs">conflict</span>
+                        ) : submission.myScore && (
+                          <span className="text-green-400 text-xs">{submission.myScore.percentage}%</span>
+                        )}
+                      </div>
+                      <div className="text-gray-400 text-xs font-mono">{submission.registrationId}</div>
+                    </button>
+                  ))
+                )}
+              </div>
+            </div>
+
+            {/* Submission detail and scoring */}
+            <div className="lg:col-span-2 bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6">
+              {!selected || !rubric ? (
+                <p className="text-gray-400 text-center py-12">Select a submission to review it.</p>
+              ) : (
+                <motion.div key={selected.id} initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-6">
+                  <div>
+                    <h3 className="text-xl font-semibold text-white">{selected.teamName}</h3>
+                    <p className="text-gray-400 text-sm">
+                      {selected.collegeName} · <span className="font-mono">{selected.registrationId}</span>
+                      {selected.judgeCount > 0 && ` · ${selected.judgeCount} judge(s), average ${selected.points}%`}
+                    </p>
+                  </div>
+
+                  <div className="flex flex-wrap gap-3">
+                    {selected.fileUrl && (
+                      <a
+                        href={selected.fileUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="px-3 py-2 bg-white/5 rounded-lg text-purple-300 text-sm flex items-center hover:bg-white/10"
+                      >
+                        <FileText className="w-4 h-4 mr-2" />
+                        Presentation
+                      </a>
+                    )}
+                    {selected.youtubeLink && (
+                      <a
+                        href={selected.youtubeLink}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="px-3 py-2 bg-white/5 rounded-lg text-red-300 text-sm flex items-center hover:bg-white/10"
+                      >
+                        <Youtube className="w-4 h-4 mr-2" />
+                        Video
+                      </a>
+                    )}
+                  </div>
+
+                  <div>
+                    <h4 className="text-purple-300 text-sm font-semibold mb-1">Product Description</h4>
+                    <p className="text-gray-300 text-sm whitespace-pre-line">{selected.productDescription || 'N/A'}</p>
+                  </div>
+                  <div>
+                    <h4 className="text-purple-300 text-sm font-semibold mb-1">Solution</h4>
+                    <p className="text-gray-300 text-sm whitespace-pre-line">{selected.solution || 'N/A'}</p>
+                  </div>
+
+                  {selected.conflicted ? (
+                    <div className="border-t border-purple-500/20 pt-6 text-orange-400 text-sm flex items-center">
+                      <Ban className="w-4 h-4 mr-2" />
+                      You have a conflict of interest with this team and cannot score it.
+                    </div>
+                  ) : (
+                    <form onSubmit={handleSubmitScore} className="space-y-4 border-t border-purple-500/20 pt-6">
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        {rubric.criteria.map((criterion) => (
+                          <div key={criterion.id}>
+                            <label className="block text-gray-300 text-sm mb-1">
+                              {criterion.label}{' '}
+                              <span className="text-gray-500 text-xs">
+                                (0–{criterion.maxScore}{criterion.weight !== 1 && `, ×${criterion.weight}`})
+                              </span>
+                            </label>
+                            <input
+                              type="number"
+                              min="0"
+                              max={criterion.maxScore}
+                              step="0.5"
+                              value={scores[criterion.id] ?? ''}
+                              onChange={(e) => setScores({ ...scores, [criterion.id]: Number(e.target.value) })}
+                              className="w-full px-4 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white"
+                              required
+                            />
+                          </div>
+                        ))}
+                      </div>
+                      <div>
+                        <label className="block text-gray-300 text-sm mb-1">Comments for the team</label>
+                        <textarea
+                          value={comment}
+                          onChange={(e) => setComment(e.target.value)}
+                          rows={3}
+                          className="w-full px-4 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white"
+                        />
+                      </div>
+                      <motion.button
+                        type="submit"
+                        disabled={saving}
+                        whileHover={{ scale: 1.02 }}
+                        whileTap={{ scale: 0.98 }}
+                        className="px-6 py-2 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white disabled:opacity-50"
+                      >
+                        {saving ? 'Saving...' : selected.myScore ? 'Update Score' : 'Submit Score'}
+                      </motion.button>
+                      <button
+                        type="button"
+                        onClick={() => handleDeclareConflict(selected)}
+                        disabled={saving}
+                        className="ml-3 px-4 py-2 bg-orange-600/20 text-orange-400 rounded-lg text-sm hover:bg-orange-600/30"
+                      >
+                        Declare Conflict
+                      </button>
+                    </form>
+                  )}
+                </motion.div>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default JudgingConsole;
@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Users, RefreshCw, AlertTriangle, UserPlus, Save } from 'lucide-react';
+import {
+  fetchJudgingOverview,
+  saveJudgingSettings,
+  assignJudges,
+  requestReReview,
+  recomputeRankings,
+  JudgingSettings,
+  OverviewSubmission,
+} from '../../lib/judging';
+import ResultsPublishing from './ResultsPublishing';
+
+interface JudgingOverviewProps {
+  onMessage: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const JudgingOverview: React.FC<JudgingOverviewProps> = ({ onMessage, onError }) => {
+  const [settings, setSettings] = useState<JudgingSettings | null>(null);
+  const [submissions, setSubmissions] = useState<OverviewSubmission[]>([]);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const loadOverview = async () => {
+      try {
+        const overview = await fetchJudgingOverview();
+        setSettings(overview.settings);
+        setSubmissions(overview.submissions);
+      } catch (err) {
+        onError((err as Error).message);
+      }
+    };
+
+    loadOverview();
+  }, [refreshKey, onError]);
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    try {
+      onMessage(await action());
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      onError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAssign = () => run(async () => {
+    const summary = await assignJudges();
+    return `Assigned judges to ${summary.changed} submissions` +
+      (summary.understaffed.length ? ` · ${summary.understaffed.length} still short of judges` : '');
+  });
+
+  const handleSaveSettings = () => run(async () => {
+    if (!settings) return '';
+    await saveJudgingSettings(settings);
+    return 'Judging settings saved';
+  });
+
+  const handleRecompute = () => run(async () => {
+    const result = await recomputeRankings();
+    return `Recomputed ${result.updated} submissions using ${result.normalization} scores`;
+  });
+
+  const handleReReview = (submission: OverviewSubmission) => run(async () => {
+    await requestReReview(submission.id);
+    return `Added another judge to ${submission.teamName}`;
+  });
+
+  const ranked = [...submissions]
+    .filter((submission) => !flaggedOnly || submission.flagged)
+    .sort((a, b) => (b.points ?? -Infinity) - (a.points ?? -Infinity));
+
+  const inputClass = 'px-3 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm';
+
+  if (!settings) {
+    return (
+      <div className="flex justify-center py-12">
+        <RefreshCw className="w-8 h-8 text-purple-400 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <ResultsPublishing onMessage={onMessage} onError={onError} />
+
+      <div className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6">
+        <div className="flex flex-wrap gap-4 items-end">
+          <label className="text-gray-300 text-sm">
+            Judges per submission
+            <input
+              type="number"
+              min="1"
+              max="10"
+              value={settings.judgesPerSubmission}
+              onChange={(e) => setSettings({ ...settings, judgesPerSubmission: Number(e.target.value) })}
+              className={`${inputClass} block w-24 mt-1`}
+            />
+          </label>
+          <label className="text-gray-300 text-sm">
+            Ranking
+            <select
+              value={settings.normalization}
+              onChange={(e) => setSettings({ ...settings, normalization: e.target.value as JudgingSettings['normalization'] })}
+              className={`${inputClass} block mt-1`}
+            >
+              <option value="raw">Raw average</option>
+              <option value="zscore">Z-score per judge</option>
+            </select>
+          </label>
+          <label className="text-gray-300 text-sm">
+            Flag spread above
+            <input
+              type="number"
+              min="1"
+              value={settings.disagreementThreshold}
+              onChange={(e) => setSettings({ ...settings, disagreementThreshold: Number(e.target.value) })}
+              className={`${inputClass} block w-24 mt-1`}
+            />
+          </label>
+          <button
+            onClick={handleSaveSettings}
+            disabled={busy}
+            className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Save
+          </button>
+          <div className="flex-grow" />
+          <button
+            onClick={handleRecompute}
+            disabled={busy}
+            className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${busy ? 'animate-spin' : ''}`} />
+            Recompute
+          </button>
+          <motion.button
+            onClick={handleAssign}
+            disabled={busy}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className="px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white text-sm flex items-center"
+          >
+            <Users className="w-4 h-4 mr-2" />
+            Auto-assign Judges
+          </motion.button>
+        </div>
+        <p className="text-gray-500 text-xs mt-3">
+          Z-score mode compares each score with that judge's own average, reported on a 50 ± 10 scale.
+        </p>
+      </div>
+
+      <div className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-semibold text-white">Ranking &amp; Disagreement</h3>
+          <label className="text-gray-300 text-sm flex items-center">
+            <input
+              type="checkbox"
+              checked={flaggedOnly}
+              onChange={(e) => setFlaggedOnly(e.target.checked)}
+              className="mr-2"
+            />
+            Flagged only
+          </label>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-purple-500/20">
+                <th className="text-left py-3 px-4 text-gray-300">Team</th>
+                <th className="text-left py-3 px-4 text-gray-300">Judges</th>
+                <th className="text-left py-3 px-4 text-gray-300">Raw</th>
+                <th className="text-left py-3 px-4 text-gray-300">Z-score</th>
+                <th className="text-left py-3 px-4 text-gray-300">Spread</th>
+                <th className="text-left py-3 px-4 text-gray-300">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ranked.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="text-center py-8 text-gray-400">No submissions to show.</td>
+                </tr>
+              ) : (
+                ranked.map((submission, index) => (
+                  <tr
+                    key={submission.id}
+                    className={`border-b border-purple-500/10 ${index % 2 === 0 ? 'bg-purple-900/10' : ''}`}
+                  >
+                    <td className="py-3 px-4">
+                      <div className="text-white text-sm">{submission.teamName}</div>
+                      <div className="text-gray-400 text-xs">{submission.collegeName}</div>
+                    </td>
+                    <td className="py-3 px-4 text-xs text-gray-300">
+                      {submission.assignedJudges.length === 0 && <span className="text-yellow-400">Unassigned</span>}
+                      {submission.assignedJudges.map((judge) => {
+                        const score = submission.scores.find((entry) => entry.judgeUid === judge.uid);
+                        return (
+                          <div key={judge.uid}>
+                            {judge.email || judge.uid}:{' '}
+                            {score ? <span className="text-green-400">{score.percentage}%</span> : <span className="text-gray-500">pending</span>}
+                          </div>
+                        );
+                      })}
+                    </td>
+                    <td className="py-3 px-4 text-gray-300 text-sm">{submission.rawPoints ?? '—'}</td>
+                    <td className="py-3 px-4 text-gray-300 text-sm">{submission.normalizedPoints ?? '—'}</td>
+                    <td className="py-3 px-4 text-sm">
+                      <span className={submission.flagged ? 'text-red-400 flex items-center' : 'text-gray-300'}>
+                        {submission.flagged && <AlertTriangle className="w-4 h-4 mr-1" />}
+                        {submission.spread}
+                      </span>
+                    </td>
+                    <td className="py-3 px-4">
+                      <button
+                        onClick={() => handleReReview(submission)}
+                        disabled={busy}
+                        className="px-2 py-1 bg-purple-600/20 text-purple-300 rounded-lg text-xs flex items-center hover:bg-purple-600/30"
+                      >
+                        <UserPlus className="w-3 h-3 mr-1" />
+                        {submission.reReviewRequestedAt ? 'Add another judge' : 'Request re-review'}
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JudgingOverview;
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, AlertCircle } from 'lucide-react';
+import { DocumentData } from 'firebase/firestore';
+import {
+  issueRefund,
+  markPaymentDuplicate,
+  recordManualPayment,
+  refundManualPayment,
+  ManualPaymentMethod,
+  PaymentAdjustment,
+} from '../../lib/payments';
+
+export type AdjustmentTarget =
+  | { kind: 'refund'; payment: DocumentData; refundable: number }
+  | { kind: 'duplicate'; payment: DocumentData }
+  | { kind: 'manual'; team: DocumentData; amountDue: number }
+  | { kind: 'manual_refund'; entry: PaymentAdjustment; teamName: string; refundable: number };
+
+interface PaymentAdjustmentDialogProps {
+  target: AdjustmentTarget;
+  onClose: () => void;
+  onDone: (message: string) => void;
+}
+
+const METHOD_LABELS: Record<ManualPaymentMethod, string> = {
+  cash: 'Cash',
+  upi: 'UPI (screenshot)',
+  bank_transfer: 'Bank Transfer',
+  other: 'Other',
+};
+
+const TITLES = {
+  refund: 'Issue Refund',
+  duplicate: 'Mark as Duplicate',
+  manual: 'Record Offline Payment',
+  manual_refund: 'Refund Offline Payment',
+};
+
+const PaymentAdjustmentDialog: React.FC<PaymentAdjustmentDialogProps> = ({
+  target,
+  onClose,
+  onDone,
+}) => {
+  const [amount, setAmount] = useState(() => {
+    if (target.kind === 'refund' || target.kind === 'manual_refund') return String(target.refundable);
+    if (target.kind === 'manual') return String(target.amountDue);
+    return '';
+  });
+  const [reason, setReason] = useState('');
+  const [offline, setOffline] = useState(false);
+  const [method, setMethod] = useState<ManualPaymentMethod>('upi');
+  const [reference, setReference] = useState('');
+  const [evidenceUrl, setEvidenceUrl] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+
+    try {
+      if (target.kind === 'refund') {
+        await issueRefund(target.payment.id, { amount: Number(amount), reason, offline });
+        onDone(`Refund of ₹${amount} recorded for ${target.payment.buyerName || target.payment.id}`);
+      } else if (target.kind === 'manual_refund') {
+        await refundManualPayment(target.entry.id, { amount: Number(amount), reason });
+        onDone(`Refund of ₹${amount} recorded for ${target.teamName}`);
+      } else if (target.kind === 'duplicate') {
+        await markPaymentDuplicate(target.payment.id, reason);
+        onDone(`Payment ${target.payment.payment_id || target.payment.id} marked as duplicate`);
+      } else {
+        await recordManualPayment(target.team.id, {
+          amount: Number(amount),
+          method,
+          reference,
+          evidenceUrl,
+          note: reason,
+        });
+        onDone(`Offline payment of ₹${amount} recorded for ${target.team.teamName}`);
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-md">
+      <motion.form
+        onSubmit={handleSubmit}
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="relative w-full max-w-md bg-gradient-to-br from-purple-900/60 to-blue-900/60 rounded-xl p-6 border border-purple-500/20 space-y-4"
+      >
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute right-4 top-4 text-gray-400 hover:text-white"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <h3 className="text-xl font-semibold text-white">{TITLES[target.kind]}</h3>
+
+        <p className="text-gray-300 text-sm">
+          {target.kind === 'manual'
+            ? `${target.team.teamName} (${target.team.registrationId})`
+            : target.kind === 'manual_refund'
+              ? `${target.teamName} · ₹${target.entry.amount} · ${[target.entry.method, target.entry.reference].filter(Boolean).join(' · ')}`
+              : `${target.payment.buyerName || 'Unknown payer'} · ₹${target.payment.amount} · ${target.payment.payment_id || target.payment.id}`}
+        </p>
+
+        {target.kind === 'duplicate' ? (
+          <p className="text-yellow-300 text-sm bg-yellow-500/10 p-3 rounded-lg">
+            The payment stays on record but stops counting toward revenue. Refund it separately if the money should go back.
+          </p>
+        ) : (
+          <div>
+            <label className="block text-gray-300 mb-1 text-sm">
+              Amount (₹){(target.kind === 'refund' || target.kind === 'manual_refund') && ` · up to ₹${target.refundable}`}
+            </label>
+            <input
+              type="number"
+              min="1"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className={inputClass}
+              required
+            />
+          </div>
+        )}
+
+        {target.kind === 'manual' && (
+          <>
+            <div>
+              <label className="block text-gray-300 mb-1 text-sm">Collected via</label>
+              <select
+                value={method}
+                onChange={(e) => setMethod(e.target.value as ManualPaymentMethod)}
+                className={inputClass}
+              >
+                {Object.entries(METHOD_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-gray-300 mb-1 text-sm">Reference (UPI / receipt number)</label>
+              <input
+                type="text"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-gray-300 mb-1 text-sm">Screenshot / evidence link</label>
+              <input
+                type="url"
+                value={evidenceUrl}
+                onChange={(e) => setEvidenceUrl(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </>
+        )}
+
+        {target.kind === 'refund' && (
+          <label className="flex items-center text-gray-300 text-sm">
+            <input
+              type="checkbox"
+              checked={offline}
+              onChange={(e) => setOffline(e.target.checked)}
+              className="mr-2"
+            />
+            Refunded outside the gateway (cash / UPI)
+          </label>
+        )}
+
+        <div>
+          <label className="block text-gray-300 mb-1 text-sm">
+            {target.kind === 'refund' || target.kind === 'manual_refund' ? 'Reason' : 'Note'}
+          </label>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className={inputClass}
+            rows={2}
+            required={target.kind === 'refund' || target.kind === 'manual_refund'}
+          />
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-500/10 text-red-400 rounded-lg text-sm flex items-center">
+            <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 rounded-lg text-white text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white text-sm disabled:opacity-50"
+          >
+            {submitting ? 'Saving...' : 'Confirm'}
+          </button>
+        </div>
+      </motion.form>
+    </div>
+  );
+};
+
+export default PaymentAdjustmentDialog;
@@ -0,0 +1,432 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import {
+  FileText,
+  Youtube,
+  CheckCircle,
+  AlertCircle,
+  RefreshCw,
+  Search,
+  Settings,
+  Ban,
+  Download,
+} from 'lucide-react';
+import { Rubric } from '../../lib/judging';
+import {
+  fetchPhase2Rubric,
+  savePhase2Rubric,
+  fetchPhase2Submissions,
+  submitPhase2Review,
+  setPhase2Status,
+  fetchFinaleShortlist,
+  Phase2Status,
+  Phase2Submission,
+  PHASE2_STATUS_LABELS,
+  PHASE2_STATUS_COLORS,
+} from '../../lib/phase2';
+import RubricEditor from './RubricEditor';
+
+interface Phase2ReviewProps {
+  canManage: boolean;
+}
+
+type StatusFilter = Phase2Status | 'all';
+
+const Phase2Review: React.FC<Phase2ReviewProps> = ({ canManage }) => {
+  const [rubric, setRubric] = useState<Rubric | null>(null);
+  const [submissions, setSubmissions] = useState<Phase2Submission[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [comment, setComment] = useState('');
+  const [statusNote, setStatusNote] = useState('');
+  const [filter, setFilter] = useState<StatusFilter>('all');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showRubricEditor, setShowRubricEditor] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    const loadReviews = async () => {
+      try {
+        const [rubricData, submissionData] = await Promise.all([
+          fetchPhase2Rubric(),
+          fetchPhase2Submissions(),
+        ]);
+        setRubric(rubricData);
+        setSubmissions(submissionData);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReviews();
+  }, []);
+
+  const selected = submissions.find((submission) => submission.id === selectedId) || null;
+
+  const selectSubmission = (submission: Phase2Submission) => {
+    setSelectedId(submission.id);
+    setScores(submission.myReview?.scores || {});
+    setComment(submission.myReview?.comment || '');
+    setStatusNote(submission.statusNote || '');
+    setSuccess('');
+    setError('');
+  };
+
+  const updateSubmission = (id: string, changes: Partial<Phase2Submission>) => {
+    setSubmissions((current) => current.map((submission) =>
+      submission.id === id ? { ...submission, ...changes } : submission
+    ));
+  };
+
+  const run = async (action: () => Promise<string>) => {
+    setSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      setSuccess(await action());
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmitReview = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    run(async () => {
+      const saved = await submitPhase2Review(selected.id, scores, comment);
+      updateSubmission(selected.id, {
+        myReview: saved,
+        points: saved.points,
+        judgeCount: saved.judgeCount,
+        status: saved.status,
+      });
+      return `Review saved for ${selected.teamName} (${saved.percentage}%)`;
+    });
+  };
+
+  const handleStatus = (status: Phase2Status) => {
+    if (!selected) return;
+    run(async () => {
+      const update = await setPhase2Status(selected.id, status, statusNote);
+      updateSubmission(selected.id, update);
+      return `${selected.teamName} is now ${PHASE2_STATUS_LABELS[status].toLowerCase()}`;
+    });
+  };
+
+  const exportShortlist = () => run(async () => {
+    const teams = await fetchFinaleShortlist();
+    const escape = (value: unknown) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+    const maxMembers = Math.max(0, ...teams.map((team) => team.members.length));
+    const headers = [
+      'Position', 'Registration ID', 'Team Name', 'College', 'Phase 2 Points', 'Team Size',
+      ...Array.from({ length: maxMembers }, (_, i) => [
+        `Member ${i + 1} Name`, `Member ${i + 1} Email`, `Member ${i + 1} Phone`,
+      ]).flat(),
+      'Proposal', 'Product Video',
+    ];
+    const rows = teams.map((team, index) => [
+      index + 1,
+      team.registrationId,
+      team.teamName,
+      team.collegeName,
+      team.points,
+      team.teamSize,
+      ...Array.from({ length: maxMembers }, (_, i) => {
+        const member = team.members[i];
+        return [member?.name, member?.email, member?.phone];
+      }).flat(),
+      team.proposalUrl,
+      team.youtubeVideoUrl,
+    ].map(escape).join(','));
+
+    const blob = new Blob([[headers.join(','), ...rows].join('\n')], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `finale_shortlist_${new Date().toISOString().split('T')[0]}.csv`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    return `Exported ${teams.length} shortlisted teams`;
+  });
+
+  const visibleSubmissions = submissions
+    .filter((submission) => filter === 'all' || submission.status === filter)
+    .filter((submission) =>
+      !searchTerm ||
+      submission.teamName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      submission.registrationId.toLowerCase().includes(searchTerm.toLowerCase())
+    )
+    .sort((a, b) => (b.points ?? -Infinity) - (a.points ?? -Infinity));
+
+  const reviewedCount = submissions.filter((submission) => submission.myReview).length;
+  const shortlistedCount = submissions.filter((submission) => submission.status === 'shortlisted').length;
+  const decided = selected && ['shortlisted', 'rejected'].includes(selected.status);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <RefreshCw className="w-8 h-8 text-purple-400 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-8">
+        <div>
+          <h2 className="text-2xl font-bold gradient-text mb-2">Phase 2 Review</h2>
+          <p className="text-gray-300 text-sm">
+            You have reviewed {reviewedCount} of {submissions.length} proposals · {shortlistedCount} shortlisted
+          </p>
+        </div>
+        {canManage && rubric && (
+          <div className="flex gap-2">
+            <button
+              onClick={exportShortlist}
+              disabled={saving}
+              className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export Finale Shortlist
+            </button>
+            <button
+              onClick={() => setShowRubricEditor(!showRubricEditor)}
+              className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center"
+            >
+              <Settings className="w-4 h-4 mr-2" />
+              Edit Rubric
+            </button>
+          </div>
+        )}
+      </div>
+
+      {showRubricEditor && rubric && (
+        <div className="mb-8">
+          <RubricEditor
+            rubric={rubric}
+            save={savePhase2Rubric}
+            onSaved={(saved) => {
+              setRubric(saved);
+              setShowRubricEditor(false);
+              setSuccess('Phase 2 rubric updated');
+            }}
+          />
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-500/10 text-red-400 rounded-lg flex items-center">
+          <AlertCircle className="w-5 h-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 p-4 bg-green-500/10 text-green-400 rounded-lg flex items-center">
+          <CheckCircle className="w-5 h-5 mr-2" />
+          {success}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Submission list */}
+        <div className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-4">
+          <div className="relative mb-3">
+            <input
+              type="text"
+              placeholder="Search team or registration ID"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full px-4 py-2 bg-white/5 rounded-lg pl-10 focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm"
+            />
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+          </div>
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as StatusFilter)}
+            className="w-full mb-4 px-3 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm"
+          >
+            <option value="all">All statuses</option>
+            {(Object.keys(PHASE2_STATUS_LABELS) as Phase2Status[]).map((status) => (
+              <option key={status} value={status}>{PHASE2_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+          <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+            {visibleSubmissions.length === 0 ? (
+              <p className="text-gray-400 text-sm text-center py-6">Nothing here.</p>
+            ) : (
+              visibleSubmissions.map((submission) => (
+                <button
+                  key={submission.id}
+                  onClick={() => selectSubmission(submission)}
+                  className={`w-full text-left p-3 rounded-lg ${
+                    submission.id === selectedId ? 'bg-purple-600/30' : 'bg-black/30 hover:bg-white/5'
+                  }`}
+                >
+                  <div className="flex justify-between items-center">
+                    <span className="text-white text-sm">{submission.teamName || 'Untitled team'}</span>
+                    {submission.points !== null && (
+                      <span className="text-gray-300 text-xs">{submission.points}%</span>
+                    )}
+                  </div>
+                  <div className="flex justify-between text-xs">
+                    <span className="text-gray-400 font-mono">{submission.registrationId}</span>
+                    <span className={PHASE2_STATUS_COLORS[submission.status]}>{PHASE2_STATUS_LABELS[submission.status]}</span>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* Submission detail, review and decision */}
+        <div className="lg:col-span-2 bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6">
+          {!selected || !rubric ? (
+            <p className="text-gray-400 text-center py-12">Select a submission to review it.</p>
+          ) : (
+            <motion.div key={selected.id} initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-6">
+              <div>
+                <h3 className="text-xl font-semibold text-white">{selected.teamName}</h3>
+                <p className="text-gray-400 text-sm">
+                  {selected.collegeName} · <span className="font-mono">{selected.registrationId}</span>
+                  {selected.judgeCount > 0 && ` · ${selected.judgeCount} review(s), average ${selected.points}%`}
+                </p>
+                <p className={`text-sm mt-1 ${PHASE2_STATUS_COLORS[selected.status]}`}>
+                  {PHASE2_STATUS_LABELS[selected.status]}
+                </p>
+              </div>
+
+              <div className="flex flex-wrap gap-3">
+                {selected.proposalUrl && (
+                  <a
+                    href={selected.proposalUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="px-3 py-2 bg-white/5 rounded-lg text-purple-300 text-sm flex items-center hover:bg-white/10"
+                  >
+                    <FileText className="w-4 h-4 mr-2" />
+                    Business Proposal
+                  </a>
+                )}
+                {selected.youtubeVideoUrl && (
+                  <a
+                    href={selected.youtubeVideoUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="px-3 py-2 bg-white/5 rounded-lg text-red-300 text-sm flex items-center hover:bg-white/10"
+                  >
+                    <Youtube className="w-4 h-4 mr-2" />
+                    Product Video
+                  </a>
+                )}
+              </div>
+
+              {selected.conflicted ? (
+                <div className="border-t border-purple-500/20 pt-6 text-orange-400 text-sm flex items-center">
+                  <Ban className="w-4 h-4 mr-2" />
+                  You have a conflict of interest with this team and cannot review it.
+                </div>
+              ) : decided ? (
+                <p className="border-t border-purple-500/20 pt-6 text-gray-400 text-sm">
+                  A decision has been made on this submission, so reviews are closed.
+                </p>
+              ) : (
+                <form onSubmit={handleSubmitReview} className="space-y-4 border-t border-purple-500/20 pt-6">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    {rubric.criteria.map((criterion) => (
+                      <div key={criterion.id}>
+                        <label className="block text-gray-300 text-sm mb-1">
+                          {criterion.label}{' '}
+                          <span className="text-gray-500 text-xs">
+                            (0–{criterion.maxScore}{criterion.weight !== 1 && `, ×${criterion.weight}`})
+                          </span>
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          max={criterion.maxScore}
+                          step="0.5"
+                          value={scores[criterion.id] ?? ''}
+                          onChange={(e) => setScores({ ...scores, [criterion.id]: Number(e.target.value) })}
+                          className="w-full px-4 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white"
+                          required
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <div>
+                    <label className="block text-gray-300 text-sm mb-1">Reviewer notes</label>
+                    <textarea
+                      value={comment}
+                      onChange={(e) => setComment(e.target.value)}
+                      rows={3}
+                      className="w-full px-4 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white"
+                    />
+                  </div>
+                  <motion.button
+                    type="submit"
+                    disabled={saving}
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    className="px-6 py-2 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : selected.myReview ? 'Update Review' : 'Submit Review'}
+                  </motion.button>
+                </form>
+              )}
+
+              {canManage && (
+                <div className="space-y-3 border-t border-purple-500/20 pt-6">
+                  <h4 className="text-purple-300 text-sm font-semibold">Decision</h4>
+                  <textarea
+                    value={statusNote}
+                    onChange={(e) => setStatusNote(e.target.value)}
+                    rows={2}
+                    placeholder="Optional note shown to the team"
+                    className="w-full px-4 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm"
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => handleStatus('shortlisted')}
+                      disabled={saving}
+                      className="px-4 py-2 bg-green-600/20 text-green-400 rounded-lg text-sm hover:bg-green-600/30"
+                    >
+                      Shortlist for Finale
+                    </button>
+                    <button
+                      onClick={() => handleStatus('rejected')}
+                      disabled={saving}
+                      className="px-4 py-2 bg-red-600/20 text-red-400 rounded-lg text-sm hover:bg-red-600/30"
+                    >
+                      Reject
+                    </button>
+                    {decided && (
+                      <button
+                        onClick={() => handleStatus(selected.judgeCount > 0 ? 'under_review' : 'pending')}
+                        disabled={saving}
+                        className="px-4 py-2 bg-white/5 text-gray-300 rounded-lg text-sm"
+                      >
+                        Reopen
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </motion.div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Phase2Review;
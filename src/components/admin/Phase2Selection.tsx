@@ -0,0 +1,324 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { RefreshCw, AlertCircle, CheckCircle, Lock, Unlock, Eye } from 'lucide-react';
+import {
+  fetchSelection,
+  previewSelection,
+  commitSelection,
+  unlockSelection,
+  Phase2Selection as SavedSelection,
+  SelectionDraft,
+  SelectionPreview,
+} from '../../lib/selection';
+
+type Override = 'auto' | 'include' | 'exclude';
+
+const REASON_LABELS = {
+  cutoff: 'Cutoff',
+  included: 'Included manually',
+  excluded: 'Excluded manually',
+};
+
+const Phase2Selection: React.FC = () => {
+  const [selection, setSelection] = useState<SavedSelection | null>(null);
+  const [draft, setDraft] = useState<SelectionDraft | null>(null);
+  const [preview, setPreview] = useState<SelectionPreview | null>(null);
+  const [stale, setStale] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+  const [unlockReason, setUnlockReason] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const loadSelection = async () => {
+      try {
+        const { selection: saved, ...current } = await fetchSelection();
+        setSelection(saved);
+        setDraft({ cutoff: saved.cutoff, include: saved.include, exclude: saved.exclude });
+        setPreview(current);
+        setStale(false);
+      } catch (err) {
+        setError((err as Error).message);
+      }
+    };
+
+    loadSelection();
+  }, [refreshKey]);
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setError('');
+    setSuccess('');
+    try {
+      setSuccess(await action());
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateDraft = (changes: Partial<SelectionDraft>) => {
+    if (!draft) return;
+    setDraft({ ...draft, ...changes });
+    setStale(true);
+    setConfirming(false);
+  };
+
+  const overrideOf = (teamId: string): Override => {
+    if (draft?.include.includes(teamId)) return 'include';
+    if (draft?.exclude.includes(teamId)) return 'exclude';
+    return 'auto';
+  };
+
+  const setOverride = (teamId: string, override: Override) => {
+    if (!draft) return;
+    updateDraft({
+      include: override === 'include' ? [...draft.include, teamId] : draft.include.filter((id) => id !== teamId),
+      exclude: override === 'exclude' ? [...draft.exclude, teamId] : draft.exclude.filter((id) => id !== teamId),
+    });
+  };
+
+  const handlePreview = () => run(async () => {
+    if (!draft) return '';
+    const result = await previewSelection(draft);
+    setPreview(result);
+    setStale(false);
+    return `${result.selectedCount} teams would be selected`;
+  });
+
+  const handleCommit = () => run(async () => {
+    if (!draft) return '';
+    const result = await commitSelection(draft);
+    setSelection(result.selection);
+    setPreview(result);
+    setConfirming(false);
+    return `Selection locked with ${result.selectedCount} teams. Selection emails can now be sent from the Emails tab.`;
+  });
+
+  const handleUnlock = () => run(async () => {
+    setSelection(await unlockSelection(unlockReason));
+    setUnlockReason('');
+    return 'Selection unlocked. Team flags stay as committed until you commit again.';
+  });
+
+  const inputClass = 'px-3 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm';
+
+  if (!selection || !draft || !preview) {
+    return (
+      <div className="flex justify-center py-12">
+        {error ? (
+          <div className="p-4 bg-red-500/10 text-red-400 rounded-lg flex items-center">
+            <AlertCircle className="w-5 h-5 mr-2" />
+            {error}
+          </div>
+        ) : (
+          <RefreshCw className="w-8 h-8 text-purple-400 animate-spin" />
+        )}
+      </div>
+    );
+  }
+
+  const locked = selection.locked;
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold gradient-text mb-2">Phase 2 Selection</h2>
+        <p className="text-gray-300 text-sm">
+          Teams are ranked by Phase 1 points. Set a cutoff, override individual teams, preview, then commit to lock
+          the list the selection emails go to. Teams tied at a top-N cutoff are all selected.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-500/10 text-red-400 rounded-lg flex items-center">
+          <AlertCircle className="w-5 h-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 p-4 bg-green-500/10 text-green-400 rounded-lg flex items-center">
+          <CheckCircle className="w-5 h-5 mr-2" />
+          {success}
+        </div>
+      )}
+
+      <div className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6 mb-6">
+        {locked ? (
+          <div className="flex flex-wrap gap-4 items-center">
+            <div className="flex items-center text-green-400 text-sm flex-grow">
+              <Lock className="w-4 h-4 mr-2" />
+              Locked with {selection.selectedTeamIds.length} teams
+              {selection.committedBy && ` by ${selection.committedBy}`}
+              {selection.committedAt && ` on ${new Date(selection.committedAt).toLocaleString()}`}
+            </div>
+            <input
+              type="text"
+              value={unlockReason}
+              onChange={(e) => setUnlockReason(e.target.value)}
+              placeholder="Reason for unlocking"
+              className={`${inputClass} w-64`}
+            />
+            <button
+              onClick={handleUnlock}
+              disabled={busy || !unlockReason.trim()}
+              className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center disabled:opacity-50"
+            >
+              <Unlock className="w-4 h-4 mr-2" />
+              Unlock
+            </button>
+          </div>
+        ) : (
+          <div className="flex flex-wrap gap-4 items-end">
+            <label className="text-gray-300 text-sm">
+              Cutoff
+              <select
+                value={draft.cutoff.mode}
+                onChange={(e) => updateDraft({
+                  cutoff: { ...draft.cutoff, mode: e.target.value as SelectionDraft['cutoff']['mode'] },
+                })}
+                className={`${inputClass} block mt-1`}
+              >
+                <option value="top">Top N teams</option>
+                <option value="threshold">Minimum points</option>
+              </select>
+            </label>
+            <label className="text-gray-300 text-sm">
+              {draft.cutoff.mode === 'top' ? 'Teams' : 'Points'}
+              <input
+                type="number"
+                min="0"
+                step={draft.cutoff.mode === 'top' ? 1 : 0.01}
+                value={draft.cutoff.value}
+                onChange={(e) => updateDraft({ cutoff: { ...draft.cutoff, value: Number(e.target.value) } })}
+                className={`${inputClass} block w-28 mt-1`}
+              />
+            </label>
+            <button
+              onClick={handlePreview}
+              disabled={busy}
+              className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center"
+            >
+              <Eye className="w-4 h-4 mr-2" />
+              Preview
+            </button>
+            <div className="flex-grow" />
+            {confirming ? (
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-yellow-400">
+                  Select {preview.selectedCount} teams and lock the selection?
+                </span>
+                <button
+                  onClick={handleCommit}
+                  disabled={busy}
+                  className="px-4 py-2 bg-gradient-to-r from-green-600 to-emerald-600 rounded-lg text-white"
+                >
+                  Confirm
+                </button>
+                <button
+                  onClick={() => setConfirming(false)}
+                  className="px-4 py-2 bg-white/5 rounded-lg text-gray-300"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <motion.button
+                onClick={() => setConfirming(true)}
+                disabled={busy || stale}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                className="px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white text-sm flex items-center disabled:opacity-50"
+              >
+                <Lock className="w-4 h-4 mr-2" />
+                Commit &amp; Lock
+              </motion.button>
+            )}
+          </div>
+        )}
+        <p className="text-gray-500 text-xs mt-3">
+          {stale
+            ? 'The cutoff or overrides changed. Preview again before committing.'
+            : `${preview.selectedCount} selected` +
+              (preview.unpaidSelected.length ? ` · ${preview.unpaidSelected.length} of them have not paid` : '')}
+        </p>
+      </div>
+
+      <div className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-semibold text-white">Ranking</h3>
+          <button
+            onClick={() => setRefreshKey((key) => key + 1)}
+            disabled={busy}
+            className="p-2 text-gray-300 hover:bg-white/5 rounded-lg"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-purple-500/20">
+                <th className="text-left py-3 px-4 text-gray-300">Rank</th>
+                <th className="text-left py-3 px-4 text-gray-300">Team</th>
+                <th className="text-left py-3 px-4 text-gray-300">Points</th>
+                <th className="text-left py-3 px-4 text-gray-300">Status</th>
+                <th className="text-left py-3 px-4 text-gray-300">Override</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.teams.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="text-center py-8 text-gray-400">No teams registered yet.</td>
+                </tr>
+              ) : (
+                preview.teams.map((team, index) => (
+                  <tr
+                    key={team.id}
+                    className={`border-b border-purple-500/10 ${index % 2 === 0 ? 'bg-purple-900/10' : ''}`}
+                  >
+                    <td className="py-3 px-4 text-gray-300 font-mono text-sm">{team.rank ?? '—'}</td>
+                    <td className="py-3 px-4">
+                      <div className="text-white text-sm">{team.teamName}</div>
+                      <div className="text-gray-400 text-xs">
+                        {team.collegeName} · <span className="font-mono">{team.registrationId}</span>
+                        {!team.paid && <span className="text-yellow-400"> · unpaid</span>}
+                      </div>
+                    </td>
+                    <td className="py-3 px-4 text-gray-300 text-sm">
+                      {team.points ?? (team.submitted ? 'Not scored' : 'No submission')}
+                    </td>
+                    <td className="py-3 px-4 text-sm">
+                      <span className={team.selected ? 'text-green-400' : 'text-gray-500'}>
+                        {team.selected ? 'Selected' : 'Not selected'}
+                      </span>
+                      {team.reason && <div className="text-gray-500 text-xs">{REASON_LABELS[team.reason]}</div>}
+                    </td>
+                    <td className="py-3 px-4">
+                      <select
+                        value={overrideOf(team.id)}
+                        onChange={(e) => setOverride(team.id, e.target.value as Override)}
+                        disabled={locked}
+                        className={`${inputClass} disabled:opacity-50`}
+                      >
+                        <option value="auto">Use cutoff</option>
+                        <option value="include">Always include</option>
+                        <option value="exclude">Always exclude</option>
+                      </select>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Phase2Selection;
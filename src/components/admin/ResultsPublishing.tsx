@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import { Eye, EyeOff, Lock, RefreshCw } from 'lucide-react';
+import { ResultsPrivacy, saveResultsSettings, useResultsSettings } from '../../lib/scoreboard';
+
+interface ResultsPublishingProps {
+  onMessage: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+// Publishes the Phase 1 scoreboard to participants and sets its privacy mode
+const ResultsPublishing: React.FC<ResultsPublishingProps> = ({ onMessage, onError }) => {
+  const { results } = useResultsSettings();
+  const [privacy, setPrivacy] = useState<ResultsPrivacy>(results.privacy);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setPrivacy(results.privacy);
+  }, [results.privacy]);
+
+  const save = async (published: boolean) => {
+    setBusy(true);
+    try {
+      const saved = await saveResultsSettings(published, privacy);
+      onMessage(saved.published
+        ? `Published the scoreboard with ${saved.teamCount} ranked teams`
+        : 'Results withdrawn from participants');
+    } catch (err) {
+      onError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass = 'px-3 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm';
+
+  return (
+    <div className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6">
+      <div className="flex flex-wrap gap-4 items-end">
+        <div>
+          <h3 className="text-white font-semibold">Phase 1 results</h3>
+          <p className="text-gray-400 text-sm">
+            {results.published
+              ? `Published · ${results.teamCount} ranked teams`
+              : 'Not visible to participants'}
+          </p>
+        </div>
+        <label className="text-gray-300 text-sm flex items-center">
+          <input
+            type="checkbox"
+            checked={privacy.enabled}
+            onChange={(e) => setPrivacy({ ...privacy, enabled: e.target.checked })}
+            className="mr-2"
+          />
+          <Lock className="w-4 h-4 mr-1" />
+          Privacy mode
+        </label>
+        <label className="text-gray-300 text-sm">
+          Show scores for the top
+          <input
+            type="number"
+            min="1"
+            value={privacy.cutoffRank}
+            onChange={(e) => setPrivacy({ ...privacy, cutoffRank: Number(e.target.value) })}
+            disabled={!privacy.enabled}
+            className={`${inputClass} block w-24 mt-1`}
+          />
+        </label>
+        <div className="flex-grow" />
+        {results.published && (
+          <button
+            onClick={() => save(false)}
+            disabled={busy}
+            className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center"
+          >
+            <EyeOff className="w-4 h-4 mr-2" />
+            Withdraw
+          </button>
+        )}
+        <button
+          onClick={() => save(true)}
+          disabled={busy}
+          className="px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white text-sm flex items-center"
+        >
+          {busy ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <Eye className="w-4 h-4 mr-2" />}
+          {results.published ? 'Republish' : 'Publish'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ResultsPublishing;
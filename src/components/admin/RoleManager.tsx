@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { UserPlus, RefreshCw, AlertCircle, CheckCircle } from 'lucide-react';
+import { auth } from '../../lib/firebase';
+import { fetchRoleAssignments, assignRole, Role, RoleAssignment, ROLE_LABELS } from '../../lib/roles';
+
+const ROLE_OPTIONS = Object.keys(ROLE_LABELS) as Role[];
+
+const RoleManager: React.FC = () => {
+  const [assignments, setAssignments] = useState<RoleAssignment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>('judge');
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const loadAssignments = async () => {
+      setLoading(true);
+      try {
+        setAssignments(await fetchRoleAssignments());
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAssignments();
+  }, [refreshKey]);
+
+  const saveRole = async (targetEmail: string, targetRole: Role) => {
+    setSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      const assignment = await assignRole(targetEmail, targetRole);
+      setSuccess(`${assignment.email} is now ${ROLE_LABELS[assignment.role]}`);
+      setEmail('');
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'px-4 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm';
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold gradient-text mb-2">Roles</h2>
+        <p className="text-gray-300 text-sm">
+          Accounts without a role are participants. The account must have signed up before it can be given a role.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-500/10 text-red-400 rounded-lg flex items-center">
+          <AlertCircle className="w-5 h-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 p-4 bg-green-500/10 text-green-400 rounded-lg flex items-center">
+          <CheckCircle className="w-5 h-5 mr-2" />
+          {success}
+        </div>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          saveRole(email, role);
+        }}
+        className="flex flex-col md:flex-row gap-3 mb-8"
+      >
+        <input
+          type="email"
+          placeholder="Account email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className={`${inputClass} flex-grow`}
+          required
+        />
+        <select value={role} onChange={(e) => setRole(e.target.value as Role)} className={inputClass}>
+          {ROLE_OPTIONS.map((option) => (
+            <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+          ))}
+        </select>
+        <motion.button
+          type="submit"
+          disabled={saving}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          className="px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white text-sm flex items-center justify-center disabled:opacity-50"
+        >
+          <UserPlus className="w-4 h-4 mr-2" />
+          Assign Role
+        </motion.button>
+      </form>
+
+      <div className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <RefreshCw className="w-8 h-8 text-purple-400 animate-spin" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-purple-500/20">
+                  <th className="text-left py-3 px-4 text-gray-300">Email</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Role</th>
+                  <th className="text-left py-3 px-4 text-gray-300">Last Changed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {assignments.length === 0 ? (
+                  <tr>
+                    <td colSpan={3} className="text-center py-8 text-gray-400">
+                      No staff roles assigned yet.
+                    </td>
+                  </tr>
+                ) : (
+                  assignments.map((assignment, index) => (
+                    <tr
+                      key={assignment.uid}
+                      className={`border-b border-purple-500/10 ${index % 2 === 0 ? 'bg-purple-900/10' : ''}`}
+                    >
+                      <td className="py-3 px-4 text-white text-sm">{assignment.email}</td>
+                      <td className="py-3 px-4">
+                        <select
+                          value={assignment.role}
+                          onChange={(e) => saveRole(assignment.email, e.target.value as Role)}
+                          disabled={saving || assignment.uid === auth.currentUser?.uid}
+                          className={inputClass}
+                        >
+                          {ROLE_OPTIONS.map((option) => (
+                            <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-3 px-4 text-gray-400 text-xs">
+                        {new Date(assignment.updatedAt).toLocaleString()}
+                        {assignment.updatedBy && ` by ${assignment.updatedBy}`}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoleManager;
@@ -0,0 +1,226 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Save, AlertCircle, CheckCircle, XCircle, Lock } from 'lucide-react';
+import {
+  RosterMember,
+  RosterRequest,
+  RosterRequestStatus,
+  ROSTER_CHANGE_LABELS,
+  fetchRosterLock,
+  fetchRosterRequests,
+  decideRosterRequest,
+  saveRosterLock,
+} from '../../lib/roster';
+
+const STATUS_FILTERS: { value: RosterRequestStatus | ''; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: '', label: 'All' },
+];
+
+const STATUS_COLORS: Record<RosterRequestStatus, string> = {
+  pending: 'text-yellow-400',
+  approved: 'text-green-400',
+  rejected: 'text-red-400',
+};
+
+const describeMember = (member: RosterMember | null | undefined) =>
+  member ? `${member.name} · ${member.email} · ${member.phone}` : '—';
+
+const RosterRequests: React.FC = () => {
+  const [lockInput, setLockInput] = useState('');
+  const [savingLock, setSavingLock] = useState(false);
+  const [status, setStatus] = useState<RosterRequestStatus | ''>('pending');
+  const [requests, setRequests] = useState<RosterRequest[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [deciding, setDeciding] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    fetchRosterLock()
+      .then((lockAt) => setLockInput(lockAt ? format(lockAt, "yyyy-MM-dd'T'HH:mm") : ''))
+      .catch((err) => console.error('Error loading roster lock:', err));
+  }, []);
+
+  useEffect(() => {
+    const loadRequests = async () => {
+      setLoading(true);
+      try {
+        setRequests(await fetchRosterRequests(status));
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRequests();
+  }, [status, refreshKey]);
+
+  const handleSaveLock = async () => {
+    setSavingLock(true);
+    setError('');
+    setSuccess('');
+    try {
+      await saveRosterLock(lockInput ? new Date(lockInput).toISOString() : null);
+      setSuccess(lockInput ? 'Roster lock date saved.' : 'Roster lock removed. Teams can change members again.');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSavingLock(false);
+    }
+  };
+
+  const handleDecision = async (request: RosterRequest, approve: boolean) => {
+    setDeciding(request.id);
+    setError('');
+    setSuccess('');
+    try {
+      await decideRosterRequest(request.id, approve, notes[request.id] || '');
+      setSuccess(`${approve ? 'Approved' : 'Rejected'} the change for ${request.teamName}.`);
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  const inputClass = 'px-3 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm';
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold gradient-text mb-2">Team Changes</h2>
+        <p className="text-gray-300 text-sm">
+          Paid teams need approval to add, remove or replace a member. Approving applies the change to the team
+          as it is now and records any extra fee for a bigger team.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-500/10 text-red-400 rounded-lg flex items-center">
+          <AlertCircle className="w-5 h-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 p-4 bg-green-500/10 text-green-400 rounded-lg flex items-center">
+          <CheckCircle className="w-5 h-5 mr-2" />
+          {success}
+        </div>
+      )}
+
+      <div className="bg-black/30 rounded-lg p-4 mb-6 flex flex-wrap items-end gap-3">
+        <label className="text-gray-400 text-xs flex flex-col gap-1">
+          <span className="flex items-center">
+            <Lock className="w-3 h-3 mr-1" />
+            Lock team changes from
+          </span>
+          <input
+            type="datetime-local"
+            value={lockInput}
+            onChange={(e) => setLockInput(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={handleSaveLock}
+          disabled={savingLock}
+          className="px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white text-sm flex items-center disabled:opacity-50"
+        >
+          <Save className="w-4 h-4 mr-1" />
+          {savingLock ? 'Saving...' : 'Save Lock Date'}
+        </button>
+        <p className="text-gray-500 text-xs">Leave empty to keep team changes open.</p>
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        {STATUS_FILTERS.map((filter) => (
+          <button
+            key={filter.label}
+            onClick={() => setStatus(filter.value)}
+            className={`px-3 py-1 rounded-lg text-sm ${
+              status === filter.value ? 'bg-purple-600/30 text-white' : 'bg-white/5 text-gray-400 hover:text-gray-200'
+            }`}
+          >
+            {filter.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <p className="text-gray-400 text-sm">Loading requests...</p>
+      ) : requests.length === 0 ? (
+        <p className="text-gray-400 text-sm">No team change requests.</p>
+      ) : (
+        <div className="space-y-4">
+          {requests.map((request) => (
+            <div key={request.id} className="bg-black/30 rounded-lg p-4 space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <span className="text-white font-semibold">{request.teamName}</span>
+                  <span className="ml-2 text-gray-500 text-xs">{request.registrationId}</span>
+                </div>
+                <span className={`text-sm capitalize ${STATUS_COLORS[request.status]}`}>{request.status}</span>
+              </div>
+              <div className="grid md:grid-cols-2 gap-2 text-sm">
+                <p className="text-gray-300">
+                  <span className="text-purple-300">{ROSTER_CHANGE_LABELS[request.change.type]}</span>
+                  {' · '}team size {request.teamSizeBefore} → {request.teamSizeAfter}
+                  {request.feeDelta > 0 && <span className="text-yellow-400"> · +₹{request.feeDelta}</span>}
+                </p>
+                <p className="text-gray-400 md:text-right">
+                  {request.requestedBy} · {new Date(request.requestedAt).toLocaleString()}
+                </p>
+                {request.before && <p className="text-gray-400">Before: {describeMember(request.before)}</p>}
+                {request.change.member && <p className="text-gray-400">After: {describeMember(request.change.member)}</p>}
+              </div>
+
+              {request.status === 'pending' ? (
+                <div className="flex flex-wrap gap-2">
+                  <input
+                    type="text"
+                    value={notes[request.id] || ''}
+                    onChange={(e) => setNotes({ ...notes, [request.id]: e.target.value })}
+                    placeholder="Note for the team (optional)"
+                    className={`${inputClass} flex-grow`}
+                  />
+                  <button
+                    onClick={() => handleDecision(request, true)}
+                    disabled={deciding === request.id}
+                    className="px-4 py-2 bg-green-600/20 hover:bg-green-600/30 rounded-lg text-green-400 text-sm flex items-center disabled:opacity-50"
+                  >
+                    <CheckCircle className="w-4 h-4 mr-1" />
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => handleDecision(request, false)}
+                    disabled={deciding === request.id}
+                    className="px-4 py-2 bg-red-600/20 hover:bg-red-600/30 rounded-lg text-red-400 text-sm flex items-center disabled:opacity-50"
+                  >
+                    <XCircle className="w-4 h-4 mr-1" />
+                    Reject
+                  </button>
+                </div>
+              ) : (
+                <p className="text-gray-500 text-xs">
+                  {request.decidedBy} · {request.decidedAt && new Date(request.decidedAt).toLocaleString()}
+                  {request.note && ` · ${request.note}`}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RosterRequests;
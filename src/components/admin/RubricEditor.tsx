@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Save } from 'lucide-react';
+import { Rubric, RubricCriterion, saveRubric } from '../../lib/judging';
+
+interface RubricEditorProps {
+  rubric: Rubric;
+  onSaved: (rubric: Rubric) => void;
+  // Defaults to the Phase 1 rubric
+  save?: (criteria: RubricCriterion[]) => Promise<Rubric>;
+}
+
+const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onSaved, save = saveRubric }) => {
+  const [criteria, setCriteria] = useState<RubricCriterion[]>(rubric.criteria);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const updateCriterion = (index: number, changes: Partial<RubricCriterion>) => {
+    setCriteria(criteria.map((criterion, i) => (i === index ? { ...criterion, ...changes } : criterion)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      onSaved(await save(criteria));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'px-3 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm';
+
+  return (
+    <div className="bg-black/30 rounded-lg p-4 space-y-3">
+      <p className="text-gray-400 text-xs">
+        Changing the rubric applies to scores saved from now on; existing scores keep the rubric they were given with.
+      </p>
+      {criteria.map((criterion, index) => (
+        <div key={index} className="flex flex-wrap gap-2 items-center">
+          <input
+            type="text"
+            value={criterion.label}
+            onChange={(e) => updateCriterion(index, {
+              label: e.target.value,
+              ...(!rubric.criteria.some((c) => c.id === criterion.id) && {
+                id: e.target.value.toLowerCase().replace(/[^a-z0-9]+/g, '_'),
+              }),
+            })}
+            placeholder="Criterion"
+            className={`${inputClass} flex-grow`}
+          />
+          <label className="text-gray-400 text-xs flex items-center gap-1">
+            Max
+            <input
+              type="number"
+              min="1"
+              value={criterion.maxScore}
+              onChange={(e) => updateCriterion(index, { maxScore: Number(e.target.value) })}
+              className={`${inputClass} w-20`}
+            />
+          </label>
+          <label className="text-gray-400 text-xs flex items-center gap-1">
+            Weight
+            <input
+              type="number"
+              min="0.1"
+              step="0.1"
+              value={criterion.weight}
+              onChange={(e) => updateCriterion(index, { weight: Number(e.target.value) })}
+              className={`${inputClass} w-20`}
+            />
+          </label>
+          <button
+            type="button"
+            onClick={() => setCriteria(criteria.filter((_, i) => i !== index))}
+            className="p-2 text-red-400 hover:bg-red-500/10 rounded-lg"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      {error && <div className="text-red-400 text-sm">{error}</div>}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => setCriteria([...criteria, { id: '', label: '', maxScore: 10, weight: 1 }])}
+          className="px-3 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Criterion
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="px-3 py-2 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white text-sm flex items-center disabled:opacity-50"
+        >
+          <Save className="w-4 h-4 mr-1" />
+          {saving ? 'Saving...' : 'Save Rubric'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RubricEditor;
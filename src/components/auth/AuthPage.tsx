@@ -27,10 +27,12 @@ type AuthMode = 'signin' | 'signup' | 'forgot';
 
 interface AuthPageProps {
   onClose: () => void;
+  // Set when the visitor opened a team invite link
+  joiningTeam?: boolean;
 }
 
-const AuthPage: React.FC<AuthPageProps> = ({ onClose }) => {
-  const [mode, setMode] = useState<AuthMode>('signin');
+const AuthPage: React.FC<AuthPageProps> = ({ onClose, joiningTeam = false }) => {
+  const [mode, setMode] = useState<AuthMode>(joiningTeam ? 'signup' : 'signin');
   const [formData, setFormData] = useState({
     email: '',
     password: '',
@@ -184,6 +186,12 @@ const AuthPage: React.FC<AuthPageProps> = ({ onClose }) => {
                     : 'Reset Password'}
                 </h1>
 
+                {joiningTeam && mode !== 'forgot' && (
+                  <p className="mb-6 text-center text-purple-300 text-sm sm:text-base">
+                    You have been invited to a team. {mode === 'signup' ? 'Create an account' : 'Sign in'} to accept the invite.
+                  </p>
+                )}
+
                 {success && (
                   <motion.div
                     initial={{ opacity: 0, y: -10 }}
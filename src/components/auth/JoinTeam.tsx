@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Users, AlertCircle, ArrowRight } from 'lucide-react';
+import { previewInvite, acceptInvite, clearPendingInvite, InvitePreview } from '../../lib/teams';
+
+interface JoinTeamProps {
+  code: string;
+  onJoined: () => void;
+  onCancel: () => void;
+}
+
+const JoinTeam: React.FC<JoinTeamProps> = ({ code, onJoined, onCancel }) => {
+  const [invite, setInvite] = useState<InvitePreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadInvite = async () => {
+      try {
+        setInvite(await previewInvite(code));
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadInvite();
+  }, [code]);
+
+  const handleJoin = async () => {
+    setJoining(true);
+    setError('');
+    try {
+      await acceptInvite(code);
+      clearPendingInvite();
+      onJoined();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const handleCancel = () => {
+    clearPendingInvite();
+    onCancel();
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-purple-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-xl mx-auto p-4 sm:p-6 pt-20">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-black/40 backdrop-blur-xl rounded-xl p-6 sm:p-8 border border-purple-500/20 text-center"
+      >
+        <div className="w-16 h-16 bg-purple-500/20 rounded-full flex items-center justify-center mx-auto mb-6">
+          <Users className="w-8 h-8 text-purple-400" />
+        </div>
+
+        {invite ? (
+          <>
+            <h2 className="text-2xl sm:text-3xl font-bold gradient-text mb-2">Join {invite.teamName}</h2>
+            <p className="text-gray-300 mb-6">
+              {invite.leaderName ? `${invite.leaderName} invited you` : 'You have been invited'} to join their team
+              {invite.collegeName ? ` from ${invite.collegeName}` : ''}.
+            </p>
+            <p className="text-gray-400 text-sm mb-6">
+              {invite.openSlots > 0
+                ? `${invite.openSlots} of ${invite.teamSize} places still open`
+                : 'Every place on this team is taken.'}
+            </p>
+          </>
+        ) : (
+          <h2 className="text-2xl sm:text-3xl font-bold gradient-text mb-6">Team Invite</h2>
+        )}
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-500/10 text-red-400 rounded-lg flex items-center text-left text-sm">
+            <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-3 justify-center">
+          {invite && (
+            <motion.button
+              onClick={handleJoin}
+              disabled={joining}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              className={`px-6 py-3 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white font-semibold flex items-center justify-center ${
+                joining ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              {joining ? 'Joining...' : 'Join Team'}
+              <ArrowRight className="w-5 h-5 ml-2" />
+            </motion.button>
+          )}
+          <button
+            onClick={handleCancel}
+            className="px-6 py-3 bg-white/5 rounded-lg text-gray-300"
+          >
+            Register my own team instead
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default JoinTeam;
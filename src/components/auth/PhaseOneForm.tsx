@@ -15,6 +15,11 @@ import { doc, getDoc, setDoc, updateDoc, collection, query, where, getDocs, orde
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { db, storage } from '../../lib/firebase';
 import Scoreboard from '../Scoreboard';
+import { formatPoints, POINTS_SCALE_NOTE, useResultsSettings, useScoreboardEntry } from '../../lib/scoreboard';
+import { fetchPhase1Submission } from '../../lib/teams';
+import { useEventSchedule, isPhaseOpen, formatDeadline } from '../../lib/event';
+import { domains } from '../../data/domains';
+import { assertNoDuplicateParticipants } from '../../lib/duplicates';
 
 interface PhaseOneFormProps {
   userId: string;
@@ -25,6 +30,7 @@ const PhaseOneForm: React.FC<PhaseOneFormProps> = ({ userId, userName }) => {
   const [formData, setFormData] = useState({
     teamName: '',
     collegeName: '',
+    domain: domains[0],
     whatsappNumber: '',
     productDescription: '',
     solution: '',
@@ -39,8 +45,11 @@ const PhaseOneForm: React.FC<PhaseOneFormProps> = ({ userId, userName }) => {
   const [file, setFile] = useState<File | null>(null);
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [initialLoading, setInitialLoading] = useState(true);
-  const [results, setResults] = useState<any>(null);
-  const [showScoreboard, setShowScoreboard] = useState(false);
+  const { results } = useResultsSettings();
+  const scoreboardEntry = useScoreboardEntry(userId, results.published);
+  const { phase1 } = useEventSchedule();
+  const submissionsOpen = isPhaseOpen(phase1);
+  const deadlineLabel = phase1.closesAt ? formatDeadline(phase1.closesAt) : 'the announced deadline';
   const [showTemplates, setShowTemplates] = useState(false);
   const [recStudent, setRecStudent] = useState({
     rollNumber: '',
@@ -62,30 +71,14 @@ const PhaseOneForm: React.FC<PhaseOneFormProps> = ({ userId, userName }) => {
           }));
         }
 
-        // Check if results are published
-        const configDoc = await getDoc(doc(db, 'config', 'phase1Results'));
-        if (configDoc.exists() && configDoc.data()?.published) {
-          setShowScoreboard(true);
-        }
-
         // Then get submission data if it exists
-        const submissionDoc = await getDoc(doc(db, 'phase1_submissions', userId));
-        if (submissionDoc.exists()) {
-          const data = submissionDoc.data();
+        const submission = await fetchPhase1Submission();
+        if (submission) {
           setFormData(prev => ({
             ...prev,
-            ...data,
+            ...submission,
           }));
           setIsSubmitted(true);
-
-          // If results are published and submission has points, show results
-          if (configDoc.exists() && configDoc.data()?.published && data.points !== undefined) {
-            setResults({
-              points: data.points,
-              review: data.review,
-              reviewedAt: data.reviewedAt,
-            });
-          }
         }
 
         // Load REC student data if exists
@@ -125,6 +118,10 @@ const PhaseOneForm: React.FC<PhaseOneFormProps> = ({ userId, userName }) => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    if (!submissionsOpen) {
+      setError('Phase 1 submissions are closed');
+      return;
+    }
     setLoading(true);
 
     try {
@@ -184,6 +181,12 @@ const PhaseOneForm: React.FC<PhaseOneFormProps> = ({ userId, userName }) => {
 
   const handleRecStudentSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    try {
+      await assertNoDuplicateParticipants([{ rollNumber: recStudent.rollNumber }]);
+    } catch (err) {
+      setError((err as Error).message);
+      return;
+    }
     try {
       await setDoc(doc(db, 'rec_students', userId), recStudent);
       setSuccess('REC student details saved successfully!');
@@ -201,8 +204,9 @@ const PhaseOneForm: React.FC<PhaseOneFormProps> = ({ userId, userName }) => {
     window.open(templates[type], '_blank');
   };
 
+  // Scores come from the published scoreboard, never from the submission
   const renderResults = () => {
-    if (!results) return null;
+    if (!scoreboardEntry) return null;
 
     return (
       <motion.div
@@ -217,17 +221,26 @@ const PhaseOneForm: React.FC<PhaseOneFormProps> = ({ userId, userName }) => {
         
         <div className="space-y-6">
           <div className="flex items-center justify-between bg-purple-900/30 p-4 rounded-lg">
-            <span className="text-gray-300">Your Score:</span>
-            <span className="text-3xl font-bold gradient-text">{results.points}/100</span>
+            <span className="text-gray-300">Rank {scoreboardEntry.rank} · Your Score:</span>
+            <span className="text-3xl font-bold gradient-text">
+              {scoreboardEntry.points === null ? '—' : formatPoints(scoreboardEntry.points, results.normalization)}
+            </span>
           </div>
-          
-          <div className="bg-blue-900/30 p-4 rounded-lg">
-            <h4 className="text-lg font-semibold text-white mb-2">Reviewer's Feedback</h4>
-            <p className="text-gray-300">{results.review}</p>
-            <p className="text-gray-400 text-sm mt-4">
-              Reviewed on: {new Date(results.reviewedAt).toLocaleString()}
+          {scoreboardEntry.scoresHidden ? (
+            <p className="text-gray-400 text-sm">
+              Scores for teams outside the top {results.privacy.cutoffRank} are private.
             </p>
-          </div>
+          ) : (
+            <>
+              <p className="text-gray-400 text-sm">{POINTS_SCALE_NOTE[results.normalization]}</p>
+              {scoreboardEntry.review && (
+                <div className="bg-blue-900/30 p-4 rounded-lg">
+                  <h4 className="text-lg font-semibold text-white mb-2">Reviewer's Feedback</h4>
+                  <p className="text-gray-300">{scoreboardEntry.review}</p>
+                </div>
+              )}
+            </>
+          )}
         </div>
       </motion.div>
     );
@@ -315,8 +328,8 @@ const PhaseOneForm: React.FC<PhaseOneFormProps> = ({ userId, userName }) => {
   return (
     <div className="min-h-screen py-20 px-4">
       <div className="max-w-4xl mx-auto">
-        {results && renderResults()}
-        {showScoreboard && <Scoreboard />}
+        {renderResults()}
+        {results.published && <Scoreboard />}
         {!recStudent.rollNumber && renderRecStudentForm()}
         {renderTemplates()}
         
@@ -339,7 +352,7 @@ const PhaseOneForm: React.FC<PhaseOneFormProps> = ({ userId, userName }) => {
                 <p className="text-gray-300 text-sm">
                   {isSubmitted 
                     ? 'You can only update your YouTube video link after initial submission. All other fields are locked.'
-                    : 'Please submit your PPT presentation first. You can add your YouTube video link later, but it must be submitted by April 2nd, 2025.'}
+                    : `Please submit your PPT presentation first. You can add your YouTube video link later, but it must be submitted by ${deadlineLabel}.`}
                 </p>
               </div>
             </div>
@@ -353,7 +366,7 @@ const PhaseOneForm: React.FC<PhaseOneFormProps> = ({ userId, userName }) => {
                 <span className="text-green-400">Initial submission complete!</span>
               </div>
               <p className="text-gray-300 text-sm mt-2">
-                You can still update your YouTube video link until April 2nd, 2025.
+                You can still update your YouTube video link until {deadlineLabel}.
               </p>
             </div>
           )}
@@ -414,6 +427,20 @@ const PhaseOneForm: React.FC<PhaseOneFormProps> = ({ userId, userName }) => {
                 />
               </div>
 
+              <div>
+                <label className="block text-gray-300 mb-2">Domain</label>
+                <select
+                  value={formData.domain}
+                  onChange={(e) => !isSubmitted && setFormData({ ...formData, domain: e.target.value })}
+                  className="w-full px-4 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white"
+                  disabled={isSubmitted}
+                >
+                  {domains.map((domain) => (
+                    <option key={domain} value={domain}>{domain}</option>
+                  ))}
+                </select>
+              </div>
+
               <div>
                 <label className="block text-gray-300 mb-2">WhatsApp Number</label>
                 <input
@@ -490,7 +517,7 @@ const PhaseOneForm: React.FC<PhaseOneFormProps> = ({ userId, userName }) => {
                 YouTube Video Link
                 <span className="text-purple-400 ml-2 text-sm">
                   <Calendar className="w-4 h-4 inline mr-1" />
-                  Submit by April 2nd, 2025
+                  Submit by {deadlineLabel}
                 </span>
               </label>
               <div className="relative">
@@ -507,11 +534,11 @@ const PhaseOneForm: React.FC<PhaseOneFormProps> = ({ userId, userName }) => {
 
             <motion.button
               type="submit"
-              disabled={loading}
+              disabled={loading || !submissionsOpen}
               whileHover={{ scale: 1.02 }}
               whileTap={{ scale: 0.98 }}
               className={`w-full py-3 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white font-semibold flex items-center justify-center ${
-                loading ? 'opacity-70 cursor-not-allowed' : ''
+                loading || !submissionsOpen ? 'opacity-70 cursor-not-allowed' : ''
               }`}
             >
               {loading ? (
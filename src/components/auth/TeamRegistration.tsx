@@ -6,15 +6,27 @@ import {
   User,
   IndianRupee,
   Mail,
-  ExternalLink,
+  ArrowRight,
   ArrowLeft,
   CheckCircle,
   AlertCircle,
+  Tag,
+  Link2,
 } from 'lucide-react';
-import { doc, setDoc, getDoc, updateDoc, query, collection, where, getDocs } from 'firebase/firestore';
+import { doc, setDoc, getDoc, updateDoc } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
 import Countdown from 'react-countdown';
-import { generateUniqueId } from '../../lib/instamojo';
+import { useEventSchedule, isPhaseOpen } from '../../lib/event';
+import {
+  generateUniqueId,
+  fetchPaymentQuote,
+  createPaymentRequest,
+  isTeamPaymentSettled,
+  PaymentQuote,
+} from '../../lib/payments';
+import { INVITE_PARAM, TeamMember, emptyMember, isOpenSlot, membersForSize, sameMembers } from '../../lib/teams';
+import TeamInvitePanel from '../dashboard/TeamInvitePanel';
+import { assertNoDuplicateParticipants } from '../../lib/duplicates';
 
 interface TeamRegistrationProps {
   userId: string;
@@ -22,15 +34,8 @@ interface TeamRegistrationProps {
   onComplete?: () => void;
 }
 
-const REGISTRATION_DEADLINE = new Date('2025-03-22T21:00:00').getTime();
+// Only used for the estimate on the form; the server computes the amount charged
 const COST_PER_MEMBER = 250;
-const PAYMENT_PORTAL_URL = 'http://82.29.167.185:3000/';
-
-interface TeamMember {
-  name: string;
-  phone: string;
-  email: string;
-}
 
 const TeamRegistration: React.FC<TeamRegistrationProps> = ({
   userId,
@@ -41,8 +46,11 @@ const TeamRegistration: React.FC<TeamRegistrationProps> = ({
     teamName: '',
     collegeName: '', // Added college name field
     teamSize: 2,
-    members: Array(5).fill({ name: '', phone: '', email: '' } as TeamMember),
+    couponCode: '',
+    // The lead fills in their own details; everyone else joins by invite
+    members: [emptyMember()],
   });
+  const [inviteCode, setInviteCode] = useState('');
   const [isTimeUp, setIsTimeUp] = useState(false);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -54,6 +62,13 @@ const TeamRegistration: React.FC<TeamRegistrationProps> = ({
     'pending' | 'initiated' | 'paid'
   >('pending');
   const [initialLoading, setInitialLoading] = useState(true);
+  const [quote, setQuote] = useState<PaymentQuote | null>(null);
+  const { registration } = useEventSchedule();
+
+  // Organizers can extend or close registration while the page is open
+  useEffect(() => {
+    setIsTimeUp(!isPhaseOpen(registration));
+  }, [registration]);
 
   useEffect(() => {
     const loadTeamData = async () => {
@@ -70,8 +85,8 @@ const TeamRegistration: React.FC<TeamRegistrationProps> = ({
             teamName: data.teamName || '',
             collegeName: data.collegeName || '', // Added college name field
             teamSize: data.teamSize || 2,
-            members:
-              data.members || Array(5).fill({ name: '', phone: '', email: '' }),
+            couponCode: data.couponCode || '',
+            members: data.members?.length ? data.members : [emptyMember()],
           });
 
           if (data.registrationId) {
@@ -85,9 +100,13 @@ const TeamRegistration: React.FC<TeamRegistrationProps> = ({
           } else if (data.paymentStatus === 'initiated') {
             setPaymentStatus('initiated');
             setPaymentStep(2);
-            
-            // Check if payment is already marked as paid in payments collection
-            await checkPaymentInPaymentsCollection(data.members);
+            loadQuote();
+
+            if (data.paymentAmountMismatchAt && data.paymentAmountMismatchAt > data.paymentInitiatedAt) {
+              setError('Your payment did not match the registration fee. Please contact the organizers.');
+            } else if (data.paymentFailedAt && data.paymentFailedAt > data.paymentInitiatedAt) {
+              setError('Your last payment attempt failed. You have not been charged, please try again.');
+            }
           }
         } else {
           // Pre-fill first team member with current user data
@@ -118,40 +137,12 @@ const TeamRegistration: React.FC<TeamRegistrationProps> = ({
     loadTeamData();
   }, [userId]);
 
-  // Function to check if payment exists in payments collection by email
-  const checkPaymentInPaymentsCollection = async (members: TeamMember[]) => {
+  const loadQuote = async () => {
     try {
-      // Get all team member emails
-      const emails = members.filter(member => member.email).map(member => member.email);
-      
-      if (emails.length === 0) return;
-      
-      // Check payments collection for any document with matching email and paid status
-      for (const email of emails) {
-        const paymentsQuery = query(
-          collection(db, 'payments'),
-          where('email', '==', email),
-          where('status', '==', 'paid')
-        );
-        
-        const querySnapshot = await getDocs(paymentsQuery);
-        
-        if (!querySnapshot.empty) {
-          // Found a paid payment for this team member's email
-          // Update the team's payment status
-          const teamDocRef = doc(db, 'teams', userId);
-          await updateDoc(teamDocRef, {
-            paymentStatus: 'paid',
-            paymentCompletedAt: new Date().toISOString(),
-          });
-          
-          setIsSuccess(true);
-          setPaymentStatus('paid');
-          return;
-        }
-      }
-    } catch (error) {
-      console.error('Error checking payments collection:', error);
+      setQuote(await fetchPaymentQuote());
+    } catch (err) {
+      console.error('Error loading payment quote:', err);
+      setQuote(null);
     }
   };
 
@@ -175,34 +166,52 @@ const TeamRegistration: React.FC<TeamRegistrationProps> = ({
         throw new Error('College name is required'); // Added validation for college name
       }
 
-      const requiredMembers = teamData.members.slice(0, teamData.teamSize);
-      const isValidTeam = requiredMembers.every(
-        (member) =>
-          member.name.trim() && member.phone.trim() && member.email.trim()
-      );
-
-      if (!isValidTeam) {
-        throw new Error('Please fill in all team member details');
+      const lead = teamData.members[0];
+      if (!lead?.name.trim() || !lead.phone.trim() || !lead.email.trim()) {
+        throw new Error('Please fill in your details as team lead');
       }
 
+      // One person can only be on one team
+      await assertNoDuplicateParticipants(
+        teamData.members
+          .filter((member) => !isOpenSlot(member))
+          .map((member, index) => ({ ...member, uid: index === 0 ? userId : member.uid }))
+      );
+
       // Generate unique registration ID if not already exists
       const uniqueId = registrationId || generateUniqueId();
       setRegistrationId(uniqueId);
 
-      // Save team data
+      // Save team data; an existing team keeps its registration and payment fields
       const teamDocRef = doc(db, 'teams', userId);
-      await setDoc(teamDocRef, {
+      const teamDetails = {
         teamName: teamData.teamName,
         collegeName: teamData.collegeName, // Added college name field
-        teamSize: teamData.teamSize,
-        members: teamData.members.slice(0, teamData.teamSize),
-        createdAt: new Date().toISOString(),
-        userId,
-        registrationId: uniqueId,
-        paymentStatus: 'pending',
-      });
-
-      // Move to payment step
+        couponCode: teamData.couponCode.trim().toUpperCase() || null,
+      };
+      const members = membersForSize(teamData.members, teamData.teamSize);
+      const existingTeam = await getDoc(teamDocRef);
+      if (existingTeam.exists()) {
+        // Members change through the roster API, which keeps the lock date and history
+        const saved = existingTeam.data();
+        if (saved.teamSize !== teamData.teamSize || !sameMembers(saved.members || [], members)) {
+          throw new Error('Change your team members from the Team section of your dashboard.');
+        }
+        await updateDoc(teamDocRef, teamDetails);
+      } else {
+        await setDoc(teamDocRef, {
+          ...teamDetails,
+          teamSize: teamData.teamSize,
+          members,
+          createdAt: new Date().toISOString(),
+          userId,
+          registrationId: uniqueId,
+          paymentStatus: 'pending',
+        });
+      }
+
+      // Move to payment step with the fee as the server computes it
+      await loadQuote();
       setPaymentStep(2);
     } catch (err: any) {
       console.error('Submission error:', err);
@@ -214,21 +223,40 @@ const TeamRegistration: React.FC<TeamRegistrationProps> = ({
 
   const initiatePayment = async () => {
     setIsLoading(true);
+    setError('');
     try {
-      // Update payment status to initiated
-      const teamDocRef = doc(db, 'teams', userId);
-      await updateDoc(teamDocRef, {
-        paymentStatus: 'initiated',
-        paymentInitiatedAt: new Date().toISOString(),
-      });
+      const currentQuote = quote || (await fetchPaymentQuote());
+      setQuote(currentQuote);
+
+      const teamLead = teamData.members[0];
+      const result = await createPaymentRequest(
+        currentQuote.total,
+        `Startup Spark 2025 - ${registrationId}`,
+        teamLead.name,
+        teamLead.email,
+        teamLead.phone
+      );
+
+      if (!result.success) {
+        if (result.quote) {
+          setQuote(result.quote);
+        }
+        throw new Error(result.error);
+      }
+
+      if (result.waived) {
+        setIsSuccess(true);
+        setPaymentStatus('paid');
+        return;
+      }
 
       setPaymentStatus('initiated');
 
-      // Open payment portal in new tab
-      window.open(PAYMENT_PORTAL_URL, '_blank');
+      // Hand over to the gateway checkout; it redirects back to /payment/success
+      window.location.assign(result.payment_request!.longurl);
     } catch (err) {
       console.error('Error initiating payment:', err);
-      setError('Failed to initiate payment. Please try again.');
+      setError((err as Error).message || 'Failed to initiate payment. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -237,80 +265,18 @@ const TeamRegistration: React.FC<TeamRegistrationProps> = ({
   const checkPaymentStatus = async () => {
     setIsLoading(true);
     try {
-      // Check payment status directly in the teams collection
       const teamDocRef = doc(db, 'teams', userId);
       const teamDocSnap = await getDoc(teamDocRef);
 
-      if (teamDocSnap.exists()) {
-        const data = teamDocSnap.data();
-        
-        // Check for "paid" status (lowercase)
-        if (data.paymentStatus === 'paid') {
-          setIsSuccess(true);
-          setPaymentStatus('paid');
-          
-          // Redirect to Phase 1 form by reloading the page
-          window.location.reload();
-          return;
-        }
-        
-        // If not paid in teams collection, check if any team member's email 
-        // has a paid status in the payments collection
-        if (data.members && data.members.length > 0) {
-          const emails = data.members.filter((m: any) => m.email).map((m: any) => m.email);
-          
-          for (const email of emails) {
-            const paymentsQuery = query(
-              collection(db, 'payments'),
-              where('email', '==', email),
-              where('status', '==', 'paid')
-            );
-            
-            const querySnapshot = await getDocs(paymentsQuery);
-            
-            if (!querySnapshot.empty) {
-              // Found a paid payment for this team member's email
-              // Update the team's payment status
-              await updateDoc(teamDocRef, {
-                paymentStatus: 'paid',
-                paymentCompletedAt: new Date().toISOString(),
-              });
-              
-              setIsSuccess(true);
-              setPaymentStatus('paid');
-              
-              // Redirect to Phase 1 form by reloading the page
-              window.location.reload();
-              return;
-            }
-          }
-        }
-      }
-      
-      // Also check the payments collection as a fallback using userId
-      const paymentDocRef = doc(db, 'payments', userId);
-      const paymentDocSnap = await getDoc(paymentDocRef);
-
-      if (paymentDocSnap.exists()) {
-        const paymentData = paymentDocSnap.data();
-        
-        if (paymentData.status === 'paid') {
-          // If payment is confirmed in payments collection but not in teams collection,
-          // update the teams collection
-          await updateDoc(teamDocRef, {
-            paymentStatus: 'paid',
-            paymentCompletedAt: new Date().toISOString(),
-          });
-          
-          setIsSuccess(true);
-          setPaymentStatus('paid');
-          
-          // Redirect to Phase 1 form by reloading the page
-          window.location.reload();
-          return;
-        }
+      if (teamDocSnap.exists() && isTeamPaymentSettled(teamDocSnap.data())) {
+        setIsSuccess(true);
+        setPaymentStatus('paid');
+
+        // Redirect to Phase 1 form by reloading the page
+        window.location.reload();
+        return;
       }
-      
+
       // If we get here, payment is not confirmed
       setError(
         'Your payment has not been confirmed yet. Please try again later or contact support if you have already made the payment.'
@@ -365,6 +331,18 @@ const TeamRegistration: React.FC<TeamRegistrationProps> = ({
     setTeamData({ ...teamData, members: newMembers });
   };
 
+  const roster = membersForSize(teamData.members, teamData.teamSize);
+  const openSlots = roster.filter(isOpenSlot).length;
+  // The team cannot shrink below the members who have already joined
+  const minTeamSize = Math.max(2, teamData.members.filter((member) => !isOpenSlot(member)).length);
+
+  const handleJoinWithCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (inviteCode.trim()) {
+      window.location.assign(`/?${INVITE_PARAM}=${encodeURIComponent(inviteCode.trim())}`);
+    }
+  };
+
   if (initialLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -415,11 +393,15 @@ const TeamRegistration: React.FC<TeamRegistrationProps> = ({
             <p className="text-purple-400">
               Amount Paid:{' '}
               <span className="text-white">
-                ₹{teamData.teamSize * COST_PER_MEMBER}
+                ₹{teamDoc?.amountDue ?? quote?.total ?? teamData.teamSize * COST_PER_MEMBER}
               </span>
             </p>
           </div>
 
+          <div className="mb-8">
+            <TeamInvitePanel openSlots={openSlots} />
+          </div>
+
           <motion.div className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 p-4 sm:p-6 rounded-lg mb-8 text-sm sm:text-base">
             <h3 className="text-lg sm:text-xl font-bold text-white mb-4">Next Steps</h3>
             <p className="text-gray-300 mb-4">
@@ -483,15 +465,42 @@ const TeamRegistration: React.FC<TeamRegistrationProps> = ({
                 <p className="text-gray-300 mt-2 text-sm sm:text-base">
                   Register your team for the challenge
                 </p>
-                <div className="mt-4">
-                  <Countdown
-                    date={REGISTRATION_DEADLINE}
-                    renderer={countdownRenderer}
-                    onComplete={handleCountdownComplete}
-                  />
-                </div>
+                {registration.closesAt && (
+                  <div className="mt-4">
+                    <Countdown
+                      date={registration.closesAt}
+                      renderer={countdownRenderer}
+                      onComplete={handleCountdownComplete}
+                    />
+                  </div>
+                )}
               </div>
 
+              {!registrationId && (
+                <form
+                  onSubmit={handleJoinWithCode}
+                  className="flex flex-col sm:flex-row gap-3 items-stretch sm:items-center mb-8 bg-purple-900/20 rounded-lg p-4"
+                >
+                  <label className="text-gray-300 text-sm whitespace-nowrap flex items-center">
+                    <Link2 className="w-4 h-4 mr-2" />
+                    Joining a team?
+                  </label>
+                  <input
+                    type="text"
+                    value={inviteCode}
+                    onChange={(e) => setInviteCode(e.target.value)}
+                    placeholder="Enter the invite code from your team lead"
+                    className="flex-grow px-4 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm uppercase"
+                  />
+                  <button
+                    type="submit"
+                    className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm whitespace-nowrap"
+                  >
+                    Join Team
+                  </button>
+                </form>
+              )}
+
               <form onSubmit={handleSubmit} className="space-y-6">
                 <div>
                   <label className="block text-gray-300 mb-2 text-sm sm:text-base">Team Name</label>
@@ -552,7 +561,7 @@ const TeamRegistration: React.FC<TeamRegistrationProps> = ({
                       className="w-full px-4 py-3 bg-white/5 rounded-lg pl-10 focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm sm:text-base appearance-none"
                       required
                     >
-                      {[2, 3, 4, 5].map((size) => (
+                      {[2, 3, 4, 5].filter((size) => size >= minTeamSize).map((size) => (
                         <option key={size} value={size}>
                           {size} Members
                         </option>
@@ -567,69 +576,98 @@ const TeamRegistration: React.FC<TeamRegistrationProps> = ({
                   </div>
                   <p className="text-gray-400 mt-2 flex items-center text-sm sm:text-base">
                     <IndianRupee className="w-4 h-4 mr-1" />
-                    Total Cost: ₹{teamData.teamSize * COST_PER_MEMBER}
+                    Estimated Cost: ₹{teamData.teamSize * COST_PER_MEMBER}
                   </p>
                 </div>
 
-                {Array.from({ length: teamData.teamSize }).map((_, index) => (
+                <div>
+                  <label className="block text-gray-300 mb-2 text-sm sm:text-base">
+                    Coupon Code (optional)
+                  </label>
+                  <div className="relative">
+                    <input
+                      type="text"
+                      value={teamData.couponCode}
+                      onChange={(e) =>
+                        setTeamData({ ...teamData, couponCode: e.target.value })
+                      }
+                      className="w-full px-4 py-3 bg-white/5 rounded-lg pl-10 focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm sm:text-base uppercase"
+                    />
+                    <Tag className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                  </div>
+                </div>
+
+                <div className="space-y-4">
+                  <h3 className="text-white font-semibold flex items-center text-sm sm:text-base">
+                    <div className="bg-purple-500/20 rounded-full w-5 h-5 sm:w-6 sm:h-6 flex items-center justify-center text-purple-400 mr-2 sm:mr-3 flex-shrink-0">
+                      1
+                    </div>
+                    Team Lead
+                  </h3>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-gray-300 mb-2 text-sm sm:text-base">Name</label>
+                      <div className="relative">
+                        <input
+                          type="text"
+                          value={teamData.members[0]?.name || ''}
+                          onChange={(e) => handleInputChange(0, 'name', e.target.value)}
+                          className="w-full px-4 py-3 bg-white/5 rounded-lg pl-10 focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm sm:text-base"
+                          required
+                        />
+                        <User className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-gray-300 mb-2 text-sm sm:text-base">
+                        Phone Number
+                      </label>
+                      <div className="relative">
+                        <input
+                          type="tel"
+                          value={teamData.members[0]?.phone || ''}
+                          onChange={(e) => handleInputChange(0, 'phone', e.target.value)}
+                          className="w-full px-4 py-3 bg-white/5 rounded-lg pl-10 focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm sm:text-base"
+                          required
+                        />
+                        <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-gray-300 mb-2 text-sm sm:text-base">
+                        Email
+                      </label>
+                      <div className="relative">
+                        <input
+                          type="email"
+                          value={teamData.members[0]?.email || ''}
+                          onChange={(e) => handleInputChange(0, 'email', e.target.value)}
+                          className="w-full px-4 py-3 bg-white/5 rounded-lg pl-10 focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm sm:text-base"
+                          required
+                        />
+                        <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                      </div>
+                    </div>
+                  </div>
+                </div>
+
+                {roster.slice(1).map((member, offset) => (
                   <motion.div
-                    key={index}
-                    className="space-y-4"
+                    key={offset}
+                    className="flex items-center justify-between bg-white/5 rounded-lg px-4 py-3"
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: index * 0.1 }}
+                    transition={{ delay: offset * 0.1 }}
                   >
                     <h3 className="text-white font-semibold flex items-center text-sm sm:text-base">
                       <div className="bg-purple-500/20 rounded-full w-5 h-5 sm:w-6 sm:h-6 flex items-center justify-center text-purple-400 mr-2 sm:mr-3 flex-shrink-0">
-                        {index + 1}
+                        {offset + 2}
                       </div>
-                      {index === 0 ? 'Team Lead' : `Team Member ${index + 1}`}
+                      {isOpenSlot(member) ? `Team Member ${offset + 2}` : member.name}
                     </h3>
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                      <div>
-                        <label className="block text-gray-300 mb-2 text-sm sm:text-base">Name</label>
-                        <div className="relative">
-                          <input
-                            type="text"
-                            value={teamData.members[index]?.name || ''}
-                            onChange={(e) => handleInputChange(index, 'name', e.target.value)}
-                            className="w-full px-4 py-3 bg-white/5 rounded-lg pl-10 focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm sm:text-base"
-                            required
-                          />
-                          <User className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-                        </div>
-                      </div>
-                      <div>
-                        <label className="block text-gray-300 mb-2 text-sm sm:text-base">
-                          Phone Number
-                        </label>
-                        <div className="relative">
-                          <input
-                            type="tel"
-                            value={teamData.members[index]?.phone || ''}
-                            onChange={(e) => handleInputChange(index, 'phone', e.target.value)}
-                            className="w-full px-4 py-3 bg-white/5 rounded-lg pl-10 focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm sm:text-base"
-                            required
-                          />
-                          <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-                        </div>
-                      </div>
-                      <div>
-                        <label className="block text-gray-300 mb-2 text-sm sm:text-base">
-                          Email
-                        </label>
-                        <div className="relative">
-                          <input
-                            type="email"
-                            value={teamData.members[index]?.email || ''}
-                            onChange={(e) => handleInputChange(index, 'email', e.target.value)}
-                            className="w-full px-4 py-3 bg-white/5 rounded-lg pl-10 focus:ring-2 focus:ring-purple-500 outline-none text-white text-sm sm:text-base"
-                            required
-                          />
-                          <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-                        </div>
-                      </div>
-                    </div>
+                    <span className={`text-xs sm:text-sm ${isOpenSlot(member) ? 'text-gray-400' : 'text-green-400'}`}>
+                      {isOpenSlot(member) ? 'Joins with an invite link' : member.email}
+                    </span>
                   </motion.div>
                 ))}
 
@@ -723,19 +761,38 @@ const TeamRegistration: React.FC<TeamRegistrationProps> = ({
                   </span>
                 </div>
                 <div className="flex justify-between items-center mb-4 text-sm sm:text-base">
-                  <span className="text-gray-300">Cost per Member:</span>
+                  <span className="text-gray-300">
+                    Cost per Member{quote?.tier === 'early_bird' ? ' (Early Bird)' : ''}:
+                  </span>
                   <span className="text-white font-semibold">
-                    ₹{COST_PER_MEMBER}
+                    ₹{quote?.costPerMember ?? COST_PER_MEMBER}
                   </span>
                 </div>
+                {quote && quote.discount > 0 && (
+                  <div className="flex justify-between items-center mb-4 text-sm sm:text-base">
+                    <span className="text-gray-300">Coupon {quote.couponCode}:</span>
+                    <span className="text-green-400 font-semibold">
+                      -₹{quote.discount}
+                    </span>
+                  </div>
+                )}
+                {quote?.invalidCoupon && (
+                  <p className="text-yellow-400 text-xs sm:text-sm mb-4 text-left">
+                    Your coupon code is invalid or has expired and was not applied.
+                  </p>
+                )}
                 <div className="flex justify-between items-center pt-4 border-t border-purple-500/30 text-sm sm:text-base">
                   <span className="text-gray-300 text-base sm:text-lg">Total Amount:</span>
                   <span className="text-white font-bold text-lg sm:text-xl">
-                    ₹{teamData.teamSize * COST_PER_MEMBER}
+                    ₹{quote?.total ?? teamData.teamSize * COST_PER_MEMBER}
                   </span>
                 </div>
               </div>
 
+              <div className="mb-8">
+                <TeamInvitePanel openSlots={openSlots} />
+              </div>
+
               <div className="bg-blue-900/20 p-4 sm:p-6 rounded-lg mb-8">
                 <h3 className="text-lg sm:text-xl font-semibold text-white mb-4">
                   Payment Status
@@ -770,24 +827,25 @@ const TeamRegistration: React.FC<TeamRegistrationProps> = ({
                 <div className="space-y-4 text-sm sm:text-base">
                   {paymentStatus === 'pending' && (
                     <p className="text-gray-300">
-                      Click the "Pay Now" button below to proceed to our payment
-                      portal. You'll need to enter your Registration ID during
-                      payment.
+                      Click the "Pay Now" button below to continue to our secure
+                      payment gateway. You'll be brought back here once the
+                      payment is complete.
                     </p>
                   )}
 
                   {paymentStatus === 'initiated' && (
                     <p className="text-gray-300">
-                      Your payment has been initiated. If you haven't completed
-                      the payment yet, please continue on the payment portal.
-                      Once done, click "Check Payment Status".
+                      Your payment has been initiated. If you closed the payment
+                      page before finishing, click "Retry Payment". If you have
+                      already paid, click "Check Payment Status".
                     </p>
                   )}
 
                   <div className="bg-yellow-500/10 p-4 rounded-lg text-yellow-300 text-xs sm:text-sm">
                     <p>
-                      Important: Make sure to use your Registration ID during
-                      payment to ensure your payment is properly tracked.
+                      Your payment is linked to Registration ID {registrationId}.
+                      Please don't close the gateway page until you are
+                      redirected back.
                     </p>
                   </div>
                 </div>
@@ -849,22 +907,21 @@ const TeamRegistration: React.FC<TeamRegistrationProps> = ({
                       </span>
                     ) : (
                       <>
-                        Pay Now <ExternalLink className="w-4 h-4 ml-2" />
+                        Pay Now <ArrowRight className="w-4 h-4 ml-2" />
                       </>
                     )}
                   </motion.button>
                 ) : (
                   <>
-                    <motion.a
-                      href={PAYMENT_PORTAL_URL}
-                      target="_blank"
-                      rel="noopener noreferrer"
+                    <motion.button
+                      onClick={initiatePayment}
                       whileHover={{ scale: 1.05 }}
                       whileTap={{ scale: 0.95 }}
                       className="px-4 sm:px-6 py-2 sm:py-3 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white font-semibold flex items-center justify-center text-sm sm:text-base"
+                      disabled={isLoading}
                     >
-                      Continue Payment <ExternalLink className="w-4 h-4 ml-2" />
-                    </motion.a>
+                      Retry Payment <ArrowRight className="w-4 h-4 ml-2" />
+                    </motion.button>
 
                     <motion.button
                       onClick={checkPaymentStatus}
@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Award, CheckCircle, Circle, Download } from 'lucide-react';
+import { CheckInEvent, CHECK_IN_EVENT_LABELS } from '../../lib/checkin';
+import { EligibilityRules, fetchMyAttendance, fetchCertificate } from '../../lib/attendance';
+
+const EVENTS = Object.keys(CHECK_IN_EVENT_LABELS) as CheckInEvent[];
+
+const describeRules = (rules: EligibilityRules) => {
+  const required = rules.requiredEvents.map((event) => CHECK_IN_EVENT_LABELS[event]);
+  const parts = required.length > 0 ? [`attend ${required.join(' and ')}`] : [];
+  if (rules.minEvents > required.length) {
+    parts.push(`attend at least ${rules.minEvents} event${rules.minEvents === 1 ? '' : 's'}`);
+  }
+  return parts.join(' and ');
+};
+
+// The signed-in member's own attendance, and their certificate once they qualify
+const CertificatePanel: React.FC = () => {
+  const [attended, setAttended] = useState<CheckInEvent[]>([]);
+  const [rules, setRules] = useState<EligibilityRules | null>(null);
+  const [eligible, setEligible] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchMyAttendance()
+      .then((result) => {
+        setAttended(result.attended);
+        setRules(result.rules);
+        setEligible(result.eligible);
+      })
+      .catch((err) => setError((err as Error).message));
+  }, []);
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    setError('');
+    try {
+      const pdf = await fetchCertificate();
+      const url = URL.createObjectURL(pdf);
+      const link = document.createElement('a');
+      link.setAttribute('href', url);
+      link.setAttribute('download', 'startup-spark-certificate.pdf');
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6 mt-8"
+    >
+      <h3 className="text-2xl font-bold text-white mb-4 flex items-center">
+        <Award className="w-6 h-6 mr-2 text-yellow-400" />
+        Attendance & Certificate
+      </h3>
+
+      {error && <div className="mb-4 p-3 bg-red-500/10 text-red-400 rounded-lg text-sm">{error}</div>}
+
+      <div className="grid sm:grid-cols-3 gap-3 mb-4">
+        {EVENTS.map((event) => (
+          <div key={event} className="bg-black/30 rounded-lg p-3 flex items-center text-sm">
+            {attended.includes(event) ? (
+              <CheckCircle className="w-5 h-5 mr-2 text-green-400" />
+            ) : (
+              <Circle className="w-5 h-5 mr-2 text-gray-500" />
+            )}
+            <span className={attended.includes(event) ? 'text-white' : 'text-gray-400'}>
+              {CHECK_IN_EVENT_LABELS[event]}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {eligible ? (
+        <button
+          onClick={handleDownload}
+          disabled={downloading}
+          className="px-4 py-3 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white font-semibold flex items-center disabled:opacity-50"
+        >
+          <Download className="w-5 h-5 mr-2" />
+          {downloading ? 'Preparing...' : 'Download Certificate'}
+        </button>
+      ) : rules && (
+        <p className="text-gray-400 text-sm">Certificates are issued to participants who {describeRules(rules)}.</p>
+      )}
+    </motion.div>
+  );
+};
+
+export default CertificatePanel;
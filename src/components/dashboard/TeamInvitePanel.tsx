@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import { Link2, Copy, RefreshCw, CheckCircle } from 'lucide-react';
+import { fetchTeamInvite, rotateTeamInvite, inviteLink } from '../../lib/teams';
+
+interface TeamInvitePanelProps {
+  openSlots: number;
+}
+
+// Shown to the team lead: the link teammates use to join the team
+const TeamInvitePanel: React.FC<TeamInvitePanelProps> = ({ openSlots }) => {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const loadInvite = async () => {
+      try {
+        setCode(await fetchTeamInvite());
+      } catch (err) {
+        setError((err as Error).message);
+      }
+    };
+
+    loadInvite();
+  }, []);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteLink(code));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Error copying invite link:', err);
+    }
+  };
+
+  const handleRotate = async () => {
+    if (!window.confirm('Create a new invite link? The current link will stop working.')) return;
+    setBusy(true);
+    setError('');
+    try {
+      setCode(await rotateTeamInvite());
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-black/30 rounded-lg p-4 text-left">
+      <h4 className="text-white font-semibold flex items-center mb-1">
+        <Link2 className="w-5 h-5 mr-2 text-purple-400" />
+        Invite your team
+      </h4>
+      <p className="text-gray-400 text-sm mb-3">
+        {openSlots > 0
+          ? `${openSlots} open slot${openSlots === 1 ? '' : 's'}. Teammates sign up with this link and join your team.`
+          : 'Your team is full.'}
+      </p>
+
+      {error && <p className="text-red-400 text-sm mb-3">{error}</p>}
+
+      {code && (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            value={inviteLink(code)}
+            readOnly
+            onFocus={(e) => e.target.select()}
+            className="flex-grow px-3 py-2 bg-white/5 rounded-lg outline-none text-white text-sm font-mono"
+          />
+          <button
+            type="button"
+            onClick={handleCopy}
+            className="px-4 py-2 bg-purple-600/20 hover:bg-purple-600/30 rounded-lg text-purple-300 text-sm flex items-center justify-center"
+          >
+            {copied ? <CheckCircle className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+            {copied ? 'Copied' : 'Copy link'}
+          </button>
+          <button
+            type="button"
+            onClick={handleRotate}
+            disabled={busy}
+            className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm flex items-center justify-center"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${busy ? 'animate-spin' : ''}`} />
+            New link
+          </button>
+        </div>
+      )}
+      {code && <p className="text-gray-500 text-xs mt-2">Invite code: <span className="font-mono">{code}</span></p>}
+    </div>
+  );
+};
+
+export default TeamInvitePanel;
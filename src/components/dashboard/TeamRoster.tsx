@@ -0,0 +1,396 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { User, UserPlus, Pencil, Repeat, Trash2, Clock, History, Lock, IndianRupee } from 'lucide-react';
+import { db } from '../../lib/firebase';
+import { isOpenSlot } from '../../lib/teams';
+import {
+  RosterChangeType,
+  RosterMember,
+  RosterRequest,
+  RosterHistoryEntry,
+  ROSTER_CHANGE_LABELS,
+  fetchRosterLock,
+  fetchRosterHistory,
+  fetchTeamRosterRequests,
+  requestRosterChange,
+} from '../../lib/roster';
+import TeamInvitePanel from './TeamInvitePanel';
+
+interface TeamRosterProps {
+  teamId: string;
+  userId: string;
+}
+
+interface RosterTeam {
+  members: RosterMember[];
+  teamSize: number;
+  paymentStatus?: string;
+  isRECTeam?: boolean;
+  rosterFeeDue?: number;
+}
+
+interface Draft {
+  type: RosterChangeType;
+  index?: number;
+  member: RosterMember;
+}
+
+const MAX_TEAM_SIZE = 5;
+
+const emptyDraftMember = (): RosterMember => ({ name: '', email: '', phone: '', rollNumber: '', department: '', year: '' });
+
+const describeMember = (member: RosterMember | null) => (member ? member.name || member.email || 'Open slot' : 'Open slot');
+
+// Team members with the lead's roster controls, pending approvals and history
+const TeamRoster: React.FC<TeamRosterProps> = ({ teamId, userId }) => {
+  const [team, setTeam] = useState<RosterTeam | null>(null);
+  const [lockAt, setLockAt] = useState<Date | null>(null);
+  const [history, setHistory] = useState<RosterHistoryEntry[]>([]);
+  const [requests, setRequests] = useState<RosterRequest[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const isLeader = teamId === userId;
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      doc(db, 'teams', teamId),
+      (snapshot) => setTeam(snapshot.exists() ? (snapshot.data() as RosterTeam) : null),
+      (err) => {
+        console.error('Error loading team:', err);
+        setError('Failed to load your team');
+      }
+    );
+    return unsubscribe;
+  }, [teamId]);
+
+  useEffect(() => {
+    const loadRoster = async () => {
+      try {
+        const [lock, entries, pending] = await Promise.all([
+          fetchRosterLock(),
+          fetchRosterHistory(teamId),
+          isLeader ? fetchTeamRosterRequests(teamId) : Promise.resolve([]),
+        ]);
+        setLockAt(lock);
+        setHistory(entries);
+        setRequests(pending);
+      } catch (err) {
+        console.error('Error loading roster history:', err);
+      }
+    };
+
+    loadRoster();
+  }, [teamId, isLeader, refreshKey]);
+
+  if (!team) return null;
+
+  const members = team.members || [];
+  const isLocked = lockAt !== null && new Date() >= lockAt;
+  const isPaid = team.paymentStatus === 'paid';
+  const hasPending = requests.some((request) => request.status === 'pending');
+  const canEdit = isLeader && !isLocked;
+  const filledCount = members.filter((member) => !isOpenSlot(member)).length;
+  const canAdd = canEdit && (members.some((member, index) => index > 0 && isOpenSlot(member)) || members.length < MAX_TEAM_SIZE);
+
+  const startDraft = (type: RosterChangeType, index?: number) => {
+    setError('');
+    setMessage('');
+    const current = index !== undefined ? members[index] : undefined;
+    setDraft({
+      type,
+      index,
+      member: type === 'update' && current ? { ...emptyDraftMember(), ...current } : emptyDraftMember(),
+    });
+  };
+
+  const submitChange = async (change: Draft | { type: 'remove'; index: number }) => {
+    setBusy(true);
+    setError('');
+    setMessage('');
+    try {
+      const result = await requestRosterChange(change);
+      setDraft(null);
+      setMessage(result.status === 'pending'
+        ? `Sent to the organizers for approval${result.feeDelta > 0 ? `. The bigger team adds ₹${result.feeDelta} to your fee.` : '.'}`
+        : 'Team updated');
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = (index: number) => {
+    if (!window.confirm(`Remove ${describeMember(members[index])} from the team?`)) return;
+    submitChange({ type: 'remove', index });
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white';
+  const actionClass = 'p-2 bg-white/5 rounded-lg text-gray-300 hover:text-white disabled:opacity-40';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6 mb-8"
+    >
+      <h3 className="text-2xl font-bold text-white mb-4 flex items-center">
+        <User className="w-6 h-6 mr-2 text-blue-400" />
+        Team Members
+        <span className="ml-2 text-base font-normal text-gray-400">{filledCount}/{team.teamSize}</span>
+      </h3>
+
+      {isLocked ? (
+        <p className="mb-4 text-gray-400 text-sm flex items-center">
+          <Lock className="w-4 h-4 mr-2" />
+          Team changes closed on {lockAt?.toLocaleDateString()}.
+        </p>
+      ) : isLeader && (
+        <p className="mb-4 text-gray-400 text-sm">
+          {isPaid
+            ? 'Any change to your team now needs organizer approval.'
+            : 'You can change your team until you pay.'}
+          {lockAt && ` Changes close on ${lockAt.toLocaleDateString()}.`}
+        </p>
+      )}
+
+      {(team.rosterFeeDue ?? 0) > 0 && (
+        <div className="mb-4 p-4 bg-yellow-500/10 text-yellow-400 rounded-lg flex items-center text-sm">
+          <IndianRupee className="w-4 h-4 mr-2" />
+          Additional fee due for new members: ₹{team.rosterFeeDue}. The organizers will contact you about payment.
+        </div>
+      )}
+
+      {error && <div className="mb-4 p-4 bg-red-500/10 text-red-400 rounded-lg text-sm">{error}</div>}
+      {message && <div className="mb-4 p-4 bg-green-500/10 text-green-400 rounded-lg text-sm">{message}</div>}
+
+      {isLeader && members.some((member, index) => index > 0 && isOpenSlot(member)) && (
+        <div className="mb-6">
+          <TeamInvitePanel openSlots={members.filter((member, index) => index > 0 && isOpenSlot(member)).length} />
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {members.map((member, index) => (
+          <div key={index} className="bg-black/30 rounded-lg p-4 flex flex-col md:flex-row md:items-center gap-3">
+            <div className="flex-grow">
+              <h4 className="text-lg font-semibold text-white">
+                {index === 0 ? 'Team Lead' : `Member ${index + 1}`}
+                {member.uid === userId && <span className="ml-2 text-sm font-normal text-purple-300">You</span>}
+              </h4>
+              {isOpenSlot(member) ? (
+                <p className="text-gray-400 text-sm">Open · waiting for an invite</p>
+              ) : (
+                <p className="text-gray-300 text-sm">
+                  {member.name} · {member.email} · {member.phone}
+                  {member.rollNumber && ` · ${member.rollNumber}`}
+                  {team.isRECTeam && member.department && ` · ${member.department}`}
+                  {team.isRECTeam && member.year && ` · Year ${member.year}`}
+                </p>
+              )}
+            </div>
+            {canEdit && !isOpenSlot(member) && (
+              <div className="flex gap-2">
+                <button onClick={() => startDraft('update', index)} disabled={busy} className={actionClass} title="Edit details">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                {index > 0 && (
+                  <>
+                    <button
+                      onClick={() => startDraft('replace', index)}
+                      disabled={busy || (isPaid && hasPending)}
+                      className={actionClass}
+                      title="Replace member"
+                    >
+                      <Repeat className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRemove(index)}
+                      disabled={busy || (isPaid && hasPending)}
+                      className={actionClass}
+                      title="Remove member"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {canAdd && !draft && (
+        <button
+          onClick={() => startDraft('add')}
+          disabled={busy || (isPaid && hasPending)}
+          className="mt-4 px-4 py-2 bg-purple-600/20 hover:bg-purple-600/30 rounded-lg text-purple-300 text-sm flex items-center disabled:opacity-40"
+        >
+          <UserPlus className="w-4 h-4 mr-2" />
+          Add member
+        </button>
+      )}
+
+      {draft && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            submitChange(draft);
+          }}
+          className="mt-6 bg-black/30 rounded-lg p-4 space-y-4"
+        >
+          <h4 className="text-white font-semibold">
+            {draft.type === 'add' && 'Add a member'}
+            {draft.type === 'update' && `Edit ${describeMember(members[draft.index!])}`}
+            {draft.type === 'replace' && `Replace ${describeMember(members[draft.index!])}`}
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-gray-300 mb-1">Name</label>
+              <input
+                type="text"
+                value={draft.member.name}
+                onChange={(e) => setDraft({ ...draft, member: { ...draft.member, name: e.target.value } })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-gray-300 mb-1">Email</label>
+              <input
+                type="email"
+                value={draft.member.email}
+                onChange={(e) => setDraft({ ...draft, member: { ...draft.member, email: e.target.value } })}
+                className={inputClass}
+                disabled={draft.type === 'update'}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-gray-300 mb-1">Phone Number</label>
+              <input
+                type="tel"
+                value={draft.member.phone}
+                onChange={(e) => setDraft({ ...draft, member: { ...draft.member, phone: e.target.value } })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-gray-300 mb-1">Roll Number</label>
+              <input
+                type="text"
+                value={draft.member.rollNumber || ''}
+                onChange={(e) => setDraft({ ...draft, member: { ...draft.member, rollNumber: e.target.value } })}
+                className={inputClass}
+              />
+            </div>
+            {team.isRECTeam && (
+              <>
+                <div>
+                  <label className="block text-gray-300 mb-1">Department</label>
+                  <input
+                    type="text"
+                    value={draft.member.department || ''}
+                    onChange={(e) => setDraft({ ...draft, member: { ...draft.member, department: e.target.value } })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-gray-300 mb-1">Year</label>
+                  <select
+                    value={draft.member.year || ''}
+                    onChange={(e) => setDraft({ ...draft, member: { ...draft.member, year: e.target.value } })}
+                    className={inputClass}
+                  >
+                    <option value="">Select Year</option>
+                    <option value="1">1st Year</option>
+                    <option value="2">2nd Year</option>
+                    <option value="3">3rd Year</option>
+                    <option value="4">4th Year</option>
+                  </select>
+                </div>
+              </>
+            )}
+          </div>
+          {isPaid && (
+            <p className="text-gray-400 text-sm">This change will be sent to the organizers for approval.</p>
+          )}
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={busy}
+              className="px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white text-sm"
+            >
+              {busy ? 'Saving...' : isPaid ? 'Request Change' : 'Save'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="px-4 py-2 bg-white/5 rounded-lg text-gray-300 text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {requests.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-white font-semibold mb-2 flex items-center">
+            <Clock className="w-4 h-4 mr-2" />
+            Change requests
+          </h4>
+          <div className="space-y-2">
+            {requests.map((request) => (
+              <div key={request.id} className="bg-black/30 rounded-lg p-3 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-300">
+                    {ROSTER_CHANGE_LABELS[request.change.type]}{' '}
+                    {request.change.type === 'remove' ? describeMember(request.before) : describeMember(request.change.member ?? null)}
+                    {request.feeDelta > 0 && ` · +₹${request.feeDelta}`}
+                  </span>
+                  <span className={
+                    request.status === 'approved' ? 'text-green-400' : request.status === 'rejected' ? 'text-red-400' : 'text-yellow-400'
+                  }>
+                    {request.status}
+                  </span>
+                </div>
+                {request.note && <p className="text-gray-400 mt-1">{request.note}</p>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-white font-semibold mb-2 flex items-center">
+            <History className="w-4 h-4 mr-2" />
+            History
+          </h4>
+          <ul className="space-y-1 text-sm">
+            {history.map((entry) => (
+              <li key={entry.id} className="text-gray-400">
+                <span className="text-gray-300">{ROSTER_CHANGE_LABELS[entry.type]}</span>{' '}
+                {entry.type === 'replace'
+                  ? `${describeMember(entry.before)} → ${describeMember(entry.after)}`
+                  : describeMember(entry.type === 'remove' ? entry.before : entry.after)}
+                {' · '}{new Date(entry.createdAt).toLocaleString()}
+                {entry.actorEmail && ` · ${entry.actorEmail}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default TeamRoster;
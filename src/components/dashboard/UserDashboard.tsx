@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import {
   Trophy,
@@ -7,70 +7,63 @@ import {
   Download,
   CheckCircle,
   AlertCircle,
-  User,
   Clock,
 } from 'lucide-react';
 import { doc, getDoc, setDoc } from 'firebase/firestore';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { db, storage } from '../../lib/firebase';
+import { useEventSchedule, isPhaseOpen } from '../../lib/event';
+import { Phase2Status, PHASE2_STATUS_LABELS, PHASE2_STATUS_COLORS } from '../../lib/phase2';
+import { useResultsSettings, useScoreboardEntry, formatPoints, POINTS_SCALE_NOTE } from '../../lib/scoreboard';
+import { fetchPhase1Submission, Phase1Submission } from '../../lib/teams';
+import TeamRoster from './TeamRoster';
+import CertificatePanel from './CertificatePanel';
 
 interface UserDashboardProps {
+  // teams/{teamId} is keyed by the lead's uid; members who joined by invite
+  // view the same team with their own userId
+  teamId: string;
   userId: string;
   userName: string;
 }
 
-interface TeamMember {
-  name: string;
-  email: string;
-  phone: string;
-  rollNumber?: string;
-  department?: string;
-  year?: string;
-}
-
-const UserDashboard: React.FC<UserDashboardProps> = ({ userId, userName }) => {
+const UserDashboard: React.FC<UserDashboardProps> = ({ teamId, userId, userName }) => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
-  const [phase1Data, setPhase1Data] = useState<any>(null);
+  const [phase1Data, setPhase1Data] = useState<Phase1Submission | null>(null);
   const [phase2Data, setPhase2Data] = useState<any>(null);
   const [teamData, setTeamData] = useState<any>(null);
   const [businessProposal, setBusinessProposal] = useState<File | null>(null);
   const [youtubeVideoUrl, setYoutubeVideoUrl] = useState('');
-  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
   const [timeRemaining, setTimeRemaining] = useState('');
 
-  // Phase 2 submission deadline: April 2nd
-  const phase2Deadline = new Date('April 2, 2025 23:59:59').getTime();
-
-  useEffect(() => {
-    loadDashboardData();
-    startCountdown();
-  }, [userId]);
+  const { phase2 } = useEventSchedule();
+  const { results } = useResultsSettings();
+  const scoreboardEntry = useScoreboardEntry(teamId, results.published);
+  const phase2Deadline = phase2.closesAt?.getTime() ?? null;
+  // Only the team lead changes the roster and uploads submissions
+  const isLeader = teamId === userId;
 
-  const loadDashboardData = async () => {
+  const loadDashboardData = useCallback(async () => {
     try {
       setLoading(true);
 
       // Load Phase 1 submission data
-      const phase1Doc = await getDoc(doc(db, 'phase1_submissions', userId));
-      if (phase1Doc.exists()) {
-        setPhase1Data(phase1Doc.data());
-      }
+      setPhase1Data(await fetchPhase1Submission());
 
       // Load Phase 2 submission data
-      const phase2Doc = await getDoc(doc(db, 'phase2_submissions', userId));
+      const phase2Doc = await getDoc(doc(db, 'phase2_submissions', teamId));
       if (phase2Doc.exists()) {
         setPhase2Data(phase2Doc.data());
         setYoutubeVideoUrl(phase2Doc.data().youtubeVideoUrl || '');
       }
 
       // Load team data
-      const teamDoc = await getDoc(doc(db, 'teams', userId));
+      const teamDoc = await getDoc(doc(db, 'teams', teamId));
       if (teamDoc.exists()) {
         const team = teamDoc.data();
         setTeamData(team);
-        setTeamMembers(team.members || []);
       }
     } catch (err) {
       console.error('Error loading dashboard data:', err);
@@ -78,23 +71,37 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ userId, userName }) => {
     } finally {
       setLoading(false);
     }
-  };
-
-  const handleMemberUpdate = async (index: number, data: Partial<TeamMember>) => {
-    try {
-      const updatedMembers = [...teamMembers];
-      updatedMembers[index] = { ...updatedMembers[index], ...data };
-      setTeamMembers(updatedMembers);
+  }, [teamId]);
 
-      await setDoc(doc(db, 'teams', userId), {
-        members: updatedMembers,
-      });
+  useEffect(() => {
+    loadDashboardData();
+  }, [loadDashboardData]);
 
-      setSuccess('Team member details updated successfully');
-    } catch (err) {
-      setError('Failed to update team member details');
+  useEffect(() => {
+    if (phase2Deadline === null) {
+      setTimeRemaining('');
+      return;
     }
-  };
+
+    const interval = setInterval(() => {
+      const now = new Date().getTime();
+      const distance = phase2Deadline - now;
+
+      if (distance <= 0) {
+        clearInterval(interval);
+        setTimeRemaining('Submission Closed');
+      } else {
+        const days = Math.floor(distance / (1000 * 60 * 60 * 24));
+        const hours = Math.floor((distance % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
+        const minutes = Math.floor((distance % (1000 * 60 * 60)) / (1000 * 60));
+        const seconds = Math.floor((distance % (1000 * 60)) / 1000);
+
+        setTimeRemaining(`${days}d ${hours}h ${minutes}m ${seconds}s`);
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [phase2Deadline]);
 
   const handleProposalUpload = async () => {
     if (!businessProposal) return;
@@ -103,12 +110,12 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ userId, userName }) => {
       setLoading(true);
 
       // Upload proposal PDF
-      const fileRef = ref(storage, `proposals/${userId}_${businessProposal.name}`);
+      const fileRef = ref(storage, `proposals/${teamId}_${businessProposal.name}`);
       await uploadBytes(fileRef, businessProposal);
       const fileUrl = await getDownloadURL(fileRef);
 
       // Save proposal data
-      await setDoc(doc(db, 'phase2_submissions', userId), {
+      await setDoc(doc(db, 'phase2_submissions', teamId), {
         proposalUrl: fileUrl,
         youtubeVideoUrl,
         submittedAt: new Date().toISOString(),
@@ -124,28 +131,11 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ userId, userName }) => {
     }
   };
 
-  const startCountdown = () => {
-    const interval = setInterval(() => {
-      const now = new Date().getTime();
-      const distance = phase2Deadline - now;
-
-      if (distance <= 0) {
-        clearInterval(interval);
-        setTimeRemaining('Submission Closed');
-      } else {
-        const days = Math.floor(distance / (1000 * 60 * 60 * 24));
-        const hours = Math.floor((distance % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
-        const minutes = Math.floor((distance % (1000 * 60 * 60)) / (1000 * 60));
-        const seconds = Math.floor((distance % (1000 * 60)) / 1000);
-
-        setTimeRemaining(`${days}d ${hours}h ${minutes}m ${seconds}s`);
-      }
-    }, 1000);
-  };
+  const phase2Status: Phase2Status = phase2Data?.status || 'pending';
 
-  const isSubmissionClosed = () => {
-    return new Date().getTime() > phase2Deadline;
-  };
+  // Only selected teams submit, and once reviewing starts the submission can no longer be replaced
+  const isSelected = teamData?.phase2Selected === true;
+  const isSubmissionClosed = () => !isLeader || !isSelected || !isPhaseOpen(phase2) || phase2Status !== 'pending';
 
   const renderPhase1Status = () => (
     <motion.div
@@ -160,13 +150,28 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ userId, userName }) => {
 
       {phase1Data ? (
         <div className="space-y-4">
-          <div className="bg-purple-900/30 p-4 rounded-lg">
-            <div className="flex justify-between items-center mb-2">
-              <span className="text-gray-300">Score:</span>
-              <span className="text-2xl font-bold gradient-text">{phase1Data.points}/100</span>
+          {scoreboardEntry ? (
+            <div className="bg-purple-900/30 p-4 rounded-lg">
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-gray-300">Rank {scoreboardEntry.rank} · Score:</span>
+                <span className="text-2xl font-bold gradient-text">
+                  {scoreboardEntry.points === null ? '—' : formatPoints(scoreboardEntry.points, results.normalization)}
+                </span>
+              </div>
+              {scoreboardEntry.scoresHidden ? (
+                <p className="text-gray-400 text-xs">
+                  Scores for teams outside the top {results.privacy.cutoffRank} are private.
+                </p>
+              ) : (
+                <>
+                  <p className="text-gray-400 text-xs mb-2">{POINTS_SCALE_NOTE[results.normalization]}</p>
+                  <p className="text-gray-300">{scoreboardEntry.review}</p>
+                </>
+              )}
             </div>
-            <p className="text-gray-300">{phase1Data.review}</p>
-          </div>
+          ) : (
+            <p className="text-gray-400">Your score will appear here once the Phase 1 results are published.</p>
+          )}
 
           <div className="flex items-center text-green-400">
             <CheckCircle className="w-5 h-5 mr-2" />
@@ -179,106 +184,6 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ userId, userName }) => {
     </motion.div>
   );
 
-  const renderTeamMembers = () => (
-    <motion.div
-      initial={{ opacity: 0, y: 20 }}
-      animate={{ opacity: 1, y: 0 }}
-      className="bg-gradient-to-br from-purple-900/30 to-blue-900/30 backdrop-blur-xl rounded-xl p-6 mb-8"
-    >
-      <h3 className="text-2xl font-bold text-white mb-4 flex items-center">
-        <User className="w-6 h-6 mr-2 text-blue-400" />
-        Team Members
-      </h3>
-
-      <div className="space-y-6">
-        {teamMembers.map((member, index) => (
-          <div key={index} className="bg-black/30 rounded-lg p-4">
-            <h4 className="text-lg font-semibold text-white mb-3">
-              {index === 0 ? 'Team Lead' : `Member ${index + 1}`}
-            </h4>
-
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {/* Name */}
-              <div>
-                <label className="block text-gray-300 mb-1">Name</label>
-                <input
-                  type="text"
-                  value={member.name}
-                  onChange={(e) => handleMemberUpdate(index, { name: e.target.value })}
-                  className="w-full px-3 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white"
-                />
-              </div>
-
-              {/* Email */}
-              <div>
-                <label className="block text-gray-300 mb-1">Email</label>
-                <input
-                  type="email"
-                  value={member.email}
-                  onChange={(e) => handleMemberUpdate(index, { email: e.target.value })}
-                  className="w-full px-3 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white"
-                />
-              </div>
-
-              {/* Phone Number */}
-              <div>
-                <label className="block text-gray-300 mb-1">Phone Number</label>
-                <input
-                  type="tel"
-                  value={member.phone}
-                  onChange={(e) => handleMemberUpdate(index, { phone: e.target.value })}
-                  className="w-full px-3 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white"
-                />
-              </div>
-
-              {/* Roll Number */}
-              <div>
-                <label className="block text-gray-300 mb-1">Roll Number</label>
-                <input
-                  type="text"
-                  value={member.rollNumber || ''}
-                  onChange={(e) => handleMemberUpdate(index, { rollNumber: e.target.value })}
-                  className="w-full px-3 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white"
-                />
-              </div>
-
-              {/* Department */}
-              {teamData?.isRECTeam && (
-                <div>
-                  <label className="block text-gray-300 mb-1">Department</label>
-                  <input
-                    type="text"
-                    value={member.department || ''}
-                    onChange={(e) => handleMemberUpdate(index, { department: e.target.value })}
-                    className="w-full px-3 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white"
-                  />
-                </div>
-              )}
-
-              {/* Year */}
-              {teamData?.isRECTeam && (
-                <div>
-                  <label className="block text-gray-300 mb-1">Year</label>
-                  <select
-                    value={member.year || ''}
-                    onChange={(e) => handleMemberUpdate(index, { year: e.target.value })}
-                    className="w-full px-3 py-2 bg-white/5 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-white"
-                  >
-                    <option value="">Select Year</option>
-                    <option value="1">1st Year</option>
-                    <option value="2">2nd Year</option>
-                    <option value="3">3rd Year</option>
-                    <option value="4">4th Year</option>
-                  </select>
-                </div>
-              )}
-            </div>
-          </div>
-        ))}
-      </div>
-    </motion.div>
-  );
-
   const renderPhase2Submission = () => (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -295,8 +200,13 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ userId, userName }) => {
         <div className="bg-black/30 rounded-lg p-4">
           <h4 className="text-lg font-semibold text-white mb-3 flex items-center">
             <Clock className="w-5 h-5 mr-2" />
-            Time Remaining: {timeRemaining}
+            Time Remaining: {timeRemaining || 'TBA'}
           </h4>
+          {!isSelected ? (
+            <p className="text-gray-400 text-sm">Only teams selected for Phase 2 can submit.</p>
+          ) : !isLeader && (
+            <p className="text-gray-400 text-sm">Your team lead uploads the Phase 2 submission for the team.</p>
+          )}
         </div>
 
         {/* YouTube Video URL */}
@@ -364,6 +274,13 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ userId, userName }) => {
             <p className="text-gray-300 mt-2">
               Submitted on: {new Date(phase2Data.submittedAt).toLocaleString()}
             </p>
+            <p className="text-gray-300 mt-2">
+              Evaluation:{' '}
+              <span className={PHASE2_STATUS_COLORS[phase2Status]}>{PHASE2_STATUS_LABELS[phase2Status]}</span>
+            </p>
+            {phase2Data.statusNote && (
+              <p className="text-gray-400 text-sm mt-2 whitespace-pre-line">{phase2Data.statusNote}</p>
+            )}
           </div>
         )}
       </div>
@@ -403,9 +320,17 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ userId, userName }) => {
           </motion.div>
         )}
 
+        {!isLeader && teamData && teamData.paymentStatus !== 'paid' && (
+          <div className="mb-6 p-4 bg-yellow-500/10 text-yellow-400 rounded-lg flex items-center">
+            <AlertCircle className="w-5 h-5 mr-2" />
+            Your team lead has not completed the registration payment yet.
+          </div>
+        )}
+
         {renderPhase1Status()}
-        {renderTeamMembers()}
+        <TeamRoster teamId={teamId} userId={userId} />
         {renderPhase2Submission()}
+        {teamData?.paymentStatus === 'paid' && <CertificatePanel />}
       </div>
     </div>
   );
@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { CheckCircle, XCircle, AlertCircle, Clock, ArrowLeft } from 'lucide-react';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../../lib/firebase';
+import { parsePaymentReturn } from '../../lib/payments';
+
+interface PaymentReturnProps {
+  userId: string;
+}
+
+type ReturnState = 'verifying' | 'paid' | 'failed' | 'cancelled' | 'timeout';
+
+const POLL_INTERVAL_MS = 3000;
+// The webhook normally lands within seconds; stop polling after two minutes
+const MAX_POLLS = 40;
+
+const PaymentReturn: React.FC<PaymentReturnProps> = ({ userId }) => {
+  const { paymentId, paymentRequestId, outcome } = parsePaymentReturn(window.location.search);
+
+  const [state, setState] = useState<ReturnState>(outcome === 'pending' ? 'verifying' : outcome);
+  const [registrationId, setRegistrationId] = useState('');
+  const [pollKey, setPollKey] = useState(0);
+
+  useEffect(() => {
+    if (state !== 'verifying') return;
+
+    let polls = 0;
+    let stopped = false;
+
+    const checkStatus = async () => {
+      try {
+        const teamDoc = await getDoc(doc(db, 'teams', userId));
+        if (teamDoc.exists()) {
+          setRegistrationId(teamDoc.data().registrationId || '');
+          if (teamDoc.data().paymentStatus === 'paid') {
+            setState('paid');
+            return true;
+          }
+        }
+
+        if (paymentRequestId) {
+          const paymentDoc = await getDoc(doc(db, 'payments', paymentRequestId));
+          if (paymentDoc.exists() && paymentDoc.data().status === 'failed') {
+            setState('failed');
+            return true;
+          }
+        }
+      } catch (err) {
+        console.error('Error checking payment status:', err);
+      }
+
+      polls++;
+      if (polls >= MAX_POLLS) {
+        setState('timeout');
+        return true;
+      }
+      return false;
+    };
+
+    const interval = setInterval(async () => {
+      if (stopped) return;
+      if (await checkStatus()) {
+        stopped = true;
+        clearInterval(interval);
+      }
+    }, POLL_INTERVAL_MS);
+
+    checkStatus().then((done) => {
+      if (done) {
+        stopped = true;
+        clearInterval(interval);
+      }
+    });
+
+    return () => {
+      stopped = true;
+      clearInterval(interval);
+    };
+  }, [userId, paymentRequestId, state, pollKey]);
+
+  const returnToRegistration = () => {
+    window.location.replace('/');
+  };
+
+  const checkAgain = () => {
+    setState('verifying');
+    setPollKey((key) => key + 1);
+  };
+
+  const content = {
+    verifying: {
+      icon: (
+        <motion.div
+          animate={{ rotate: 360 }}
+          transition={{ duration: 2, repeat: Infinity, ease: 'linear' }}
+          className="w-10 h-10 border-4 border-blue-400 border-t-transparent rounded-full"
+        />
+      ),
+      tint: 'bg-blue-500/20',
+      title: 'Confirming your payment',
+      message: 'Hang tight while we confirm your payment with the gateway. This usually takes a few seconds.',
+    },
+    paid: {
+      icon: <CheckCircle className="w-10 h-10 text-green-500" />,
+      tint: 'bg-green-500/20',
+      title: 'Payment Confirmed!',
+      message: 'Your team registration is complete. You can now continue to Phase 1.',
+    },
+    failed: {
+      icon: <XCircle className="w-10 h-10 text-red-500" />,
+      tint: 'bg-red-500/20',
+      title: 'Payment Failed',
+      message: 'The payment did not go through and you have not been charged. Please try again.',
+    },
+    cancelled: {
+      icon: <AlertCircle className="w-10 h-10 text-yellow-400" />,
+      tint: 'bg-yellow-500/20',
+      title: 'Payment Cancelled',
+      message: 'The payment was not completed. You can restart it from your registration page whenever you are ready.',
+    },
+    timeout: {
+      icon: <Clock className="w-10 h-10 text-yellow-400" />,
+      tint: 'bg-yellow-500/20',
+      title: 'Still Processing',
+      message: 'We have not received confirmation from the gateway yet. If you were charged, your registration will update automatically once it arrives.',
+    },
+  }[state];
+
+  return (
+    <div className="max-w-xl mx-auto p-4 sm:p-6 pt-24">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-black/40 backdrop-blur-xl rounded-xl p-6 sm:p-8 border border-purple-500/20 text-center"
+      >
+        <motion.div
+          key={state}
+          initial={{ scale: 0 }}
+          animate={{ scale: 1 }}
+          className={`w-16 h-16 sm:w-20 sm:h-20 ${content.tint} rounded-full flex items-center justify-center mx-auto mb-6`}
+        >
+          {content.icon}
+        </motion.div>
+
+        <h2 className="text-2xl sm:text-3xl font-bold gradient-text mb-4">{content.title}</h2>
+        <p className="text-gray-300 mb-6 text-sm sm:text-base">{content.message}</p>
+
+        {registrationId && (
+          <div className="bg-purple-900/30 p-3 sm:p-4 rounded-lg inline-block mb-6">
+            <p className="text-white text-lg sm:text-xl font-mono">{registrationId}</p>
+            <p className="text-gray-400 text-xs sm:text-sm mt-1">Your Unique Registration ID</p>
+          </div>
+        )}
+
+        {paymentId && (
+          <p className="text-gray-500 text-xs font-mono mb-6">Payment ID: {paymentId}</p>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-4 justify-center">
+          {state === 'timeout' && (
+            <motion.button
+              onClick={checkAgain}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="px-6 py-3 bg-gray-700 rounded-lg text-white font-semibold"
+            >
+              Check Again
+            </motion.button>
+          )}
+
+          {state !== 'verifying' && (
+            <motion.button
+              onClick={returnToRegistration}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="px-6 py-3 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg text-white font-semibold flex items-center justify-center"
+            >
+              {state === 'paid' ? (
+                'Continue to Phase 1'
+              ) : (
+                <>
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back to Registration
+                </>
+              )}
+            </motion.button>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default PaymentReturn;
@@ -0,0 +1,11 @@
+// Problem domains a team files its Phase 1 idea under. The published
+// scoreboard can be filtered by these.
+export const domains = [
+  'Open Innovation',
+  'HealthTech',
+  'EdTech',
+  'FinTech',
+  'AgriTech',
+  'Sustainability',
+  'Smart Cities'
+];
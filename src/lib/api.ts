@@ -0,0 +1,12 @@
+import axios from 'axios';
+import { auth } from './firebase';
+
+// Authorization header for calls to our Express API
+export const authHeaders = async (): Promise<Record<string, string>> => {
+  const token = await auth.currentUser?.getIdToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+// Prefer the message the API sent back over a generic fallback
+export const serverError = (error: unknown, fallback: string): string =>
+  (axios.isAxiosError(error) && error.response?.data?.error) || fallback;
@@ -0,0 +1,134 @@
+import axios from 'axios';
+import { authHeaders, serverError } from './api';
+import { AttendanceMethod, CheckInEvent } from './checkin';
+
+export const ATTENDANCE_METHOD_LABELS: Record<AttendanceMethod, string> = {
+  qr: 'QR scan',
+  manual: 'Marked by organizer',
+  import: 'Imported list',
+};
+
+// Certificates need every required event and at least `minEvents` events
+export interface EligibilityRules {
+  requiredEvents: CheckInEvent[];
+  minEvents: number;
+  updatedBy?: string | null;
+  updatedAt?: string | null;
+}
+
+// Percentage of members present at each event
+export type AttendanceRates = Record<CheckInEvent, number>;
+
+export interface MemberAttendance {
+  memberIndex: number;
+  name: string;
+  email: string;
+  attended: Partial<Record<CheckInEvent, { checkedInAt: string; method: AttendanceMethod }>>;
+  eligible: boolean;
+}
+
+export interface TeamAttendance {
+  teamId: string;
+  teamName: string;
+  registrationId: string;
+  collegeName: string;
+  members: MemberAttendance[];
+  rates: AttendanceRates;
+  eligible: number;
+}
+
+export interface CollegeAttendance {
+  collegeName: string;
+  teams: number;
+  members: number;
+  rates: AttendanceRates;
+  eligible: number;
+}
+
+export interface AttendanceReport {
+  events: CheckInEvent[];
+  rules: EligibilityRules;
+  totals: { teams: number; members: number; rates: AttendanceRates; eligible: number };
+  colleges: CollegeAttendance[];
+  teams: TeamAttendance[];
+}
+
+export interface AttendanceImportResult {
+  recorded: number;
+  alreadyPresent: number;
+  unmatched: string[];
+  // On more than one paid team, so not recorded
+  ambiguous: string[];
+}
+
+export const fetchAttendanceReport = async (): Promise<AttendanceReport> => {
+  try {
+    const response = await axios.get('/api/attendance/report', { headers: await authHeaders() });
+    return response.data.report;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load the attendance report. Please try again later.'));
+  }
+};
+
+export const saveEligibilityRules = async (rules: EligibilityRules): Promise<EligibilityRules> => {
+  try {
+    const response = await axios.put('/api/attendance/rules', rules, { headers: await authHeaders() });
+    return response.data.rules;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not save the certificate rules. Please try again later.'));
+  }
+};
+
+export const markAttendance = async (
+  event: CheckInEvent,
+  teamId: string,
+  memberIndex: number,
+  email: string,
+  present: boolean
+): Promise<void> => {
+  try {
+    await axios.post('/api/attendance/mark', { event, teamId, memberIndex, email, present }, { headers: await authHeaders() });
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not update attendance. Please try again later.'));
+  }
+};
+
+// `text` is any list containing attendee emails, such as a meeting export
+export const importAttendance = async (event: CheckInEvent, text: string): Promise<AttendanceImportResult> => {
+  try {
+    const response = await axios.post('/api/attendance/import', { event, text }, { headers: await authHeaders() });
+    return {
+      recorded: response.data.recorded,
+      alreadyPresent: response.data.alreadyPresent,
+      unmatched: response.data.unmatched,
+      ambiguous: response.data.ambiguous
+    };
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not import attendance. Please try again later.'));
+  }
+};
+
+export const fetchMyAttendance = async (): Promise<{ attended: CheckInEvent[]; rules: EligibilityRules; eligible: boolean }> => {
+  try {
+    const response = await axios.get('/api/attendance/me', { headers: await authHeaders() });
+    return { attended: response.data.attended, rules: response.data.rules, eligible: response.data.eligible };
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load your attendance. Please try again later.'));
+  }
+};
+
+export const fetchCertificate = async (): Promise<Blob> => {
+  try {
+    const response = await axios.get('/api/attendance/certificate', {
+      headers: await authHeaders(),
+      responseType: 'blob',
+    });
+    return response.data;
+  } catch (error) {
+    // With a blob response type the API's JSON error arrives as a Blob too
+    const body = axios.isAxiosError(error) && error.response?.data instanceof Blob
+      ? await error.response.data.text().then(JSON.parse).catch(() => null)
+      : null;
+    throw new Error(body?.error || serverError(error, 'Could not download your certificate. Please try again later.'));
+  }
+};
@@ -0,0 +1,35 @@
+import axios from 'axios';
+import { authHeaders, serverError } from './api';
+
+export interface AuditEntry {
+  id: string;
+  action: string;
+  target: string;
+  actorEmail: string | null;
+  actorUid: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  diff: Record<string, { before: unknown; after: unknown }>;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export interface AuditFilters {
+  action?: string;
+  actor?: string;
+  target?: string;
+  from?: string;
+  to?: string;
+}
+
+export const fetchAuditLog = async (filters: AuditFilters = {}): Promise<AuditEntry[]> => {
+  try {
+    const response = await axios.get('/api/admin/audit-log', {
+      params: filters,
+      headers: await authHeaders()
+    });
+    return response.data.entries;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load the audit log. Please try again later.'));
+  }
+};
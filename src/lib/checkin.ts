@@ -0,0 +1,120 @@
+import axios from 'axios';
+import { authHeaders, serverError } from './api';
+
+export type CheckInEvent = 'workshop1' | 'workshop2' | 'finale';
+
+export const CHECK_IN_EVENT_LABELS: Record<CheckInEvent, string> = {
+  workshop1: 'Workshop 1 (online)',
+  workshop2: 'Workshop 2 (offline)',
+  finale: 'Grand Finale',
+};
+
+// One valid ticket; `hashes` are SHA-256s of the QR tokens that name this member
+export interface ManifestTicket {
+  hashes: string[];
+  teamId: string;
+  teamName: string;
+  registrationId: string;
+  collegeName: string;
+  memberIndex: number;
+  name: string;
+  email: string;
+  paid: boolean;
+  checkedInAt: string | null;
+}
+
+export interface CheckInManifest {
+  event: CheckInEvent;
+  generatedAt: string;
+  tickets: ManifestTicket[];
+}
+
+export interface TicketHolder {
+  teamId: string;
+  teamName: string;
+  registrationId: string;
+  collegeName: string;
+  memberIndex: number;
+  name: string;
+  email: string;
+}
+
+// How attendance was taken: scanned at the door, marked by an organizer or imported from a list
+export type AttendanceMethod = 'qr' | 'manual' | 'import';
+
+export interface Attendance {
+  event: CheckInEvent;
+  teamId: string;
+  teamName: string;
+  registrationId: string;
+  collegeName: string;
+  memberIndex: number;
+  member: { name: string; email: string };
+  method: AttendanceMethod;
+  checkedInAt: string;
+  checkedInBy: string | null;
+}
+
+export interface CheckInResult {
+  status: 'checked_in' | 'duplicate' | 'unpaid';
+  holder: TicketHolder;
+  attendance?: Attendance;
+}
+
+// A scan made without a connection, sent to the server once it is back
+export interface QueuedScan {
+  token: string;
+  hash: string;
+  event: CheckInEvent;
+  scannedAt: string;
+}
+
+// v2 lists every hash a member's ticket may carry
+const MANIFEST_KEY = 'checkin:manifest:v2:';
+const QUEUE_KEY = 'checkin:queue';
+
+export const hashTicket = async (token: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token.trim()));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// True when the request never reached the server, so the scan should be queued
+export const isNetworkError = (error: unknown): boolean =>
+  axios.isAxiosError(error) && !error.response;
+
+export const fetchCheckInManifest = async (event: CheckInEvent): Promise<CheckInManifest> => {
+  try {
+    const response = await axios.get('/api/checkin/manifest', { params: { event }, headers: await authHeaders() });
+    return response.data.manifest;
+  } catch (error) {
+    if (isNetworkError(error)) throw error;
+    throw new Error(serverError(error, 'Could not load the ticket list. Please try again later.'));
+  }
+};
+
+// Network failures are rethrown as they are so callers can queue the scan
+export const checkInTicket = async (token: string, event: CheckInEvent, scannedAt?: string): Promise<CheckInResult> => {
+  try {
+    const response = await axios.post('/api/checkin', { token, event, scannedAt }, { headers: await authHeaders() });
+    return { status: response.data.status, holder: response.data.holder, attendance: response.data.attendance };
+  } catch (error) {
+    if (isNetworkError(error)) throw error;
+    throw new Error(serverError(error, 'Could not check this ticket in. Please try again later.'));
+  }
+};
+
+// The manifest and queue live in localStorage so a reload while offline keeps them
+export const loadCachedManifest = (event: CheckInEvent): CheckInManifest | null => {
+  const saved = localStorage.getItem(MANIFEST_KEY + event);
+  return saved ? JSON.parse(saved) : null;
+};
+
+export const cacheManifest = (manifest: CheckInManifest) => {
+  localStorage.setItem(MANIFEST_KEY + manifest.event, JSON.stringify(manifest));
+};
+
+export const loadQueuedScans = (): QueuedScan[] => JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]');
+
+export const saveQueuedScans = (scans: QueuedScan[]) => {
+  localStorage.setItem(QUEUE_KEY, JSON.stringify(scans));
+};
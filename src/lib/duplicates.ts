@@ -0,0 +1,88 @@
+import axios from 'axios';
+import { authHeaders, serverError } from './api';
+
+export type ParticipantField = 'email' | 'phone' | 'rollNumber';
+
+export const PARTICIPANT_FIELD_LABELS: Record<ParticipantField, string> = {
+  email: 'Email',
+  phone: 'Phone',
+  rollNumber: 'Roll number',
+};
+
+export interface ParticipantDetails {
+  email?: string;
+  phone?: string;
+  rollNumber?: string;
+  // Set to the caller's own uid to include their REC roll number
+  uid?: string;
+}
+
+export interface ParticipantConflict {
+  field: ParticipantField;
+  value: string;
+  index: number;
+  message: string;
+}
+
+export interface DuplicateEntry {
+  teamId: string;
+  teamName: string;
+  registrationId: string;
+  paymentStatus: string;
+  index: number;
+  name: string;
+  email: string;
+  phone: string;
+  uid: string | null;
+}
+
+export interface DuplicateGroup {
+  key: string;
+  field: ParticipantField;
+  value: string;
+  entries: DuplicateEntry[];
+  resolution: { note: string | null; resolvedBy: string | null; resolvedAt: string } | null;
+}
+
+// Details in `members` that someone on another team already registered with
+const checkParticipants = async (members: ParticipantDetails[]): Promise<ParticipantConflict[]> => {
+  try {
+    const response = await axios.post('/api/teams/participants/check', { members }, { headers: await authHeaders() });
+    return response.data.conflicts;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not check your team details. Please try again later.'));
+  }
+};
+
+// Throws with every conflict listed so forms can show it as their error
+export const assertNoDuplicateParticipants = async (members: ParticipantDetails[]): Promise<void> => {
+  const conflicts = await checkParticipants(members);
+  if (conflicts.length > 0) {
+    throw new Error(`${conflicts.map((conflict) => conflict.message).join(' ')} Contact the organizers if this is a mistake.`);
+  }
+};
+
+export const fetchDuplicateReport = async (): Promise<DuplicateGroup[]> => {
+  try {
+    const response = await axios.get('/api/admin/duplicates', { headers: await authHeaders() });
+    return response.data.duplicates;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load duplicate registrations. Please try again later.'));
+  }
+};
+
+export const resolveDuplicate = async (key: string, note: string): Promise<void> => {
+  try {
+    await axios.post('/api/admin/duplicates/resolve', { key, note }, { headers: await authHeaders() });
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not resolve the duplicate. Please try again later.'));
+  }
+};
+
+export const mergeDuplicate = async (key: string, keepTeamId: string): Promise<void> => {
+  try {
+    await axios.post('/api/admin/duplicates/merge', { key, keepTeamId }, { headers: await authHeaders() });
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not merge the duplicate. Please try again later.'));
+  }
+};
@@ -0,0 +1,247 @@
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import { collection, limit, onSnapshot, orderBy, query, where } from 'firebase/firestore';
+import { db } from './firebase';
+import { authHeaders, serverError } from './api';
+
+export interface WorkshopDetails {
+  title: string;
+  date: string;
+  venue: string;
+}
+
+export type EmailJobStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'bounced';
+
+export interface EmailCampaign {
+  id: string;
+  kind: 'template';
+  title: string;
+  status: 'sending' | 'done';
+  total: number;
+  counts: { pending: number; sent: number; failed: number; bounced: number };
+  createdBy: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+// One queued message to one team member
+export interface EmailJob {
+  id: string;
+  campaignId: string;
+  teamId: string;
+  teamName: string;
+  registrationId: string;
+  memberIndex: number;
+  member: { name: string; email: string; phone: string };
+  status: EmailJobStatus;
+  attempts: number;
+  lastError: string | null;
+  sentAt: string | null;
+  updatedAt: string;
+}
+
+export interface EmailTemplateDraft {
+  name: string;
+  subject: string;
+  html: string;
+  // Attach each member's workshop e-ticket
+  attachTicket: boolean;
+}
+
+export interface EmailTemplate extends EmailTemplateDraft {
+  id: string;
+  // workshop_invite and phase2_selection ship with the app and cannot be removed
+  builtIn: boolean;
+  updatedBy?: string | null;
+  updatedAt?: string;
+}
+
+export type AudienceType = 'paid' | 'phase2_selected' | 'not_submitted' | 'college' | 'teams';
+
+export interface EmailAudience {
+  type: AudienceType;
+  college?: string;
+  teamIds?: string[];
+}
+
+export const AUDIENCE_LABELS: Record<AudienceType, string> = {
+  paid: 'All paid teams',
+  phase2_selected: 'Selected for Phase 2',
+  not_submitted: 'Paid, no Phase 1 submission',
+  college: 'Paid teams from a college',
+  teams: 'Teams listed below',
+};
+
+export interface EmailPreview {
+  subject: string;
+  html: string;
+}
+
+export const EMAIL_JOB_STATUS_COLORS: Record<EmailJobStatus, string> = {
+  pending: 'text-yellow-400',
+  sending: 'text-blue-400',
+  sent: 'text-green-400',
+  failed: 'text-red-400',
+  bounced: 'text-red-400',
+};
+
+// The latest campaigns, live as the email worker works through them
+export const useEmailCampaigns = (): { campaigns: EmailCampaign[]; loading: boolean } => {
+  const [campaigns, setCampaigns] = useState<EmailCampaign[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      query(collection(db, 'email_campaigns'), orderBy('createdAt', 'desc'), limit(20)),
+      (snapshot) => {
+        setCampaigns(snapshot.docs.map((campaign) => ({ id: campaign.id, ...campaign.data() }) as EmailCampaign));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error loading email campaigns:', err);
+        setLoading(false);
+      }
+    );
+    return unsubscribe;
+  }, []);
+
+  return { campaigns, loading };
+};
+
+export const useCampaignJobs = (campaignId: string | null): EmailJob[] => {
+  const [jobs, setJobs] = useState<EmailJob[]>([]);
+
+  useEffect(() => {
+    if (!campaignId) {
+      setJobs([]);
+      return;
+    }
+    const unsubscribe = onSnapshot(
+      query(collection(db, 'email_jobs'), where('campaignId', '==', campaignId)),
+      (snapshot) => {
+        setJobs(snapshot.docs
+          .map((job) => ({ id: job.id, ...job.data() }) as EmailJob)
+          .sort((a, b) => a.teamName.localeCompare(b.teamName) || a.memberIndex - b.memberIndex));
+      },
+      (err) => console.error('Error loading email jobs:', err)
+    );
+    return unsubscribe;
+  }, [campaignId]);
+
+  return jobs;
+};
+
+// Emails go out from the server; the browser never sees the SMTP credentials
+export const queueWorkshopInvites = async (teamIds: string[], workshop: WorkshopDetails): Promise<EmailCampaign> => {
+  try {
+    const response = await axios.post('/api/emails/workshop-invites', { teamIds, workshop }, {
+      headers: await authHeaders(),
+    });
+    return response.data.campaign;
+  } catch (error) {
+    throw new Error(serverError(error, 'Failed to queue invites. Please try again later.'));
+  }
+};
+
+export const queuePhase2SelectionEmails = async (): Promise<EmailCampaign> => {
+  try {
+    const response = await axios.post('/api/emails/phase2-selection', {}, { headers: await authHeaders() });
+    return response.data.campaign;
+  } catch (error) {
+    throw new Error(serverError(error, 'Failed to queue selection emails. Please try again later.'));
+  }
+};
+
+export const queueTemplateCampaign = async (
+  templateId: string,
+  audience: EmailAudience,
+  workshop: WorkshopDetails
+): Promise<EmailCampaign> => {
+  try {
+    const response = await axios.post('/api/emails/campaigns', { templateId, audience, workshop }, {
+      headers: await authHeaders(),
+    });
+    return response.data.campaign;
+  } catch (error) {
+    throw new Error(serverError(error, 'Failed to queue the campaign. Please try again later.'));
+  }
+};
+
+export const retryFailedEmails = async (campaignId: string): Promise<number> => {
+  try {
+    const response = await axios.post(`/api/emails/campaigns/${campaignId}/retry`, {}, {
+      headers: await authHeaders(),
+    });
+    return response.data.retried;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not retry the failed emails. Please try again later.'));
+  }
+};
+
+export const fetchEmailTemplates = async (): Promise<{ templates: EmailTemplate[]; mergeFields: string[] }> => {
+  try {
+    const response = await axios.get('/api/emails/templates', { headers: await authHeaders() });
+    return { templates: response.data.templates, mergeFields: response.data.mergeFields };
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load email templates. Please try again later.'));
+  }
+};
+
+// Pass a null id to create a new template
+export const saveEmailTemplate = async (templateId: string | null, template: EmailTemplateDraft): Promise<EmailTemplate> => {
+  try {
+    const response = await axios.put(`/api/emails/templates/${templateId ?? ''}`, { template }, {
+      headers: await authHeaders(),
+    });
+    return response.data.template;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not save the email template. Please try again later.'));
+  }
+};
+
+export const previewEmailTemplate = async (
+  template: EmailTemplateDraft,
+  teamId: string,
+  workshop: WorkshopDetails
+): Promise<EmailPreview> => {
+  try {
+    const response = await axios.post('/api/emails/templates/preview', { template, teamId, workshop }, {
+      headers: await authHeaders(),
+    });
+    return response.data.preview;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not render the preview. Please try again later.'));
+  }
+};
+
+// Sends the rendered template to the signed-in organizer only
+export const sendTestEmail = async (
+  template: EmailTemplateDraft,
+  teamId: string,
+  workshop: WorkshopDetails
+): Promise<string> => {
+  try {
+    const response = await axios.post('/api/emails/templates/test', { template, teamId, workshop }, {
+      headers: await authHeaders(),
+    });
+    return response.data.to;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not send the test email. Please try again later.'));
+  }
+};
+
+export const fetchETicket = async (teamId: string, memberIndex: number, workshop: WorkshopDetails): Promise<Blob> => {
+  try {
+    const response = await axios.post('/api/emails/e-ticket', { teamId, memberIndex, workshop }, {
+      headers: await authHeaders(),
+      responseType: 'blob',
+    });
+    return response.data;
+  } catch (error) {
+    // With a blob response type the API's JSON error arrives as a Blob too
+    const body = axios.isAxiosError(error) && error.response?.data instanceof Blob
+      ? await error.response.data.text().then(JSON.parse).catch(() => null)
+      : null;
+    throw new Error(body?.error || serverError(error, 'Could not generate the e-ticket. Please try again later.'));
+  }
+};
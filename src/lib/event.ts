@@ -0,0 +1,129 @@
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import { doc, onSnapshot, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { authHeaders, serverError } from './api';
+
+export type PhaseId = 'registration' | 'phase1' | 'results' | 'workshops' | 'phase2' | 'finale';
+
+export const PHASE_IDS: PhaseId[] = ['registration', 'phase1', 'results', 'workshops', 'phase2', 'finale'];
+
+export interface EventPhase {
+  title: string;
+  description: string;
+  opensAt: Date | null;
+  closesAt: Date | null;
+}
+
+export type EventSchedule = Record<PhaseId, EventPhase>;
+
+const ist = (value: string) => new Date(`${value}+05:30`);
+
+// Used until organizers save a schedule to config/event. Keep in sync with the
+// fallback dates in firestore.rules and storage.rules.
+export const DEFAULT_SCHEDULE: EventSchedule = {
+  registration: {
+    title: 'Registration',
+    description: 'Team registration and payment',
+    opensAt: ist('2025-03-04T00:00:00'),
+    closesAt: ist('2025-03-22T21:00:00'),
+  },
+  phase1: {
+    title: 'Phase - 1',
+    description: 'Pitching video and ppt submission',
+    opensAt: ist('2025-03-04T00:00:00'),
+    closesAt: ist('2025-04-02T23:59:59'),
+  },
+  results: {
+    title: 'Result of Phase 1',
+    description: 'ticket to entry for phase 2',
+    opensAt: null,
+    closesAt: null,
+  },
+  workshops: {
+    title: 'Workshops',
+    description: 'Workshop 1 online, Workshop 2 offline',
+    opensAt: null,
+    closesAt: null,
+  },
+  phase2: {
+    title: 'Phase 2',
+    description: 'Proposal and final product video submission',
+    opensAt: ist('2025-03-20T00:00:00'),
+    closesAt: ist('2025-04-02T23:59:59'),
+  },
+  finale: {
+    title: 'Grand finale',
+    description: 'Offline',
+    opensAt: ist('2025-04-04T00:00:00'),
+    closesAt: null,
+  },
+};
+
+const toDate = (value: unknown): Date | null =>
+  value instanceof Timestamp ? value.toDate() : null;
+
+// Live event schedule; updates as soon as organizers save a change
+export const useEventSchedule = (): EventSchedule => {
+  const [schedule, setSchedule] = useState<EventSchedule>(DEFAULT_SCHEDULE);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      doc(db, 'config', 'event'),
+      (snapshot) => {
+        const phases = snapshot.exists() ? snapshot.data().phases || {} : {};
+        setSchedule(Object.fromEntries(PHASE_IDS.map((id) => [
+          id,
+          phases[id]
+            ? {
+              title: phases[id].title,
+              description: phases[id].description || '',
+              opensAt: toDate(phases[id].opensAt),
+              closesAt: toDate(phases[id].closesAt),
+            }
+            : DEFAULT_SCHEDULE[id],
+        ])) as EventSchedule);
+      },
+      (error) => console.error('Error loading event schedule:', error)
+    );
+
+    return () => unsubscribe();
+  }, []);
+
+  return schedule;
+};
+
+export const isPhaseOpen = (phase: EventPhase, now = Date.now()): boolean =>
+  (!phase.opensAt || now >= phase.opensAt.getTime()) &&
+  (!phase.closesAt || now < phase.closesAt.getTime());
+
+export const hasPhaseClosed = (phase: EventPhase, now = Date.now()): boolean =>
+  Boolean(phase.closesAt && now >= phase.closesAt.getTime());
+
+const formatDay = (date: Date) => format(date, 'd MMMM yyyy');
+
+// "4 March 2025 Onwards", "4 – 22 March 2025" style labels for the timeline
+export const formatPhaseDates = (phase: EventPhase): string => {
+  if (!phase.opensAt && !phase.closesAt) return 'TBA';
+  if (!phase.closesAt) return `${formatDay(phase.opensAt as Date)} Onwards`;
+  if (!phase.opensAt) return `Until ${formatDay(phase.closesAt)}`;
+  if (formatDay(phase.opensAt) === formatDay(phase.closesAt)) return formatDay(phase.opensAt);
+  return `${formatDay(phase.opensAt)} – ${formatDay(phase.closesAt)}`;
+};
+
+export const formatDeadline = (date: Date): string => format(date, 'MMMM do, yyyy');
+
+export const saveEventSchedule = async (schedule: EventSchedule): Promise<void> => {
+  const phases = Object.fromEntries(PHASE_IDS.map((id) => [id, {
+    ...schedule[id],
+    opensAt: schedule[id].opensAt?.toISOString() || null,
+    closesAt: schedule[id].closesAt?.toISOString() || null,
+  }]));
+
+  try {
+    await axios.put('/api/admin/event', { phases }, { headers: await authHeaders() });
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not save the event schedule. Please try again later.'));
+  }
+};
@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import { collection, doc, onSnapshot, orderBy, query } from 'firebase/firestore';
+import { db } from './firebase';
+import { authHeaders, serverError } from './api';
+import { JudgeScore, Rubric, RubricCriterion } from './judging';
+
+// Projector view, opened on the venue display by a signed-in organizer
+export const FINALE_BOARD_PATH = '/finale/leaderboard';
+
+export type FinaleStatus = 'setup' | 'live' | 'frozen' | 'reveal';
+
+export interface FinaleState {
+  status: FinaleStatus;
+  currentTeamId: string | null;
+  frozenStandings: { id: string; points: number | null }[] | null;
+  revealCount: number;
+}
+
+export interface FinaleTeam {
+  id: string;
+  teamName: string;
+  collegeName: string;
+  registrationId: string;
+  pitchOrder: number;
+  points: number | null;
+  judgeCount: number;
+}
+
+const INITIAL_STATE: FinaleState = {
+  status: 'setup',
+  currentTeamId: null,
+  frozenStandings: null,
+  revealCount: 0,
+};
+
+// Live finale state and teams; both update as judges score and organizers act
+export const useFinale = (): { finale: FinaleState; teams: FinaleTeam[]; error: string } => {
+  const [finale, setFinale] = useState<FinaleState>(INITIAL_STATE);
+  const [teams, setTeams] = useState<FinaleTeam[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const onError = (err: Error) => {
+      console.error('Error following the finale:', err);
+      setError('Lost connection to the live finale. Reload the page to reconnect.');
+    };
+
+    const unsubscribeState = onSnapshot(
+      doc(db, 'config', 'finale'),
+      (snapshot) => setFinale({ ...INITIAL_STATE, ...snapshot.data() }),
+      onError
+    );
+    const unsubscribeTeams = onSnapshot(
+      query(collection(db, 'finale_teams'), orderBy('pitchOrder')),
+      (snapshot) => setTeams(snapshot.docs.map((teamDoc) => ({ id: teamDoc.id, ...teamDoc.data() }) as FinaleTeam)),
+      onError
+    );
+
+    return () => {
+      unsubscribeState();
+      unsubscribeTeams();
+    };
+  }, []);
+
+  return { finale, teams, error };
+};
+
+export const fetchFinaleRubric = async (): Promise<Rubric> => {
+  try {
+    const response = await axios.get('/api/finale/rubric', { headers: await authHeaders() });
+    return response.data.rubric;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load the finale rubric. Please try again later.'));
+  }
+};
+
+export const saveFinaleRubric = async (criteria: RubricCriterion[]): Promise<Rubric> => {
+  try {
+    const response = await axios.put('/api/finale/rubric', { criteria }, { headers: await authHeaders() });
+    return response.data.rubric;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not save the finale rubric. Please try again later.'));
+  }
+};
+
+export const submitFinaleScore = async (
+  teamId: string,
+  scores: Record<string, number>,
+  comment: string
+): Promise<JudgeScore & { points: number; judgeCount: number }> => {
+  try {
+    const response = await axios.post(
+      `/api/finale/teams/${teamId}/score`,
+      { scores, comment },
+      { headers: await authHeaders() }
+    );
+    return response.data.score;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not save the score. Please try again later.'));
+  }
+};
+
+export const loadFinaleTeams = async (): Promise<number> => {
+  try {
+    const response = await axios.post('/api/finale/teams/load', {}, { headers: await authHeaders() });
+    return response.data.teams;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load the finale teams. Please try again later.'));
+  }
+};
+
+export const setFinaleStage = async (teamId: string | null): Promise<void> => {
+  try {
+    await axios.put('/api/finale/stage', { teamId }, { headers: await authHeaders() });
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not change the team on stage. Please try again later.'));
+  }
+};
+
+export const setFinaleStatus = async (status: FinaleStatus): Promise<void> => {
+  try {
+    await axios.put('/api/finale/status', { status }, { headers: await authHeaders() });
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not change the finale status. Please try again later.'));
+  }
+};
+
+export const revealNextPlace = async (): Promise<void> => {
+  try {
+    await axios.post('/api/finale/reveal', {}, { headers: await authHeaders() });
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not reveal the next place. Please try again later.'));
+  }
+};
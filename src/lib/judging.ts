@@ -0,0 +1,197 @@
+import axios from 'axios';
+import { authHeaders, serverError } from './api';
+
+export interface RubricCriterion {
+  id: string;
+  label: string;
+  maxScore: number;
+  weight: number;
+}
+
+export interface Rubric {
+  criteria: RubricCriterion[];
+  updatedBy?: string | null;
+  updatedAt?: string;
+}
+
+export interface JudgeScore {
+  judgeUid: string;
+  judgeEmail: string | null;
+  scores: Record<string, number>;
+  percentage: number;
+  comment: string | null;
+  updatedAt: string;
+}
+
+export interface JudgingSubmission {
+  id: string;
+  teamName: string;
+  registrationId: string;
+  collegeName: string;
+  productDescription: string;
+  solution: string;
+  fileUrl: string | null;
+  youtubeLink: string | null;
+  submittedAt: string | null;
+  points: number | null;
+  judgeCount: number;
+  conflicted: boolean;
+  myScore: JudgeScore | null;
+}
+
+export interface JudgingSettings {
+  judgesPerSubmission: number;
+  normalization: 'raw' | 'zscore';
+  disagreementThreshold: number;
+}
+
+export interface JudgeConflicts {
+  colleges: string[];
+  submissionIds: string[];
+}
+
+export interface OverviewSubmission {
+  id: string;
+  teamName: string;
+  registrationId: string;
+  collegeName: string;
+  assignedJudges: { uid: string; email: string | null }[];
+  scores: { judgeUid: string; judgeEmail: string | null; percentage: number }[];
+  rawPoints: number | null;
+  normalizedPoints: number | null;
+  points: number | null;
+  spread: number;
+  std: number;
+  flagged: boolean;
+  reReviewRequestedAt: string | null;
+}
+
+export interface AssignmentSummary {
+  judgesPerSubmission: number;
+  submissions: number;
+  changed: number;
+  understaffed: string[];
+  load: Record<string, number>;
+}
+
+export const fetchRubric = async (): Promise<Rubric> => {
+  try {
+    const response = await axios.get('/api/judging/rubric', { headers: await authHeaders() });
+    return response.data.rubric;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load the rubric. Please try again later.'));
+  }
+};
+
+export const saveRubric = async (criteria: RubricCriterion[]): Promise<Rubric> => {
+  try {
+    const response = await axios.put('/api/judging/rubric', { criteria }, { headers: await authHeaders() });
+    return response.data.rubric;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not save the rubric. Please try again later.'));
+  }
+};
+
+export const fetchJudgingSubmissions = async (): Promise<JudgingSubmission[]> => {
+  try {
+    const response = await axios.get('/api/judging/submissions', { headers: await authHeaders() });
+    return response.data.submissions;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load submissions. Please try again later.'));
+  }
+};
+
+export const submitScore = async (
+  submissionId: string,
+  scores: Record<string, number>,
+  comment: string
+): Promise<JudgeScore & { points: number; judgeCount: number }> => {
+  try {
+    const response = await axios.post(
+      `/api/judging/submissions/${submissionId}/score`,
+      { scores, comment },
+      { headers: await authHeaders() }
+    );
+    return response.data.score;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not save the score. Please try again later.'));
+  }
+};
+
+export const fetchJudgingSettings = async (): Promise<JudgingSettings> => {
+  try {
+    const response = await axios.get('/api/judging/settings', { headers: await authHeaders() });
+    return response.data.settings;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load judging settings. Please try again later.'));
+  }
+};
+
+export const saveJudgingSettings = async (settings: JudgingSettings): Promise<JudgingSettings> => {
+  try {
+    const response = await axios.put('/api/judging/settings', settings, { headers: await authHeaders() });
+    return response.data.settings;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not save judging settings. Please try again later.'));
+  }
+};
+
+export const assignJudges = async (): Promise<AssignmentSummary> => {
+  try {
+    const response = await axios.post('/api/judging/assign', {}, { headers: await authHeaders() });
+    return response.data.summary;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not assign judges. Please try again later.'));
+  }
+};
+
+export const requestReReview = async (submissionId: string): Promise<AssignmentSummary> => {
+  try {
+    const response = await axios.post(
+      `/api/judging/submissions/${submissionId}/re-review`,
+      {},
+      { headers: await authHeaders() }
+    );
+    return response.data.summary;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not request a re-review. Please try again later.'));
+  }
+};
+
+export const recomputeRankings = async (): Promise<{ normalization: string; updated: number }> => {
+  try {
+    const response = await axios.post('/api/judging/recompute', {}, { headers: await authHeaders() });
+    return response.data.result;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not recompute rankings. Please try again later.'));
+  }
+};
+
+export const fetchJudgingOverview = async (): Promise<{
+  settings: JudgingSettings;
+  submissions: OverviewSubmission[];
+}> => {
+  try {
+    const response = await axios.get('/api/judging/overview', { headers: await authHeaders() });
+    return { settings: response.data.settings, submissions: response.data.submissions };
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load the judging overview. Please try again later.'));
+  }
+};
+
+export const fetchConflicts = async (): Promise<JudgeConflicts> => {
+  try {
+    const response = await axios.get('/api/judging/conflicts', { headers: await authHeaders() });
+    return response.data.conflicts;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load your conflicts. Please try again later.'));
+  }
+};
+
+export const saveConflicts = async (conflicts: JudgeConflicts): Promise<void> => {
+  try {
+    await axios.put('/api/judging/conflicts', conflicts, { headers: await authHeaders() });
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not save your conflicts. Please try again later.'));
+  }
+};
@@ -0,0 +1,214 @@
+import axios from 'axios';
+import { authHeaders, serverError } from './api';
+
+export interface PaymentQuote {
+  teamSize: number;
+  tier: 'standard' | 'early_bird';
+  costPerMember: number;
+  subtotal: number;
+  couponCode: string | null;
+  invalidCoupon: boolean;
+  discount: number;
+  total: number;
+}
+
+interface PaymentResponse {
+  success: boolean;
+  payment_request?: {
+    longurl: string;
+    id: string;
+  };
+  quote?: PaymentQuote;
+  waived?: boolean;
+  error?: string;
+}
+
+// The server computes the fee from the stored team document
+export const fetchPaymentQuote = async (): Promise<PaymentQuote> => {
+  const response = await axios.get('/api/payment-quote', {
+    headers: await authHeaders()
+  });
+  return response.data.quote;
+};
+
+export const createPaymentRequest = async (
+  amount: number, 
+  purpose: string, 
+  buyerName: string, 
+  email: string, 
+  phone: string
+): Promise<PaymentResponse> => {
+  try {
+    // Create payment request body
+    const paymentData = {
+      purpose: purpose,
+      amount: amount.toString(),
+      buyerName: buyerName,
+      email: email,
+      phone: phone
+    };
+
+    // The server links the request to the signed-in user's team
+    const response = await axios.post('/api/create-payment', paymentData, {
+      headers: await authHeaders()
+    });
+    
+    return response.data;
+  } catch (error) {
+    console.error('Payment creation failed:', error);
+    return {
+      success: false,
+      error: serverError(error, 'Payment creation failed. Please try again later.')
+    };
+  }
+};
+
+
+// Only the server marks a team paid, after checking the amount against the
+// team's fee. Payments from the old external portal are linked to their team
+// by reconciliation, so a payment record on its own never settles a team.
+export const isTeamPaymentSettled = (team: { paymentStatus?: string }): boolean =>
+  team.paymentStatus === 'paid';
+
+interface ReconciliationEntry {
+  teamId: string;
+  teamName: string;
+  registrationId: string;
+  paymentRequestId?: string;
+  paymentId?: string;
+  paymentDocId?: string;
+  email?: string;
+  reason?: string;
+  method?: string;
+  claimingTeamIds?: string[];
+  // Set on legacy payments that do not match the team's fee
+  expectedAmount?: number;
+  amount?: number;
+  error?: string;
+}
+
+export interface ReconciliationReport {
+  runAt: string;
+  dryRun: boolean;
+  gateway: string;
+  checked: number;
+  settled: ReconciliationEntry[];
+  failed: ReconciliationEntry[];
+  pending: ReconciliationEntry[];
+  ambiguous: ReconciliationEntry[];
+  errors: ReconciliationEntry[];
+}
+
+// Settles teams stuck at 'initiated'; a dry run only reports what would change
+export const reconcilePayments = async (dryRun: boolean): Promise<ReconciliationReport> => {
+  try {
+    const response = await axios.post('/api/admin/reconcile-payments', { dryRun }, {
+      headers: await authHeaders()
+    });
+    return response.data.report;
+  } catch (error) {
+    throw new Error(serverError(error, 'Payment reconciliation failed. Please try again later.'));
+  }
+};
+
+export type ManualPaymentMethod = 'cash' | 'upi' | 'bank_transfer' | 'other';
+
+export interface PaymentAdjustment {
+  id: string;
+  type: 'refund' | 'manual_payment' | 'duplicate';
+  // Manual payments: registration fee or extra fee after a roster change
+  purpose?: 'registration' | 'roster_fee';
+  // Refunds of manual payments: the manual payment entry returned
+  adjustmentId?: string;
+  paymentDocId: string | null;
+  paymentId: string | null;
+  teamId: string | null;
+  amount: number;
+  reason: string | null;
+  method?: string;
+  reference?: string | null;
+  evidenceUrl?: string | null;
+  refundId?: string | null;
+  refundStatus?: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+const postAdjustment = async (url: string, body: object, fallback: string) => {
+  try {
+    const response = await axios.post(url, body, { headers: await authHeaders() });
+    return response.data.adjustment as PaymentAdjustment;
+  } catch (error) {
+    throw new Error(serverError(error, fallback));
+  }
+};
+
+export const issueRefund = (
+  paymentDocId: string,
+  refund: { amount: number; reason: string; offline: boolean }
+) => postAdjustment(`/api/admin/payments/${paymentDocId}/refund`, refund, 'Refund failed. Please try again later.');
+
+export const refundManualPayment = (
+  adjustmentId: string,
+  refund: { amount: number; reason: string }
+) => postAdjustment(`/api/admin/adjustments/${adjustmentId}/refund`, refund, 'Refund failed. Please try again later.');
+
+export const markPaymentDuplicate = (paymentDocId: string, note: string) =>
+  postAdjustment(
+    `/api/admin/payments/${paymentDocId}/duplicate`,
+    { note },
+    'Could not mark the payment as a duplicate.'
+  );
+
+export const recordManualPayment = (
+  teamId: string,
+  payment: {
+    amount: number;
+    method: ManualPaymentMethod;
+    reference: string;
+    evidenceUrl: string;
+    note: string;
+  }
+) => postAdjustment(
+  `/api/admin/teams/${teamId}/manual-payment`,
+  payment,
+  'Could not record the manual payment.'
+);
+
+export interface PaymentReturnParams {
+  paymentId: string | null;
+  paymentRequestId: string | null;
+  outcome: 'pending' | 'failed' | 'cancelled';
+}
+
+// Gateways redirect back with query parameters in the Instamojo shape
+// (payment_id, payment_request_id, payment_status); the webhook stays the
+// source of truth, these only tell us what to show while we wait for it.
+export const parsePaymentReturn = (search: string): PaymentReturnParams => {
+  const params = new URLSearchParams(search);
+  const paymentId = params.get('payment_id');
+  const paymentRequestId = params.get('payment_request_id');
+
+  let outcome: PaymentReturnParams['outcome'] = 'pending';
+  if (!paymentId || !paymentRequestId) {
+    outcome = 'cancelled';
+  } else if (params.get('payment_status') === 'Failed') {
+    outcome = 'failed';
+  }
+
+  return { paymentId, paymentRequestId, outcome };
+};
+
+// Generate unique SSGC25 ID
+export const generateUniqueId = (): string => {
+  const prefix = 'SSGC25';
+  const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+  let uniqueId = '';
+  
+  // Generate 12 random characters
+  for (let i = 0; i < 12; i++) {
+    uniqueId += characters.charAt(Math.floor(Math.random() * characters.length));
+  }
+  
+  return `${prefix}${uniqueId}`;
+};
@@ -0,0 +1,110 @@
+import axios from 'axios';
+import { authHeaders, serverError } from './api';
+import { JudgeScore, Rubric, RubricCriterion } from './judging';
+
+export type Phase2Status = 'pending' | 'under_review' | 'shortlisted' | 'rejected';
+
+export const PHASE2_STATUS_LABELS: Record<Phase2Status, string> = {
+  pending: 'Pending',
+  under_review: 'Under Review',
+  shortlisted: 'Shortlisted for the Finale',
+  rejected: 'Not Shortlisted',
+};
+
+export const PHASE2_STATUS_COLORS: Record<Phase2Status, string> = {
+  pending: 'text-gray-400',
+  under_review: 'text-yellow-400',
+  shortlisted: 'text-green-400',
+  rejected: 'text-red-400',
+};
+
+export interface Phase2Submission {
+  id: string;
+  teamName: string;
+  registrationId: string;
+  collegeName: string;
+  proposalUrl: string | null;
+  youtubeVideoUrl: string | null;
+  submittedAt: string | null;
+  status: Phase2Status;
+  statusNote: string | null;
+  points: number | null;
+  judgeCount: number;
+  conflicted: boolean;
+  myReview: JudgeScore | null;
+}
+
+export interface ShortlistedTeam extends Omit<Phase2Submission, 'conflicted' | 'myReview'> {
+  teamSize: number;
+  members: { name: string; email: string; phone: string }[];
+}
+
+export const fetchPhase2Rubric = async (): Promise<Rubric> => {
+  try {
+    const response = await axios.get('/api/judging/phase2/rubric', { headers: await authHeaders() });
+    return response.data.rubric;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load the Phase 2 rubric. Please try again later.'));
+  }
+};
+
+export const savePhase2Rubric = async (criteria: RubricCriterion[]): Promise<Rubric> => {
+  try {
+    const response = await axios.put('/api/judging/phase2/rubric', { criteria }, { headers: await authHeaders() });
+    return response.data.rubric;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not save the Phase 2 rubric. Please try again later.'));
+  }
+};
+
+export const fetchPhase2Submissions = async (): Promise<Phase2Submission[]> => {
+  try {
+    const response = await axios.get('/api/judging/phase2/submissions', { headers: await authHeaders() });
+    return response.data.submissions;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load Phase 2 submissions. Please try again later.'));
+  }
+};
+
+export const submitPhase2Review = async (
+  submissionId: string,
+  scores: Record<string, number>,
+  comment: string
+): Promise<JudgeScore & { points: number; judgeCount: number; status: Phase2Status }> => {
+  try {
+    const response = await axios.post(
+      `/api/judging/phase2/submissions/${submissionId}/review`,
+      { scores, comment },
+      { headers: await authHeaders() }
+    );
+    return response.data.review;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not save the review. Please try again later.'));
+  }
+};
+
+export const setPhase2Status = async (
+  submissionId: string,
+  status: Phase2Status,
+  note: string
+): Promise<{ status: Phase2Status; statusNote: string | null }> => {
+  try {
+    const response = await axios.post(
+      `/api/judging/phase2/submissions/${submissionId}/status`,
+      { status, note },
+      { headers: await authHeaders() }
+    );
+    return response.data.update;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not update the status. Please try again later.'));
+  }
+};
+
+export const fetchFinaleShortlist = async (): Promise<ShortlistedTeam[]> => {
+  try {
+    const response = await axios.get('/api/judging/phase2/shortlist', { headers: await authHeaders() });
+    return response.data.teams;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load the finale shortlist. Please try again later.'));
+  }
+};
@@ -0,0 +1,18 @@
+export type Ranked<T> = T & { rank: number };
+
+/**
+ * Sorts by score, highest first, and assigns competition ranks: tied scores
+ * share a rank and the next rank skips ahead (1, 2, 2, 4). Items without a
+ * score are left out.
+ */
+export const rankByScore = <T>(items: T[], scoreOf: (item: T) => number | null | undefined): Ranked<T>[] => {
+  const scored = items
+    .filter((item) => typeof scoreOf(item) === 'number')
+    .sort((a, b) => (scoreOf(b) as number) - (scoreOf(a) as number));
+
+  let rank = 0;
+  return scored.map((item, index) => {
+    if (index === 0 || scoreOf(item) !== scoreOf(scored[index - 1])) rank = index + 1;
+    return { ...item, rank };
+  });
+};
@@ -0,0 +1,74 @@
+import axios from 'axios';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import { authHeaders, serverError } from './api';
+
+export type Role = 'participant' | 'volunteer' | 'judge' | 'finance' | 'organizer' | 'superadmin';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  participant: 'Participant',
+  volunteer: 'Volunteer',
+  judge: 'Judge',
+  finance: 'Finance',
+  organizer: 'Organizer',
+  superadmin: 'Super Admin',
+};
+
+export type AdminArea = 'judging' | 'selection' | 'phase2' | 'finale' | 'event' | 'roster' | 'duplicates' | 'checkin' | 'attendance' | 'finance' | 'emails' | 'audit' | 'roles';
+
+// Roles allowed into each admin area; superadmins may use all of them
+const AREA_ROLES: Record<AdminArea, Role[]> = {
+  judging: ['judge', 'organizer'],
+  selection: ['organizer'],
+  phase2: ['judge', 'organizer'],
+  finale: ['judge', 'organizer'],
+  event: ['organizer'],
+  roster: ['organizer'],
+  duplicates: ['organizer'],
+  checkin: ['volunteer', 'organizer'],
+  attendance: ['organizer'],
+  finance: ['finance'],
+  emails: ['organizer'],
+  audit: ['finance', 'organizer'],
+  roles: [],
+};
+
+export const hasRole = (role: Role, roles: Role[]): boolean =>
+  role === 'superadmin' || roles.includes(role);
+
+export const canAccess = (role: Role, area: AdminArea): boolean => hasRole(role, AREA_ROLES[area]);
+
+export const isStaff = (role: Role): boolean => role !== 'participant';
+
+// Users without a roles/{uid} document are participants
+export const fetchUserRole = async (uid: string): Promise<Role> => {
+  const roleDoc = await getDoc(doc(db, 'roles', uid));
+  const role = roleDoc.exists() ? roleDoc.data().role : null;
+  return role in ROLE_LABELS ? role : 'participant';
+};
+
+export interface RoleAssignment {
+  uid: string;
+  email: string;
+  role: Role;
+  updatedBy: string | null;
+  updatedAt: string;
+}
+
+export const fetchRoleAssignments = async (): Promise<RoleAssignment[]> => {
+  try {
+    const response = await axios.get('/api/admin/roles', { headers: await authHeaders() });
+    return response.data.assignments;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load roles. Please try again later.'));
+  }
+};
+
+export const assignRole = async (email: string, role: Role): Promise<RoleAssignment> => {
+  try {
+    const response = await axios.post('/api/admin/roles', { email, role }, { headers: await authHeaders() });
+    return response.data.assignment;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not update the role. Please try again later.'));
+  }
+};
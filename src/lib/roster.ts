@@ -0,0 +1,136 @@
+import axios from 'axios';
+import { collection, doc, getDoc, getDocs, orderBy, query, where, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { authHeaders, serverError } from './api';
+import { TeamMember } from './teams';
+
+export type RosterChangeType = 'add' | 'remove' | 'replace' | 'update';
+
+export interface RosterMember extends TeamMember {
+  rollNumber?: string;
+  department?: string;
+  year?: string;
+}
+
+export interface RosterChange {
+  type: RosterChangeType;
+  // Position in the team's member list; not used for 'add'
+  index?: number;
+  member?: RosterMember;
+}
+
+export type RosterRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface RosterRequest {
+  id: string;
+  teamId: string;
+  teamName: string;
+  registrationId: string;
+  change: RosterChange;
+  before: RosterMember | null;
+  teamSizeBefore: number;
+  teamSizeAfter: number;
+  feeDelta: number;
+  status: RosterRequestStatus;
+  requestedBy: string | null;
+  requestedAt: string;
+  decidedBy: string | null;
+  decidedAt: string | null;
+  note: string | null;
+}
+
+export interface RosterHistoryEntry {
+  id: string;
+  type: RosterChangeType | 'join';
+  index: number | null;
+  before: RosterMember | null;
+  after: RosterMember | null;
+  teamSizeBefore: number;
+  teamSizeAfter: number;
+  feeDelta: number;
+  requestId: string | null;
+  actorEmail: string | null;
+  createdAt: string;
+}
+
+export const ROSTER_CHANGE_LABELS: Record<RosterHistoryEntry['type'], string> = {
+  add: 'Added',
+  remove: 'Removed',
+  replace: 'Replaced',
+  update: 'Updated',
+  join: 'Joined by invite',
+};
+
+export interface RosterChangeResult {
+  status: 'applied' | 'pending';
+  requestId?: string;
+  feeDelta: number;
+}
+
+// After this date teams can no longer change their members; null means no lock
+export const fetchRosterLock = async (): Promise<Date | null> => {
+  const snapshot = await getDoc(doc(db, 'config', 'roster'));
+  const lockAt = snapshot.data()?.lockAt;
+  return lockAt instanceof Timestamp ? lockAt.toDate() : null;
+};
+
+export const fetchRosterHistory = async (teamId: string): Promise<RosterHistoryEntry[]> => {
+  const snapshot = await getDocs(
+    query(collection(db, 'teams', teamId, 'roster_history'), orderBy('createdAt', 'desc'))
+  );
+  return snapshot.docs.map((entry) => ({ id: entry.id, ...entry.data() }) as RosterHistoryEntry);
+};
+
+// The leader's own requests; rules only let a team read requests it made
+export const fetchTeamRosterRequests = async (teamId: string): Promise<RosterRequest[]> => {
+  const snapshot = await getDocs(query(collection(db, 'roster_requests'), where('teamId', '==', teamId)));
+  return snapshot.docs
+    .map((request) => ({ id: request.id, ...request.data() }) as RosterRequest)
+    .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+};
+
+export const requestRosterChange = async (change: RosterChange): Promise<RosterChangeResult> => {
+  try {
+    const response = await axios.post('/api/teams/roster', change, { headers: await authHeaders() });
+    return { status: response.data.status, requestId: response.data.requestId, feeDelta: response.data.feeDelta };
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not change your team. Please try again later.'));
+  }
+};
+
+export const fetchRosterRequests = async (status: RosterRequestStatus | '' = 'pending'): Promise<RosterRequest[]> => {
+  try {
+    const response = await axios.get('/api/admin/roster-requests', {
+      params: status ? { status } : {},
+      headers: await authHeaders(),
+    });
+    return response.data.requests;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load team change requests. Please try again later.'));
+  }
+};
+
+export const decideRosterRequest = async (
+  requestId: string,
+  approve: boolean,
+  note: string
+): Promise<RosterRequest> => {
+  try {
+    const response = await axios.post(
+      `/api/admin/roster-requests/${requestId}/decision`,
+      { approve, note },
+      { headers: await authHeaders() }
+    );
+    return response.data.request;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not decide the team change request. Please try again later.'));
+  }
+};
+
+export const saveRosterLock = async (lockAt: string | null): Promise<void> => {
+  try {
+    await axios.put('/api/admin/roster', { lockAt }, { headers: await authHeaders() });
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not save the roster lock date. Please try again later.'));
+  }
+};
@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from './firebase';
+import { authHeaders, serverError } from './api';
+
+export const SCOREBOARD_PAGE_SIZE = 20;
+
+export interface ResultsPrivacy {
+  enabled: boolean;
+  cutoffRank: number;
+}
+
+// 'raw' points are the judges' mean percentage; 'zscore' points sit on a
+// 50 ± 10 scale where 50 is an average submission (server/normalization.js)
+export type Normalization = 'raw' | 'zscore';
+
+export interface ResultsSettings {
+  published: boolean;
+  privacy: ResultsPrivacy;
+  normalization: Normalization;
+  teamCount: number;
+  colleges: string[];
+  domains: string[];
+  updatedBy?: string | null;
+  updatedAt?: string | null;
+}
+
+export interface CriterionAverage {
+  id: string;
+  label: string;
+  maxScore: number;
+  average: number | null;
+}
+
+// One row of phase1_scoreboard. Scores are null when privacy mode hides them.
+export interface ScoreboardEntry {
+  id: string;
+  rank: number;
+  teamName: string;
+  registrationId: string;
+  collegeName: string;
+  domain: string | null;
+  points: number | null;
+  breakdown: CriterionAverage[] | null;
+  review: string | null;
+  judgeCount: number;
+  scoresHidden: boolean;
+}
+
+const DEFAULT_RESULTS: ResultsSettings = {
+  published: false,
+  privacy: { enabled: false, cutoffRank: 20 },
+  normalization: 'raw',
+  teamCount: 0,
+  colleges: [],
+  domains: [],
+};
+
+export const formatPoints = (points: number, normalization: Normalization): string =>
+  normalization === 'zscore' ? `${points}` : `${points}/100`;
+
+export const POINTS_SCALE_NOTE: Record<Normalization, string> = {
+  raw: 'Average of the judges\' scores out of 100.',
+  zscore: 'Adjusted for how strictly each judge marks; 50 is an average submission.',
+};
+
+// Follows config/phase1Results; `loading` stays true until the first snapshot
+export const useResultsSettings = (): { results: ResultsSettings; loading: boolean } => {
+  const [results, setResults] = useState<ResultsSettings>(DEFAULT_RESULTS);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      doc(db, 'config', 'phase1Results'),
+      (snapshot) => {
+        const data = snapshot.data() || {};
+        setResults({
+          ...DEFAULT_RESULTS,
+          ...data,
+          privacy: { ...DEFAULT_RESULTS.privacy, ...(data.privacy || {}) },
+        });
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error loading results settings:', err);
+        setLoading(false);
+      }
+    );
+    return unsubscribe;
+  }, []);
+
+  return { results, loading };
+};
+
+// The team's row of the published scoreboard; null until results are published
+export const useScoreboardEntry = (teamId: string, published: boolean): ScoreboardEntry | null => {
+  const [entry, setEntry] = useState<ScoreboardEntry | null>(null);
+
+  useEffect(() => {
+    if (!published) {
+      setEntry(null);
+      return;
+    }
+    const unsubscribe = onSnapshot(
+      doc(db, 'phase1_scoreboard', teamId),
+      (snapshot) => {
+        setEntry(snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as ScoreboardEntry) : null);
+      },
+      (err) => {
+        console.error('Error loading scoreboard entry:', err);
+        setEntry(null);
+      }
+    );
+    return unsubscribe;
+  }, [teamId, published]);
+
+  return entry;
+};
+
+export const saveResultsSettings = async (
+  published: boolean,
+  privacy: ResultsPrivacy
+): Promise<ResultsSettings> => {
+  try {
+    const response = await axios.put(
+      '/api/judging/results',
+      { published, privacy },
+      { headers: await authHeaders() }
+    );
+    return response.data.results;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not save the results settings. Please try again later.'));
+  }
+};
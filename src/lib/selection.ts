@@ -0,0 +1,84 @@
+import axios from 'axios';
+import { authHeaders, serverError } from './api';
+
+export interface SelectionCutoff {
+  mode: 'top' | 'threshold';
+  value: number;
+}
+
+export interface SelectionDraft {
+  cutoff: SelectionCutoff;
+  include: string[];
+  exclude: string[];
+}
+
+export interface Phase2Selection extends SelectionDraft {
+  locked: boolean;
+  selectedTeamIds: string[];
+  committedBy: string | null;
+  committedAt: string | null;
+}
+
+export interface RankedTeam {
+  id: string;
+  teamName: string;
+  registrationId: string;
+  collegeName: string;
+  paid: boolean;
+  submitted: boolean;
+  points: number | null;
+  rank: number | null;
+  phase2Selected: boolean;
+  selected: boolean;
+  reason: 'cutoff' | 'included' | 'excluded' | null;
+}
+
+export interface SelectionPreview {
+  teams: RankedTeam[];
+  selectedCount: number;
+  unpaidSelected: string[];
+}
+
+const previewOf = (data: SelectionPreview): SelectionPreview => ({
+  teams: data.teams,
+  selectedCount: data.selectedCount,
+  unpaidSelected: data.unpaidSelected,
+});
+
+export const fetchSelection = async (): Promise<SelectionPreview & { selection: Phase2Selection }> => {
+  try {
+    const response = await axios.get('/api/judging/selection', { headers: await authHeaders() });
+    return { selection: response.data.selection, ...previewOf(response.data) };
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load the Phase 2 selection. Please try again later.'));
+  }
+};
+
+export const previewSelection = async (draft: SelectionDraft): Promise<SelectionPreview> => {
+  try {
+    const response = await axios.post('/api/judging/selection/preview', draft, { headers: await authHeaders() });
+    return previewOf(response.data);
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not preview the Phase 2 selection. Please try again later.'));
+  }
+};
+
+export const commitSelection = async (
+  draft: SelectionDraft
+): Promise<SelectionPreview & { selection: Phase2Selection }> => {
+  try {
+    const response = await axios.post('/api/judging/selection/commit', draft, { headers: await authHeaders() });
+    return { selection: response.data.selection, ...previewOf(response.data) };
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not commit the Phase 2 selection. Please try again later.'));
+  }
+};
+
+export const unlockSelection = async (reason: string): Promise<Phase2Selection> => {
+  try {
+    const response = await axios.post('/api/judging/selection/unlock', { reason }, { headers: await authHeaders() });
+    return response.data.selection;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not unlock the Phase 2 selection. Please try again later.'));
+  }
+};
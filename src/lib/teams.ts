@@ -0,0 +1,139 @@
+import axios from 'axios';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import { authHeaders, serverError } from './api';
+
+// Invite links look like https://<site>/?invite=<code>
+export const INVITE_PARAM = 'invite';
+const PENDING_INVITE_KEY = 'pendingTeamInvite';
+
+export interface TeamMember {
+  name: string;
+  phone: string;
+  email: string;
+  // Set once the member has accepted an invite and linked their account
+  uid?: string;
+  joinedAt?: string;
+}
+
+export interface InvitePreview {
+  teamName: string;
+  collegeName: string;
+  leaderName: string;
+  teamSize: number;
+  openSlots: number;
+}
+
+// A Phase 1 submission as the team sent it; scores come from the scoreboard
+export interface Phase1Submission {
+  teamName: string;
+  collegeName: string;
+  domain: string;
+  whatsappNumber: string;
+  productDescription: string;
+  solution: string;
+  fileUrl: string;
+  youtubeLink: string;
+  registrationId: string;
+  submittedAt: string;
+  updatedAt?: string;
+}
+
+export const emptyMember = (): TeamMember => ({ name: '', phone: '', email: '' });
+
+// A slot stays open until someone accepts an invite for it
+export const isOpenSlot = (member?: TeamMember): boolean =>
+  !member?.uid && !member?.name?.trim() && !member?.email?.trim();
+
+/**
+ * The member list for a team of `size`: the leader first, then everyone who
+ * has joined, then open slots. Filled slots are never dropped, so the size
+ * cannot go below the number of members already on the team.
+ */
+export const membersForSize = (members: TeamMember[], size: number): TeamMember[] => {
+  const [leader = emptyMember(), ...others] = members;
+  const filled = others.filter((member) => !isOpenSlot(member));
+  const open = Array.from({ length: Math.max(size - 1 - filled.length, 0) }, emptyMember);
+  return [leader, ...filled, ...open];
+};
+
+// True when both lists name the same people, in order, with the same details
+export const sameMembers = (a: TeamMember[], b: TeamMember[]): boolean =>
+  a.length === b.length && a.every((member, index) =>
+    (['name', 'phone', 'email'] as const).every((field) =>
+      (member?.[field] || '').trim() === (b[index]?.[field] || '').trim()));
+
+export const inviteLink = (code: string): string =>
+  `${window.location.origin}/?${INVITE_PARAM}=${encodeURIComponent(code)}`;
+
+// Remembers an invite from the URL so it survives signing up or signing in
+export const capturePendingInvite = (): string | null => {
+  const code = new URLSearchParams(window.location.search).get(INVITE_PARAM);
+  if (code) {
+    sessionStorage.setItem(PENDING_INVITE_KEY, code);
+  }
+  return sessionStorage.getItem(PENDING_INVITE_KEY);
+};
+
+export const clearPendingInvite = () => {
+  sessionStorage.removeItem(PENDING_INVITE_KEY);
+};
+
+// The team an account leads (keyed by its uid) or joined through an invite
+export const findTeamId = async (uid: string): Promise<string | null> => {
+  const teamDoc = await getDoc(doc(db, 'teams', uid));
+  if (teamDoc.exists()) {
+    return uid;
+  }
+  const userDoc = await getDoc(doc(db, 'users', uid));
+  return userDoc.exists() ? userDoc.data().teamId || null : null;
+};
+
+export const fetchTeamInvite = async (): Promise<string> => {
+  try {
+    const response = await axios.get('/api/teams/invite', { headers: await authHeaders() });
+    return response.data.code;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load your invite link. Please try again later.'));
+  }
+};
+
+export const rotateTeamInvite = async (): Promise<string> => {
+  try {
+    const response = await axios.post('/api/teams/invite/rotate', {}, { headers: await authHeaders() });
+    return response.data.code;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not create a new invite link. Please try again later.'));
+  }
+};
+
+export const previewInvite = async (code: string): Promise<InvitePreview> => {
+  try {
+    const response = await axios.get(`/api/teams/invite/${encodeURIComponent(code)}`, {
+      headers: await authHeaders(),
+    });
+    return response.data.invite;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load this invite. Please try again later.'));
+  }
+};
+
+export const acceptInvite = async (code: string): Promise<string> => {
+  try {
+    const response = await axios.post(`/api/teams/invite/${encodeURIComponent(code)}/accept`, {}, {
+      headers: await authHeaders(),
+    });
+    return response.data.teamId;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not join the team. Please try again later.'));
+  }
+};
+
+export const fetchPhase1Submission = async (): Promise<Phase1Submission | null> => {
+  try {
+    const response = await axios.get('/api/teams/phase1-submission', { headers: await authHeaders() });
+    return response.data.submission;
+  } catch (error) {
+    throw new Error(serverError(error, 'Could not load your Phase 1 submission. Please try again later.'));
+  }
+};
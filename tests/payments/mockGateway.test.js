@@ -0,0 +1,185 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+/**
+ * Runs a checkout through the mock gateway end to end: the payment request is
+ * created and recorded as create-payment does, the buyer pays on the mock
+ * checkout page, and the mock posts its signed webhook to the real webhook
+ * route, which settles the team. Runs against the Firestore emulator started
+ * by `npm run test:payments`.
+ */
+const PROJECT_ID = 'demo-startup-spark-payments';
+
+process.env.PAYMENT_GATEWAY = 'mock';
+process.env.FIREBASE_PROJECT_ID = PROJECT_ID;
+
+let db;
+let gateway;
+let recordPaymentRequest;
+let settlePaymentEvent;
+let computeTeamFee;
+let server;
+let baseUrl;
+
+before(async () => {
+  // Imported here so the settings above are in place when the gateway is chosen
+  const { default: express } = await import('express');
+  ({ db } = await import('../../server/firebaseAdmin.js'));
+  ({ gateway } = await import('../../server/gateways/index.js'));
+  ({ recordPaymentRequest, settlePaymentEvent } = await import('../../server/payments.js'));
+  ({ computeTeamFee } = await import('../../server/pricing.js'));
+  const { default: paymentRoutes } = await import('../../server/routes/payments.js');
+
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  app.use('/api', paymentRoutes);
+  app.use(gateway.basePath, gateway.router);
+
+  await new Promise((resolve) => {
+    server = app.listen(0, resolve);
+  });
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await db.terminate();
+});
+
+beforeEach(async () => {
+  const response = await fetch(
+    `http://${process.env.FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`,
+    { method: 'DELETE' }
+  );
+  assert.ok(response.ok, 'could not clear the Firestore emulator');
+});
+
+const team = (overrides = {}) => ({
+  teamName: 'Spark Plugs',
+  collegeName: 'REC',
+  teamSize: 2,
+  members: [
+    { name: 'Alice', email: 'alice@example.com', phone: '9000000001' },
+    { name: 'Bob', email: 'bob@example.com', phone: '9000000002' }
+  ],
+  couponCode: null,
+  userId: 'alice',
+  registrationId: 'SS-0001',
+  paymentStatus: 'pending',
+  ...overrides
+});
+
+const teamRef = () => db.collection('teams').doc('alice');
+
+// What create-payment does once it has checked the team
+const startCheckout = async () => {
+  const quote = await computeTeamFee((await teamRef().get()).data());
+  const purpose = 'Startup Spark 2025 - SS-0001';
+  const paymentRequest = await gateway.createPaymentRequest({
+    amount: quote.total,
+    purpose,
+    buyerName: 'Alice',
+    email: 'alice@example.com',
+    phone: '9000000001',
+    redirectUrl: `${baseUrl}/payment/success`,
+    webhookUrl: `${baseUrl}/api/webhook`
+  });
+  await recordPaymentRequest({
+    gatewayName: gateway.name,
+    paymentRequestId: paymentRequest.id,
+    teamId: 'alice',
+    registrationId: 'SS-0001',
+    quote,
+    purpose,
+    buyerName: 'Alice',
+    email: 'alice@example.com',
+    phone: '9000000001'
+  });
+  return { paymentRequest, quote };
+};
+
+// Presses a button on the mock checkout page; the webhook is delivered before the redirect
+const completeCheckout = async (paymentRequest, outcome) => {
+  const response = await fetch(paymentRequest.longurl, {
+    method: 'POST',
+    body: new URLSearchParams({ outcome }),
+    redirect: 'manual'
+  });
+  assert.equal(response.status, 302);
+  return new URL(response.headers.get('location'));
+};
+
+const paymentDoc = async (paymentRequest) =>
+  (await db.collection('payments').doc(paymentRequest.id).get()).data();
+
+describe('mock gateway checkout', () => {
+  it('settles the team when the payment matches its fee', async () => {
+    await teamRef().set(team());
+    const { paymentRequest, quote } = await startCheckout();
+    assert.equal(quote.total, 500);
+
+    const redirect = await completeCheckout(paymentRequest, 'paid');
+    assert.equal(redirect.pathname, '/payment/success');
+    assert.equal(redirect.searchParams.get('payment_request_id'), paymentRequest.id);
+    assert.equal(redirect.searchParams.get('payment_status'), 'Credit');
+
+    const settled = (await teamRef().get()).data();
+    assert.equal(settled.paymentStatus, 'paid');
+    assert.equal(settled.paymentId, redirect.searchParams.get('payment_id'));
+
+    const payment = await paymentDoc(paymentRequest);
+    assert.equal(payment.status, 'paid');
+    assert.equal(payment.amountMismatch, false);
+  });
+
+  it('rejects forged webhooks and ignores redelivered ones', async () => {
+    await teamRef().set(team());
+    const { paymentRequest } = await startCheckout();
+    await completeCheckout(paymentRequest, 'paid');
+    const { payment } = await gateway.fetchPaymentStatus(paymentRequest.id);
+
+    const response = await fetch(`${baseUrl}/api/webhook`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...payment, signature: 'forged' })
+    });
+    assert.equal(response.status, 400);
+
+    const result = await settlePaymentEvent(payment, gateway.name);
+    assert.equal(result.duplicate, true);
+  });
+
+  it('keeps the team unpaid when the amount no longer matches its fee', async () => {
+    await teamRef().set(team());
+    const { paymentRequest } = await startCheckout();
+
+    // The team grows after the request was made, so the fee it paid is short
+    await teamRef().update({
+      teamSize: 3,
+      members: [...team().members, { name: 'Cara', email: 'cara@example.com', phone: '9000000003' }]
+    });
+    await completeCheckout(paymentRequest, 'paid');
+
+    const unsettled = (await teamRef().get()).data();
+    assert.equal(unsettled.paymentStatus, 'initiated');
+    assert.ok(unsettled.paymentAmountMismatchAt);
+
+    const payment = await paymentDoc(paymentRequest);
+    assert.equal(payment.status, 'amount_mismatch');
+    assert.equal(payment.amountMismatch, true);
+  });
+
+  it('records a failed payment without settling the team', async () => {
+    await teamRef().set(team());
+    const { paymentRequest } = await startCheckout();
+
+    const redirect = await completeCheckout(paymentRequest, 'failed');
+    assert.equal(redirect.searchParams.get('payment_status'), 'Failed');
+
+    const unsettled = (await teamRef().get()).data();
+    assert.equal(unsettled.paymentStatus, 'initiated');
+    assert.ok(unsettled.paymentFailedAt);
+    assert.equal((await paymentDoc(paymentRequest)).status, 'failed');
+  });
+});
@@ -0,0 +1,61 @@
+import { readFileSync } from 'node:fs';
+import { initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import { doc, setDoc, Timestamp } from 'firebase/firestore';
+
+/**
+ * Shared setup for the security rules tests. They run against the Firestore
+ * and Storage emulators started by `npm run test:rules`. Each test file uses
+ * its own demo project so files can run side by side without clearing each
+ * other's data.
+ */
+const readRules = (file) => readFileSync(new URL(`../../${file}`, import.meta.url), 'utf8');
+
+export const createTestEnv = (name) => initializeTestEnvironment({
+  projectId: `demo-startup-spark-${name}`,
+  firestore: { rules: readRules('firestore.rules') },
+  storage: { rules: readRules('storage.rules') }
+});
+
+// One account per role; anyone without a roles document is a participant
+export const STAFF_ROLES = {
+  'roles/judge1': { role: 'judge' },
+  'roles/judge2': { role: 'judge' },
+  'roles/finance1': { role: 'finance' },
+  'roles/organizer1': { role: 'organizer' },
+  'roles/volunteer1': { role: 'volunteer' },
+  'roles/super1': { role: 'superadmin' }
+};
+
+export const team = (overrides = {}) => ({
+  teamName: 'Spark Plugs',
+  collegeName: 'REC',
+  teamSize: 2,
+  members: [
+    { name: 'Alice', email: 'alice@example.com' },
+    { name: 'Bob', email: 'bob@example.com' }
+  ],
+  couponCode: '',
+  userId: 'alice',
+  registrationId: 'SS-0001',
+  paymentStatus: 'pending',
+  ...overrides
+});
+
+const hoursFromNow = (hours) => Timestamp.fromMillis(Date.now() + hours * 60 * 60 * 1000);
+
+// config/event with every phase open, or closed an hour ago
+export const eventSchedule = ({ open = true } = {}) => {
+  const window = open
+    ? { opensAt: null, closesAt: hoursFromNow(24) }
+    : { opensAt: null, closesAt: hoursFromNow(-1) };
+  return { phases: { registration: window, phase1: window, phase2: window } };
+};
+
+// Writes documents keyed by path, bypassing the rules
+export const seed = (testEnv, docs) => testEnv.withSecurityRulesDisabled(async (context) => {
+  const db = context.firestore();
+  await Promise.all(Object.entries(docs).map(([path, data]) => setDoc(doc(db, path), data)));
+});
+
+export const firestoreAs = (testEnv, uid, email = `${uid}@example.com`) =>
+  testEnv.authenticatedContext(uid, { email }).firestore();
@@ -0,0 +1,109 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import { createTestEnv, eventSchedule, firestoreAs, seed, STAFF_ROLES, team } from './helpers.js';
+
+let testEnv;
+const as = (uid) => firestoreAs(testEnv, uid);
+
+before(async () => {
+  testEnv = await createTestEnv('judging');
+});
+
+after(() => testEnv.cleanup());
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await seed(testEnv, {
+    ...STAFF_ROLES,
+    'config/event': eventSchedule(),
+    'teams/alice': team({ paymentStatus: 'paid' }),
+    'teams/carol': team({ userId: 'carol', registrationId: 'SS-0002', paymentStatus: 'paid' }),
+    'phase1_submissions/alice': { userId: 'alice', youtubeLink: 'https://youtu.be/a' },
+    'phase1_submissions/alice/scores/judge1': { total: 80 },
+    'phase2_submissions/alice': { status: 'pending', proposalUrl: 'proposals/alice_plan.pdf' },
+    'phase2_submissions/alice/reviews/judge1': { points: 70 },
+    'finale_teams/alice': { teamName: 'Spark Plugs', points: 0 },
+    'finale_teams/alice/marks/judge1': { total: 40 },
+    'judges/judge1': { conflicts: ['carol'] }
+  });
+});
+
+describe('per-judge scores', () => {
+  const scorePaths = [
+    'phase1_submissions/alice/scores/judge1',
+    'phase2_submissions/alice/reviews/judge1',
+    'finale_teams/alice/marks/judge1'
+  ];
+
+  it('are visible to the judge who gave them and to organizers', async () => {
+    for (const path of scorePaths) {
+      await assertSucceeds(getDoc(doc(as('judge1'), path)));
+      await assertSucceeds(getDoc(doc(as('organizer1'), path)));
+    }
+  });
+
+  it('are hidden from other judges, finance and the team', async () => {
+    for (const path of scorePaths) {
+      await assertFails(getDoc(doc(as('judge2'), path)));
+      await assertFails(getDoc(doc(as('finance1'), path)));
+      await assertFails(getDoc(doc(as('alice'), path)));
+    }
+  });
+
+  it('are written only by the judging API', async () => {
+    for (const path of scorePaths) {
+      await assertFails(setDoc(doc(as('judge1'), path), { total: 100 }));
+      await assertFails(setDoc(doc(as('organizer1'), path), { total: 100 }));
+    }
+  });
+});
+
+describe('judge assignments', () => {
+  it('keep declared conflicts between the judge and organizers', async () => {
+    await assertSucceeds(getDoc(doc(as('judge1'), 'judges/judge1')));
+    await assertSucceeds(getDoc(doc(as('organizer1'), 'judges/judge1')));
+    await assertFails(getDoc(doc(as('judge2'), 'judges/judge1')));
+    await assertFails(getDoc(doc(as('carol'), 'judges/judge1')));
+  });
+
+  it('cannot be changed from a client', async () => {
+    await assertFails(setDoc(doc(as('judge1'), 'judges/judge1'), { conflicts: [] }));
+    await assertFails(updateDoc(doc(as('organizer1'), 'phase1_submissions/alice'), { assignedJudges: ['judge2'] }));
+    await assertFails(updateDoc(doc(as('alice'), 'phase1_submissions/alice'), { assignedJudges: ['judge2'] }));
+  });
+
+  it('are not something a team can set when it submits', async () => {
+    await assertFails(setDoc(doc(as('carol'), 'phase1_submissions/carol'), {
+      userId: 'carol',
+      youtubeLink: 'https://youtu.be/c',
+      assignedJudges: ['judge2']
+    }));
+    await assertFails(setDoc(doc(as('carol'), 'phase1_submissions/carol'), {
+      userId: 'carol',
+      youtubeLink: 'https://youtu.be/c',
+      points: 100
+    }));
+    await assertSucceeds(setDoc(doc(as('carol'), 'phase1_submissions/carol'), {
+      userId: 'carol',
+      youtubeLink: 'https://youtu.be/c'
+    }));
+  });
+
+  it('leave only the video link editable after submitting', async () => {
+    await assertFails(updateDoc(doc(as('alice'), 'phase1_submissions/alice'), { points: 100 }));
+    await assertFails(updateDoc(doc(as('alice'), 'phase1_submissions/alice'), { review: 'Great' }));
+    await assertSucceeds(updateDoc(doc(as('alice'), 'phase1_submissions/alice'), {
+      youtubeLink: 'https://youtu.be/b',
+      updatedAt: new Date().toISOString()
+    }));
+  });
+});
+
+describe('finale', () => {
+  it('shows live points to staff only', async () => {
+    await assertSucceeds(getDoc(doc(as('judge2'), 'finale_teams/alice')));
+    await assertFails(getDoc(doc(as('alice'), 'finale_teams/alice')));
+    await assertFails(setDoc(doc(as('organizer1'), 'finale_teams/alice'), { points: 100 }));
+  });
+});
@@ -0,0 +1,60 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { createTestEnv, firestoreAs, seed, STAFF_ROLES } from './helpers.js';
+
+let testEnv;
+const as = (uid) => firestoreAs(testEnv, uid);
+
+before(async () => {
+  testEnv = await createTestEnv('results');
+});
+
+after(() => testEnv.cleanup());
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await seed(testEnv, {
+    ...STAFF_ROLES,
+    'phase1_scoreboard/alice': { rank: 1, teamName: 'Spark Plugs', normalizedPoints: 1.2 }
+  });
+});
+
+const publish = (published) => seed(testEnv, { 'config/phase1Results': { published } });
+
+describe('phase1_scoreboard', () => {
+  it('is hidden from participants until results are published', async () => {
+    await assertFails(getDoc(doc(as('alice'), 'phase1_scoreboard/alice')));
+    await publish(false);
+    await assertFails(getDoc(doc(as('alice'), 'phase1_scoreboard/alice')));
+    await assertFails(getDoc(doc(testEnv.unauthenticatedContext().firestore(), 'phase1_scoreboard/alice')));
+  });
+
+  it('is visible to staff before publication', async () => {
+    await publish(false);
+    await assertSucceeds(getDoc(doc(as('judge1'), 'phase1_scoreboard/alice')));
+    await assertSucceeds(getDoc(doc(as('organizer1'), 'phase1_scoreboard/alice')));
+    await assertFails(getDoc(doc(as('volunteer1'), 'phase1_scoreboard/alice')));
+  });
+
+  it('is visible to everyone once published', async () => {
+    await publish(true);
+    await assertSucceeds(getDoc(doc(as('alice'), 'phase1_scoreboard/alice')));
+    await assertSucceeds(getDoc(doc(as('bob'), 'phase1_scoreboard/alice')));
+    await assertSucceeds(getDoc(doc(testEnv.unauthenticatedContext().firestore(), 'phase1_scoreboard/alice')));
+  });
+
+  it('is written only by the judging API', async () => {
+    await publish(true);
+    await assertFails(setDoc(doc(as('alice'), 'phase1_scoreboard/alice'), { rank: 1 }));
+    await assertFails(setDoc(doc(as('organizer1'), 'phase1_scoreboard/alice'), { rank: 2 }));
+  });
+});
+
+describe('publishing results', () => {
+  it('cannot be done from a client', async () => {
+    await assertFails(setDoc(doc(as('alice'), 'config/phase1Results'), { published: true }));
+    await assertFails(setDoc(doc(as('organizer1'), 'config/phase1Results'), { published: true }));
+    await assertFails(setDoc(doc(as('super1'), 'config/phase1Results'), { published: true }));
+  });
+});
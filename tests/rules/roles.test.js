@@ -0,0 +1,84 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { createTestEnv, firestoreAs, seed, STAFF_ROLES } from './helpers.js';
+
+let testEnv;
+const as = (uid) => firestoreAs(testEnv, uid);
+
+before(async () => {
+  testEnv = await createTestEnv('roles');
+});
+
+after(() => testEnv.cleanup());
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await seed(testEnv, {
+    ...STAFF_ROLES,
+    'users/alice': { name: 'Alice', paymentStatus: 'unpaid' },
+    'payments/req1': { teamId: 'alice', status: 'paid', email: 'alice@example.com', amount: '500.00' },
+    'payment_adjustments/adj1': { type: 'refund', paymentDocId: 'req1', amount: 100 },
+    'audit_log/entry1': { action: 'payment.refund', target: 'payments/req1' }
+  });
+});
+
+describe('roles/{uid}', () => {
+  it('lets an account read its own role', async () => {
+    await assertSucceeds(getDoc(doc(as('judge1'), 'roles/judge1')));
+  });
+
+  it('hides other accounts\' roles from everyone but superadmins', async () => {
+    await assertFails(getDoc(doc(as('judge1'), 'roles/finance1')));
+    await assertFails(getDoc(doc(as('organizer1'), 'roles/judge1')));
+    await assertFails(getDoc(doc(as('alice'), 'roles/judge1')));
+    await assertSucceeds(getDoc(doc(as('super1'), 'roles/judge1')));
+  });
+
+  it('cannot be written from a client, even by a superadmin', async () => {
+    await assertFails(setDoc(doc(as('alice'), 'roles/alice'), { role: 'organizer' }));
+    await assertFails(setDoc(doc(as('judge1'), 'roles/judge1'), { role: 'superadmin' }));
+    await assertFails(setDoc(doc(as('super1'), 'roles/alice'), { role: 'finance' }));
+  });
+});
+
+describe('role checks', () => {
+  it('lets staff read participant profiles, but not volunteers or other participants', async () => {
+    await assertSucceeds(getDoc(doc(as('judge1'), 'users/alice')));
+    await assertSucceeds(getDoc(doc(as('organizer1'), 'users/alice')));
+    await assertFails(getDoc(doc(as('volunteer1'), 'users/alice')));
+    await assertFails(getDoc(doc(as('bob'), 'users/alice')));
+  });
+
+  it('limits payments to finance and organizers', async () => {
+    await assertSucceeds(getDoc(doc(as('finance1'), 'payments/req1')));
+    await assertSucceeds(getDoc(doc(as('organizer1'), 'payments/req1')));
+    await assertFails(getDoc(doc(as('judge1'), 'payments/req1')));
+    await assertFails(getDoc(doc(as('volunteer1'), 'payments/req1')));
+  });
+
+  it('limits the adjustments ledger to finance', async () => {
+    await assertSucceeds(getDoc(doc(as('finance1'), 'payment_adjustments/adj1')));
+    await assertFails(getDoc(doc(as('organizer1'), 'payment_adjustments/adj1')));
+    await assertFails(getDoc(doc(as('judge1'), 'payment_adjustments/adj1')));
+  });
+
+  it('gives superadmins every role', async () => {
+    await assertSucceeds(getDoc(doc(as('super1'), 'users/alice')));
+    await assertSucceeds(getDoc(doc(as('super1'), 'payment_adjustments/adj1')));
+    await assertSucceeds(getDoc(doc(as('super1'), 'audit_log/entry1')));
+  });
+
+  it('keeps the audit log away from judges and participants', async () => {
+    await assertSucceeds(getDoc(doc(as('organizer1'), 'audit_log/entry1')));
+    await assertFails(getDoc(doc(as('judge1'), 'audit_log/entry1')));
+    await assertFails(getDoc(doc(as('alice'), 'audit_log/entry1')));
+    await assertFails(setDoc(doc(as('organizer1'), 'audit_log/forged'), { action: 'payment.refund' }));
+  });
+
+  it('sends organizer changes to config and sponsors through the API', async () => {
+    await assertFails(setDoc(doc(as('organizer1'), 'config/pricing'), { costPerMember: 1 }));
+    await assertFails(setDoc(doc(as('organizer1'), 'config/event'), { phases: {} }));
+    await assertFails(setDoc(doc(as('organizer1'), 'sponsors/acme'), { name: 'Acme' }));
+  });
+});
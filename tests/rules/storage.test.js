@@ -0,0 +1,102 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { getMetadata, ref, uploadBytes } from 'firebase/storage';
+import { createTestEnv, eventSchedule, seed, STAFF_ROLES, team } from './helpers.js';
+
+const PPTX = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+const PDF = 'application/pdf';
+const MB = 1024 * 1024;
+
+let testEnv;
+const storageAs = (uid) => testEnv.authenticatedContext(uid).storage();
+
+const upload = (storage, path, contentType, size = 1024) =>
+  uploadBytes(ref(storage, path), new Uint8Array(size), { contentType });
+
+before(async () => {
+  testEnv = await createTestEnv('storage');
+});
+
+after(() => testEnv.cleanup());
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.clearStorage();
+  await seed(testEnv, {
+    ...STAFF_ROLES,
+    'config/event': eventSchedule(),
+    'teams/alice': team({ paymentStatus: 'paid', phase2Selected: true }),
+    'teams/carol': team({ userId: 'carol', registrationId: 'SS-0003', paymentStatus: 'paid' }),
+    'teams/unpaid': team({ userId: 'unpaid', registrationId: 'SS-0002', paymentStatus: 'initiated' })
+  });
+});
+
+describe('presentations/', () => {
+  it('accepts a paid team\'s deck under its own name', async () => {
+    await assertSucceeds(upload(storageAs('alice'), 'presentations/alice_deck.pptx', PPTX));
+  });
+
+  it('rejects uploads under another account\'s name', async () => {
+    await assertFails(upload(storageAs('mallory'), 'presentations/alice_deck.pptx', PPTX));
+    await assertFails(upload(storageAs('mallory'), 'presentations/deck.pptx', PPTX));
+  });
+
+  it('rejects other file types', async () => {
+    await assertFails(upload(storageAs('alice'), 'presentations/alice_deck.pdf', PDF));
+  });
+
+  it('rejects uploads from teams that have not paid', async () => {
+    await assertFails(upload(storageAs('unpaid'), 'presentations/unpaid_deck.pptx', PPTX));
+  });
+
+  it('rejects uploads once phase 1 closes', async () => {
+    await seed(testEnv, { 'config/event': eventSchedule({ open: false }) });
+    await assertFails(upload(storageAs('alice'), 'presentations/alice_deck.pptx', PPTX));
+  });
+
+  it('never replaces a submitted deck', async () => {
+    await assertSucceeds(upload(storageAs('alice'), 'presentations/alice_deck.pptx', PPTX));
+    await assertFails(upload(storageAs('alice'), 'presentations/alice_deck.pptx', PPTX));
+  });
+
+  it('is readable by the owner and staff only', async () => {
+    await testEnv.withSecurityRulesDisabled((context) =>
+      upload(context.storage(), 'presentations/alice_deck.pptx', PPTX));
+    await assertSucceeds(getMetadata(ref(storageAs('alice'), 'presentations/alice_deck.pptx')));
+    await assertSucceeds(getMetadata(ref(storageAs('judge1'), 'presentations/alice_deck.pptx')));
+    await assertFails(getMetadata(ref(storageAs('mallory'), 'presentations/alice_deck.pptx')));
+  });
+});
+
+describe('proposals/', () => {
+  it('accepts and replaces a selected team\'s PDF while phase 2 is open', async () => {
+    await assertSucceeds(upload(storageAs('alice'), 'proposals/alice_plan.pdf', PDF));
+    await assertSucceeds(upload(storageAs('alice'), 'proposals/alice_plan.pdf', PDF));
+  });
+
+  it('rejects files of 10 MB or more', async () => {
+    await assertFails(upload(storageAs('alice'), 'proposals/alice_plan.pdf', PDF, 10 * MB));
+  });
+
+  it('rejects other file types, other names and unpaid teams', async () => {
+    await assertFails(upload(storageAs('alice'), 'proposals/alice_plan.pptx', PPTX));
+    await assertFails(upload(storageAs('mallory'), 'proposals/alice_plan.pdf', PDF));
+    await assertFails(upload(storageAs('unpaid'), 'proposals/unpaid_plan.pdf', PDF));
+  });
+
+  it('rejects paid teams that were not selected for phase 2', async () => {
+    await assertFails(upload(storageAs('carol'), 'proposals/carol_plan.pdf', PDF));
+  });
+
+  it('rejects uploads once phase 2 closes', async () => {
+    await seed(testEnv, { 'config/event': eventSchedule({ open: false }) });
+    await assertFails(upload(storageAs('alice'), 'proposals/alice_plan.pdf', PDF));
+  });
+});
+
+describe('everything else', () => {
+  it('is closed', async () => {
+    await assertFails(upload(storageAs('alice'), 'alice_notes.pdf', PDF));
+    await assertFails(upload(storageAs('organizer1'), 'sponsors/logo.pdf', PDF));
+  });
+});
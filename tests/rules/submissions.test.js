@@ -0,0 +1,115 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { deleteDoc, doc, getDoc, setDoc, Timestamp, updateDoc } from 'firebase/firestore';
+import { createTestEnv, eventSchedule, firestoreAs, seed, STAFF_ROLES, team } from './helpers.js';
+
+let testEnv;
+const as = (uid) => firestoreAs(testEnv, uid);
+
+before(async () => {
+  testEnv = await createTestEnv('submissions');
+});
+
+after(() => testEnv.cleanup());
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await seed(testEnv, {
+    ...STAFF_ROLES,
+    'config/event': eventSchedule(),
+    'teams/alice': team({ paymentStatus: 'paid', phase2Selected: true, memberUids: ['alice', 'bob'] }),
+    'teams/carol': team({ userId: 'carol', registrationId: 'SS-0002', paymentStatus: 'paid' }),
+    'teams/unpaid': team({ userId: 'unpaid', registrationId: 'SS-0003', paymentStatus: 'initiated' }),
+    'phase1_submissions/alice': { userId: 'alice', youtubeLink: 'https://youtu.be/a' }
+  });
+});
+
+const phase1 = (uid) => ({ userId: uid, youtubeLink: 'https://youtu.be/x', submittedAt: new Date().toISOString() });
+
+const phase2 = (overrides = {}) => ({
+  proposalUrl: 'proposals/alice_plan.pdf',
+  youtubeVideoUrl: 'https://youtu.be/p',
+  submittedAt: new Date().toISOString(),
+  status: 'pending',
+  ...overrides
+});
+
+describe('phase 1 submissions', () => {
+  it('can be made by a paid team while phase 1 is open', async () => {
+    await assertSucceeds(setDoc(doc(as('carol'), 'phase1_submissions/carol'), phase1('carol')));
+  });
+
+  it('cannot be made by a team that has not paid', async () => {
+    await assertFails(setDoc(doc(as('unpaid'), 'phase1_submissions/unpaid'), phase1('unpaid')));
+  });
+
+  it('cannot be made without a team or for another team', async () => {
+    await assertFails(setDoc(doc(as('mallory'), 'phase1_submissions/mallory'), phase1('mallory')));
+    await assertFails(setDoc(doc(as('mallory'), 'phase1_submissions/unpaid'), phase1('unpaid')));
+  });
+
+  it('cannot be made before phase 1 opens or after it closes', async () => {
+    const upcoming = { opensAt: Timestamp.fromMillis(Date.now() + 60 * 60 * 1000), closesAt: null };
+    await seed(testEnv, { 'config/event': { phases: { phase1: upcoming } } });
+    await assertFails(setDoc(doc(as('carol'), 'phase1_submissions/carol'), phase1('carol')));
+
+    await seed(testEnv, { 'config/event': eventSchedule({ open: false }) });
+    await assertFails(setDoc(doc(as('carol'), 'phase1_submissions/carol'), phase1('carol')));
+  });
+
+  it('falls back to the original deadline when no schedule is saved', async () => {
+    await testEnv.withSecurityRulesDisabled((context) => deleteDoc(doc(context.firestore(), 'config/event')));
+    await assertFails(setDoc(doc(as('carol'), 'phase1_submissions/carol'), phase1('carol')));
+  });
+
+  it('only takes video link changes while phase 1 is open', async () => {
+    const update = { youtubeLink: 'https://youtu.be/b', updatedAt: new Date().toISOString() };
+    await assertSucceeds(updateDoc(doc(as('alice'), 'phase1_submissions/alice'), update));
+    await assertFails(updateDoc(doc(as('bob'), 'phase1_submissions/alice'), update));
+
+    await seed(testEnv, { 'config/event': eventSchedule({ open: false }) });
+    await assertFails(updateDoc(doc(as('alice'), 'phase1_submissions/alice'), update));
+  });
+
+  it('are readable by staff only, since they carry judging fields', async () => {
+    await assertSucceeds(getDoc(doc(as('judge1'), 'phase1_submissions/alice')));
+    await assertSucceeds(getDoc(doc(as('organizer1'), 'phase1_submissions/alice')));
+    await assertFails(getDoc(doc(as('alice'), 'phase1_submissions/alice')));
+    await assertFails(getDoc(doc(as('bob'), 'phase1_submissions/alice')));
+    await assertFails(getDoc(doc(as('mallory'), 'phase1_submissions/alice')));
+  });
+});
+
+describe('phase 2 submissions', () => {
+  it('can be made and revised by a selected team while phase 2 is open', async () => {
+    const ref = doc(as('alice'), 'phase2_submissions/alice');
+    await assertSucceeds(setDoc(ref, phase2()));
+    await assertSucceeds(updateDoc(ref, { youtubeVideoUrl: 'https://youtu.be/q', submittedAt: new Date().toISOString() }));
+  });
+
+  it('cannot be made by a team that has not paid', async () => {
+    await assertFails(setDoc(doc(as('unpaid'), 'phase2_submissions/unpaid'), phase2({ proposalUrl: 'proposals/unpaid_plan.pdf' })));
+  });
+
+  it('cannot be made by a paid team that was not selected', async () => {
+    await assertFails(setDoc(doc(as('carol'), 'phase2_submissions/carol'), phase2({ proposalUrl: 'proposals/carol_plan.pdf' })));
+  });
+
+  it('cannot be made after phase 2 closes', async () => {
+    await seed(testEnv, { 'config/event': eventSchedule({ open: false }) });
+    await assertFails(setDoc(doc(as('alice'), 'phase2_submissions/alice'), phase2()));
+  });
+
+  it('cannot set its own review status or points', async () => {
+    await assertFails(setDoc(doc(as('alice'), 'phase2_submissions/alice'), phase2({ status: 'selected' })));
+    await assertFails(setDoc(doc(as('alice'), 'phase2_submissions/alice'), phase2({ points: 100 })));
+  });
+
+  it('is fixed once it has been reviewed', async () => {
+    await seed(testEnv, { 'phase2_submissions/alice': phase2({ status: 'reviewed' }) });
+    await assertFails(updateDoc(doc(as('alice'), 'phase2_submissions/alice'), {
+      youtubeVideoUrl: 'https://youtu.be/q',
+      status: 'pending'
+    }));
+  });
+});
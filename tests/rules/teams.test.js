@@ -0,0 +1,131 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import { createTestEnv, eventSchedule, firestoreAs, seed, STAFF_ROLES, team } from './helpers.js';
+
+let testEnv;
+const as = (uid) => firestoreAs(testEnv, uid);
+
+before(async () => {
+  testEnv = await createTestEnv('teams');
+});
+
+after(() => testEnv.cleanup());
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await seed(testEnv, {
+    ...STAFF_ROLES,
+    'config/event': eventSchedule(),
+    'teams/alice': team({ memberUids: ['alice', 'bob'] }),
+    'teams/alice/roster_history/entry1': { type: 'add', email: 'bob@example.com' },
+    'teams/paid': team({ userId: 'paid', registrationId: 'SS-0003', paymentStatus: 'paid' }),
+    'users/dave': { name: 'Dave', teamId: 'alice' },
+    'team_invites/INVITE1': { teamId: 'alice' }
+  });
+});
+
+describe('reading teams', () => {
+  it('is open to the owner, joined members and staff', async () => {
+    await assertSucceeds(getDoc(doc(as('alice'), 'teams/alice')));
+    await assertSucceeds(getDoc(doc(as('bob'), 'teams/alice')));
+    await assertSucceeds(getDoc(doc(as('judge1'), 'teams/alice')));
+    await assertSucceeds(getDoc(doc(as('finance1'), 'teams/alice')));
+  });
+
+  it('is closed to outsiders and volunteers', async () => {
+    await assertFails(getDoc(doc(as('mallory'), 'teams/alice')));
+    await assertFails(getDoc(doc(as('volunteer1'), 'teams/alice')));
+    await assertFails(getDoc(doc(testEnv.unauthenticatedContext().firestore(), 'teams/alice')));
+  });
+
+  it('extends to roster history but not invite codes', async () => {
+    await assertSucceeds(getDoc(doc(as('alice'), 'teams/alice/roster_history/entry1')));
+    await assertSucceeds(getDoc(doc(as('bob'), 'teams/alice/roster_history/entry1')));
+    await assertFails(getDoc(doc(as('mallory'), 'teams/alice/roster_history/entry1')));
+    await assertFails(getDoc(doc(as('alice'), 'team_invites/INVITE1')));
+  });
+});
+
+describe('registering a team', () => {
+  const newTeam = (uid, overrides = {}) => team({ userId: uid, registrationId: 'SS-0100', ...overrides });
+
+  it('works for an account registering its own unpaid team', async () => {
+    await assertSucceeds(setDoc(doc(as('erin'), 'teams/erin'), newTeam('erin')));
+  });
+
+  it('rejects teams registered for someone else', async () => {
+    await assertFails(setDoc(doc(as('erin'), 'teams/frank'), newTeam('frank')));
+    await assertFails(setDoc(doc(as('erin'), 'teams/erin'), newTeam('frank')));
+  });
+
+  it('rejects teams that claim to be paid or carry server fields', async () => {
+    await assertFails(setDoc(doc(as('erin'), 'teams/erin'), newTeam('erin', { paymentStatus: 'paid' })));
+    await assertFails(setDoc(doc(as('erin'), 'teams/erin'), newTeam('erin', { amountDue: 0 })));
+    await assertFails(setDoc(doc(as('erin'), 'teams/erin'), newTeam('erin', { memberUids: ['erin', 'mallory'] })));
+  });
+
+  it('rejects teams whose size does not match their members', async () => {
+    await assertFails(setDoc(doc(as('erin'), 'teams/erin'), newTeam('erin', { teamSize: 3 })));
+    await assertFails(setDoc(doc(as('erin'), 'teams/erin'), newTeam('erin', {
+      teamSize: 1,
+      members: [{ name: 'Erin', email: 'erin@example.com' }]
+    })));
+  });
+
+  it('rejects accounts that already joined another team', async () => {
+    await assertFails(setDoc(doc(as('dave'), 'teams/dave'), newTeam('dave')));
+  });
+
+  it('closes with registration', async () => {
+    await seed(testEnv, { 'config/event': eventSchedule({ open: false }) });
+    await assertFails(setDoc(doc(as('erin'), 'teams/erin'), newTeam('erin')));
+  });
+});
+
+describe('editing a team', () => {
+  it('lets the owner change the allowed fields before paying', async () => {
+    await assertSucceeds(updateDoc(doc(as('alice'), 'teams/alice'), {
+      teamName: 'Spark Plugs 2',
+      couponCode: 'EARLY'
+    }));
+  });
+
+  it('leaves member changes to the roster API', async () => {
+    await assertFails(updateDoc(doc(as('alice'), 'teams/alice'), {
+      teamSize: 3,
+      members: [
+        { name: 'Alice', email: 'alice@example.com' },
+        { name: 'Bob', email: 'bob@example.com' },
+        { name: 'Cara', email: 'cara@example.com' }
+      ]
+    }));
+  });
+
+  it('never lets the owner touch payment or membership fields', async () => {
+    const ref = doc(as('alice'), 'teams/alice');
+    await assertFails(updateDoc(ref, { paymentStatus: 'paid' }));
+    await assertFails(updateDoc(ref, { amountDue: 0 }));
+    await assertFails(updateDoc(ref, { paymentRequestId: 'forged' }));
+    await assertFails(updateDoc(ref, { rosterFeeDue: 0 }));
+    await assertFails(updateDoc(ref, { memberUids: ['alice', 'mallory'] }));
+    await assertFails(updateDoc(ref, { registrationId: 'SS-9999' }));
+    await assertFails(updateDoc(ref, { userId: 'mallory' }));
+  });
+
+  it('is locked once the team has paid', async () => {
+    await assertFails(updateDoc(doc(as('paid'), 'teams/paid'), { teamName: 'Renamed' }));
+  });
+
+  it('is locked when registration closes', async () => {
+    await seed(testEnv, { 'config/event': eventSchedule({ open: false }) });
+    await assertFails(updateDoc(doc(as('alice'), 'teams/alice'), { teamName: 'Renamed' }));
+  });
+
+  it('is not open to members, outsiders or staff', async () => {
+    await assertFails(updateDoc(doc(as('bob'), 'teams/alice'), { teamName: 'Renamed' }));
+    await assertFails(updateDoc(doc(as('mallory'), 'teams/alice'), { teamName: 'Renamed' }));
+    await assertFails(updateDoc(doc(as('organizer1'), 'teams/alice'), { teamName: 'Renamed' }));
+    await assertFails(updateDoc(doc(as('finance1'), 'teams/alice'), { paymentStatus: 'paid' }));
+  });
+});
@@ -6,7 +6,11 @@ export default defineConfig({
   plugins: [react()],
   server: {
     port: 3000,
-    host: true
+    host: true,
+    // Forward API calls to the Express server (npm start)
+    proxy: {
+      '/api': 'http://localhost:5000'
+    }
   },
   // Remove the optimizeDeps exclusion that might be causing issues
   build: {